@@ -0,0 +1,33 @@
+-- Migration: Add owner_email to leads, deals and clients
+-- The owner is the team member responsible for the record (their "book of business").
+-- Unlike created_by_email, the owner can be reassigned.
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS owner_email VARCHAR(255);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS owner_email VARCHAR(255);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS owner_email VARCHAR(255);
+
+-- Create indexes for "my records" filters
+CREATE INDEX IF NOT EXISTS idx_leads_owner_email ON leads(owner_email);
+CREATE INDEX IF NOT EXISTS idx_deals_owner_email ON deals(owner_email);
+CREATE INDEX IF NOT EXISTS idx_contacts_owner_email ON contacts(owner_email);
+
+-- Backfill: existing leads are owned by whoever created them
+UPDATE leads
+SET owner_email = created_by_email
+WHERE owner_email IS NULL
+  AND created_by_email IS NOT NULL;
+
+-- Backfill: deals inherit the owner of their lead
+UPDATE deals d
+SET owner_email = l.owner_email
+FROM leads l
+WHERE d.lead_id = l.id
+  AND d.owner_email IS NULL;
+
+-- Backfill: clients inherit the owner of the lead they were converted from
+UPDATE contacts c
+SET owner_email = l.owner_email
+FROM leads l
+WHERE c.lead_id = l.id
+  AND c.is_client = true
+  AND c.owner_email IS NULL;
@@ -0,0 +1,48 @@
+-- Migration: Add full-text search vectors for GET /api/search
+-- Each searchable table gets a generated tsvector column (kept in sync by Postgres)
+-- and a GIN index. The 'simple' configuration is used everywhere so names, emails
+-- and phone numbers are indexed as-is (no stemming or stop words).
+-- Weights: A = primary identifiers (names, titles), B = secondary fields, C = free text.
+
+-- Contacts and clients: name, email, phone, company
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(company, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(email, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(phone, '')), 'B')
+  ) STORED;
+
+-- Leads: name and notes
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+  ) STORED;
+
+-- Deals: title and notes
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+  ) STORED;
+
+-- Activities: type and description
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(activity_type, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+  ) STORED;
+
+-- Chat messages: message body
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce(message, ''))
+  ) STORED;
+
+-- Create GIN indexes for fast @@ matching
+CREATE INDEX IF NOT EXISTS idx_contacts_search_vector ON contacts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_leads_search_vector ON leads USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_deals_search_vector ON deals USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_activities_search_vector ON activities USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search_vector ON chat_messages USING GIN (search_vector);
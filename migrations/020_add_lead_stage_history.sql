@@ -0,0 +1,35 @@
+-- Migration: Add lead_stage_history table
+-- Records every stage and status change of a lead so we can report
+-- time-in-stage and stage-to-stage conversion rates.
+
+CREATE TABLE IF NOT EXISTS lead_stage_history (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    field VARCHAR(20) NOT NULL, -- 'stage' or 'status'
+    from_value VARCHAR(50), -- NULL for the initial value when the lead was created
+    to_value VARCHAR(50) NOT NULL,
+    changed_by_email VARCHAR(255), -- User who made the change (NULL for backfilled rows)
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_lead_id ON lead_stage_history(lead_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_field ON lead_stage_history(field, to_value);
+
+-- Backfill: existing leads get their current stage and status as the initial entry,
+-- dated when the lead was created (earlier history was never stored)
+INSERT INTO lead_stage_history (lead_id, field, from_value, to_value, changed_at)
+SELECT l.id, 'stage', NULL, l.stage, l.created_at AT TIME ZONE 'UTC'
+FROM leads l
+WHERE l.stage IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM lead_stage_history h WHERE h.lead_id = l.id AND h.field = 'stage'
+  );
+
+INSERT INTO lead_stage_history (lead_id, field, from_value, to_value, changed_at)
+SELECT l.id, 'status', NULL, l.status, l.created_at AT TIME ZONE 'UTC'
+FROM leads l
+WHERE l.status IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM lead_stage_history h WHERE h.lead_id = l.id AND h.field = 'status'
+  );
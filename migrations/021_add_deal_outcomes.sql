@@ -0,0 +1,15 @@
+-- Migration: Split the 'closed' deal stage into closed_won / closed_lost
+-- Adds the loss reason and close date captured when a deal is closed.
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS loss_reason TEXT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS close_date DATE;
+
+-- Create index for won/lost reporting by close date
+CREATE INDEX IF NOT EXISTS idx_deals_stage_close_date ON deals(stage, close_date);
+
+-- Map existing closed deals: 'closed' was only ever used for won business
+-- (client deal counts treated it as won), and the last update is the best close date we have
+UPDATE deals
+SET stage = 'closed_won',
+    close_date = COALESCE(close_date, updated_at::date)
+WHERE stage = 'closed';
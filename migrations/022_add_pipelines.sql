@@ -0,0 +1,60 @@
+-- Migration: Add configurable deal pipelines
+-- Each pipeline has its own ordered stages with a win probability and colour.
+-- deals.stage stores the stage key; deals.pipeline_id says which pipeline the key belongs to.
+
+CREATE TABLE IF NOT EXISTS pipelines (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false, -- Used when a deal is created without a pipeline
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only one pipeline can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_single_default ON pipelines(is_default) WHERE is_default = true;
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+    id SERIAL PRIMARY KEY,
+    pipeline_id INTEGER NOT NULL REFERENCES pipelines(id) ON DELETE CASCADE,
+    key VARCHAR(50) NOT NULL, -- Stored in deals.stage, e.g. 'proposal'
+    name VARCHAR(100) NOT NULL, -- Display name, e.g. 'Proposal Sent'
+    position INTEGER NOT NULL, -- Order of the stage in the pipeline (0 = first)
+    probability INTEGER NOT NULL DEFAULT 0 CHECK (probability BETWEEN 0 AND 100), -- Win probability in percent
+    color VARCHAR(7), -- Hex colour, e.g. '#3B82F6'
+    is_won BOOLEAN NOT NULL DEFAULT false, -- Deals here are closed as won
+    is_lost BOOLEAN NOT NULL DEFAULT false, -- Deals here are closed as lost (loss reason required)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (pipeline_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_pipeline_id ON pipeline_stages(pipeline_id, position);
+
+-- Deals belong to a pipeline
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS pipeline_id INTEGER REFERENCES pipelines(id);
+CREATE INDEX IF NOT EXISTS idx_deals_pipeline_id ON deals(pipeline_id);
+
+-- Seed the default pipeline with the stages that used to be hard-coded
+INSERT INTO pipelines (name, description, is_default)
+SELECT 'Sales', 'Default sales pipeline', true
+WHERE NOT EXISTS (SELECT 1 FROM pipelines WHERE is_default = true);
+
+INSERT INTO pipeline_stages (pipeline_id, key, name, position, probability, color, is_won, is_lost)
+SELECT p.id, s.key, s.name, s.position, s.probability, s.color, s.is_won, s.is_lost
+FROM pipelines p
+CROSS JOIN (VALUES
+    ('new', 'New', 0, 10, '#94A3B8', false, false),
+    ('qualified', 'Qualified', 1, 25, '#3B82F6', false, false),
+    ('proposal', 'Proposal', 2, 50, '#8B5CF6', false, false),
+    ('negotiation', 'Negotiation', 3, 75, '#F59E0B', false, false),
+    ('closed_won', 'Won', 4, 100, '#22C55E', true, false),
+    ('closed_lost', 'Lost', 5, 0, '#EF4444', false, true)
+) AS s(key, name, position, probability, color, is_won, is_lost)
+WHERE p.is_default = true
+ON CONFLICT (pipeline_id, key) DO NOTHING;
+
+-- Backfill: existing deals go into the default pipeline
+UPDATE deals
+SET pipeline_id = (SELECT id FROM pipelines WHERE is_default = true)
+WHERE pipeline_id IS NULL;
@@ -0,0 +1,19 @@
+-- Migration: Add forecasting fields to deals
+-- Deals carry their own probability and expected close date (like the unused legacy pipeline table),
+-- so GET /api/deals/forecast can weight open deals by month and owner.
+
+-- Win probability in percent; defaults from the stage and follows it when the deal changes stage
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS probability INTEGER CHECK (probability BETWEEN 0 AND 100);
+-- When the deal is expected to close (open deals); close_date is set once it is won or lost
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS expected_close_date DATE;
+
+-- Create index for forecast queries by month
+CREATE INDEX IF NOT EXISTS idx_deals_expected_close_date ON deals(expected_close_date);
+
+-- Backfill: existing deals take the probability of their current stage
+UPDATE deals d
+SET probability = ps.probability
+FROM pipeline_stages ps
+WHERE ps.pipeline_id = d.pipeline_id
+  AND ps.key = d.stage
+  AND d.probability IS NULL;
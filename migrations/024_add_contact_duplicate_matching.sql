@@ -0,0 +1,15 @@
+-- Migration: Support duplicate contact detection
+-- Lookups compare normalized email, phone digits and fuzzy (trigram) name/company matches.
+
+-- Trigram similarity for fuzzy name/company matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Normalized email: lower-cased, trimmed
+CREATE INDEX IF NOT EXISTS idx_contacts_email_normalized ON contacts (LOWER(TRIM(email)));
+
+-- Phone digits: last 10 digits so "+91 98765-43210" and "9876543210" match
+CREATE INDEX IF NOT EXISTS idx_contacts_phone_digits ON contacts (RIGHT(REGEXP_REPLACE(phone, '\D', '', 'g'), 10));
+
+-- Fuzzy name/company matching
+CREATE INDEX IF NOT EXISTS idx_contacts_name_trgm ON contacts USING GIN (LOWER(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_company_trgm ON contacts USING GIN (LOWER(company) gin_trgm_ops);
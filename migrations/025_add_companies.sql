@@ -0,0 +1,63 @@
+-- Migration: Add companies as first-class records
+-- Until now a company was only the free-text contacts.company string.
+-- Contacts and leads now point at a companies row via company_id; contacts.company is kept
+-- in sync with the company's name so existing lists, search and exports keep working.
+
+CREATE TABLE IF NOT EXISTS companies (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    -- Lower-cased name with collapsed whitespace; "ACME  Inc" and "Acme Inc" are the same company
+    name_key VARCHAR(255) GENERATED ALWAYS AS (LOWER(BTRIM(REGEXP_REPLACE(name, '\s+', ' ', 'g')))) STORED,
+    domain VARCHAR(255), -- Website domain without protocol or www, e.g. 'acme.com'
+    industry VARCHAR(100),
+    verticals TEXT, -- Comma-separated, same format as leads.verticals
+    size VARCHAR(20), -- Employee range: '1-10', '11-50', '51-200', '201-500', '501-1000', '1000+'
+    address TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (name_key)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_domain ON companies (LOWER(domain)) WHERE domain IS NOT NULL;
+
+-- Link contacts and leads to their company (leads.company_id existed but was never used)
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_contacts_company_id ON contacts(company_id);
+
+-- leads.company_id was never written; clear stray values before adding the foreign key
+UPDATE leads SET company_id = NULL WHERE company_id IS NOT NULL AND company_id NOT IN (SELECT id FROM companies);
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'leads_company_id_fkey') THEN
+        ALTER TABLE leads ADD CONSTRAINT leads_company_id_fkey FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+CREATE INDEX IF NOT EXISTS idx_leads_company_id ON leads(company_id);
+
+-- Backfill: one company per distinct contacts.company (ignoring case and extra spaces),
+-- named after the most common spelling
+INSERT INTO companies (name)
+SELECT DISTINCT ON (name_key) name
+FROM (
+    SELECT
+        BTRIM(REGEXP_REPLACE(company, '\s+', ' ', 'g')) AS name,
+        LOWER(BTRIM(REGEXP_REPLACE(company, '\s+', ' ', 'g'))) AS name_key,
+        COUNT(*) AS uses
+    FROM contacts
+    WHERE company IS NOT NULL AND BTRIM(company) <> ''
+    GROUP BY 1, 2
+) spellings
+ORDER BY name_key, uses DESC, name
+ON CONFLICT (name_key) DO NOTHING;
+
+UPDATE contacts c
+SET company_id = co.id, company = co.name
+FROM companies co
+WHERE c.company_id IS NULL
+  AND c.company IS NOT NULL
+  AND co.name_key = LOWER(BTRIM(REGEXP_REPLACE(c.company, '\s+', ' ', 'g')));
+
+UPDATE leads l
+SET company_id = c.company_id
+FROM contacts c
+WHERE l.contact_id = c.id AND l.company_id IS NULL AND c.company_id IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Migration: Multiple contacts per lead or client, each with a role
+-- leads.contact_id stays the lead's primary contact; lead_contacts records the other people
+-- involved (decision maker, billing, technical...) and can also give the primary contact a role.
+-- A row belongs either to a lead (lead_id) or to a client (client_id, a contacts row with is_client = true).
+
+CREATE TABLE IF NOT EXISTS lead_contacts (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES contacts(id) ON DELETE CASCADE,
+    contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'other' CHECK (role IN ('decision_maker', 'billing', 'technical', 'other')),
+    created_by_email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((lead_id IS NULL) <> (client_id IS NULL)),
+    UNIQUE (lead_id, contact_id),
+    UNIQUE (client_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_contacts_lead_id ON lead_contacts(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_contacts_client_id ON lead_contacts(client_id);
+CREATE INDEX IF NOT EXISTS idx_lead_contacts_contact_id ON lead_contacts(contact_id);
@@ -0,0 +1,36 @@
+-- Migration: Record the events shown on the lead / client timeline
+-- Adds deal stage history, who created / completed a task and when it was completed,
+-- and indexes for the timeline's activity lookups.
+
+CREATE TABLE IF NOT EXISTS deal_stage_history (
+    id SERIAL PRIMARY KEY,
+    deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    from_stage VARCHAR(50), -- NULL for the stage the deal was created in
+    to_stage VARCHAR(50) NOT NULL,
+    changed_by_email VARCHAR(255), -- User who made the change (NULL for backfilled rows)
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_id ON deal_stage_history(deal_id, changed_at);
+
+-- Existing deals get one row for their current stage, dated when the deal was created
+INSERT INTO deal_stage_history (deal_id, from_stage, to_stage, changed_at)
+SELECT d.id, NULL, d.stage, d.created_at AT TIME ZONE 'UTC'
+FROM deals d
+WHERE d.stage IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM deal_stage_history h WHERE h.deal_id = d.id
+  );
+
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS created_by_email VARCHAR(255);
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS completed_by_email VARCHAR(255);
+
+-- Done tasks were last touched when they were completed, as far as we know
+UPDATE team_tasks
+SET completed_at = updated_at AT TIME ZONE 'UTC'
+WHERE status = 'done'
+  AND completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activities_lead_id ON activities(lead_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_activities_contact_id ON activities(contact_id, created_at);
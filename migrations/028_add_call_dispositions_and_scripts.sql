@@ -0,0 +1,45 @@
+-- Migration: Cold call dispositions, callers, follow-up callbacks and call scripts
+-- Dispositions are a configurable list (managed at /api/calls/dispositions); cold_calls.outcome is kept
+-- as free text for older clients and backfilled into the disposition where it matches one.
+
+CREATE TABLE IF NOT EXISTS call_dispositions (
+    key VARCHAR(50) PRIMARY KEY, -- Stored in cold_calls.disposition, e.g. 'voicemail'
+    label VARCHAR(100) NOT NULL, -- Display name, e.g. 'Left voicemail'
+    position INTEGER NOT NULL DEFAULT 0, -- Display order (0 = first)
+    is_active BOOLEAN NOT NULL DEFAULT true, -- Inactive dispositions stay on old calls but can't be picked
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO call_dispositions (key, label, position) VALUES
+    ('connected', 'Connected', 0),
+    ('voicemail', 'Left voicemail', 1),
+    ('no_answer', 'No answer', 2),
+    ('wrong_number', 'Wrong number', 3),
+    ('callback_requested', 'Callback requested', 4),
+    ('not_interested', 'Not interested', 5)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS call_scripts (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL, -- The script text shown while calling
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by_email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE cold_calls ADD COLUMN IF NOT EXISTS disposition VARCHAR(50) REFERENCES call_dispositions(key) ON UPDATE CASCADE;
+ALTER TABLE cold_calls ADD COLUMN IF NOT EXISTS caller_email VARCHAR(255); -- Team member who made the call
+ALTER TABLE cold_calls ADD COLUMN IF NOT EXISTS next_callback_at TIMESTAMPTZ;
+ALTER TABLE cold_calls ADD COLUMN IF NOT EXISTS callback_task_id INTEGER REFERENCES team_tasks(id) ON DELETE SET NULL;
+ALTER TABLE cold_calls ADD COLUMN IF NOT EXISTS call_script_id INTEGER REFERENCES call_scripts(id) ON DELETE SET NULL;
+
+UPDATE cold_calls
+SET disposition = LOWER(BTRIM(outcome))
+WHERE disposition IS NULL
+  AND LOWER(BTRIM(outcome)) IN (SELECT key FROM call_dispositions);
+
+CREATE INDEX IF NOT EXISTS idx_cold_calls_caller_email ON cold_calls(caller_email, call_date);
+CREATE INDEX IF NOT EXISTS idx_cold_calls_disposition ON cold_calls(disposition);
@@ -0,0 +1,29 @@
+-- Migration: Cold calling sessions (call queues)
+-- A rep starts a session from a lead filter; the matching leads are queued in call order
+-- (least recently contacted first). GET /api/call-sessions/:id/next hands them out one at a time,
+-- and logging a cold call for the handed-out lead marks it as called.
+
+CREATE TABLE IF NOT EXISTS call_sessions (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255),
+    owner_email VARCHAR(255) NOT NULL, -- Rep working through the queue
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb, -- Lead filter the queue was built from
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP -- Set once every queued lead has been called or skipped
+);
+
+CREATE TABLE IF NOT EXISTS call_session_leads (
+    session_id INTEGER NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL, -- Call order (1 = first)
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'called', 'skipped')),
+    handed_out_at TIMESTAMP,
+    called_at TIMESTAMP,
+    cold_call_id INTEGER REFERENCES cold_calls(id) ON DELETE SET NULL, -- The call logged for this lead
+    PRIMARY KEY (session_id, lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_owner_email ON call_sessions(owner_email);
+CREATE INDEX IF NOT EXISTS idx_call_session_leads_position ON call_session_leads(session_id, position);
+CREATE INDEX IF NOT EXISTS idx_call_session_leads_lead_id ON call_session_leads(lead_id) WHERE status = 'in_progress';
@@ -0,0 +1,17 @@
+-- Migration: Scheduled onsite visits with an assigned rep, check-in and check-out
+-- Visits can now be planned ahead (status 'scheduled', visit_date = planned start) for a rep.
+-- POST /api/visits/:id/check-in and /check-out record when and where the rep arrived and left;
+-- the visit duration is computed from the two timestamps. in_time / out_time stay for visits
+-- logged after the fact.
+
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS assigned_to_email VARCHAR(255); -- Rep doing the visit
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS created_by_email VARCHAR(255);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS check_in_latitude NUMERIC(9, 6);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS check_in_longitude NUMERIC(9, 6);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS checked_out_at TIMESTAMPTZ;
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS check_out_latitude NUMERIC(9, 6);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS check_out_longitude NUMERIC(9, 6);
+
+-- Agenda lookups (GET /api/visits/schedule?rep=)
+CREATE INDEX IF NOT EXISTS idx_onsite_visits_assigned_to_email ON onsite_visits(assigned_to_email, visit_date);
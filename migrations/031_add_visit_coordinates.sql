@@ -0,0 +1,7 @@
+-- Migration: Geocoded coordinates for onsite visits
+-- Filled from the visit address by the configured geocoder (GEOCODER) when a visit is created or its
+-- address changes, and on demand by GET /api/visits/route. Cleared when the address changes.
+
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS latitude NUMERIC(9, 6);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS longitude NUMERIC(9, 6);
+ALTER TABLE onsite_visits ADD COLUMN IF NOT EXISTS geocoded_at TIMESTAMPTZ; -- Last geocoding attempt, also set when the address wasn't found
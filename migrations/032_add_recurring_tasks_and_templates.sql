@@ -0,0 +1,34 @@
+-- Migration: Recurring tasks and task templates
+-- A recurring task carries an RRULE-style rule (see src/lib/recurrence.ts). Marking it done creates
+-- the next occurrence, which points back to it through recurrence_parent_id (unique, so completing,
+-- reopening and completing again never creates a second copy).
+-- Task templates are named checklists that create several tasks on a lead or client in one call.
+
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS recurrence_rule TEXT; -- e.g. 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;COUNT=12'
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS recurrence_parent_id INTEGER REFERENCES team_tasks(id) ON DELETE SET NULL;
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS recurrence_occurrence INTEGER NOT NULL DEFAULT 1; -- 1 = first task of the series
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_tasks_recurrence_parent_id ON team_tasks(recurrence_parent_id)
+    WHERE recurrence_parent_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS task_templates (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    created_by_email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS task_template_items (
+    id SERIAL PRIMARY KEY,
+    template_id INTEGER NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0, -- Order in the checklist (0 = first)
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    priority VARCHAR(20) NOT NULL DEFAULT 'normal',
+    due_in_days INTEGER, -- Due this many days after the template is applied (NULL = no due date)
+    recurrence_rule TEXT -- Makes the created task recurring
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_items_template_id ON task_template_items(template_id, position);
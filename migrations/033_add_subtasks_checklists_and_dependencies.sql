@@ -0,0 +1,34 @@
+-- Migration: Subtasks, checklist items and task dependencies
+-- A subtask is a task with a parent_task_id; it belongs to the same lead or client as its parent.
+-- Checklist items are lightweight to-dos inside one task.
+-- A task with open blockers (task_dependencies) cannot be marked done.
+
+ALTER TABLE team_tasks ADD COLUMN IF NOT EXISTS parent_task_id INTEGER REFERENCES team_tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_team_tasks_parent_task_id ON team_tasks(parent_task_id);
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL REFERENCES team_tasks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0, -- Order in the checklist (0 = first)
+    title VARCHAR(255) NOT NULL,
+    is_done BOOLEAN NOT NULL DEFAULT false,
+    completed_at TIMESTAMP,
+    completed_by_email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_id ON task_checklist_items(task_id, position);
+
+-- task_id is blocked by blocked_by_task_id until that task is done
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    task_id INTEGER NOT NULL REFERENCES team_tasks(id) ON DELETE CASCADE,
+    blocked_by_task_id INTEGER NOT NULL REFERENCES team_tasks(id) ON DELETE CASCADE,
+    created_by_email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (task_id, blocked_by_task_id),
+    CHECK (task_id <> blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by_task_id ON task_dependencies(blocked_by_task_id);
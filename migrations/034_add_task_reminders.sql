@@ -0,0 +1,17 @@
+-- Migration: Task due-date reminders and overdue escalation
+-- The task reminder job (GET /api/cron/task-reminders, run by Vercel Cron) notifies assignees about tasks that are due soon
+-- or overdue, and escalates tasks overdue for several days to the assignee's manager.
+-- task_reminders records each reminder sent so it fires once per task and due date
+-- (moving the due date makes the task eligible again).
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS manager_email VARCHAR(255); -- Receives escalations for this user's overdue tasks
+
+CREATE TABLE IF NOT EXISTS task_reminders (
+    task_id INTEGER NOT NULL REFERENCES team_tasks(id) ON DELETE CASCADE,
+    reminder_type VARCHAR(50) NOT NULL, -- 'task_due_soon', 'task_overdue', 'task_overdue_escalation'
+    due_date TIMESTAMP NOT NULL, -- The due date the reminder was sent for
+    recipient_email VARCHAR(255) NOT NULL,
+    automation_run_id INTEGER REFERENCES automation_runs(id) ON DELETE SET NULL,
+    sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (task_id, reminder_type, due_date)
+);
@@ -0,0 +1,15 @@
+-- Migration: Task comments
+-- A discussion thread on each task (/api/tasks/:id/comments). Comments can mention team members as @email;
+-- mentioned users get a 'mention' notification. Comments also appear in the lead/client timeline.
+
+CREATE TABLE IF NOT EXISTS task_comments (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL REFERENCES team_tasks(id) ON DELETE CASCADE,
+    author_email VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    mentions TEXT[] NOT NULL DEFAULT '{}', -- Lowercased emails mentioned in the body
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments(task_id, created_at);
@@ -0,0 +1,46 @@
+/**
+ * Script to run the migration: 029_add_call_sessions.sql
+ * 
+ * This script adds call sessions and their lead queues.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import pool from '../src/lib/db';
+
+async function runMigration() {
+  const client = await pool.connect();
+  
+  try {
+    console.log('Starting migration: 029_add_call_sessions.sql');
+    
+    // Read the migration file
+    const migrationPath = join(__dirname, '../migrations/029_add_call_sessions.sql');
+    const sql = readFileSync(migrationPath, 'utf8');
+    
+    // Execute the migration
+    await client.query('BEGIN');
+    await client.query(sql);
+    await client.query('COMMIT');
+    
+    console.log('Migration completed successfully!');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    console.error('Migration failed:', error.message);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+runMigration()
+  .then(() => {
+    console.log('Migration script finished');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration script failed:', error);
+    process.exit(1);
+  });
+
@@ -0,0 +1,46 @@
+/**
+ * Script to run the migration: 024_add_contact_duplicate_matching.sql
+ * 
+ * This script enables pg_trgm and adds the indexes used to detect duplicate contacts.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import pool from '../src/lib/db';
+
+async function runMigration() {
+  const client = await pool.connect();
+  
+  try {
+    console.log('Starting migration: 024_add_contact_duplicate_matching.sql');
+    
+    // Read the migration file
+    const migrationPath = join(__dirname, '../migrations/024_add_contact_duplicate_matching.sql');
+    const sql = readFileSync(migrationPath, 'utf8');
+    
+    // Execute the migration
+    await client.query('BEGIN');
+    await client.query(sql);
+    await client.query('COMMIT');
+    
+    console.log('Migration completed successfully!');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    console.error('Migration failed:', error.message);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+runMigration()
+  .then(() => {
+    console.log('Migration script finished');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration script failed:', error);
+    process.exit(1);
+  });
+
@@ -60,6 +60,17 @@ import notificationsRouter from './routes/notifications';
 import chatRouter from './routes/chat';
 import pricingRouter from './routes/pricing';
 import presentationsRouter from './routes/presentations';
+import searchRouter from './routes/search';
+import pipelinesRouter from './routes/pipelines';
+import contactsRouter from './routes/contacts';
+import companiesRouter from './routes/companies';
+import exportRouter from './routes/export';
+import leadContactsRouter from './routes/lead-contacts';
+import callScriptsRouter from './routes/call-scripts';
+import callSessionsRouter from './routes/call-sessions';
+import taskTemplatesRouter from './routes/task-templates';
+import cronRouter from './routes/cron';
+import { authenticate } from './middleware/auth.middleware';
 
 // ============================================================================
 // Performance Middleware
@@ -90,13 +101,13 @@ const corsOptions = process.env.FRONTEND_URL
       origin: process.env.FRONTEND_URL,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'x-user-email'],
+      allowedHeaders: ['Content-Type', 'Authorization'],
     }
   : {
       origin: true, // Allow all origins in development
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'x-user-email'],
+      allowedHeaders: ['Content-Type', 'Authorization'],
     };
 app.use(cors(corsOptions));
 
@@ -149,6 +160,20 @@ app.use(express.urlencoded({
   limit: '10mb', // Limit form data size
 }));
 
+// ============================================================================
+// Scheduled Jobs
+// ============================================================================
+// Called by Vercel Cron with the CRON_SECRET bearer token instead of a user token,
+// so the router is mounted before authentication (see cron.middleware.ts)
+app.use('/api/cron', cronRouter);
+
+// ============================================================================
+// Authentication
+// ============================================================================
+// Every router below requires a valid bearer token (see auth.middleware.ts)
+// /api/health and /api/cron are defined above this line, so they skip it
+app.use('/api', authenticate);
+
 // ============================================================================
 // API Routes
 // ============================================================================
@@ -207,6 +232,34 @@ app.use('/api/pricing', pricingRouter);
 // Mount the presentations router at /api
 app.use('/api', presentationsRouter);
 
+// Mount the search router at /api/search
+app.use('/api/search', searchRouter);
+
+// Mount the pipelines router at /api/pipelines
+app.use('/api/pipelines', pipelinesRouter);
+
+// Mount the contacts router at /api/contacts
+app.use('/api/contacts', contactsRouter);
+
+// Mount the companies router at /api/companies
+app.use('/api/companies', companiesRouter);
+
+// Mount the export router at /api/export
+app.use('/api/export', exportRouter);
+
+// Mount the call scripts router at /api/call-scripts
+app.use('/api/call-scripts', callScriptsRouter);
+
+// Mount the call sessions router at /api/call-sessions
+app.use('/api/call-sessions', callSessionsRouter);
+
+// Mount the task templates router at /api/task-templates
+app.use('/api/task-templates', taskTemplatesRouter);
+
+// Mount the lead contacts router at /api
+// This router handles /api/leads/:id/contacts and /api/clients/:id/contacts
+app.use('/api', leadContactsRouter);
+
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
   res.json({ 
@@ -219,12 +272,22 @@ app.get('/', (req: Request, res: Response) => {
       deals: '/api/deals',
       tasks: '/api/tasks',
       calls: '/api/calls',
+      callScripts: '/api/call-scripts',
+      callSessions: '/api/call-sessions',
+      taskTemplates: '/api/task-templates',
       visits: '/api/visits',
       clients: '/api/clients',
       activities: '/api/activities',
       team: '/api/team',
+      search: '/api/search',
+      pipelines: '/api/pipelines',
+      contacts: '/api/contacts',
+      companies: '/api/companies',
+      export: '/api/export/:entity',
       credentials: '/api/clients/:clientId/credentials',
-      files: '/api/clients/:clientId/files'
+      files: '/api/clients/:clientId/files',
+      leadContacts: '/api/leads/:id/contacts',
+      clientContacts: '/api/clients/:id/contacts'
     }
   });
 });
@@ -0,0 +1,161 @@
+/**
+ * Call Scripts Controller
+ *
+ * Handles HTTP requests for call script endpoints.
+ */
+
+import { Request, Response } from 'express';
+import { validateCreateCallScript, validateUpdateCallScript } from '../validators/call-scripts.validator';
+import * as callScriptsService from '../services/call-scripts.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id route param, sending a 400 response when it is not a number
+ */
+function parseCallScriptId(req: Request, res: Response): number | null {
+  const callScriptId = parseInt(req.params.id, 10);
+  if (Number.isNaN(callScriptId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid call script ID',
+    });
+    return null;
+  }
+  return callScriptId;
+}
+
+function sendNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    message: 'Call script not found',
+  });
+}
+
+/**
+ * Handles GET /api/call-scripts - Active scripts (?includeInactive=true for all)
+ */
+export async function getCallScripts(req: Request, res: Response): Promise<void> {
+  try {
+    const scripts = await callScriptsService.getAllCallScripts(req.query.includeInactive === 'true');
+
+    res.status(200).json({
+      success: true,
+      data: scripts,
+      count: scripts.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching call scripts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch call scripts',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function getCallScript(req: Request, res: Response): Promise<void> {
+  try {
+    const callScriptId = parseCallScriptId(req, res);
+    if (callScriptId === null) return;
+
+    const script = await callScriptsService.getCallScriptById(callScriptId);
+    if (!script) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: script,
+    });
+  } catch (error: any) {
+    console.error('Error fetching call script:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch call script',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function createCallScript(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreateCallScript(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const script = await callScriptsService.createCallScript(validation.data!, req.user!.email);
+
+    res.status(201).json({
+      success: true,
+      data: script,
+      message: 'Call script created successfully',
+    });
+  } catch (error: any) {
+    console.error('Error creating call script:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create call script',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function updateCallScript(req: Request, res: Response): Promise<void> {
+  try {
+    const callScriptId = parseCallScriptId(req, res);
+    if (callScriptId === null) return;
+
+    const validation = validateUpdateCallScript(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const script = await callScriptsService.updateCallScript(callScriptId, validation.data!);
+    if (!script) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: script,
+      message: 'Call script updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating call script:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update call script',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function deleteCallScript(req: Request, res: Response): Promise<void> {
+  try {
+    const callScriptId = parseCallScriptId(req, res);
+    if (callScriptId === null) return;
+
+    const deleted = await callScriptsService.deleteCallScript(callScriptId);
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Call script deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting call script:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete call script',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Call Sessions Controller
+ *
+ * Handles HTTP requests for call session (call queue) endpoints.
+ */
+
+import { Request, Response } from 'express';
+import { validateCreateCallSession } from '../validators/call-sessions.validator';
+import { resolveOwnerFilter } from '../validators/ownership.validator';
+import * as callSessionsService from '../services/call-sessions.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id route param, sending a 400 response when it is not a number
+ */
+function parseSessionId(req: Request, res: Response): number | null {
+  const sessionId = parseInt(req.params.id, 10);
+  if (Number.isNaN(sessionId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid call session ID',
+    });
+    return null;
+  }
+  return sessionId;
+}
+
+/**
+ * Handles GET /api/call-sessions - The current user's call sessions with their stats
+ */
+export async function getCallSessions(req: Request, res: Response): Promise<void> {
+  try {
+    const sessions = await callSessionsService.getCallSessionsForOwner(req.user!.email);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+      count: sessions.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching call sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch call sessions',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/call-sessions/:id - A call session with its stats
+ */
+export async function getCallSession(req: Request, res: Response): Promise<void> {
+  try {
+    const sessionId = parseSessionId(req, res);
+    if (sessionId === null) return;
+
+    const session = await callSessionsService.getCallSessionById(sessionId);
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: 'Call session not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: session,
+    });
+  } catch (error: any) {
+    console.error('Error fetching call session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch call session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/call-sessions - Builds a call queue from a lead filter
+ */
+export async function createCallSession(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreateCallSession(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { name, filters, maxLeads } = validation.data!;
+    const { owner, ...leadFilters } = filters;
+    const session = await callSessionsService.createCallSession({
+      name,
+      ownerEmail: req.user!.email,
+      filters: { ...leadFilters, ownerEmail: resolveOwnerFilter(owner, req.user!.email) },
+      maxLeads,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: session,
+      message: 'Call session created successfully',
+    });
+  } catch (error: any) {
+    if (error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error creating call session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create call session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/call-sessions/:id/next - The lead to call now (?skip=true skips the current one)
+ *
+ * data.lead is null once the queue is empty; the session is then completed.
+ */
+export async function getNextLead(req: Request, res: Response): Promise<void> {
+  try {
+    const sessionId = parseSessionId(req, res);
+    if (sessionId === null) return;
+
+    const { session, item } = await callSessionsService.getNextLead(sessionId, req.user!.email, {
+      skip: req.query.skip === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        session,
+        lead: item,
+      },
+      message: item ? undefined : 'No more leads in this call session',
+    });
+  } catch (error: any) {
+    if (error.statusCode === 404 || error.statusCode === 403) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error fetching next call session lead:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch the next lead',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
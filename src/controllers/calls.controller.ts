@@ -6,6 +6,8 @@
 
 import { Request, Response } from 'express';
 import * as callsService from '../services/calls.service';
+import { validateCreateDisposition, validateUpdateDisposition } from '../validators/calls.validator';
+import { sendValidationErrors } from '../lib/http-error';
 
 export async function getAllCalls(req: Request, res: Response): Promise<void> {
   try {
@@ -61,7 +63,7 @@ export async function getCallById(req: Request, res: Response): Promise<void> {
 
 export async function createCall(req: Request, res: Response): Promise<void> {
   try {
-    const { lead_id, call_date, duration, outcome, notes } = req.body;
+    const { lead_id, call_date, duration, outcome, disposition, next_callback_at, call_script_id, notes } = req.body;
 
     if (!lead_id || !call_date) {
       res.status(400).json({
@@ -71,11 +73,23 @@ export async function createCall(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    if (next_callback_at && isNaN(Date.parse(next_callback_at))) {
+      res.status(400).json({
+        success: false,
+        message: 'next_callback_at must be a valid date',
+      });
+      return;
+    }
+
     const newCall = await callsService.createColdCall({
       lead_id: parseInt(lead_id),
       call_date,
       duration: duration ? parseInt(duration) : undefined,
       outcome,
+      disposition,
+      caller_email: req.user!.email,
+      next_callback_at,
+      call_script_id: call_script_id ? parseInt(call_script_id) : undefined,
       notes,
     });
 
@@ -84,6 +98,15 @@ export async function createCall(req: Request, res: Response): Promise<void> {
       data: newCall,
     });
   } catch (error: any) {
+    // Unknown lead (404) or invalid disposition / call script (400)
+    if (error.statusCode === 404 || error.statusCode === 400) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     console.error('Error creating call:', error);
     res.status(500).json({
       success: false,
@@ -104,11 +127,14 @@ export async function updateCall(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const { call_date, duration, outcome, notes } = req.body;
+    const { call_date, duration, outcome, disposition, call_script_id, notes } = req.body;
     const updatedCall = await callsService.updateColdCall(id, {
       call_date,
       duration: duration ? parseInt(duration) : undefined,
       outcome,
+      disposition,
+      // null detaches the script
+      call_script_id: call_script_id === null ? null : call_script_id ? parseInt(call_script_id) : undefined,
       notes,
     });
 
@@ -125,6 +151,14 @@ export async function updateCall(req: Request, res: Response): Promise<void> {
       data: updatedCall,
     });
   } catch (error: any) {
+    if (error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     console.error('Error updating call:', error);
     res.status(500).json({
       success: false,
@@ -168,3 +202,95 @@ export async function deleteCall(req: Request, res: Response): Promise<void> {
   }
 }
 
+
+/**
+ * Handles GET /api/calls/dispositions - Dispositions in display order (?includeInactive=true for all)
+ */
+export async function getDispositions(req: Request, res: Response): Promise<void> {
+  try {
+    const dispositions = await callsService.getCallDispositions(req.query.includeInactive === 'true');
+    res.status(200).json({
+      success: true,
+      data: dispositions,
+      count: dispositions.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching call dispositions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch call dispositions',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/calls/dispositions - Adds a disposition to the list
+ */
+export async function createDisposition(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreateDisposition(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const disposition = await callsService.createCallDisposition(validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: disposition,
+      message: 'Disposition created successfully',
+    });
+  } catch (error: any) {
+    if (error.statusCode === 409) {
+      res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error creating call disposition:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create call disposition',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/calls/dispositions/:key - Renames, reorders or (de)activates a disposition
+ */
+export async function updateDisposition(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateUpdateDisposition(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const disposition = await callsService.updateCallDisposition(req.params.key, validation.data!);
+    if (!disposition) {
+      res.status(404).json({
+        success: false,
+        message: 'Disposition not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: disposition,
+      message: 'Disposition updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating call disposition:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update call disposition',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -9,14 +9,7 @@ import * as chatService from '../services/chat.service';
 
 export async function sendMessage(req: Request, res: Response): Promise<void> {
   try {
-    const senderEmail = req.header('x-user-email');
-    if (!senderEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const senderEmail = req.user!.email;
 
     const { receiverEmail, message } = req.body;
 
@@ -58,14 +51,7 @@ export async function sendMessage(req: Request, res: Response): Promise<void> {
 
 export async function getConversation(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const { otherUserEmail } = req.params;
 
@@ -98,14 +84,7 @@ export async function getConversation(req: Request, res: Response): Promise<void
 
 export async function getConversations(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const conversations = await chatService.getUserConversations(userEmail);
 
@@ -125,14 +104,7 @@ export async function getConversations(req: Request, res: Response): Promise<voi
 
 export async function markAsRead(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const { senderEmail } = req.body;
 
@@ -162,14 +134,7 @@ export async function markAsRead(req: Request, res: Response): Promise<void> {
 
 export async function getUnreadCount(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const count = await chatService.getUnreadMessageCount(userEmail);
 
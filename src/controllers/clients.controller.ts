@@ -6,10 +6,15 @@
 
 import { Request, Response } from 'express';
 import * as clientsService from '../services/clients.service';
+import * as leadContactsService from '../services/lead-contacts.service';
+import { validateUpdateOwner, resolveOwnerFilter } from '../validators/ownership.validator';
+import { sendValidationErrors } from '../lib/http-error';
 
 export async function getAllClients(req: Request, res: Response): Promise<void> {
   try {
-    const clients = await clientsService.getAllClients();
+    const clients = await clientsService.getAllClients({
+      ownerEmail: resolveOwnerFilter(req.query.owner, req.user!.email),
+    });
     res.status(200).json({
       success: true,
       data: clients,
@@ -36,7 +41,10 @@ export async function getClientById(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const client = await clientsService.getClientById(id);
+    const [client, contacts] = await Promise.all([
+      clientsService.getClientById(id),
+      leadContactsService.listLinkedContacts({ type: 'client', id }),
+    ]);
     if (!client) {
       res.status(404).json({
         success: false,
@@ -47,7 +55,7 @@ export async function getClientById(req: Request, res: Response): Promise<void>
 
     res.status(200).json({
       success: true,
-      data: client,
+      data: { ...client, contacts },
     });
   } catch (error: any) {
     console.error('Error fetching client:', error);
@@ -77,6 +85,7 @@ export async function createClient(req: Request, res: Response): Promise<void> {
       phone,
       company,
       lead_id: lead_id ? parseInt(lead_id, 10) : undefined,
+      owner_email: req.user!.email,
     });
 
     res.status(201).json({
@@ -134,6 +143,60 @@ export async function updateClient(req: Request, res: Response): Promise<void> {
   }
 }
 
+export async function updateClientOwner(req: Request, res: Response): Promise<void> {
+  try {
+    const id = req.params.id;
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid client ID',
+      });
+      return;
+    }
+
+    const validation = validateUpdateOwner(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const updatedClient = await clientsService.updateClientOwner(
+      id,
+      validation.data!.ownerEmail,
+      req.user!.email
+    );
+
+    if (!updatedClient) {
+      res.status(404).json({
+        success: false,
+        message: 'Client not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updatedClient,
+    });
+  } catch (error: any) {
+    console.error('Error updating client owner:', error);
+
+    if (error.message.includes('does not exist')) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update client owner',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
 export async function deleteClient(req: Request, res: Response): Promise<void> {
   try {
     const id = req.params.id;
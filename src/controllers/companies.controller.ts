@@ -0,0 +1,191 @@
+/**
+ * Companies Controller
+ *
+ * Handles HTTP requests for company endpoints.
+ */
+
+import { Request, Response } from 'express';
+import {
+  validateCreateCompany,
+  validateUpdateCompany,
+  validateListCompaniesQuery,
+} from '../validators/companies.validator';
+import * as companiesService from '../services/companies.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id route param, sending a 400 response when it is not a number
+ */
+function parseCompanyId(req: Request, res: Response): number | null {
+  const companyId = parseInt(req.params.id, 10);
+  if (Number.isNaN(companyId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid company ID',
+    });
+    return null;
+  }
+  return companyId;
+}
+
+function sendNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    message: 'Company not found',
+  });
+}
+
+export async function getCompanies(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateListCompaniesQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const companies = await companiesService.getAllCompanies(validation.data!);
+
+    res.status(200).json({
+      success: true,
+      data: companies,
+      count: companies.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching companies:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch companies',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/companies/:id - The company with its leads, deals, clients and deal totals
+ */
+export async function getCompany(req: Request, res: Response): Promise<void> {
+  try {
+    const companyId = parseCompanyId(req, res);
+    if (companyId === null) return;
+
+    const detail = await companiesService.getCompanyDetail(companyId);
+    if (!detail) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: detail,
+    });
+  } catch (error: any) {
+    console.error('Error fetching company:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch company',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function createCompany(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreateCompany(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const company = await companiesService.createCompany(validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: company,
+      message: 'Company created successfully',
+    });
+  } catch (error: any) {
+    console.error('Error creating company:', error);
+
+    // Name or domain already used by another company
+    if (error.statusCode === 409) {
+      res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create company',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function updateCompany(req: Request, res: Response): Promise<void> {
+  try {
+    const companyId = parseCompanyId(req, res);
+    if (companyId === null) return;
+
+    const validation = validateUpdateCompany(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const company = await companiesService.updateCompany(companyId, validation.data!);
+    if (!company) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: company,
+      message: 'Company updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating company:', error);
+
+    // Name or domain already used by another company
+    if (error.statusCode === 409) {
+      res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update company',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function deleteCompany(req: Request, res: Response): Promise<void> {
+  try {
+    const companyId = parseCompanyId(req, res);
+    if (companyId === null) return;
+
+    const deleted = await companiesService.deleteCompany(companyId);
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Company deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting company:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete company',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
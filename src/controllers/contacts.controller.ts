@@ -0,0 +1,70 @@
+/**
+ * Contacts Controller
+ *
+ * Handles HTTP requests for duplicate lookups and contact merges.
+ */
+
+import { Request, Response } from 'express';
+import { validateMergeContacts, validateDuplicatesQuery } from '../validators/contacts.validator';
+import * as contactsService from '../services/contacts.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+export async function findDuplicates(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateDuplicatesQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const duplicates = await contactsService.findDuplicateContacts(validation.data!);
+
+    res.status(200).json({
+      success: true,
+      data: duplicates,
+      count: duplicates.length,
+    });
+  } catch (error: any) {
+    console.error('Error finding duplicate contacts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to find duplicate contacts',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function mergeContacts(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateMergeContacts(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { sourceId, targetId } = validation.data!;
+    const result = await contactsService.mergeContacts(sourceId, targetId);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Contacts merged successfully',
+    });
+  } catch (error: any) {
+    console.error('Error merging contacts:', error);
+
+    if (error.statusCode === 400 || error.statusCode === 404) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to merge contacts',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
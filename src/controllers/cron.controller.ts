@@ -0,0 +1,29 @@
+/**
+ * Cron Controller
+ *
+ * Handles the HTTP entry points of scheduled jobs (see routes/cron.ts).
+ */
+
+import { Request, Response } from 'express';
+import * as taskRemindersService from '../services/task-reminders.service';
+
+/**
+ * Handles GET /api/cron/task-reminders - Sends due-soon, overdue and escalation reminders
+ */
+export async function runTaskReminders(req: Request, res: Response): Promise<void> {
+  try {
+    const summary = await taskRemindersService.runTaskReminders('scheduled');
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error('Error running task reminders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run task reminders',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -48,3 +48,29 @@ export async function getDashboardSummary(req: Request, res: Response): Promise<
   }
 }
 
+
+/**
+ * Handles GET /api/dashboard/stage-metrics - Retrieves lead time-in-stage and conversion metrics
+ * 
+ * Flow: Client requests metrics → controller calls service → service aggregates lead_stage_history → return metrics
+ * 
+ * @param req - Express request object (contains request data)
+ * @param res - Express response object (used to send response back to client)
+ */
+export async function getStageMetrics(req: Request, res: Response): Promise<void> {
+  try {
+    const metrics = await dashboardService.getStageMetrics();
+    
+    res.status(200).json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error: any) {
+    console.error('Error fetching stage metrics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load stage metrics',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -20,30 +20,43 @@ import { Request, Response } from 'express';
 import {
   validateCreateDeal,
   validateMoveDealStage,
+  validateUpdateDeal,
+  validateForecastQuery,
 } from '../validators/deals.validator';
+import { validateUpdateOwner, resolveOwnerFilter } from '../validators/ownership.validator';
 import * as dealsService from '../services/deals.service';
+import { sendValidationErrors } from '../lib/http-error';
 
 /**
- * Handles GET /api/deals/pipeline - Retrieves all deals grouped by stage
+ * Handles GET /api/deals/pipeline - Retrieves the deals of a pipeline grouped by stage
  * 
- * The sales pipeline groups deals into 5 stages:
- * - new: Just created, not yet qualified
- * - qualified: Deal has been qualified as a real opportunity
- * - proposal: Proposal has been sent to the customer
- * - negotiation: Deal is in negotiation phase
- * - closed: Deal has been closed (won or lost)
+ * Stages come from the pipeline's configuration (see /api/pipelines), so the response
+ * lists them in order with their probability and colour. Without ?pipelineId= the default pipeline is used.
  * 
- * Flow: Client requests pipeline → controller calls service → service queries and groups deals → return grouped object
+ * Flow: Client requests pipeline → controller calls service → service loads pipeline stages and groups deals → return stages with deals
  * 
  * This endpoint is useful for displaying deals in a Kanban-style pipeline view.
+ * Supports ?owner=me (or ?owner=<email>) to only show deals owned by that team member.
  * 
  * @param req - Express request object (contains request data)
  * @param res - Express response object (used to send response back to client)
  */
 export async function getDealsPipeline(req: Request, res: Response): Promise<void> {
   try {
-    // Call the service to get all deals grouped by stage
-    const dealsByStage = await dealsService.listDealsByStage();
+    let pipelineId: number | undefined;
+    if (req.query.pipelineId !== undefined) {
+      pipelineId = parseInt(String(req.query.pipelineId), 10);
+      if (Number.isNaN(pipelineId)) {
+        res.status(400).json({ success: false, message: 'Invalid pipeline ID' });
+        return;
+      }
+    }
+
+    // Call the service to get the pipeline's deals grouped by stage
+    const dealsByStage = await dealsService.listDealsByStage({
+      ownerEmail: resolveOwnerFilter(req.query.owner, req.user!.email),
+      pipelineId,
+    });
     
     // Send a successful response (200 OK) with the grouped deals
     res.status(200).json({
@@ -53,6 +66,65 @@ export async function getDealsPipeline(req: Request, res: Response): Promise<voi
   } catch (error: any) {
     // If something goes wrong, send an error response
     console.error('Error fetching deals pipeline:', error);
+
+    // Unknown pipeline (404)
+    if (error.statusCode === 404) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process deal request',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/deals/forecast - Returns the weighted sales forecast
+ * 
+ * Open deals are weighted by their probability in the month they are expected to close;
+ * won deals count at full value in the month they closed. Figures are returned per month,
+ * per owner and in total, with best case (every open deal wins) and worst case (only won deals).
+ * 
+ * Query params: from (YYYY-MM, default current month), months (1-24, default 6), pipelineId, owner (me or email)
+ * 
+ * Flow: Client requests forecast → controller validates horizon → service sums deals per month and owner → return forecast
+ * 
+ * @param req - Express request object (contains query parameters)
+ * @param res - Express response object (used to send response back to client)
+ */
+export async function getDealsForecast(req: Request, res: Response): Promise<void> {
+  try {
+    // Validate the query string
+    const validation = validateForecastQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const query = validation.data!;
+
+    // Call the service to build the forecast
+    const forecast = await dealsService.getDealForecast({
+      from: query.from || new Date().toISOString().slice(0, 7),
+      months: query.months,
+      pipelineId: query.pipelineId,
+      ownerEmail: resolveOwnerFilter(query.owner, req.user!.email),
+    });
+
+    // Send a successful response (200 OK) with the forecast
+    res.status(200).json({
+      success: true,
+      data: forecast,
+    });
+  } catch (error: any) {
+    // If something goes wrong, send an error response
+    console.error('Error fetching deals forecast:', error);
     res.status(500).json({
       success: false,
       message: 'Failed to process deal request',
@@ -77,14 +149,7 @@ export async function createDeal(req: Request, res: Response): Promise<void> {
     // Validate the request body
     const validation = validateCreateDeal(req.body);
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -93,9 +158,13 @@ export async function createDeal(req: Request, res: Response): Promise<void> {
     // Call the service to create the deal
     const newDeal = await dealsService.createDealFromLead({
       leadId: dealData.leadId,
+      createdByEmail: req.user!.email,
       title: dealData.title,
       dealValue: dealData.dealValue,
       notes: dealData.notes,
+      pipelineId: dealData.pipelineId,
+      probability: dealData.probability,
+      expectedCloseDate: dealData.expectedCloseDate,
     });
     
     // Send a successful response (201 Created) with the new deal
@@ -108,7 +177,7 @@ export async function createDeal(req: Request, res: Response): Promise<void> {
     // If something goes wrong, send an error response
     console.error('Error creating deal:', error);
     
-    // Check if it's a "lead not found" error (404)
+    // Check if it's a "lead not found" or "pipeline not found" error (404)
     if (error.message.includes('does not exist')) {
       res.status(404).json({
         success: false,
@@ -128,8 +197,9 @@ export async function createDeal(req: Request, res: Response): Promise<void> {
 /**
  * Handles PATCH /api/deals/:id/stage - Moves a deal to a different stage
  * 
- * The sales pipeline has 5 stages: new → qualified → proposal → negotiation → closed
+ * The stage must belong to the deal's pipeline (default: new → qualified → proposal → negotiation → closed_won / closed_lost).
  * This endpoint allows moving a deal from one stage to another.
+ * Moving to a won or lost stage requires closeDate, and lossReason when it was lost.
  * 
  * Flow: User moves deal in pipeline → controller validates stage → service updates deal → return updated deal
  * 
@@ -148,14 +218,7 @@ export async function moveDealStage(req: Request, res: Response): Promise<void>
     // Validate the request body
     const validation = validateMoveDealStage(req.body);
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -165,6 +228,9 @@ export async function moveDealStage(req: Request, res: Response): Promise<void>
     const updatedDeal = await dealsService.moveDealToStage({
       dealId,
       stage: stageData.stage,
+      lossReason: stageData.lossReason,
+      closeDate: stageData.closeDate,
+      changedByEmail: req.user!.email,
     });
     
     // Send a successful response (200 OK) with the updated deal
@@ -177,14 +243,145 @@ export async function moveDealStage(req: Request, res: Response): Promise<void>
     // If something goes wrong, send an error response
     console.error('Error moving deal stage:', error);
     
-    // Check if it's a "deal not found" or "invalid stage" error
-    if (error.message.includes('does not exist') || error.message.includes('Invalid stage')) {
+    if (error.statusCode === 404) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    // Check if it's a "deal not found", "invalid stage" or missing close fields error
+    if (error.message.includes('does not exist') || error.message.includes('Invalid stage') || error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+    
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process deal request',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/deals/:id - Edits a deal
+ * 
+ * Allows changing title, dealValue, notes, pipeline, probability and expected close date, and closing/reopening the deal.
+ * Closing a deal (won or lost stage) requires closeDate, and lossReason when it was lost.
+ * 
+ * Flow: User edits deal → controller validates → service checks close rules → service updates deal → return updated deal
+ * 
+ * @param req - Express request object (contains request data and route parameters)
+ * @param res - Express response object (used to send response back to client)
+ */
+export async function updateDeal(req: Request, res: Response): Promise<void> {
+  try {
+    const dealId = req.params.id;
+    
+    if (!dealId) {
+      res.status(400).json({ success: false, message: 'Deal ID is required' });
+      return;
+    }
+
+    // Validate the request body
+    const validation = validateUpdateDeal(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    // Call the service to update the deal
+    const updatedDeal = await dealsService.updateDeal(dealId, validation.data!, req.user!.email);
+    
+    // Send a successful response (200 OK) with the updated deal
+    res.status(200).json({
+      success: true,
+      data: updatedDeal,
+      message: 'Deal updated successfully',
+    });
+  } catch (error: any) {
+    // If something goes wrong, send an error response
+    console.error('Error updating deal:', error);
+    
+    // Deal not found (404) or invalid pipeline / stage / missing close fields (400)
+    if (error.statusCode === 404 || error.statusCode === 400) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+    
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process deal request',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/deals/:id/owner - Reassigns a deal to another team member
+ * 
+ * Flow: User picks a new owner → controller validates → service updates owner and notifies them → return updated deal
+ * 
+ * @param req - Express request object (contains request data and route parameters)
+ * @param res - Express response object (used to send response back to client)
+ */
+export async function updateDealOwner(req: Request, res: Response): Promise<void> {
+  try {
+    const dealId = req.params.id;
+    
+    if (!dealId) {
+      res.status(400).json({ success: false, message: 'Deal ID is required' });
+      return;
+    }
+
+    // Validate the request body
+    const validation = validateUpdateOwner(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    // Call the service to reassign the deal
+    const updatedDeal = await dealsService.updateDealOwner({
+      dealId,
+      ownerEmail: validation.data!.ownerEmail,
+      assignedByEmail: req.user!.email,
+    });
+    
+    // Send a successful response (200 OK) with the updated deal
+    res.status(200).json({
+      success: true,
+      data: updatedDeal,
+      message: 'Deal owner updated successfully',
+    });
+  } catch (error: any) {
+    // If something goes wrong, send an error response
+    console.error('Error updating deal owner:', error);
+    
+    // Unknown owner is a bad request, unknown deal is not found
+    if (error.message.startsWith('User with email')) {
       res.status(400).json({
         success: false,
         message: error.message,
       });
       return;
     }
+
+    if (error.message.includes('does not exist')) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
     
     res.status(500).json({
       success: false,
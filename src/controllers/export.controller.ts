@@ -0,0 +1,132 @@
+/**
+ * Export Controller
+ *
+ * Handles GET /api/export/:entity, streaming the rows from the export service
+ * to the response as CSV, JSON or NDJSON while they are read from the database.
+ */
+
+import { Request, Response } from 'express';
+import * as exportService from '../services/export.service';
+import { validateExportQuery } from '../validators/export.validator';
+import { resolveOwnerFilter } from '../validators/ownership.validator';
+import { toCsvLine } from '../lib/csv';
+import { EXPORT_ENTITIES, ExportBatch, ExportEntity, ExportFormat } from '../types/export';
+import { sendValidationErrors } from '../lib/http-error';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * Serializes one batch of rows
+ *
+ * @param isFirst - Whether this is the first batch (CSV adds the header, JSON opens the array)
+ */
+function formatBatch(format: ExportFormat, batch: ExportBatch, isFirst: boolean): string {
+  if (format === 'csv') {
+    const lines = batch.rows.map((row) => toCsvLine(batch.columns.map((column) => row[column])));
+    return (isFirst ? toCsvLine(batch.columns) : '') + lines.join('');
+  }
+
+  if (format === 'ndjson') {
+    return batch.rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+  }
+
+  const items = batch.rows.map((row) => JSON.stringify(row)).join(',\n');
+  if (isFirst) {
+    return `[${items}`;
+  }
+  return items ? `,\n${items}` : '';
+}
+
+/**
+ * Writes a chunk and waits for the socket to drain when its buffer is full
+ */
+async function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (!chunk || res.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Handles GET /api/export/:entity - Downloads every matching row of an entity
+ *
+ * Accepts ?format=csv|json|ndjson (default csv) plus the filters of the entity's list endpoint.
+ * ?owner=me and ?assignedTo=me resolve to the caller's email.
+ */
+export async function exportEntity(req: Request, res: Response): Promise<void> {
+  const entity = req.params.entity as ExportEntity;
+  if (!(EXPORT_ENTITIES as readonly string[]).includes(entity)) {
+    res.status(404).json({
+      success: false,
+      message: `Unknown export entity "${req.params.entity}". Use one of: ${EXPORT_ENTITIES.join(', ')}`,
+    });
+    return;
+  }
+
+  const validation = validateExportQuery(entity, req.query);
+  if (!validation.success) {
+    sendValidationErrors(res, validation.errors);
+    return;
+  }
+
+  const { format, owner, assignedTo, type, ...filters } = validation.data!;
+  let started = false;
+
+  try {
+    const batches = exportService.streamExportRows(entity, {
+      ...filters,
+      ownerEmail: resolveOwnerFilter(owner, req.user!.email),
+      assignedToEmail: resolveOwnerFilter(assignedTo, req.user!.email),
+      activityType: type,
+    });
+
+    for await (const batch of batches) {
+      // Stop reading (and release the cursor) once the client has gone away
+      if (res.destroyed) {
+        break;
+      }
+
+      if (!started) {
+        const fileName = `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`;
+        res.status(200);
+        res.setHeader('Content-Type', CONTENT_TYPES[format]);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+      }
+
+      await writeChunk(res, formatBatch(format, batch, !started));
+      started = true;
+    }
+
+    if (!res.destroyed) {
+      res.end(format === 'json' ? ']\n' : undefined);
+    }
+  } catch (error: any) {
+    console.error(`Error exporting ${entity}:`, error);
+
+    if (!started) {
+      res.status(500).json({
+        success: false,
+        message: `Failed to export ${entity}`,
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+      return;
+    }
+
+    // Part of the file was already sent - abort the response so the download fails instead of being truncated
+    res.destroy(error);
+  }
+}
@@ -96,7 +96,7 @@ export async function uploadFile(req: Request, res: Response): Promise<void> {
     }
     
     // Get user email from request (if available)
-    const uploadedBy = (req as any).user?.email || null;
+    const uploadedBy = req.user!.email;
     
     const projectFile = await filesService.createFile({
       client_id: clientId,
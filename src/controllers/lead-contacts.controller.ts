@@ -0,0 +1,162 @@
+/**
+ * Lead Contacts Controller
+ *
+ * Handles HTTP requests for the contacts linked to a lead or client:
+ * /api/leads/:id/contacts and /api/clients/:id/contacts.
+ */
+
+import { Request, Response } from 'express';
+import { validateLinkContact } from '../validators/contacts.validator';
+import * as leadContactsService from '../services/lead-contacts.service';
+import type { ContactLinkTarget } from '../services/lead-contacts.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Builds the link target from the :id route param, sending a 400 response when it is invalid
+ */
+function parseTarget(req: Request, res: Response, type: ContactLinkTarget['type']): ContactLinkTarget | null {
+  if (type === 'lead') {
+    const leadId = parseInt(req.params.id, 10);
+    if (Number.isNaN(leadId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lead ID',
+      });
+      return null;
+    }
+    return { type, id: leadId };
+  }
+
+  if (!req.params.id) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid client ID',
+    });
+    return null;
+  }
+  return { type, id: req.params.id };
+}
+
+/**
+ * Handles GET /api/leads/:id/contacts and GET /api/clients/:id/contacts
+ */
+async function listContacts(req: Request, res: Response, type: ContactLinkTarget['type']): Promise<void> {
+  try {
+    const target = parseTarget(req, res, type);
+    if (!target) return;
+
+    const contacts = await leadContactsService.listLinkedContacts(target);
+
+    res.status(200).json({
+      success: true,
+      data: contacts,
+      count: contacts.length,
+    });
+  } catch (error: any) {
+    console.error(`Error fetching ${type} contacts:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch contacts',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/leads/:id/contacts and POST /api/clients/:id/contacts
+ * Returns 201 when the contact is newly linked, 200 when an existing link's role changed.
+ */
+async function addContact(req: Request, res: Response, type: ContactLinkTarget['type']): Promise<void> {
+  try {
+    const target = parseTarget(req, res, type);
+    if (!target) return;
+
+    const validation = validateLinkContact(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { contact, created } = await leadContactsService.linkContact(target, {
+      ...validation.data!,
+      createdByEmail: req.user!.email,
+    });
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: contact,
+      message: created ? 'Contact linked successfully' : 'Contact role updated successfully',
+    });
+  } catch (error: any) {
+    if (error.statusCode === 400 || error.statusCode === 404) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`Error linking ${type} contact:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to link contact',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles DELETE /api/leads/:id/contacts/:contactId and DELETE /api/clients/:id/contacts/:contactId
+ * Only the link is removed; the contact itself is kept.
+ */
+async function removeContact(req: Request, res: Response, type: ContactLinkTarget['type']): Promise<void> {
+  try {
+    const target = parseTarget(req, res, type);
+    if (!target) return;
+
+    const removed = await leadContactsService.unlinkContact(target, req.params.contactId);
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: `Contact is not linked to this ${type}`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Contact unlinked successfully',
+    });
+  } catch (error: any) {
+    console.error(`Error unlinking ${type} contact:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unlink contact',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function getLeadContacts(req: Request, res: Response): Promise<void> {
+  await listContacts(req, res, 'lead');
+}
+
+export async function addLeadContact(req: Request, res: Response): Promise<void> {
+  await addContact(req, res, 'lead');
+}
+
+export async function removeLeadContact(req: Request, res: Response): Promise<void> {
+  await removeContact(req, res, 'lead');
+}
+
+export async function getClientContacts(req: Request, res: Response): Promise<void> {
+  await listContacts(req, res, 'client');
+}
+
+export async function addClientContact(req: Request, res: Response): Promise<void> {
+  await addContact(req, res, 'client');
+}
+
+export async function removeClientContact(req: Request, res: Response): Promise<void> {
+  await removeContact(req, res, 'client');
+}
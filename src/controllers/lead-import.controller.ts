@@ -0,0 +1,96 @@
+/**
+ * Lead Import Controller Module
+ * 
+ * Handles HTTP requests for importing leads from CSV/XLSX spreadsheets.
+ */
+
+import { Request, Response } from 'express';
+import multer, { FileFilterCallback } from 'multer';
+import path from 'path';
+import { validateLeadImportOptions } from '../validators/lead-import.validator';
+import * as leadImportService from '../services/lead-import.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+// Spreadsheets are parsed straight from memory - nothing is written to disk
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit for spreadsheets
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    // Only accept CSV and XLSX files
+    const extension = path.extname(file.originalname).toLowerCase();
+    cb(null, extension === '.csv' || extension === '.xlsx');
+  },
+});
+
+/**
+ * Handles POST /api/leads/import - Imports leads from a spreadsheet
+ * 
+ * Multipart form fields:
+ * - file: the .csv or .xlsx spreadsheet (header row first)
+ * - mapping: optional JSON { "<header>": "<lead field>" }; suggested from the headers when omitted
+ * - dryRun: "true" (default) to only report per-row results, "false" to create the leads
+ * - skipDuplicates: "true" (default) to leave out rows that look like existing contacts
+ * 
+ * Flow: Upload → controller validates form fields → service parses file, validates rows, checks duplicates → (commit) creates leads → return report
+ * 
+ * @param req - Express request object (req.file holds the uploaded spreadsheet)
+ * @param res - Express response object
+ */
+export async function importLeads(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Send a .csv or .xlsx file in the "file" field',
+      });
+      return;
+    }
+
+    // Validate the form fields
+    const validation = validateLeadImportOptions(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const options = validation.data!;
+
+    // Parse the spreadsheet and run the import
+    const spreadsheet = await leadImportService.parseSpreadsheet(req.file);
+    const result = await leadImportService.importLeads(spreadsheet, {
+      mapping: options.mapping,
+      dryRun: options.dryRun,
+      skipDuplicates: options.skipDuplicates,
+      createdByEmail: req.user!.email,
+      userId: req.user!.id,
+      fileName: req.file.originalname,
+    });
+
+    res.status(options.dryRun ? 200 : 201).json({
+      success: true,
+      data: result,
+      message: options.dryRun
+        ? `Dry run: ${result.valid_rows} of ${result.total_rows} rows are valid`
+        : `Imported ${result.imported} lead(s)`,
+    });
+  } catch (error: any) {
+    console.error('Error importing leads:', error);
+
+    // Unreadable file, too many rows or a bad mapping
+    if (error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import leads',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
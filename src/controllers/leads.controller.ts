@@ -17,25 +17,48 @@ import {
   validateCreateActivity,
   validateCreateColdCall,
   validateCreateOnsiteVisit,
+  validateListLeadsQuery,
+  validateUpdateLead,
 } from '../validators/leads.validator';
+import { validateUpdateOwner, resolveOwnerFilter } from '../validators/ownership.validator';
 import * as leadsService from '../services/leads.service';
+import * as contactsService from '../services/contacts.service';
+import { sendValidationErrors } from '../lib/http-error';
 
 /**
- * Handles GET /api/leads - Retrieves all leads
+ * Handles GET /api/leads - Retrieves a page of leads
+ * 
+ * Supports cursor pagination (limit, cursor), sorting (sortBy, sortOrder) and filters
+ * (stage, status, source, verticals, company, createdByEmail, createdFrom, createdTo, owner).
+ * ?owner=me (or ?owner=<email>) only returns leads owned by that team member.
  * 
  * @param req - Express request object (contains request data)
  * @param res - Express response object (used to send response back to client)
  */
 export async function getAllLeads(req: Request, res: Response): Promise<void> {
   try {
-    // Call the service to get all leads from the database
-    const leads = await leadsService.getAllLeads();
+    // Validate the query string
+    const validation = validateListLeadsQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { owner, ...query } = validation.data!;
+
+    // Call the service to get one page of leads from the database
+    const page = await leadsService.getAllLeads({
+      ...query,
+      ownerEmail: resolveOwnerFilter(owner, req.user!.email),
+    });
     
     // Send a successful response (200 OK) with the leads data
     res.status(200).json({
       success: true,
-      data: leads,
-      count: leads.length,
+      data: page.leads,
+      count: page.leads.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
     });
   } catch (error: any) {
     // If something goes wrong, send an error response
@@ -62,6 +85,10 @@ export async function getAllLeads(req: Request, res: Response): Promise<void> {
 /**
  * Handles POST /api/leads - Creates a new lead
  * 
+ * Before creating, the contact is checked against existing contacts (email, phone digits,
+ * similar name and company). If there are possible duplicates the lead is not created and
+ * a 409 is returned with the candidates; send allowDuplicate: true to create it anyway.
+ * 
  * @param req - Express request object (req.body contains the JSON data sent by client)
  * @param res - Express response object
  */
@@ -72,31 +99,37 @@ export async function createLead(req: Request, res: Response): Promise<void> {
     
     // If validation failed, send a 400 Bad Request response with error details
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
     
     // Step 2: Validation passed, so we can use the validated data
     // The 'data' property is guaranteed to exist and be correctly typed
-    const leadData = validation.data!;
-    
-    // Get the user email from the request header
-    const userEmail = req.header('x-user-email') || (req as any).user?.email || null;
+    const { allowDuplicate, ...leadData } = validation.data!;
+    
+    // The creator is the authenticated caller
+    const userEmail = req.user!.email;
+    
+    // Step 3: Warn about possible duplicate contacts unless the caller confirmed
+    if (!allowDuplicate) {
+      const duplicates = await contactsService.findDuplicateContacts(leadData.contact);
+      if (duplicates.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: 'Possible duplicate contact found. Send allowDuplicate: true to create the lead anyway.',
+          duplicates,
+        });
+        return;
+      }
+    }
     
-    // Step 3: Call the service to create the lead (and contact) in the database
+    // Step 4: Call the service to create the lead (and contact) in the database
     const newLead = await leadsService.createLead({
       ...leadData,
       created_by_email: userEmail,
     });
     
-    // Step 4: Send a successful response (201 Created) with the new lead data
+    // Step 5: Send a successful response (201 Created) with the new lead data
     res.status(201).json({
       success: true,
       data: newLead,
@@ -111,6 +144,16 @@ export async function createLead(req: Request, res: Response): Promise<void> {
       constraint: error.constraint,
       stack: process.env.NODE_ENV === 'development' ? error.stack : undefined,
     });
+
+    // Unknown contact.companyId
+    if (error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       message: 'Failed to create lead',
@@ -198,14 +241,7 @@ export async function addActivity(req: Request, res: Response): Promise<void> {
     
     // If validation failed, send a 400 Bad Request response with error details
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
     
@@ -236,59 +272,14 @@ export async function addActivity(req: Request, res: Response): Promise<void> {
   }
 }
 
-/**
- * Handles GET /api/leads/:id/timeline - Retrieves the complete timeline for a lead
- * 
- * This endpoint groups all timeline events for a lead into three categories:
- * - activities: General activities (notes, emails, etc.)
- * - coldCalls: Outbound calls made to the lead
- * - onsiteVisits: In-person visits to the lead's location
- * 
- * Flow: Client requests timeline → we parse ID → service fetches all three types → return grouped timeline
- * 
- * @param req - Express request object (req.params.id contains the lead ID from the URL)
- * @param res - Express response object
- */
-export async function getLeadTimeline(req: Request, res: Response): Promise<void> {
-  try {
-    // Step 1: Parse the lead ID from the URL parameter
-    const leadId = parseInt(req.params.id, 10);
-    
-    // Validate that the ID is a valid number
-    if (isNaN(leadId)) {
-      res.status(400).json({
-        success: false,
-        message: 'Invalid lead ID',
-      });
-      return;
-    }
-    
-    // Step 2: Call the service to fetch the timeline (activities, cold calls, onsite visits)
-    const timeline = await leadsService.getLeadTimeline(leadId);
-    
-    // Step 3: Send a successful response (200 OK) with the timeline data
-    res.status(200).json({
-      success: true,
-      data: timeline,
-    });
-  } catch (error: any) {
-    // If something goes wrong, send an error response
-    console.error('Error fetching lead timeline:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch lead timeline',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
-    });
-  }
-}
-
 /**
  * Handles POST /api/leads/:id/cold-calls - Creates a new cold call for a lead
  * 
  * Cold calls are outbound calls made to potential customers to introduce products or services.
- * This endpoint records the outcome of a cold call (e.g., 'connected', 'no_answer', 'wrong_number').
+ * This endpoint records the disposition of a cold call (e.g., 'connected', 'no_answer', 'wrong_number')
+ * with the caller. A nextCallbackAt creates a follow-up task for the caller.
  * 
- * Flow: Sales rep makes a call → records outcome → we validate → service inserts → return new cold call
+ * Flow: Sales rep makes a call → records disposition → we validate → service inserts → return new cold call
  * 
  * @param req - Express request object (req.params.id = lead ID, req.body = cold call data)
  * @param res - Express response object
@@ -312,14 +303,7 @@ export async function addColdCall(req: Request, res: Response): Promise<void> {
     
     // If validation failed, send a 400 Bad Request response with error details
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
     
@@ -329,7 +313,11 @@ export async function addColdCall(req: Request, res: Response): Promise<void> {
     // Step 4: Call the service to create the cold call in the database
     const newColdCall = await leadsService.addColdCall({
       leadId,
+      disposition: coldCallData.disposition,
       outcome: coldCallData.outcome,
+      callerEmail: req.user!.email,
+      nextCallbackAt: coldCallData.nextCallbackAt,
+      callScriptId: coldCallData.callScriptId,
       notes: coldCallData.notes,
     });
     
@@ -340,6 +328,15 @@ export async function addColdCall(req: Request, res: Response): Promise<void> {
       message: 'Cold call created successfully',
     });
   } catch (error: any) {
+    // Unknown lead (404) or invalid disposition / call script (400)
+    if (error.statusCode === 404 || error.statusCode === 400) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     // If something goes wrong, send an error response
     console.error('Error creating cold call:', error);
     res.status(500).json({
@@ -381,14 +378,7 @@ export async function addOnsiteVisit(req: Request, res: Response): Promise<void>
     
     // If validation failed, send a 400 Bad Request response with error details
     if (!validation.success) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: validation.errors?.errors.map((err) => ({
-          field: err.path.join('.'),
-          message: err.message,
-        })),
-      });
+      sendValidationErrors(res, validation.errors);
       return;
     }
     
@@ -426,6 +416,162 @@ export async function addOnsiteVisit(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Handles GET /api/leads/:id/stage-history - Retrieves a lead's stage and status changes
+ * 
+ * Flow: Client requests history → we parse ID → service fetches history with time spent in each value → return JSON
+ * 
+ * @param req - Express request object (req.params.id = lead ID)
+ * @param res - Express response object
+ */
+export async function getLeadStageHistory(req: Request, res: Response): Promise<void> {
+  try {
+    const leadId = parseInt(req.params.id, 10);
+    
+    if (isNaN(leadId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lead ID',
+      });
+      return;
+    }
+    
+    const history = await leadsService.getLeadStageHistory(leadId);
+    
+    res.status(200).json({
+      success: true,
+      data: history,
+      count: history.length,
+    });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({
+        success: false,
+        message: error.message || 'Lead not found',
+      });
+      return;
+    }
+    
+    console.error('Error fetching lead stage history:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch lead stage history',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/leads/:id - Updates a lead's stage, status, source, verticals or notes
+ * 
+ * Flow: User edits lead → we validate → service checks stage/status transitions → updates lead → return updated lead
+ * 
+ * @param req - Express request object (req.params.id = lead ID, req.body = fields to update)
+ * @param res - Express response object
+ */
+export async function updateLead(req: Request, res: Response): Promise<void> {
+  try {
+    const leadId = parseInt(req.params.id, 10);
+    
+    if (isNaN(leadId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lead ID',
+      });
+      return;
+    }
+    
+    const validation = validateUpdateLead(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+    
+    const lead = await leadsService.updateLead(leadId, validation.data!, req.user!.email);
+    
+    res.status(200).json({
+      success: true,
+      data: lead,
+      message: 'Lead updated successfully',
+    });
+  } catch (error: any) {
+    // Not found (404) or illegal stage/status transition (400)
+    if (error.statusCode === 404 || error.statusCode === 400) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+    
+    console.error('Error updating lead:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update lead',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/leads/:id/owner - Reassigns a lead to another team member
+ * 
+ * @param req - Express request object
+ * @param res - Express response object
+ */
+export async function updateLeadOwner(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid lead ID',
+      });
+      return;
+    }
+
+    const validation = validateUpdateOwner(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+    
+    const lead = await leadsService.updateLeadOwner(id, validation.data!.ownerEmail, req.user!.email);
+    
+    if (!lead) {
+      res.status(404).json({
+        success: false,
+        message: 'Lead not found',
+      });
+      return;
+    }
+    
+    res.status(200).json({
+      success: true,
+      data: lead,
+      message: 'Lead owner updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating lead owner:', error);
+
+    // Unknown or inactive team member
+    if (error.message.includes('does not exist')) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update lead owner',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
 /**
  * Handles DELETE /api/leads/:id - Deletes a lead
  * 
@@ -9,14 +9,7 @@ import * as notificationsService from '../services/notifications.service';
 
 export async function getNotifications(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const notifications = await notificationsService.getNotificationsForUser(userEmail);
     res.status(200).json({
@@ -35,14 +28,7 @@ export async function getNotifications(req: Request, res: Response): Promise<voi
 
 export async function getUnreadCount(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const count = await notificationsService.getUnreadCount(userEmail);
     res.status(200).json({
@@ -70,14 +56,7 @@ export async function markAsRead(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const notification = await notificationsService.markAsRead(notificationId, userEmail);
     if (!notification) {
@@ -104,14 +83,7 @@ export async function markAsRead(req: Request, res: Response): Promise<void> {
 
 export async function markAllAsRead(req: Request, res: Response): Promise<void> {
   try {
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     await notificationsService.markAllAsRead(userEmail);
     res.status(200).json({
@@ -139,14 +111,7 @@ export async function deleteNotification(req: Request, res: Response): Promise<v
       return;
     }
 
-    const userEmail = req.header('x-user-email');
-    if (!userEmail) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
-      return;
-    }
+    const userEmail = req.user!.email;
 
     const deleted = await notificationsService.deleteNotification(notificationId, userEmail);
     if (!deleted) {
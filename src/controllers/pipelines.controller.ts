@@ -0,0 +1,188 @@
+/**
+ * Pipelines Controller
+ *
+ * Handles HTTP requests for deal pipeline endpoints.
+ */
+
+import { Request, Response } from 'express';
+import { validateCreatePipeline, validateUpdatePipeline } from '../validators/pipelines.validator';
+import * as pipelinesService from '../services/pipelines.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id route param, sending a 400 response when it is not a number
+ */
+function parsePipelineId(req: Request, res: Response): number | null {
+  const pipelineId = parseInt(req.params.id, 10);
+  if (Number.isNaN(pipelineId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid pipeline ID',
+    });
+    return null;
+  }
+  return pipelineId;
+}
+
+export async function getPipelines(req: Request, res: Response): Promise<void> {
+  try {
+    const pipelines = await pipelinesService.getAllPipelines();
+
+    res.status(200).json({
+      success: true,
+      data: pipelines,
+    });
+  } catch (error: any) {
+    console.error('Error fetching pipelines:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch pipelines',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function getPipeline(req: Request, res: Response): Promise<void> {
+  try {
+    const pipelineId = parsePipelineId(req, res);
+    if (pipelineId === null) return;
+
+    const pipeline = await pipelinesService.getPipelineById(pipelineId);
+    if (!pipeline) {
+      res.status(404).json({
+        success: false,
+        message: 'Pipeline not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: pipeline,
+    });
+  } catch (error: any) {
+    console.error('Error fetching pipeline:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch pipeline',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function createPipeline(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreatePipeline(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const pipeline = await pipelinesService.createPipeline(validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: pipeline,
+      message: 'Pipeline created successfully',
+    });
+  } catch (error: any) {
+    console.error('Error creating pipeline:', error);
+
+    if (error.statusCode === 400) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create pipeline',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function updatePipeline(req: Request, res: Response): Promise<void> {
+  try {
+    const pipelineId = parsePipelineId(req, res);
+    if (pipelineId === null) return;
+
+    const validation = validateUpdatePipeline(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const pipeline = await pipelinesService.updatePipeline(pipelineId, validation.data!);
+    if (!pipeline) {
+      res.status(404).json({
+        success: false,
+        message: 'Pipeline not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: pipeline,
+      message: 'Pipeline updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating pipeline:', error);
+
+    // Duplicate stage keys (400) or removing stages that still have deals (409)
+    if (error.statusCode === 400 || error.statusCode === 409) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update pipeline',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function deletePipeline(req: Request, res: Response): Promise<void> {
+  try {
+    const pipelineId = parsePipelineId(req, res);
+    if (pipelineId === null) return;
+
+    const deleted = await pipelinesService.deletePipeline(pipelineId);
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: 'Pipeline not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Pipeline deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting pipeline:', error);
+
+    // Default pipeline (400) or pipeline that still has deals (409)
+    if (error.statusCode === 400 || error.statusCode === 409) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete pipeline',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
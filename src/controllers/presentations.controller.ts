@@ -111,7 +111,7 @@ export async function createPresentation(req: Request, res: Response): Promise<v
       return;
     }
 
-    const uploadedBy = (req as any).user?.email || req.header('x-user-email') || null;
+    const uploadedBy = req.user!.email;
     console.log('Uploaded by:', uploadedBy);
     
     const presentation = await presentationsService.createPresentation({
@@ -0,0 +1,40 @@
+/**
+ * Search Controller
+ *
+ * Handles HTTP requests for the global search endpoint.
+ */
+
+import { Request, Response } from 'express';
+import * as searchService from '../services/search.service';
+import { validateSearchQuery } from '../validators/search.validator';
+import { sendValidationErrors } from '../lib/http-error';
+
+export async function search(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateSearchQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { q, limit, types } = validation.data!;
+    const result = await searchService.search({
+      q,
+      limit,
+      types,
+      userEmail: req.user!.email,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error searching:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -96,7 +96,7 @@ export async function uploadTaskAttachment(req: Request, res: Response): Promise
     }
     
     // Get user email from request (if available)
-    const uploadedBy = (req as any).user?.email || req.header('x-user-email') || null;
+    const uploadedBy = req.user!.email;
     
     const attachment = await taskAttachmentsService.createTaskAttachment({
       task_id: taskId,
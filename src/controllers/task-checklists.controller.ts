@@ -0,0 +1,134 @@
+/**
+ * Task Checklists Controller
+ *
+ * Handles HTTP requests for a task's checklist items.
+ */
+
+import { Request, Response } from 'express';
+import * as taskChecklistsService from '../services/task-checklists.service';
+import {
+  validateCreateChecklistItem,
+  validateUpdateChecklistItem,
+} from '../validators/tasks.validator';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :taskId (and :itemId) route params, sending a 400 response when one is not a number
+ */
+function parseIds(req: Request, res: Response): { taskId: number; itemId: number } | null {
+  const taskId = parseInt(req.params.taskId, 10);
+  const itemId = req.params.itemId !== undefined ? parseInt(req.params.itemId, 10) : 0;
+  if (Number.isNaN(taskId) || Number.isNaN(itemId)) {
+    res.status(400).json({ success: false, message: 'Invalid task or checklist item id' });
+    return null;
+  }
+  return { taskId, itemId };
+}
+
+export async function getChecklist(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const items = await taskChecklistsService.getChecklistItems(ids.taskId);
+    if (!items) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+
+    res.json({ success: true, data: items, count: items.length });
+  } catch (error: any) {
+    console.error('Error fetching task checklist:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch checklist',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function createChecklistItem(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const validation = validateCreateChecklistItem(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const item = await taskChecklistsService.createChecklistItem(ids.taskId, validation.data);
+    if (!item) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: item });
+  } catch (error: any) {
+    console.error('Error creating checklist item:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create checklist item',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/tasks/:taskId/checklist/:itemId - Rename, check or uncheck an item
+ */
+export async function updateChecklistItem(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const validation = validateUpdateChecklistItem(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const item = await taskChecklistsService.updateChecklistItem(
+      ids.taskId,
+      ids.itemId,
+      validation.data,
+      req.user!.email
+    );
+    if (!item) {
+      res.status(404).json({ success: false, message: 'Checklist item not found' });
+      return;
+    }
+
+    res.json({ success: true, data: item });
+  } catch (error: any) {
+    console.error('Error updating checklist item:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update checklist item',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function deleteChecklistItem(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const deleted = await taskChecklistsService.deleteChecklistItem(ids.taskId, ids.itemId);
+    if (!deleted) {
+      res.status(404).json({ success: false, message: 'Checklist item not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Checklist item deleted' });
+  } catch (error: any) {
+    console.error('Error deleting checklist item:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete checklist item',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Task Comments Controller
+ *
+ * Handles HTTP requests for a task's comment thread.
+ */
+
+import { Request, Response } from 'express';
+import * as taskCommentsService from '../services/task-comments.service';
+import { validateTaskComment } from '../validators/tasks.validator';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id (and :commentId) route params, sending a 400 response when one is not a number
+ */
+function parseIds(req: Request, res: Response): { taskId: number; commentId: number } | null {
+  const taskId = parseInt(req.params.id, 10);
+  const commentId = req.params.commentId !== undefined ? parseInt(req.params.commentId, 10) : 0;
+  if (Number.isNaN(taskId) || Number.isNaN(commentId)) {
+    res.status(400).json({ success: false, message: 'Invalid task or comment id' });
+    return null;
+  }
+  return { taskId, commentId };
+}
+
+/**
+ * Sends the 403 / 404 responses the service signals, returning false for other errors
+ */
+function handleServiceError(res: Response, error: any): boolean {
+  if (error.statusCode === 403 || error.statusCode === 404) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return true;
+  }
+  return false;
+}
+
+export async function getTaskComments(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const comments = await taskCommentsService.listTaskComments(ids.taskId);
+    res.json({ success: true, data: comments, count: comments.length });
+  } catch (error: any) {
+    if (handleServiceError(res, error)) return;
+    console.error('Error fetching task comments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch comments',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/tasks/:id/comments - Adds a comment and notifies the people it @mentions
+ */
+export async function createTaskComment(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const validation = validateTaskComment(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const comment = await taskCommentsService.createTaskComment(ids.taskId, validation.data.body, req.user!.email);
+    res.status(201).json({ success: true, data: comment });
+  } catch (error: any) {
+    if (handleServiceError(res, error)) return;
+    console.error('Error creating task comment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create comment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles PATCH /api/tasks/:id/comments/:commentId - Edits a comment (author only)
+ */
+export async function updateTaskComment(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    const validation = validateTaskComment(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const comment = await taskCommentsService.updateTaskComment(
+      ids.taskId,
+      ids.commentId,
+      validation.data.body,
+      req.user!.email
+    );
+    res.json({ success: true, data: comment });
+  } catch (error: any) {
+    if (handleServiceError(res, error)) return;
+    console.error('Error updating task comment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update comment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles DELETE /api/tasks/:id/comments/:commentId - Deletes a comment (author only)
+ */
+export async function deleteTaskComment(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = parseIds(req, res);
+    if (!ids) return;
+
+    await taskCommentsService.deleteTaskComment(ids.taskId, ids.commentId, req.user!.email);
+    res.json({ success: true, message: 'Comment deleted' });
+  } catch (error: any) {
+    if (handleServiceError(res, error)) return;
+    console.error('Error deleting task comment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete comment',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
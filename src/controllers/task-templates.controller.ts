@@ -0,0 +1,205 @@
+/**
+ * Task Templates Controller
+ *
+ * Handles HTTP requests for task template endpoints.
+ */
+
+import { Request, Response } from 'express';
+import {
+  validateApplyTaskTemplate,
+  validateCreateTaskTemplate,
+  validateUpdateTaskTemplate,
+} from '../validators/task-templates.validator';
+import * as taskTemplatesService from '../services/task-templates.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+/**
+ * Parses the :id route param, sending a 400 response when it is not a number
+ */
+function parseTemplateId(req: Request, res: Response): number | null {
+  const templateId = parseInt(req.params.id, 10);
+  if (Number.isNaN(templateId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid task template ID',
+    });
+    return null;
+  }
+  return templateId;
+}
+
+function sendNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    message: 'Task template not found',
+  });
+}
+
+/**
+ * Handles GET /api/task-templates - All templates with their items
+ */
+export async function getTaskTemplates(req: Request, res: Response): Promise<void> {
+  try {
+    const templates = await taskTemplatesService.getAllTaskTemplates();
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+      count: templates.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching task templates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch task templates',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function getTaskTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const templateId = parseTemplateId(req, res);
+    if (templateId === null) return;
+
+    const template = await taskTemplatesService.getTaskTemplateById(templateId);
+    if (!template) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: template,
+    });
+  } catch (error: any) {
+    console.error('Error fetching task template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch task template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function createTaskTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateCreateTaskTemplate(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const template = await taskTemplatesService.createTaskTemplate(validation.data!, req.user!.email);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Task template created successfully',
+    });
+  } catch (error: any) {
+    console.error('Error creating task template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create task template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function updateTaskTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const templateId = parseTemplateId(req, res);
+    if (templateId === null) return;
+
+    const validation = validateUpdateTaskTemplate(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const template = await taskTemplatesService.updateTaskTemplate(templateId, validation.data!);
+    if (!template) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: 'Task template updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating task template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update task template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+export async function deleteTaskTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const templateId = parseTemplateId(req, res);
+    if (templateId === null) return;
+
+    const deleted = await taskTemplatesService.deleteTaskTemplate(templateId);
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Task template deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting task template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete task template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/task-templates/:id/apply - Creates the template's tasks on a lead or client
+ */
+export async function applyTaskTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const templateId = parseTemplateId(req, res);
+    if (templateId === null) return;
+
+    const validation = validateApplyTaskTemplate(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const tasks = await taskTemplatesService.applyTaskTemplate(templateId, validation.data!, req.user!.email);
+
+    res.status(201).json({
+      success: true,
+      data: tasks,
+      count: tasks.length,
+      message: 'Task template applied successfully',
+    });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error applying task template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to apply task template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
@@ -2,7 +2,8 @@
  * Tasks Controller
  *
  * Tasks are simple follow-ups tied to a lead. These handlers expose endpoints
- * for "My Tasks", lead-specific tasks, creating tasks, and updating their status.
+ * for "My Tasks", lead-specific tasks, creating tasks, and updating their status,
+ * plus subtasks and "blocked by" dependencies.
  */
 
 import { Request, Response } from 'express';
@@ -11,30 +12,87 @@ import {
   validateCreateTask,
   validateUpdateTaskStatus,
   validateUpdateTask,
+  validateAddTaskDependency,
+  validateListTasksQuery,
+  validateBulkUpdateTasks,
 } from '../validators/tasks.validator';
+import { resolveOwnerFilter } from '../validators/ownership.validator';
+import { sendValidationErrors } from '../lib/http-error';
 
-function handleValidationError(res: Response, error: any) {
-  return res.status(400).json({
-    success: false,
-    message: 'Validation failed',
-    errors: error.errors?.map((err: any) => ({
-      field: err.path.join('.'),
-      message: err.message,
-    })),
-  });
+/**
+ * Handles GET /api/tasks - The team task board
+ *
+ * Filters: assignee ('me' or an email), status and priority (comma-separated), dueFrom / dueTo,
+ * leadId, clientId, overdue. With groupBy=assignee|status, data is a list of groups; a group's
+ * count covers every match, its tasks only those within limit.
+ */
+export async function getTasks(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateListTasksQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const query = validation.data;
+    const { tasks, total, groupCounts } = await tasksService.listTasks(
+      {
+        assigneeEmail: resolveOwnerFilter(query.assignee, req.user!.email),
+        statuses: query.status,
+        priorities: query.priority,
+        dueFrom: query.dueFrom,
+        dueTo: query.dueTo,
+        leadId: query.leadId,
+        clientId: query.clientId,
+        overdue: query.overdue,
+      },
+      query.limit,
+      query.groupBy
+    );
+
+    res.json({
+      success: true,
+      data: query.groupBy ? tasksService.groupTasks(tasks, query.groupBy, groupCounts) : tasks,
+      count: tasks.length,
+      total,
+    });
+  } catch (error) {
+    console.error('Error fetching tasks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
 }
 
-export async function getMyTasks(req: Request, res: Response): Promise<void> {
+/**
+ * Handles POST /api/tasks/bulk - Applies the same changes to many tasks
+ */
+export async function bulkUpdateTasks(req: Request, res: Response): Promise<void> {
   try {
-    const email = req.header('x-user-email');
-    if (!email) {
-      res.status(400).json({
-        success: false,
-        message: 'Missing x-user-email header',
-      });
+    const validation = validateBulkUpdateTasks(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
+    const { taskIds, changes } = validation.data;
+    const result = await tasksService.bulkUpdateTasks(taskIds, changes, req.user!.email);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error bulk updating tasks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update tasks',
+    });
+  }
+}
+
+export async function getMyTasks(req: Request, res: Response): Promise<void> {
+  try {
+    const email = req.user!.email;
+
     const tasks = await tasksService.listTasksForUser(email);
     res.json({ success: true, data: tasks });
   } catch (error) {
@@ -46,6 +104,32 @@ export async function getMyTasks(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Handles GET /api/tasks/:id - A task with its progress, blockers, checklist and comments
+ */
+export async function getTask(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    if (Number.isNaN(taskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const task = await tasksService.getTaskDetail(taskId);
+    res.json({ success: true, data: task });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+    console.error('Error fetching task:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
+}
+
 export async function getLeadTasks(req: Request, res: Response): Promise<void> {
   try {
     const leadId = parseInt(req.params.id, 10);
@@ -94,7 +178,7 @@ export async function createLeadTask(req: Request, res: Response): Promise<void>
 
     const validation = validateCreateTask(req.body);
     if (!validation.success) {
-      handleValidationError(res, validation.errors);
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -106,6 +190,8 @@ export async function createLeadTask(req: Request, res: Response): Promise<void>
       description: payload.description,
       dueDate: payload.dueDate,
       priority: payload.priority,
+      recurrenceRule: payload.recurrenceRule,
+      createdByEmail: req.user!.email,
     });
 
     // Return task with attachment URLs (empty array for now, files uploaded separately)
@@ -138,7 +224,7 @@ export async function createClientTask(req: Request, res: Response): Promise<voi
 
     const validation = validateCreateTask(req.body);
     if (!validation.success) {
-      handleValidationError(res, validation.errors);
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -150,6 +236,8 @@ export async function createClientTask(req: Request, res: Response): Promise<voi
       description: payload.description,
       dueDate: payload.dueDate,
       priority: payload.priority,
+      recurrenceRule: payload.recurrenceRule,
+      createdByEmail: req.user!.email,
     });
 
     // Return task with attachment URLs (empty array for now, files uploaded separately)
@@ -179,7 +267,7 @@ export async function updateTaskStatus(req: Request, res: Response): Promise<voi
 
     const validation = validateUpdateTaskStatus(req.body);
     if (!validation.success) {
-      handleValidationError(res, validation.errors);
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -187,10 +275,15 @@ export async function updateTaskStatus(req: Request, res: Response): Promise<voi
     const task = await tasksService.updateTaskStatus({
       taskId,
       status: payload.status,
+      changedByEmail: req.user!.email,
     });
 
     res.json({ success: true, data: task });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.statusCode === 409) {
+      res.status(409).json({ success: false, message: error.message });
+      return;
+    }
     console.error('Error updating task status:', error);
     res.status(500).json({
       success: false,
@@ -209,7 +302,7 @@ export async function updateTask(req: Request, res: Response): Promise<void> {
 
     const validation = validateUpdateTask(req.body);
     if (!validation.success) {
-      handleValidationError(res, validation.errors);
+      sendValidationErrors(res, validation.errors);
       return;
     }
 
@@ -221,16 +314,22 @@ export async function updateTask(req: Request, res: Response): Promise<void> {
       dueDate: payload.dueDate,
       status: payload.status,
       priority: payload.priority,
+      recurrenceRule: payload.recurrenceRule,
+      changedByEmail: req.user!.email,
     });
 
     res.json({ success: true, data: updatedTask });
   } catch (error: any) {
+    if (error.statusCode === 409) {
+      res.status(409).json({ success: false, message: error.message });
+      return;
+    }
     console.error('Error updating task:', error);
     if (error.message?.includes('does not exist')) {
       res.status(404).json({ success: false, message: 'Task not found' });
       return;
     }
-    if (error.message === 'At least one field must be provided for update') {
+    if (error.message === 'At least one field must be provided for update' || error.message === 'Recurring tasks need a due date') {
       res.status(400).json({ success: false, message: error.message });
       return;
     }
@@ -241,3 +340,160 @@ export async function updateTask(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Handles GET /api/tasks/:id/subtasks - A task's direct subtasks with their progress
+ */
+export async function getSubtasks(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    if (Number.isNaN(taskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const tasks = await tasksService.listSubtasks(taskId);
+    res.json({ success: true, data: tasks });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+    console.error('Error fetching subtasks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
+}
+
+/**
+ * Handles POST /api/tasks/:id/subtasks - Creates a subtask on the parent's lead or client
+ */
+export async function createSubtask(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    if (Number.isNaN(taskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const validation = validateCreateTask(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const payload = validation.data!;
+    const task = await tasksService.createSubtask(taskId, {
+      assignedToEmail: payload.assignedToEmail,
+      title: payload.title,
+      description: payload.description,
+      dueDate: payload.dueDate,
+      priority: payload.priority,
+      recurrenceRule: payload.recurrenceRule,
+      createdByEmail: req.user!.email,
+    });
+
+    res.status(201).json({ success: true, data: task });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+    console.error('Error creating subtask:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to process task request',
+    });
+  }
+}
+
+/**
+ * Handles GET /api/tasks/:id/dependencies - The tasks blocking a task
+ */
+export async function getTaskDependencies(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    if (Number.isNaN(taskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const blockers = await tasksService.listTaskBlockers(taskId);
+    res.json({ success: true, data: blockers });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({ success: false, message: 'Task not found' });
+      return;
+    }
+    console.error('Error fetching task dependencies:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
+}
+
+/**
+ * Handles POST /api/tasks/:id/dependencies - Marks the task as blocked by another task
+ */
+export async function addTaskDependency(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    if (Number.isNaN(taskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const validation = validateAddTaskDependency(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const blockers = await tasksService.addTaskDependency(
+      taskId,
+      validation.data!.blockedByTaskId,
+      req.user!.email
+    );
+    res.status(201).json({ success: true, data: blockers });
+  } catch (error: any) {
+    if (error.statusCode === 400 || error.statusCode === 404 || error.statusCode === 409) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error('Error adding task dependency:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
+}
+
+/**
+ * Handles DELETE /api/tasks/:id/dependencies/:blockedByTaskId
+ */
+export async function removeTaskDependency(req: Request, res: Response): Promise<void> {
+  try {
+    const taskId = parseInt(req.params.id, 10);
+    const blockedByTaskId = parseInt(req.params.blockedByTaskId, 10);
+    if (Number.isNaN(taskId) || Number.isNaN(blockedByTaskId)) {
+      res.status(400).json({ success: false, message: 'Invalid task id' });
+      return;
+    }
+
+    const removed = await tasksService.removeTaskDependency(taskId, blockedByTaskId);
+    if (!removed) {
+      res.status(404).json({ success: false, message: 'Task dependency not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Task dependency removed' });
+  } catch (error) {
+    console.error('Error removing task dependency:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process task request',
+    });
+  }
+}
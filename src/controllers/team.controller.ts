@@ -6,6 +6,53 @@
 
 import { Request, Response } from 'express';
 import * as teamService from '../services/team.service';
+import { canAssignRole, isUserRole, ROLE_RANK } from '../lib/permissions';
+
+/**
+ * Checks a requested role: it must exist and must not rank above the caller's own role.
+ * Sends the 400 / 403 response and returns false when the role is not allowed.
+ */
+function checkAssignableRole(req: Request, res: Response, role: unknown): boolean {
+  if (!isUserRole(role)) {
+    res.status(400).json({
+      success: false,
+      message: `role must be one of: ${Object.keys(ROLE_RANK).join(', ')}`,
+    });
+    return false;
+  }
+  if (!canAssignRole(req.user!.role, role)) {
+    res.status(403).json({
+      success: false,
+      message: `Only an admin can assign the ${role} role`,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Loads the member a request changes and checks the caller outranks or matches them:
+ * a manager cannot edit, deactivate or delete an admin.
+ * Sends the 404 / 403 response and returns false when the change is not allowed.
+ */
+async function checkManageableMember(req: Request, res: Response, id: number): Promise<boolean> {
+  const member = await teamService.getTeamMemberById(id);
+  if (!member) {
+    res.status(404).json({
+      success: false,
+      message: 'Team member not found',
+    });
+    return false;
+  }
+  if (isUserRole(member.role) && !canAssignRole(req.user!.role, member.role)) {
+    res.status(403).json({
+      success: false,
+      message: `Only an admin can change a ${member.role}`,
+    });
+    return false;
+  }
+  return true;
+}
 
 export async function getAllTeamMembers(req: Request, res: Response): Promise<void> {
   try {
@@ -80,6 +127,10 @@ export async function createTeamMember(req: Request, res: Response): Promise<voi
       return;
     }
 
+    if (role !== undefined && role !== null && !checkAssignableRole(req, res, role)) {
+      return;
+    }
+
     const newMember = await teamService.createTeamMember({
       email,
       name,
@@ -114,11 +165,28 @@ export async function updateTeamMember(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const { name, role, is_active } = req.body;
+    const { name, role, is_active, manager_email } = req.body;
+    if (manager_email !== undefined && manager_email !== null && (typeof manager_email !== 'string' || !manager_email.includes('@'))) {
+      res.status(400).json({
+        success: false,
+        message: 'manager_email must be an email address or null',
+      });
+      return;
+    }
+
+    if (role !== undefined && role !== null && !checkAssignableRole(req, res, role)) {
+      return;
+    }
+
+    if (!(await checkManageableMember(req, res, id))) {
+      return;
+    }
+
     const updatedMember = await teamService.updateTeamMember(id, {
       name,
       role,
       is_active,
+      manager_email,
     });
 
     if (!updatedMember) {
@@ -154,6 +222,10 @@ export async function deleteTeamMember(req: Request, res: Response): Promise<voi
       return;
     }
 
+    if (!(await checkManageableMember(req, res, id))) {
+      return;
+    }
+
     const deleted = await teamService.deleteTeamMember(id);
     if (!deleted) {
       res.status(404).json({
@@ -0,0 +1,80 @@
+/**
+ * Timeline Controller
+ *
+ * Handles HTTP requests for the lead and client timelines:
+ * GET /api/leads/:id/timeline and GET /api/clients/:id/timeline.
+ */
+
+import { Request, Response } from 'express';
+import { validateTimelineQuery } from '../validators/timeline.validator';
+import * as timelineService from '../services/timeline.service';
+import type { TimelineTarget } from '../services/timeline.service';
+import { sendValidationErrors } from '../lib/http-error';
+
+async function sendTimeline(req: Request, res: Response, target: TimelineTarget): Promise<void> {
+  try {
+    const validation = validateTimelineQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const page = await timelineService.getTimeline(target, {
+      ...validation.data!,
+      viewerEmail: req.user!.email,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: page.events,
+      count: page.events.length,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`Error fetching ${target.type} timeline:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to fetch ${target.type} timeline`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/leads/:id/timeline - One page of the lead's events, newest first
+ */
+export async function getLeadTimeline(req: Request, res: Response): Promise<void> {
+  const leadId = parseInt(req.params.id, 10);
+  if (Number.isNaN(leadId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid lead ID',
+    });
+    return;
+  }
+
+  await sendTimeline(req, res, { type: 'lead', id: leadId });
+}
+
+/**
+ * Handles GET /api/clients/:id/timeline - One page of the client's events, newest first
+ */
+export async function getClientTimeline(req: Request, res: Response): Promise<void> {
+  if (!req.params.id) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid client ID',
+    });
+    return;
+  }
+
+  await sendTimeline(req, res, { type: 'client', id: req.params.id });
+}
@@ -6,6 +6,10 @@
 
 import { Request, Response } from 'express';
 import * as visitsService from '../services/visits.service';
+import { validateVisitLocation, validateVisitScheduleQuery, validateVisitRouteQuery } from '../validators/visits.validator';
+import { resolveOwnerFilter } from '../validators/ownership.validator';
+import { hasPermission } from '../lib/permissions';
+import { sendValidationErrors } from '../lib/http-error';
 
 export async function getAllVisits(req: Request, res: Response): Promise<void> {
   try {
@@ -61,7 +65,7 @@ export async function getVisitById(req: Request, res: Response): Promise<void> {
 
 export async function createVisit(req: Request, res: Response): Promise<void> {
   try {
-    const { lead_id, visit_date, address, visit_type, status, notes } = req.body;
+    const { lead_id, visit_date, address, visit_type, status, notes, assigned_to_email } = req.body;
 
     if (!lead_id || !visit_date) {
       res.status(400).json({
@@ -71,6 +75,7 @@ export async function createVisit(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    // Visits are scheduled for the creator unless another rep is given
     const newVisit = await visitsService.createVisit({
       lead_id: parseInt(lead_id),
       visit_date,
@@ -78,6 +83,8 @@ export async function createVisit(req: Request, res: Response): Promise<void> {
       visit_type,
       status,
       notes,
+      assigned_to_email: assigned_to_email || req.user!.email,
+      created_by_email: req.user!.email,
     });
 
     res.status(201).json({
@@ -105,7 +112,7 @@ export async function updateVisit(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const { visit_date, address, visit_type, status, notes, in_time, out_time } = req.body;
+    const { visit_date, address, visit_type, status, notes, in_time, out_time, assigned_to_email } = req.body;
     const updatedVisit = await visitsService.updateVisit(id, {
       visit_date,
       address,
@@ -114,6 +121,7 @@ export async function updateVisit(req: Request, res: Response): Promise<void> {
       notes,
       in_time,
       out_time,
+      assigned_to_email,
     });
 
     if (!updatedVisit) {
@@ -172,3 +180,142 @@ export async function deleteVisit(req: Request, res: Response): Promise<void> {
   }
 }
 
+
+/**
+ * Handles GET /api/visits/schedule?from=&to=&rep= - Visits in the range grouped by day
+ *
+ * rep is 'me' or a rep's email; every rep's visits are returned without it.
+ */
+export async function getVisitSchedule(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateVisitScheduleQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { from, to, rep } = validation.data!;
+    const days = await visitsService.getSchedule({
+      from,
+      to,
+      repEmail: resolveOwnerFilter(rep, req.user!.email),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: days,
+      count: days.reduce((total, day) => total + day.visits.length, 0),
+    });
+  } catch (error: any) {
+    console.error('Error fetching visit schedule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch visit schedule',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles GET /api/visits/route?date=&rep= - A rep's visits for the day in driving order
+ *
+ * rep defaults to the caller. startLatitude/startLongitude set where the route starts;
+ * otherwise it starts at the earliest scheduled visit.
+ */
+export async function getVisitRoute(req: Request, res: Response): Promise<void> {
+  try {
+    const validation = validateVisitRouteQuery(req.query);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    const { date, rep, startLatitude, startLongitude } = validation.data!;
+    const route = await visitsService.planVisitRoute({
+      date,
+      repEmail: resolveOwnerFilter(rep, req.user!.email) ?? req.user!.email,
+      start: startLatitude !== undefined && startLongitude !== undefined
+        ? { latitude: startLatitude, longitude: startLongitude }
+        : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: route,
+    });
+  } catch (error: any) {
+    console.error('Error planning visit route:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to plan visit route',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Shared handler for check-in and check-out: both take the rep's coordinates
+ */
+async function recordVisitCheck(req: Request, res: Response, action: 'check-in' | 'check-out'): Promise<void> {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid visit ID',
+      });
+      return;
+    }
+
+    const validation = validateVisitLocation(req.body);
+    if (!validation.success) {
+      sendValidationErrors(res, validation.errors);
+      return;
+    }
+
+    // Reps check in and out of their own visits; managers can do it for anyone
+    const actor = {
+      userEmail: req.user!.email,
+      canManageVisits: hasPermission(req.user!.role, 'visits:manage'),
+    };
+    const visit = action === 'check-in'
+      ? await visitsService.checkIn(id, { ...validation.data!, ...actor })
+      : await visitsService.checkOut(id, { ...validation.data!, ...actor });
+
+    res.status(200).json({
+      success: true,
+      data: visit,
+      message: action === 'check-in' ? 'Checked in successfully' : 'Checked out successfully',
+    });
+  } catch (error: any) {
+    // Another rep's visit (403), unknown visit (404) or check-in / check-out out of order (409)
+    if (error.statusCode === 403 || error.statusCode === 404 || error.statusCode === 409) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`Error recording visit ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to ${action}`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Handles POST /api/visits/:id/check-in - Records arrival time and coordinates
+ */
+export async function checkInVisit(req: Request, res: Response): Promise<void> {
+  await recordVisitCheck(req, res, 'check-in');
+}
+
+/**
+ * Handles POST /api/visits/:id/check-out - Records departure time and coordinates
+ */
+export async function checkOutVisit(req: Request, res: Response): Promise<void> {
+  await recordVisitCheck(req, res, 'check-out');
+}
@@ -0,0 +1,127 @@
+/**
+ * Bearer Token Utility
+ *
+ * Verifies HS256-signed JWTs sent in the Authorization header.
+ *
+ * Two modes are supported (selected with AUTH_MODE):
+ * - 'supabase' (default): tokens issued by Supabase Auth, verified with SUPABASE_JWT_SECRET
+ * - 'local': tokens signed by this API with AUTH_LOCAL_SECRET (used by tests and scripts)
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Claims we read from a verified token
+ */
+export interface TokenClaims {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  iat?: number;
+  [key: string]: unknown;
+}
+
+type AuthMode = 'supabase' | 'local';
+
+function getAuthMode(): AuthMode {
+  return process.env.AUTH_MODE === 'local' ? 'local' : 'supabase';
+}
+
+/**
+ * Get the signing secret for the configured mode
+ * Returns null if the secret is not set (every token will then be rejected)
+ */
+function getSigningSecret(): string | null {
+  const secret = getAuthMode() === 'local'
+    ? process.env.AUTH_LOCAL_SECRET
+    : process.env.SUPABASE_JWT_SECRET;
+
+  return secret || null;
+}
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+function base64UrlDecode(input: string): Buffer {
+  const normalized = input.replace(/-/g, '+').replace(/_/g, '/');
+  return Buffer.from(normalized, 'base64');
+}
+
+function sign(data: string, secret: string): string {
+  return base64UrlEncode(crypto.createHmac('sha256', secret).update(data).digest());
+}
+
+/**
+ * Verifies a bearer token and returns its claims
+ *
+ * @param token - The raw JWT (without the "Bearer " prefix)
+ * @returns The decoded claims
+ * @throws Error if the token is malformed, has a bad signature or has expired
+ */
+export function verifyToken(token: string): TokenClaims {
+  const secret = getSigningSecret();
+  if (!secret) {
+    throw new Error(`Token secret is not configured for auth mode '${getAuthMode()}'`);
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: { alg?: string };
+  let claims: TokenClaims;
+  try {
+    header = JSON.parse(base64UrlDecode(headerPart).toString('utf8'));
+    claims = JSON.parse(base64UrlDecode(payloadPart).toString('utf8'));
+  } catch {
+    throw new Error('Malformed token');
+  }
+
+  if (header.alg !== 'HS256') {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  // Compare signatures in constant time to avoid timing attacks
+  const expected = Buffer.from(sign(`${headerPart}.${payloadPart}`, secret));
+  const actual = Buffer.from(signaturePart);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid token signature');
+  }
+
+  if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+    throw new Error('Token has expired');
+  }
+
+  return claims;
+}
+
+/**
+ * Signs a token with AUTH_LOCAL_SECRET (local mode only)
+ *
+ * @param claims - Claims to embed (email is required to resolve the user)
+ * @param expiresInSeconds - Token lifetime (default: 1 hour)
+ * @returns A signed JWT
+ */
+export function signLocalToken(
+  claims: TokenClaims & { email: string },
+  expiresInSeconds: number = 3600
+): string {
+  const secret = process.env.AUTH_LOCAL_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_LOCAL_SECRET is not set');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({ iat: now, exp: now + expiresInSeconds, ...claims }));
+
+  return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * CSV Formatting
+ *
+ * Minimal RFC 4180 writer used by the export endpoint.
+ * Values containing commas, quotes or line breaks are quoted, with quotes doubled.
+ */
+
+/**
+ * Converts a single value to its CSV field text
+ * Dates become ISO strings, objects and arrays become JSON, null/undefined become empty fields.
+ */
+export function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats one CSV line (terminated with CRLF)
+ */
+export function toCsvLine(values: unknown[]): string {
+  return `${values.map(toCsvField).join(',')}\r\n`;
+}
@@ -0,0 +1,28 @@
+/**
+ * Pagination Cursors
+ *
+ * Opaque cursors for keyset (cursor-based) pagination.
+ * A cursor is the base64url-encoded JSON of the last row's sort key, so clients
+ * just pass back the nextCursor they received without interpreting it.
+ */
+
+/**
+ * Encodes a sort key into an opaque cursor string
+ */
+export function encodeCursor(key: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor string back into its sort key
+ *
+ * @returns The decoded key, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return decoded && typeof decoded === 'object' && !Array.isArray(decoded) ? decoded : null;
+  } catch {
+    return null;
+  }
+}
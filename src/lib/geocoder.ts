@@ -0,0 +1,149 @@
+/**
+ * Geocoder
+ *
+ * Turns a free-text address into coordinates for visit route planning.
+ *
+ * The implementation is selected with GEOCODER:
+ * - 'stub': offline and deterministic. The same address always maps to the same point
+ *   within 0.2° (about 20 km) of GEOCODER_STUB_CENTER ("lat,lng", default "0,0"). Used in development and tests,
+ *   where it is the default; in any other NODE_ENV, GEOCODER must be set.
+ * - 'nominatim': OpenStreetMap Nominatim search API (GEOCODER_URL overrides the base URL,
+ *   GEOCODER_USER_AGENT identifies this app as their usage policy requires). Requests are spaced
+ *   at least a second apart, as the policy asks (per server instance).
+ *
+ * Another implementation can be plugged in with setGeocoder().
+ */
+
+import crypto from 'crypto';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geocoder {
+  name: string;
+  /**
+   * @returns The address's coordinates, or null if the address could not be found
+   */
+  geocode(address: string): Promise<GeoPoint | null>;
+}
+
+/**
+ * Request timeout for remote geocoders
+ */
+const GEOCODE_TIMEOUT_MS = 5000;
+
+/**
+ * Nominatim's usage policy allows at most one request per second
+ */
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+/**
+ * Environments where GEOCODER may be left unset and the stub is used
+ */
+const STUB_DEFAULT_ENVS = ['development', 'test'];
+
+function parseStubCenter(): GeoPoint {
+  const [latitude, longitude] = (process.env.GEOCODER_STUB_CENTER || '0,0').split(',').map(Number);
+  return {
+    latitude: Number.isFinite(latitude) ? latitude : 0,
+    longitude: Number.isFinite(longitude) ? longitude : 0,
+  };
+}
+
+export const stubGeocoder: Geocoder = {
+  name: 'stub',
+  async geocode(address: string): Promise<GeoPoint | null> {
+    const normalized = address.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!normalized) {
+      return null;
+    }
+
+    // Two 32-bit slices of the hash give offsets of up to ±0.2° around the center
+    const hash = crypto.createHash('sha256').update(normalized).digest();
+    const center = parseStubCenter();
+    const offset = (value: number) => (value / 0xffffffff - 0.5) * 0.4;
+    return {
+      latitude: Number((center.latitude + offset(hash.readUInt32BE(0))).toFixed(6)),
+      longitude: Number((center.longitude + offset(hash.readUInt32BE(4))).toFixed(6)),
+    };
+  },
+};
+
+let nextNominatimSlot = 0;
+
+/**
+ * Waits for this request's turn. Slots are reserved before waiting, so concurrent
+ * requests queue up a second apart instead of all firing when the wait ends.
+ */
+async function waitForNominatimSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextNominatimSlot);
+  nextNominatimSlot = slot + NOMINATIM_MIN_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+  async geocode(address: string): Promise<GeoPoint | null> {
+    await waitForNominatimSlot();
+
+    const baseUrl = process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org';
+    const url = `${baseUrl}/search?format=json&limit=1&q=${encodeURIComponent(address)}`;
+
+    const response = await fetch(url, {
+      headers: { 'User-Agent': process.env.GEOCODER_USER_AGENT || 'uplora-crm-backend' },
+      signal: AbortSignal.timeout(GEOCODE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const results = (await response.json()) as { lat: string; lon: string }[];
+    if (results.length === 0) {
+      return null;
+    }
+    return { latitude: Number(results[0].lat), longitude: Number(results[0].lon) };
+  },
+};
+
+const GEOCODERS: Record<string, Geocoder> = {
+  stub: stubGeocoder,
+  nominatim: nominatimGeocoder,
+};
+
+let overrideGeocoder: Geocoder | null = null;
+
+/**
+ * Replaces the configured geocoder (pass null to go back to GEOCODER)
+ */
+export function setGeocoder(geocoder: Geocoder | null): void {
+  overrideGeocoder = geocoder;
+}
+
+/**
+ * Returns the geocoder to use
+ *
+ * @throws Error if GEOCODER names an unknown implementation, or is not set outside development and tests
+ */
+export function getGeocoder(): Geocoder {
+  if (overrideGeocoder) {
+    return overrideGeocoder;
+  }
+
+  const name = process.env.GEOCODER || (STUB_DEFAULT_ENVS.includes(process.env.NODE_ENV || '') ? 'stub' : '');
+  if (!name) {
+    throw new Error(
+      `GEOCODER is not set (expected one of: ${Object.keys(GEOCODERS).join(', ')}); ` +
+      'the stub geocoder is only the default in development and tests'
+    );
+  }
+  const geocoder = GEOCODERS[name];
+  if (!geocoder) {
+    throw new Error(`Unknown geocoder '${name}' (expected one of: ${Object.keys(GEOCODERS).join(', ')})`);
+  }
+  return geocoder;
+}
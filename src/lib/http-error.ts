@@ -0,0 +1,38 @@
+/**
+ * HTTP Errors
+ *
+ * Services throw an HttpError when a request can't be served as asked (unknown record,
+ * invalid reference, forbidden change...). Controllers answer with its statusCode and
+ * message instead of a 500:
+ *
+ *   throw new HttpError(`Task with id ${taskId} does not exist`, 404);
+ *
+ *   if (error.statusCode === 404) { res.status(404).json({ success: false, message: error.message }); }
+ */
+
+import { Response } from 'express';
+import type { ZodError } from 'zod';
+
+export class HttpError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Sends a 400 response listing the validation errors
+ */
+export function sendValidationErrors(res: Response, errors: ZodError | undefined): void {
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors?.errors.map((err) => ({
+      field: err.path.join('.'),
+      message: err.message,
+    })),
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Lead Stage/Status Transition Rules
+ *
+ * Central state machine for PATCH /api/leads/:id. Each map lists, for a current
+ * value, which values a lead may move to next. Edit these maps to change the rules;
+ * the validator and the leads service both read from here.
+ *
+ * - Setting a field to its current value is always allowed (no-op)
+ * - Leads with a legacy/unknown current value may move to any known value
+ * - Empty lists make a value terminal (e.g. a won lead can't go back to new)
+ */
+
+export const LEAD_STAGES = ['new', 'qualified', 'proposal', 'negotiation', 'closed'] as const;
+export const LEAD_STATUSES = ['new', 'contacted', 'won', 'lost'] as const;
+
+export type LeadStage = typeof LEAD_STAGES[number];
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const LEAD_STAGE_TRANSITIONS: Record<LeadStage, readonly LeadStage[]> = {
+  new: ['qualified', 'proposal', 'closed'],
+  qualified: ['new', 'proposal', 'negotiation', 'closed'],
+  proposal: ['qualified', 'negotiation', 'closed'],
+  negotiation: ['proposal', 'closed'],
+  // Reopening a closed lead puts it back into negotiation
+  closed: ['negotiation'],
+};
+
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, readonly LeadStatus[]> = {
+  new: ['contacted', 'won', 'lost'],
+  contacted: ['won', 'lost'],
+  won: [],
+  // Lost leads can be re-engaged
+  lost: ['contacted'],
+};
+
+function isAllowed<T extends string>(
+  transitions: Record<T, readonly T[]>,
+  from: string | null,
+  to: T
+): boolean {
+  const current = from?.toLowerCase() ?? null;
+
+  if (current === to) {
+    return true;
+  }
+  if (current === null || !(current in transitions)) {
+    return true;
+  }
+  return transitions[current as T].includes(to);
+}
+
+/**
+ * Checks whether a lead may move from one stage to another
+ */
+export function canTransitionStage(from: string | null, to: LeadStage): boolean {
+  return isAllowed(LEAD_STAGE_TRANSITIONS, from, to);
+}
+
+/**
+ * Checks whether a lead may move from one status to another
+ */
+export function canTransitionStatus(from: string | null, to: LeadStatus): boolean {
+  return isAllowed(LEAD_STATUS_TRANSITIONS, from, to);
+}
@@ -0,0 +1,27 @@
+/**
+ * @Mentions
+ *
+ * Comments mention team members by email with an @ in front, e.g.
+ *   "@ann@uplora-crm.com can you confirm the delivery date?"
+ *
+ * A mention must start the text or follow a character that can't be part of an email,
+ * so plain email addresses ("ann@uplora-crm.com") are not mentions.
+ */
+
+const MENTION_PATTERN = /(^|[^A-Za-z0-9._%+@-])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/**
+ * Extracts the mentioned emails from a text
+ *
+ * @returns The emails, lowercased and without duplicates, in order of first mention
+ */
+export function parseMentions(text: string): string[] {
+  const mentions: string[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const email = match[2].toLowerCase();
+    if (!mentions.includes(email)) {
+      mentions.push(email);
+    }
+  }
+  return mentions;
+}
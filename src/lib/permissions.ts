@@ -0,0 +1,62 @@
+/**
+ * Permission Matrix
+ *
+ * Central list of which roles (users.role) may perform restricted actions.
+ * Routes reference permissions by name through requirePermission() so the
+ * rules live in one place instead of being scattered across routers.
+ */
+
+import type { UserRole } from '../types/auth';
+
+export const PERMISSIONS = {
+  // Create, update and delete team members (/api/team)
+  'team:manage': ['admin', 'manager'],
+  // Create, update and delete subscription plans (/api/pricing)
+  'pricing:manage': ['admin', 'manager'],
+  // Create, update and delete deal pipelines and their stages (/api/pipelines)
+  'pipelines:manage': ['admin', 'manager'],
+  // Merge duplicate contacts, deleting the merged one (POST /api/contacts/merge)
+  'contacts:merge': ['admin', 'manager'],
+  // Hard-delete a client from the trash (DELETE /api/clients/:id/permanent)
+  'clients:permanent_delete': ['admin', 'manager'],
+  // Read credentials with decrypted passwords (GET /api/clients/:clientId/credentials, GET /api/credentials/:id)
+  'credentials:decrypt': ['admin', 'manager'],
+  // Manage cold call dispositions and call scripts (/api/calls/dispositions, /api/call-scripts)
+  'calls:configure': ['admin', 'manager'],
+  // Create, update and delete task templates (/api/task-templates)
+  'task_templates:manage': ['admin', 'manager'],
+  // Reassign, reprioritize, reschedule or close many tasks at once (POST /api/tasks/bulk)
+  'tasks:bulk_update': ['admin', 'manager'],
+  // Check in or out of visits assigned to another rep (POST /api/visits/:id/check-in, /check-out)
+  'visits:manage': ['admin', 'manager'],
+  // Download every matching lead, deal, client, task, call, visit or activity as a file (GET /api/export/:entity)
+  'export:run': ['admin', 'manager'],
+  // Create, rename and delete companies, which relinks or unlinks their contacts and leads (/api/companies)
+  'companies:manage': ['admin', 'manager'],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Checks whether a role is granted a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly UserRole[]).includes(role);
+}
+
+/**
+ * Roles from least to most privileged
+ */
+export const ROLE_RANK: Record<UserRole, number> = { user: 0, manager: 1, admin: 2 };
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_RANK, value);
+}
+
+/**
+ * Checks whether a caller may give (or take away) a role: nobody can grant a role above their own,
+ * so a manager cannot create admins or promote anyone, themselves included, to admin
+ */
+export function canAssignRole(callerRole: UserRole, role: UserRole): boolean {
+  return ROLE_RANK[role] <= ROLE_RANK[callerRole];
+}
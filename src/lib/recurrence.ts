@@ -0,0 +1,178 @@
+/**
+ * Task Recurrence Rules
+ *
+ * Recurring tasks store an RRULE-style rule (RFC 5545 subset), e.g.
+ *   FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;COUNT=12   (12 month-end reports)
+ *   FREQ=WEEKLY;INTERVAL=2;UNTIL=20241231            (every other week until the end of the year)
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL (default 1), COUNT or UNTIL,
+ * and BYMONTHDAY for monthly rules. COUNT includes the first task.
+ * Monthly rules keep their day of the month: BYMONTHDAY=31 falls on the last day of shorter months.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number; // Total number of occurrences, including the first
+  until?: string; // Last day an occurrence may fall on (YYYY-MM-DD, inclusive)
+  byMonthDay?: number; // Monthly rules: day of the month (1-31)
+}
+
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+
+function parsePositiveInt(value: string, max: number): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = parseInt(value, 10);
+  return parsed >= 1 && parsed <= max ? parsed : null;
+}
+
+/**
+ * Parses UNTIL (YYYYMMDD, YYYYMMDDTHHMMSSZ or YYYY-MM-DD) into YYYY-MM-DD
+ */
+function parseUntil(value: string): string | null {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})(T\d{6}Z?)?$/);
+  if (!match) {
+    return null;
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return Number.isNaN(Date.parse(date)) ? null : date;
+}
+
+/**
+ * Parses a rule string ("RRULE:" prefix optional, part names case-insensitive)
+ *
+ * @returns The rule, or null if it is malformed or uses unsupported parts
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, fieldValue, ...rest] = part.split('=');
+    if (!key || fieldValue === undefined || rest.length > 0) {
+      return null;
+    }
+    const name = key.trim().toUpperCase();
+    if (fields.has(name)) {
+      return null;
+    }
+    fields.set(name, fieldValue.trim().toUpperCase());
+  }
+
+  const frequency = fields.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!frequency || !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    return null;
+  }
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [name, fieldValue] of fields) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = parsePositiveInt(fieldValue, MAX_INTERVAL);
+        if (interval === null) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = parsePositiveInt(fieldValue, MAX_COUNT);
+        if (count === null) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(fieldValue);
+        if (until === null) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const day = parsePositiveInt(fieldValue, 31);
+        if (day === null || frequency !== 'MONTHLY') return null;
+        rule.byMonthDay = day;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // RFC 5545: COUNT and UNTIL must not both be given
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return null;
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a rule back into its canonical string
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.byMonthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Pins a monthly rule to the first due date's day of the month (when it has no BYMONTHDAY yet),
+ * so later occurrences don't drift after a short month
+ */
+export function anchorRecurrenceRule(rule: RecurrenceRule, firstDueDate: Date): RecurrenceRule {
+  if (rule.frequency !== 'MONTHLY' || rule.byMonthDay !== undefined) {
+    return rule;
+  }
+  return { ...rule, byMonthDay: firstDueDate.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Works out the due date of the occurrence after the given one
+ *
+ * @param rule - The series' rule
+ * @param dueDate - Due date of the current occurrence
+ * @param occurrence - Number of the current occurrence (1 = first task)
+ * @returns The next due date, or null when the series is over
+ */
+export function nextOccurrence(rule: RecurrenceRule, dueDate: Date, occurrence: number): Date | null {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return null;
+  }
+
+  const next = new Date(dueDate.getTime());
+  if (rule.frequency === 'DAILY') {
+    next.setUTCDate(next.getUTCDate() + rule.interval);
+  } else if (rule.frequency === 'WEEKLY') {
+    next.setUTCDate(next.getUTCDate() + 7 * rule.interval);
+  } else {
+    const day = rule.byMonthDay ?? dueDate.getUTCDate();
+    const month = dueDate.getUTCMonth() + rule.interval;
+    const year = dueDate.getUTCFullYear() + Math.floor(month / 12);
+    const monthOfYear = month % 12;
+    next.setUTCFullYear(year, monthOfYear, Math.min(day, daysInMonth(year, monthOfYear)));
+  }
+
+  if (rule.until !== undefined && next.toISOString().slice(0, 10) > rule.until) {
+    return null;
+  }
+  return next;
+}
@@ -0,0 +1,118 @@
+/**
+ * Route Planner
+ *
+ * Orders a day's stops into a short driving route for GET /api/visits/route.
+ * Distances are straight-line (haversine) estimates, not road distances.
+ *
+ * The route is an open path from a fixed start (the rep's start location, or the first stop):
+ * 1. Nearest neighbour: always drive to the closest stop not visited yet
+ * 2. 2-opt: reverse any segment of the route that makes it shorter, until nothing improves
+ */
+
+import type { GeoPoint } from './geocoder';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Gives up improving after this many 2-opt passes (a day's route converges in a few)
+ */
+const MAX_TWO_OPT_PASSES = 50;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Length of a path through the points in the given order
+ */
+export function pathLengthKm(points: GeoPoint[], order: number[]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += haversineKm(points[order[i - 1]], points[order[i]]);
+  }
+  return total;
+}
+
+function nearestNeighbourOrder(points: GeoPoint[], startIndex: number): number[] {
+  const order = [startIndex];
+  const remaining = new Set(points.map((_, index) => index));
+  remaining.delete(startIndex);
+
+  while (remaining.size > 0) {
+    const last = points[order[order.length - 1]];
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (const index of remaining) {
+      const distance = haversineKm(last, points[index]);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+
+  return order;
+}
+
+/**
+ * Improves an open path by reversing segments. The first point stays first.
+ */
+function twoOpt(points: GeoPoint[], order: number[]): number[] {
+  const route = [...order];
+  const distance = (a: number, b: number) => haversineKm(points[route[a]], points[route[b]]);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        // Reversing route[i..j] swaps edges (i-1, i) and (j, j+1) for (i-1, j) and (i, j+1);
+        // the path is open, so there is no edge after the last point
+        const before = distance(i - 1, i) + (j + 1 < route.length ? distance(j, j + 1) : 0);
+        const after = distance(i - 1, j) + (j + 1 < route.length ? distance(i, j + 1) : 0);
+        if (after < before - 1e-9) {
+          route.splice(i, j - i + 1, ...route.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) {
+      break;
+    }
+  }
+
+  return route;
+}
+
+/**
+ * Orders points into a short open route
+ *
+ * @param points - Stops to visit
+ * @param start - Where the route starts; when missing, it starts at points[0]
+ * @returns Indexes into points in visiting order
+ */
+export function planRoute(points: GeoPoint[], start?: GeoPoint): number[] {
+  if (points.length <= 1) {
+    return points.map((_, index) => index);
+  }
+
+  // A start location is routed as an extra point that stays first and is dropped afterwards
+  const all = start ? [start, ...points] : points;
+  const route = twoOpt(all, nearestNeighbourOrder(all, 0));
+  return start ? route.slice(1).map((index) => index - 1) : route;
+}
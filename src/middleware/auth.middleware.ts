@@ -0,0 +1,74 @@
+/**
+ * Authentication Middleware
+ *
+ * Verifies the signed bearer token on every API request and attaches the caller
+ * to req.user. Controllers read identity from req.user only - client-supplied
+ * headers such as x-user-email are never trusted.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { verifyToken } from '../lib/auth';
+import * as teamService from '../services/team.service';
+import type { UserRole } from '../types/auth';
+
+const VALID_ROLES: UserRole[] = ['admin', 'manager', 'user'];
+
+function sendUnauthorized(res: Response, message: string): void {
+  res.status(401).json({
+    success: false,
+    message,
+  });
+}
+
+/**
+ * Requires a valid "Authorization: Bearer <token>" header
+ *
+ * Flow: read token → verify signature/expiry → look up the user by email → set req.user
+ * Rejects with 401 if the token is missing or invalid, or the user is unknown or inactive.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const header = req.header('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) {
+    sendUnauthorized(res, 'Authentication required');
+    return;
+  }
+
+  const token = header.slice(7).trim();
+
+  let email: string | undefined;
+  try {
+    const claims = verifyToken(token);
+    email = typeof claims.email === 'string' ? claims.email : undefined;
+  } catch (error: any) {
+    sendUnauthorized(res, 'Invalid or expired token');
+    return;
+  }
+
+  if (!email) {
+    sendUnauthorized(res, 'Token does not contain an email');
+    return;
+  }
+
+  try {
+    const member = await teamService.getTeamMemberByEmail(email);
+    if (!member || !member.is_active) {
+      sendUnauthorized(res, 'User is not registered or inactive');
+      return;
+    }
+
+    req.user = {
+      id: member.id,
+      email: member.email,
+      role: VALID_ROLES.includes(member.role as UserRole) ? (member.role as UserRole) : 'user',
+    };
+
+    next();
+  } catch (error: any) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to authenticate request',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+}
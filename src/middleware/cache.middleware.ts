@@ -31,7 +31,7 @@ export const cacheOptions = {
 export const setCacheHeaders = (maxAge: keyof typeof cacheOptions) => {
   return (req: Request, res: Response, next: NextFunction) => {
     res.setHeader('Cache-Control', cacheOptions[maxAge]);
-    res.setHeader('Vary', 'Accept-Encoding'); // Vary by compression
+    res.setHeader('Vary', 'Accept-Encoding, Authorization'); // Vary by compression and caller (e.g. ?owner=me)
     next();
   };
 };
@@ -44,7 +44,7 @@ export const conditionalCache = (maxAge: keyof typeof cacheOptions) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (req.method === 'GET') {
       res.setHeader('Cache-Control', cacheOptions[maxAge]);
-      res.setHeader('Vary', 'Accept-Encoding');
+      res.setHeader('Vary', 'Accept-Encoding, Authorization');
     } else {
       res.setHeader('Cache-Control', cacheOptions.none);
     }
@@ -0,0 +1,33 @@
+/**
+ * Cron Middleware
+ *
+ * Scheduled jobs are triggered over HTTP by Vercel Cron, which sends
+ * "Authorization: Bearer <CRON_SECRET>". Cron routes are mounted before the
+ * authenticate middleware and use this check instead of a user token.
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Allows the request only if it carries the CRON_SECRET bearer token.
+ * Rejects every request while CRON_SECRET is not configured.
+ */
+export function requireCronSecret(req: Request, res: Response, next: NextFunction): void {
+  const secret = process.env.CRON_SECRET;
+  const header = req.header('authorization') || '';
+  const token = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+
+  // Compare in constant time to avoid timing attacks
+  const expected = Buffer.from(secret || '');
+  const actual = Buffer.from(token);
+  if (!secret || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid cron secret',
+    });
+    return;
+  }
+
+  next();
+}
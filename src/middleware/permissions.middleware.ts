@@ -0,0 +1,47 @@
+/**
+ * Permissions Middleware
+ *
+ * Role-based access control on top of the authenticate middleware.
+ * Both helpers expect req.user to be set and respond with 403 when the caller's role is not allowed.
+ *
+ * Example:
+ *   router.post('/', requirePermission('pricing:manage'), createPlan);
+ *   router.get('/audit', requireRole('admin'), getAuditLog);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { hasPermission, Permission } from '../lib/permissions';
+import type { UserRole } from '../types/auth';
+
+function sendForbidden(res: Response): void {
+  res.status(403).json({
+    success: false,
+    message: 'You do not have permission to perform this action',
+  });
+}
+
+/**
+ * Allows the request only if the caller has one of the given roles
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      sendForbidden(res);
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Allows the request only if the caller's role is granted the permission in the permission matrix
+ */
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user.role, permission)) {
+      sendForbidden(res);
+      return;
+    }
+    next();
+  };
+};
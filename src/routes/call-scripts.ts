@@ -0,0 +1,27 @@
+/**
+ * Call Scripts Routes
+ *
+ * Routes for reusable call scripts. Scripts are attached to a cold call with
+ * callScriptId (POST /api/leads/:id/cold-calls) or call_script_id (/api/calls).
+ * Everyone can read scripts; creating and editing them is limited to managers.
+ */
+
+import { Router } from 'express';
+import {
+  getCallScripts,
+  getCallScript,
+  createCallScript,
+  updateCallScript,
+  deleteCallScript,
+} from '../controllers/call-scripts.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+router.get('/', getCallScripts);
+router.get('/:id', getCallScript);
+router.post('/', requirePermission('calls:configure'), createCallScript);
+router.patch('/:id', requirePermission('calls:configure'), updateCallScript);
+router.delete('/:id', requirePermission('calls:configure'), deleteCallScript);
+
+export default router;
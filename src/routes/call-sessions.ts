@@ -0,0 +1,33 @@
+/**
+ * Call Sessions Routes
+ *
+ * Routes for call sessions: a rep's queue of leads to cold call.
+ *
+ * POST /api/call-sessions
+ * {
+ *   "name": "Dentists - Monday", // optional
+ *   "filters": { "stage": "new", "verticals": "Dental", "lastContactedBefore": "2024-05-01", "noCallInDays": 14 },
+ *   "maxLeads": 50 // optional, defaults to 100
+ * }
+ * Leads are queued least recently contacted first. GET /:id/next hands out the current lead
+ * (the same one until it is called; ?skip=true skips it). Logging the call through
+ * POST /api/leads/:id/cold-calls or POST /api/calls moves the queue on.
+ */
+
+import { Router } from 'express';
+import {
+  getCallSessions,
+  getCallSession,
+  createCallSession,
+  getNextLead,
+} from '../controllers/call-sessions.controller';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+
+const router = Router();
+
+router.get('/', setCacheHeaders('none'), getCallSessions);
+router.post('/', createCallSession);
+router.get('/:id', setCacheHeaders('none'), getCallSession);
+router.get('/:id/next', setCacheHeaders('none'), getNextLead);
+
+export default router;
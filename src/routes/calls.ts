@@ -2,6 +2,7 @@
  * Calls Routes
  *
  * Routes for cold calls endpoints.
+ * Dispositions are readable by everyone; adding and editing them is limited to managers.
  */
 
 import { Router } from 'express';
@@ -11,11 +12,21 @@ import {
   createCall,
   updateCall,
   deleteCall,
+  getDispositions,
+  createDisposition,
+  updateDisposition,
 } from '../controllers/calls.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
 router.get('/', getAllCalls);
+
+// Disposition routes are registered before /:id so "dispositions" isn't parsed as a call ID
+router.get('/dispositions', getDispositions);
+router.post('/dispositions', requirePermission('calls:configure'), createDisposition);
+router.patch('/dispositions/:key', requirePermission('calls:configure'), updateDisposition);
+
 router.get('/:id', getCallById);
 router.post('/', createCall);
 router.patch('/:id', updateCall);
@@ -10,11 +10,14 @@ import {
   getClientById,
   createClient,
   updateClient,
+  updateClientOwner,
   deleteClient,
   getDeletedClients,
   restoreClient,
   permanentDeleteClient,
 } from '../controllers/clients.controller';
+import { getClientTimeline } from '../controllers/timeline.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
@@ -25,10 +28,12 @@ router.post('/', createClient);
 
 // Parameterized routes
 router.get('/:id', getClientById);
+router.get('/:id/timeline', getClientTimeline); // Includes the events of the lead the client came from
 router.patch('/:id', updateClient);
+router.patch('/:id/owner', updateClientOwner);
 router.delete('/:id', deleteClient);
 router.post('/:id/restore', restoreClient);
-router.delete('/:id/permanent', permanentDeleteClient);
+router.delete('/:id/permanent', requirePermission('clients:permanent_delete'), permanentDeleteClient);
 
 export default router;
 
@@ -0,0 +1,28 @@
+/**
+ * Companies Routes
+ *
+ * Routes for companies. GET /api/companies/:id includes the company's leads, deals and clients.
+ */
+
+import { Router } from 'express';
+import {
+  getCompanies,
+  getCompany,
+  createCompany,
+  updateCompany,
+  deleteCompany,
+} from '../controllers/companies.controller';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+// GET endpoints are cached (short cache - leads and deals change often)
+router.get('/', setCacheHeaders('short'), getCompanies);
+router.get('/:id', setCacheHeaders('short'), getCompany);
+// POST/PATCH/DELETE bypass cache and are restricted to admins/managers
+router.post('/', requirePermission('companies:manage'), setCacheHeaders('none'), createCompany);
+router.patch('/:id', requirePermission('companies:manage'), setCacheHeaders('none'), updateCompany);
+router.delete('/:id', requirePermission('companies:manage'), setCacheHeaders('none'), deleteCompany);
+
+export default router;
@@ -0,0 +1,19 @@
+/**
+ * Contacts Routes
+ *
+ * Routes for duplicate detection and merging of contacts.
+ */
+
+import { Router } from 'express';
+import { findDuplicates, mergeContacts } from '../controllers/contacts.controller';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+// GET /api/contacts/duplicates?email=&phone=&name=&company= - possible duplicates of the given details
+router.get('/duplicates', setCacheHeaders('none'), findDuplicates);
+// POST /api/contacts/merge { sourceId, targetId } - merge sourceId into targetId (restricted to admins/managers)
+router.post('/merge', requirePermission('contacts:merge'), setCacheHeaders('none'), mergeContacts);
+
+export default router;
@@ -6,17 +6,19 @@
 
 import { Router } from 'express';
 import * as credentialsController from '../controllers/credentials.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
-// Get credentials for a client
-router.get('/clients/:clientId/credentials', credentialsController.getCredentialsByClient);
+// Get credentials for a client (returns decrypted passwords - admins/managers only)
+router.get('/clients/:clientId/credentials', requirePermission('credentials:decrypt'), credentialsController.getCredentialsByClient);
 
 // Create credential for a client
 router.post('/clients/:clientId/credentials', credentialsController.createCredential);
 
 // Get, update, delete a specific credential
-router.get('/credentials/:id', credentialsController.getCredentialById);
+// Reading a credential returns the decrypted password - admins/managers only
+router.get('/credentials/:id', requirePermission('credentials:decrypt'), credentialsController.getCredentialById);
 router.patch('/credentials/:id', credentialsController.updateCredential);
 router.delete('/credentials/:id', credentialsController.deleteCredential);
 
@@ -0,0 +1,25 @@
+/**
+ * Cron Routes
+ *
+ * Entry points for scheduled jobs, called by Vercel Cron (see "crons" in vercel.json).
+ * These routes are authenticated with CRON_SECRET instead of a user token.
+ *
+ * GET /api/cron/task-reminders
+ * Notifies assignees about tasks due soon or overdue and escalates long-overdue tasks
+ * to the assignee's manager. Each reminder fires once per task and due date, so the
+ * job can run as often as needed; every run is recorded in automation_runs. A run stops
+ * after about 20 seconds ("partial": true) and the next run sends the rest.
+ */
+
+import { Router } from 'express';
+import { runTaskReminders } from '../controllers/cron.controller';
+import { requireCronSecret } from '../middleware/cron.middleware';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+
+const router = Router();
+
+router.use(requireCronSecret);
+
+router.get('/task-reminders', setCacheHeaders('none'), runTaskReminders);
+
+export default router;
@@ -6,6 +6,7 @@
  * 
  * Example:
  *   GET /api/dashboard/summary → calls getDashboardSummary controller
+ *   GET /api/dashboard/stage-metrics → calls getStageMetrics controller
  */
 
 import { Router } from 'express';
@@ -36,6 +37,23 @@ const router = Router();
  */
 router.get('/summary', setCacheHeaders('short'), dashboardController.getDashboardSummary);
 
+/**
+ * GET /api/dashboard/stage-metrics
+ * Retrieves lead time-in-stage and stage-to-stage conversion metrics
+ * 
+ * Example: GET /api/dashboard/stage-metrics
+ * Returns: { success: true, data: { timeInStage: [...], conversionRates: [...] } }
+ * 
+ * Flow: Client requests metrics → controller calls service → service aggregates lead_stage_history → return metrics
+ * 
+ * Shows where leads stall:
+ * - timeInStage: average days per stage, how many leads entered it and how many are there now
+ * - conversionRates: share of leads that moved from one stage to another
+ * 
+ * Cached for 60s (medium cache) - history only grows as leads move
+ */
+router.get('/stage-metrics', setCacheHeaders('medium'), dashboardController.getStageMetrics);
+
 // Export the router so it can be used in the main app (index.ts)
 export default router;
 
@@ -6,8 +6,11 @@
  * 
  * Example:
  *   GET /api/deals/pipeline → calls getDealsPipeline controller
+ *   GET /api/deals/forecast → calls getDealsForecast controller
  *   POST /api/deals → calls createDeal controller
+ *   PATCH /api/deals/:id → calls updateDeal controller
  *   PATCH /api/deals/:id/stage → calls moveDealStage controller
+ *   PATCH /api/deals/:id/owner → calls updateDealOwner controller
  * 
  * IMPORTANT: More specific routes must come BEFORE parameterized routes.
  * Otherwise Express will match /api/deals/pipeline as /api/deals/:id with id="pipeline"
@@ -23,19 +26,17 @@ const router = Router();
 
 /**
  * GET /api/deals/pipeline
- * Retrieves all deals grouped by their pipeline stage
+ * Retrieves the deals of a pipeline grouped by that pipeline's stages
  * 
- * Example: GET /api/deals/pipeline
- * Returns: { success: true, data: { new: Deal[], qualified: Deal[], proposal: Deal[], negotiation: Deal[], closed: Deal[] } }
+ * Example: GET /api/deals/pipeline (default pipeline)
+ * Example: GET /api/deals/pipeline?pipelineId=2
+ * Example: GET /api/deals/pipeline?owner=me (only deals owned by the caller)
+ * Returns: { success: true, data: { pipeline: { id, name, ... }, stages: [{ key, name, position, probability, color, is_won, is_lost, deals: Deal[] }, ...] } }
  * 
- * Flow: Client requests pipeline → controller calls service → service queries and groups deals → return grouped object
+ * Flow: Client requests pipeline → controller calls service → service loads pipeline stages and groups deals → return stages with deals
  * 
- * The sales pipeline groups deals into 5 stages:
- * - new: Just created, not yet qualified
- * - qualified: Deal has been qualified as a real opportunity
- * - proposal: Proposal has been sent to the customer
- * - negotiation: Deal is in negotiation phase
- * - closed: Deal has been closed (won or lost)
+ * Stages are configured per pipeline under /api/pipelines. The default pipeline is:
+ * new → qualified → proposal → negotiation → closed_won / closed_lost
  * 
  * This endpoint is useful for displaying deals in a Kanban-style pipeline view.
  * 
@@ -45,6 +46,28 @@ const router = Router();
  */
 router.get('/pipeline', setCacheHeaders('medium'), dealsController.getDealsPipeline);
 
+/**
+ * GET /api/deals/forecast
+ * Returns weighted, best-case and worst-case revenue per month and per owner
+ * 
+ * Example: GET /api/deals/forecast (6 months from the current month)
+ * Example: GET /api/deals/forecast?from=2024-01&months=12&owner=me
+ * Example: GET /api/deals/forecast?pipelineId=2
+ * Returns: { success: true, data: { from, to, months: [{ month, dealCount, won, weighted, bestCase, worstCase }], owners: [...], totals: {...} } }
+ * 
+ * Flow: Client requests forecast → controller validates horizon → service sums deals per month and owner → return forecast
+ * 
+ * - weighted: won + open deal value × probability
+ * - bestCase: won + full value of open deals
+ * - worstCase: won only
+ * Open deals are placed by expected close date, won deals by close date. Lost deals are ignored.
+ * 
+ * Cached for 60s (medium cache) - forecast data changes moderately
+ * 
+ * NOTE: This route must come BEFORE parameterized routes
+ */
+router.get('/forecast', setCacheHeaders('medium'), dealsController.getDealsForecast);
+
 /**
  * POST /api/deals
  * Creates a new deal from an existing lead
@@ -55,19 +78,22 @@ router.get('/pipeline', setCacheHeaders('medium'), dealsController.getDealsPipel
  *   "leadId": 5,
  *   "title": "Enterprise License - Acme Corp",
  *   "dealValue": 50000,
- *   "notes": "High priority deal"
+ *   "notes": "High priority deal",
+ *   "pipelineId": 2,
+ *   "probability": 30,
+ *   "expectedCloseDate": "2024-06-30"
  * }
  * 
  * Flow: User converts lead to deal → controller validates → service checks lead exists → service creates deal → return new deal
  * 
  * A Deal is linked to a Lead via lead_id. This allows converting qualified leads into deals
- * for pipeline management.
+ * for pipeline management. The deal starts at the first stage of its pipeline (default pipeline if pipelineId is omitted).
  */
 router.post('/', dealsController.createDeal);
 
 /**
  * PATCH /api/deals/:id/stage
- * Moves a deal to a different stage in the sales pipeline
+ * Moves a deal to a different stage in its pipeline
  * 
  * Example: PATCH /api/deals/123e4567-e89b-12d3-a456-426614174000/stage
  * Expected request body:
@@ -75,13 +101,54 @@ router.post('/', dealsController.createDeal);
  *   "stage": "qualified"
  * }
  * 
+ * Closing a deal as lost:
+ * {
+ *   "stage": "closed_lost",
+ *   "lossReason": "Went with a cheaper agency",
+ *   "closeDate": "2024-03-31"
+ * }
+ * 
  * Flow: User moves deal in pipeline → controller validates stage → service updates deal → return updated deal
  * 
- * The sales pipeline has 5 stages: new → qualified → proposal → negotiation → closed
- * This endpoint allows moving a deal from one stage to another.
+ * The stage must belong to the deal's pipeline (default: new → qualified → proposal → negotiation → closed_won / closed_lost).
+ * Won and lost stages require closeDate; lost stages also require lossReason.
  */
 router.patch('/:id/stage', dealsController.moveDealStage);
 
+/**
+ * PATCH /api/deals/:id/owner
+ * Reassigns a deal to another team member
+ * 
+ * Example: PATCH /api/deals/123e4567-e89b-12d3-a456-426614174000/owner
+ * Expected request body:
+ * {
+ *   "ownerEmail": "rep@uplora-crm.com"
+ * }
+ * 
+ * Flow: User picks a new owner → controller validates → service updates owner → new owner is notified → return updated deal
+ */
+router.patch('/:id/owner', dealsController.updateDealOwner);
+
+/**
+ * PATCH /api/deals/:id
+ * Edits a deal's title, value, notes, pipeline, probability, expected close date and/or outcome
+ * 
+ * Example: PATCH /api/deals/123e4567-e89b-12d3-a456-426614174000
+ * Expected request body (any subset of fields):
+ * {
+ *   "title": "Website Redesign - Acme Corp",
+ *   "dealValue": 12000,
+ *   "notes": "Scope reduced to 5 pages",
+ *   "stage": "closed_won",
+ *   "closeDate": "2024-03-31"
+ * }
+ * 
+ * Flow: User edits deal → controller validates → service checks close rules → service updates deal → return updated deal
+ * 
+ * NOTE: This route must come AFTER more specific routes like /:id/stage and /:id/owner
+ */
+router.patch('/:id', dealsController.updateDeal);
+
 /**
  * DELETE /api/deals/:id
  * Deletes a deal from the database
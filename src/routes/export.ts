@@ -0,0 +1,24 @@
+/**
+ * Export Routes
+ *
+ * Routes for downloading data as files.
+ *
+ * Example:
+ *   GET /api/export/leads?format=csv&stage=qualified&owner=me
+ *   GET /api/export/deals?format=ndjson&pipelineId=2
+ *   GET /api/export/tasks?format=json&assignedTo=me&status=open
+ *
+ * Entities: leads, deals, clients, tasks, calls, visits, activities.
+ * Rows are streamed from a database cursor, so exports include every matching row.
+ * Exports are restricted to admins/managers.
+ */
+
+import { Router } from 'express';
+import { exportEntity } from '../controllers/export.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+router.get('/:entity', requirePermission('export:run'), exportEntity);
+
+export default router;
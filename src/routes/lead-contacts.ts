@@ -0,0 +1,28 @@
+/**
+ * Lead Contacts Routes
+ *
+ * Routes for the contacts linked to a lead or client, each with a role
+ * (decision_maker, billing, technical, other).
+ */
+
+import { Router } from 'express';
+import * as leadContactsController from '../controllers/lead-contacts.controller';
+
+const router = Router();
+
+// List the contacts linked to a lead (primary contact first)
+router.get('/leads/:id/contacts', leadContactsController.getLeadContacts);
+
+// Link an existing contact ({ contactId, role }) or a new one ({ contact: { name, ... }, role }) to a lead
+// Linking an already linked contact changes its role
+router.post('/leads/:id/contacts', leadContactsController.addLeadContact);
+
+// Unlink a contact from a lead
+router.delete('/leads/:id/contacts/:contactId', leadContactsController.removeLeadContact);
+
+// Same endpoints for clients
+router.get('/clients/:id/contacts', leadContactsController.getClientContacts);
+router.post('/clients/:id/contacts', leadContactsController.addClientContact);
+router.delete('/clients/:id/contacts/:contactId', leadContactsController.removeClientContact);
+
+export default router;
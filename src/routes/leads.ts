@@ -7,6 +7,10 @@
  * Example:
  *   GET /api/leads → calls getAllLeads controller
  *   POST /api/leads → calls createLead controller
+ *   POST /api/leads/import → calls importLeads controller
+ *   PATCH /api/leads/:id → calls updateLead controller
+ *   PATCH /api/leads/:id/owner → calls updateLeadOwner controller
+ *   GET /api/leads/:id/timeline → calls getLeadTimeline (timeline controller)
  * 
  * IMPORTANT: More specific routes must come BEFORE parameterized routes.
  * Otherwise Express will match /api/leads/5/timeline as /api/leads/:id with id="5/timeline"
@@ -14,6 +18,8 @@
 
 import { Router } from 'express';
 import * as leadsController from '../controllers/leads.controller';
+import * as leadImportController from '../controllers/lead-import.controller';
+import * as timelineController from '../controllers/timeline.controller';
 import { setCacheHeaders } from '../middleware/cache.middleware';
 
 // Create a new router instance
@@ -22,11 +28,25 @@ const router = Router();
 
 /**
  * GET /api/leads
- * Retrieves all leads from the database
+ * Retrieves a page of leads from the database
  * 
  * When a client makes a GET request to /api/leads,
  * Express will call the getAllLeads controller function
  * 
+ * Example: GET /api/leads?owner=me (only leads owned by the caller)
+ * Example: GET /api/leads?stage=qualified&company=acme&sortBy=name&sortOrder=asc&limit=25
+ * Example: GET /api/leads?cursor=<nextCursor from the previous page>
+ * Returns: { success: true, data: Lead[], count, total, nextCursor }
+ * 
+ * Query parameters (all optional):
+ * - limit (1-200, default 50), cursor
+ * - sortBy: created_at | updated_at | name | company | stage | status | source (default created_at)
+ * - sortOrder: asc | desc (default desc)
+ * - stage, status, source, createdByEmail (exact match)
+ * - verticals, company (partial, case-insensitive)
+ * - createdFrom, createdTo (ISO dates, inclusive)
+ * - owner: me | <email>
+ * 
  * Cached for 30s (short cache) - leads list changes frequently
  */
 router.get('/', setCacheHeaders('short'), leadsController.getAllLeads);
@@ -46,28 +66,64 @@ router.get('/', setCacheHeaders('short'), leadsController.getAllLeads);
  *   "stage": "new"
  * }
  * 
+ * If the contact looks like an existing contact (same email or phone, or similar name and company),
+ * responds 409 with { duplicates: [...] } instead of creating the lead.
+ * Send "allowDuplicate": true to create it anyway, or merge contacts via POST /api/contacts/merge.
+ * 
+ * The contact and lead are linked to a company: contact.companyId picks an existing one
+ * (see /api/companies), otherwise contact.company is matched by name or created.
+ * 
  * When a client makes a POST request to /api/leads with JSON data,
  * Express will call the createLead controller function
  */
 router.post('/', leadsController.createLead);
 
+/**
+ * POST /api/leads/import
+ * Imports leads from a CSV or XLSX spreadsheet (multipart/form-data)
+ * 
+ * Form fields:
+ * - file: the spreadsheet, header row first (max 5MB, 2000 rows)
+ * - mapping: optional JSON, e.g. {"Full Name": "contact.name", "E-mail": "contact.email", "Company": "contact.company"}
+ *   Fields: contact.name, contact.email, contact.phone, contact.company, source, stage, verticals
+ *   When omitted the mapping is suggested from the headers (the response shows the mapping used)
+ * - dryRun: "true" (default) or "false"
+ * - skipDuplicates: "true" (default) or "false"
+ * 
+ * Every row is validated like POST /api/leads and checked for duplicate contacts.
+ * Dry run (200): per-row status (valid / invalid / duplicate) with errors and duplicate candidates, nothing is saved.
+ * Commit (201): valid rows are created in batches inside one transaction and the run is recorded in automation_runs.
+ */
+router.post('/import', leadImportController.upload.single('file'), leadImportController.importLeads);
+
 /**
  * GET /api/leads/:id/timeline
- * Retrieves the complete timeline for a lead, including activities, cold calls, and onsite visits
+ * Retrieves one page of the lead's timeline: every event on the lead, newest first
  * 
- * Example: GET /api/leads/5/timeline
- * Returns: { success: true, data: { activities: [...], coldCalls: [...], onsiteVisits: [...] } }
+ * Example: GET /api/leads/5/timeline?types=note,cold_call,task_completed&limit=20
+ * Example: GET /api/leads/5/timeline?cursor=<nextCursor from the previous page>
+ * Returns: { success: true, data: [{ id, type, actor, timestamp, summary, payload }], count, nextCursor }
  * 
- * Flow: Client requests timeline → controller parses ID → service fetches all three types → return grouped timeline
+ * Event types: activity, note, cold_call, onsite_visit, task_created, task_completed,
+ * task_comment, deal_created, deal_stage_changed, lead_stage_changed, file_uploaded, chat_mention
+ * (chat messages mentioning #lead-5, shown only to their sender and receiver)
  * 
- * This endpoint groups all timeline events for a lead into three categories:
- * - activities: General activities (notes, emails, etc.)
- * - coldCalls: Outbound calls made to the lead
- * - onsiteVisits: In-person visits to the lead's location
+ * NOTE: This route must come BEFORE /:id to avoid route conflicts
+ */
+router.get('/:id/timeline', timelineController.getLeadTimeline);
+
+/**
+ * GET /api/leads/:id/stage-history
+ * Retrieves every stage and status change of a lead, oldest first
+ * 
+ * Example: GET /api/leads/5/stage-history
+ * Returns: { success: true, data: [{ field: 'stage', from_value: 'new', to_value: 'qualified', changed_at, days_in_value, ... }] }
+ * 
+ * Flow: Client requests history → controller parses ID → service fetches history with time spent in each value → return JSON
  * 
  * NOTE: This route must come BEFORE /:id to avoid route conflicts
  */
-router.get('/:id/timeline', leadsController.getLeadTimeline);
+router.get('/:id/stage-history', leadsController.getLeadStageHistory);
 
 /**
  * POST /api/leads/:id/activities
@@ -91,11 +147,14 @@ router.post('/:id/activities', leadsController.addActivity);
  * Example: POST /api/leads/5/cold-calls
  * Expected request body:
  * {
- *   "outcome": "connected",
- *   "notes": "Had a good conversation about their needs"
+ *   "disposition": "callback_requested",
+ *   "nextCallbackAt": "2024-06-03T14:00:00Z", // optional, creates a "Call back" task for the caller
+ *   "callScriptId": 2, // optional
+ *   "notes": "Asked us to call back after their board meeting"
  * }
+ * The caller is the authenticated user. "outcome" (free text) is still accepted instead of "disposition".
  * 
- * Flow: Sales rep makes a call → records outcome → controller validates → service inserts → return new cold call
+ * Flow: Sales rep makes a call → records disposition → controller validates → service inserts → return new cold call
  * 
  * Cold calls are outbound calls made to potential customers to introduce products or services.
  */
@@ -119,6 +178,41 @@ router.post('/:id/cold-calls', leadsController.addColdCall);
  */
 router.post('/:id/onsite-visits', leadsController.addOnsiteVisit);
 
+/**
+ * PATCH /api/leads/:id/owner
+ * Reassigns a lead to another team member
+ * 
+ * Example: PATCH /api/leads/5/owner
+ * Expected request body:
+ * {
+ *   "ownerEmail": "rep@uplora-crm.com"
+ * }
+ * 
+ * Flow: User picks a new owner → controller validates → service updates owner → new owner is notified → return updated lead
+ */
+router.patch('/:id/owner', leadsController.updateLeadOwner);
+
+/**
+ * PATCH /api/leads/:id
+ * Updates a lead's stage, status, source, verticals and/or notes
+ * 
+ * Example: PATCH /api/leads/5
+ * Expected request body (any subset of fields):
+ * {
+ *   "stage": "proposal",
+ *   "status": "contacted",
+ *   "notes": "Sent proposal on Monday"
+ * }
+ * 
+ * Flow: User edits lead → controller validates → service checks stage/status transitions → updates lead → logs stage change activity
+ * 
+ * Illegal transitions (e.g. status won → new) are rejected with 400.
+ * The allowed transitions are configured in src/lib/lead-transitions.ts.
+ * 
+ * NOTE: This route must come AFTER more specific routes like /:id/owner
+ */
+router.patch('/:id', leadsController.updateLead);
+
 /**
  * DELETE /api/leads/:id
  * Deletes a lead by ID
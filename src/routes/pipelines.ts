@@ -0,0 +1,28 @@
+/**
+ * Pipelines Routes
+ *
+ * Routes for deal pipelines and their stages.
+ */
+
+import { Router } from 'express';
+import {
+  getPipelines,
+  getPipeline,
+  createPipeline,
+  updatePipeline,
+  deletePipeline,
+} from '../controllers/pipelines.controller';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+// GET endpoints are cached (long cache - pipeline configuration rarely changes)
+// POST/PATCH/DELETE bypass cache and are restricted to admins/managers
+router.get('/', setCacheHeaders('long'), getPipelines);
+router.get('/:id', setCacheHeaders('long'), getPipeline);
+router.post('/', requirePermission('pipelines:manage'), setCacheHeaders('none'), createPipeline);
+router.patch('/:id', requirePermission('pipelines:manage'), setCacheHeaders('none'), updatePipeline);
+router.delete('/:id', requirePermission('pipelines:manage'), setCacheHeaders('none'), deletePipeline);
+
+export default router;
@@ -13,16 +13,17 @@ import {
   deletePlan,
 } from '../controllers/pricing.controller';
 import { setCacheHeaders, conditionalCache } from '../middleware/cache.middleware';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
 // GET endpoints are cached (long cache - pricing plans rarely change)
-// POST/PATCH/DELETE bypass cache
+// POST/PATCH/DELETE bypass cache and are restricted to admins/managers
 router.get('/', setCacheHeaders('long'), getPlans);
 router.get('/:id', setCacheHeaders('long'), getPlan);
-router.post('/', setCacheHeaders('none'), createPlan);
-router.patch('/:id', setCacheHeaders('none'), updatePlan);
-router.delete('/:id', setCacheHeaders('none'), deletePlan);
+router.post('/', requirePermission('pricing:manage'), setCacheHeaders('none'), createPlan);
+router.patch('/:id', requirePermission('pricing:manage'), setCacheHeaders('none'), updatePlan);
+router.delete('/:id', requirePermission('pricing:manage'), setCacheHeaders('none'), deletePlan);
 
 export default router;
 
@@ -0,0 +1,23 @@
+/**
+ * Search Routes
+ *
+ * Routes for the global search endpoint.
+ *
+ * Example:
+ *   GET /api/search?q=acme
+ *   GET /api/search?q=john&types=leads,contacts&limit=10
+ *
+ * Returns ranked hits grouped by entity (leads, contacts, clients, deals, activities, messages)
+ * with highlighted snippets.
+ */
+
+import { Router } from 'express';
+import { search } from '../controllers/search.controller';
+import { setCacheHeaders } from '../middleware/cache.middleware';
+
+const router = Router();
+
+// Results include the caller's own chat messages, so they are never cached
+router.get('/', setCacheHeaders('none'), search);
+
+export default router;
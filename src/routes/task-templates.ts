@@ -0,0 +1,41 @@
+/**
+ * Task Templates Routes
+ *
+ * Routes for task templates: reusable checklists of tasks.
+ *
+ * POST /api/task-templates
+ * {
+ *   "name": "New client onboarding",
+ *   "items": [
+ *     { "title": "Kick-off call", "dueInDays": 1, "priority": "high" },
+ *     { "title": "Send monthly report", "dueInDays": 30, "recurrenceRule": "FREQ=MONTHLY;COUNT=12" }
+ *   ]
+ * }
+ *
+ * POST /api/task-templates/:id/apply
+ * { "clientId": "...", "assignedToEmail": "rep@uplora-crm.com", "startDate": "2024-06-01" }
+ * creates one task per item, due dueInDays after startDate (default: today).
+ * Everyone can read and apply templates; creating and editing them is limited to managers.
+ */
+
+import { Router } from 'express';
+import {
+  getTaskTemplates,
+  getTaskTemplate,
+  createTaskTemplate,
+  updateTaskTemplate,
+  deleteTaskTemplate,
+  applyTaskTemplate,
+} from '../controllers/task-templates.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
+
+const router = Router();
+
+router.get('/', getTaskTemplates);
+router.get('/:id', getTaskTemplate);
+router.post('/', requirePermission('task_templates:manage'), createTaskTemplate);
+router.patch('/:id', requirePermission('task_templates:manage'), updateTaskTemplate);
+router.delete('/:id', requirePermission('task_templates:manage'), deleteTaskTemplate);
+router.post('/:id/apply', applyTaskTemplate);
+
+export default router;
@@ -2,24 +2,60 @@
  * Tasks Routes
  *
  * Tasks are follow-ups tied to leads. These endpoints provide:
+ * - /api/tasks for the team task board, e.g. GET /api/tasks?status=open,in_progress&overdue=true&groupBy=assignee
+ *   (filters: assignee, status, priority, dueFrom, dueTo, leadId, clientId, overdue; limit up to 500)
+ * - POST /api/tasks/bulk to reassign, reprioritize, reschedule or close many tasks (managers only)
+ *   { "taskIds": [1, 2, 3], "changes": { "assignedToEmail": "rep@uplora-crm.com", "dueDate": "2024-07-01" } }
  * - /api/tasks/my for "My Tasks" based on assigned email
+ * - GET /api/tasks/:id for one task with its progress, blockers, checklist and comments
  * - /api/leads/:id/tasks for lead-specific tasks
  * - POST /api/leads/:id/tasks to create new tasks
  * - POST /api/clients/:id/tasks to create tasks for clients
  * - PATCH /api/tasks/:id/status to mark tasks done/in progress
+ *   (tasks created with a recurrenceRule, e.g. "FREQ=WEEKLY;COUNT=4", get their next
+ *   occurrence when marked done)
+ * - /api/tasks/:id/subtasks to list and create subtasks
+ * - /api/tasks/:taskId/checklist for checklist items (PATCH an item with { "isDone": true } to check it)
+ * - /api/tasks/:id/dependencies for "blocked by" tasks; a task with open blockers
+ *   cannot be marked done (409)
+ * - /api/tasks/:id/comments for the task's discussion thread; mention teammates as
+ *   @email (e.g. "@ann@uplora-crm.com can you check?") to notify them. Only the author
+ *   can edit or delete a comment.
  * - Task attachment endpoints
+ *
+ * Task lists include progress (checklist items and subtasks done), blocked_by and is_blocked.
  */
 
 import { Router } from 'express';
 import {
+  getTasks,
+  bulkUpdateTasks,
   getMyTasks,
+  getTask,
   getLeadTasks,
   getClientTasks,
   createLeadTask,
   createClientTask,
   updateTaskStatus,
   updateTask,
+  getSubtasks,
+  createSubtask,
+  getTaskDependencies,
+  addTaskDependency,
+  removeTaskDependency,
 } from '../controllers/tasks.controller';
+import {
+  getChecklist,
+  createChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+} from '../controllers/task-checklists.controller';
+import {
+  getTaskComments,
+  createTaskComment,
+  updateTaskComment,
+  deleteTaskComment,
+} from '../controllers/task-comments.controller';
 import {
   getTaskAttachments,
   uploadTaskAttachment,
@@ -27,10 +63,14 @@ import {
   deleteAttachment,
   upload,
 } from '../controllers/task-attachments.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
+router.get('/tasks', getTasks);
+router.post('/tasks/bulk', requirePermission('tasks:bulk_update'), bulkUpdateTasks);
 router.get('/tasks/my', getMyTasks);
+router.get('/tasks/:id', getTask); // After /tasks/my so "my" isn't taken for an id
 router.get('/leads/:id/tasks', getLeadTasks);
 router.get('/clients/:id/tasks', getClientTasks);
 router.post('/leads/:id/tasks', createLeadTask);
@@ -38,6 +78,25 @@ router.post('/clients/:id/tasks', createClientTask);
 router.patch('/tasks/:id/status', updateTaskStatus);
 router.patch('/tasks/:id', updateTask);
 
+// Subtask and dependency routes
+router.get('/tasks/:id/subtasks', getSubtasks);
+router.post('/tasks/:id/subtasks', createSubtask);
+router.get('/tasks/:id/dependencies', getTaskDependencies);
+router.post('/tasks/:id/dependencies', addTaskDependency);
+router.delete('/tasks/:id/dependencies/:blockedByTaskId', removeTaskDependency);
+
+// Task checklist routes
+router.get('/tasks/:taskId/checklist', getChecklist);
+router.post('/tasks/:taskId/checklist', createChecklistItem);
+router.patch('/tasks/:taskId/checklist/:itemId', updateChecklistItem);
+router.delete('/tasks/:taskId/checklist/:itemId', deleteChecklistItem);
+
+// Task comment routes
+router.get('/tasks/:id/comments', getTaskComments);
+router.post('/tasks/:id/comments', createTaskComment);
+router.patch('/tasks/:id/comments/:commentId', updateTaskComment);
+router.delete('/tasks/:id/comments/:commentId', deleteTaskComment);
+
 // Task attachment routes
 router.get('/tasks/:taskId/attachments', getTaskAttachments);
 router.post('/tasks/:taskId/attachments', upload.single('file'), uploadTaskAttachment);
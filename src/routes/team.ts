@@ -12,14 +12,17 @@ import {
   updateTeamMember,
   deleteTeamMember,
 } from '../controllers/team.controller';
+import { requirePermission } from '../middleware/permissions.middleware';
 
 const router = Router();
 
 router.get('/', getAllTeamMembers);
 router.get('/:id', getTeamMemberById);
-router.post('/', createTeamMember);
-router.patch('/:id', updateTeamMember);
-router.delete('/:id', deleteTeamMember);
+// Listing stays open to every user (needed for assignee pickers);
+// managing team members is restricted to admins/managers, and only admins can grant the admin role
+router.post('/', requirePermission('team:manage'), createTeamMember);
+router.patch('/:id', requirePermission('team:manage'), updateTeamMember);
+router.delete('/:id', requirePermission('team:manage'), deleteTeamMember);
 
 export default router;
 
@@ -2,6 +2,15 @@
  * Visits Routes
  *
  * Routes for onsite visits endpoints.
+ *
+ * Scheduled visits are assigned to a rep (assigned_to_email, defaults to the creator).
+ * On site, the rep checks in and out with the device coordinates:
+ *   POST /api/visits/12/check-in  { "latitude": 52.3676, "longitude": 4.9041 }
+ *   POST /api/visits/12/check-out { "latitude": 52.3677, "longitude": 4.9040 }
+ * Only the assigned rep (anyone, to check in to an unassigned visit) or a manager (visits:manage) can.
+ * GET /api/visits/schedule?from=2024-06-03&to=2024-06-07&rep=me returns the agenda by day.
+ * GET /api/visits/route?date=2024-06-03 orders the caller's (or ?rep=) visits of the day into a
+ * driving route, with straight-line distances between stops.
  */
 
 import { Router } from 'express';
@@ -11,13 +20,22 @@ import {
   createVisit,
   updateVisit,
   deleteVisit,
+  getVisitSchedule,
+  getVisitRoute,
+  checkInVisit,
+  checkOutVisit,
 } from '../controllers/visits.controller';
 
 const router = Router();
 
 router.get('/', getAllVisits);
+// Registered before /:id so "schedule" and "route" aren't parsed as visit IDs
+router.get('/schedule', getVisitSchedule);
+router.get('/route', getVisitRoute);
 router.get('/:id', getVisitById);
 router.post('/', createVisit);
+router.post('/:id/check-in', checkInVisit);
+router.post('/:id/check-out', checkOutVisit);
 router.patch('/:id', updateVisit);
 router.delete('/:id', deleteVisit);
 
@@ -0,0 +1,136 @@
+/**
+ * Automation Runs Service
+ *
+ * Records executions of imports, scheduled jobs and other automations in the automation_runs table,
+ * so they can be monitored and audited.
+ *
+ * Typical use:
+ *   const run = await startAutomationRun({ name: 'lead_import', type: 'import', triggeredBy: 'manual' });
+ *   ... do the work ...
+ *   await completeAutomationRun(run.id, { recordsProcessed: 42 });   // or failAutomationRun(run.id, error)
+ */
+
+import pool from '../lib/db';
+
+export interface AutomationRun {
+  id: number;
+  automation_name: string;
+  automation_type: string;
+  status: string; // 'running' | 'completed' | 'failed' | 'cancelled'
+  triggered_by: string | null;
+  related_lead_id: number | null;
+  related_user_id: number | null;
+  execution_started_at: string;
+  execution_completed_at: string | null;
+  duration_ms: number | null;
+  records_processed: number;
+  error_message: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+function mapRunRow(row: any): AutomationRun {
+  return {
+    id: row.id,
+    automation_name: row.automation_name,
+    automation_type: row.automation_type,
+    status: row.status,
+    triggered_by: row.triggered_by || null,
+    related_lead_id: row.related_lead_id || null,
+    related_user_id: row.related_user_id || null,
+    execution_started_at: new Date(row.execution_started_at).toISOString(),
+    execution_completed_at: row.execution_completed_at ? new Date(row.execution_completed_at).toISOString() : null,
+    duration_ms: row.duration_ms ?? null,
+    records_processed: row.records_processed || 0,
+    error_message: row.error_message || null,
+    metadata: row.metadata || null,
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Records the start of an automation run (status 'running')
+ */
+export async function startAutomationRun(params: {
+  name: string; // e.g. 'lead_import'
+  type: string; // e.g. 'import', 'task_reminder'
+  triggeredBy: string; // 'scheduled' | 'manual' | 'event' | 'webhook'
+  relatedLeadId?: number | null;
+  relatedUserId?: number | null;
+  metadata?: Record<string, unknown>;
+}): Promise<AutomationRun> {
+  const query = `
+    INSERT INTO automation_runs (automation_name, automation_type, status, triggered_by, related_lead_id, related_user_id, execution_started_at, metadata)
+    VALUES ($1, $2, 'running', $3, $4, $5, NOW(), $6)
+    RETURNING *
+  `;
+
+  const result = await pool.query(query, [
+    params.name,
+    params.type,
+    params.triggeredBy,
+    params.relatedLeadId || null,
+    params.relatedUserId || null,
+    params.metadata ? JSON.stringify(params.metadata) : null,
+  ]);
+
+  return mapRunRow(result.rows[0]);
+}
+
+/**
+ * Marks a run as completed
+ * Metadata is merged into the metadata recorded when the run started.
+ */
+export async function completeAutomationRun(
+  id: number,
+  result: { recordsProcessed: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const query = `
+    UPDATE automation_runs
+    SET status = 'completed',
+        execution_completed_at = NOW(),
+        duration_ms = (EXTRACT(EPOCH FROM (NOW() - execution_started_at)) * 1000)::integer,
+        records_processed = $1,
+        metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb
+    WHERE id = $3
+  `;
+
+  await pool.query(query, [result.recordsProcessed, JSON.stringify(result.metadata || {}), id]);
+}
+
+/**
+ * Marks a run as failed with the error message
+ */
+export async function failAutomationRun(id: number, error: unknown): Promise<void> {
+  const query = `
+    UPDATE automation_runs
+    SET status = 'failed',
+        execution_completed_at = NOW(),
+        duration_ms = (EXTRACT(EPOCH FROM (NOW() - execution_started_at)) * 1000)::integer,
+        error_message = $1
+    WHERE id = $2
+  `;
+
+  await pool.query(query, [error instanceof Error ? error.message : String(error), id]);
+}
+
+/**
+ * Marks runs of an automation that are still 'running' after the given time as failed.
+ * They were cut off (e.g. the function timed out) before they could record how they ended.
+ *
+ * @returns The number of runs marked as failed
+ */
+export async function failStaleAutomationRuns(name: string, olderThanMinutes: number): Promise<number> {
+  const query = `
+    UPDATE automation_runs
+    SET status = 'failed',
+        execution_completed_at = NOW(),
+        error_message = 'Run did not finish'
+    WHERE automation_name = $1
+      AND status = 'running'
+      AND execution_started_at < NOW() - make_interval(mins => $2::int)
+  `;
+
+  const result = await pool.query(query, [name, olderThanMinutes]);
+  return result.rowCount ?? 0;
+}
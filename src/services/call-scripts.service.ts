@@ -0,0 +1,110 @@
+/**
+ * Call Scripts Service
+ *
+ * Handles database operations for reusable call scripts.
+ * Scripts are attached to cold calls through cold_calls.call_script_id.
+ */
+
+import pool from '../lib/db';
+import type { CallScript } from '../types/calls';
+import type { CreateCallScriptInput, UpdateCallScriptInput } from '../validators/call-scripts.validator';
+
+function mapCallScriptRow(row: any): CallScript {
+  return {
+    id: row.id,
+    name: row.name,
+    body: row.body,
+    is_active: row.is_active,
+    created_by_email: row.created_by_email || null,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * List call scripts by name
+ *
+ * @param includeInactive - Also return scripts hidden from the picker
+ */
+export async function getAllCallScripts(includeInactive = false): Promise<CallScript[]> {
+  const result = await pool.query(
+    `
+      SELECT *
+      FROM call_scripts
+      ${includeInactive ? '' : 'WHERE is_active = true'}
+      ORDER BY name ASC, id ASC
+    `
+  );
+  return result.rows.map(mapCallScriptRow);
+}
+
+/**
+ * Get a single call script by ID
+ */
+export async function getCallScriptById(id: number): Promise<CallScript | null> {
+  const result = await pool.query('SELECT * FROM call_scripts WHERE id = $1', [id]);
+  return result.rows.length > 0 ? mapCallScriptRow(result.rows[0]) : null;
+}
+
+/**
+ * Create a call script
+ */
+export async function createCallScript(data: CreateCallScriptInput, createdByEmail: string): Promise<CallScript> {
+  const result = await pool.query(
+    `
+      INSERT INTO call_scripts (name, body, is_active, created_by_email, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      RETURNING *
+    `,
+    [data.name, data.body, data.isActive, createdByEmail]
+  );
+  return mapCallScriptRow(result.rows[0]);
+}
+
+/**
+ * Partially update a call script. Only provided fields are changed.
+ *
+ * @returns The updated script, or null if it doesn't exist
+ */
+export async function updateCallScript(id: number, data: UpdateCallScriptInput): Promise<CallScript | null> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (data.name !== undefined) {
+    updates.push(`name = $${paramCount++}`);
+    values.push(data.name);
+  }
+  if (data.body !== undefined) {
+    updates.push(`body = $${paramCount++}`);
+    values.push(data.body);
+  }
+  if (data.isActive !== undefined) {
+    updates.push(`is_active = $${paramCount++}`);
+    values.push(data.isActive);
+  }
+
+  updates.push('updated_at = NOW()');
+  values.push(id);
+
+  const result = await pool.query(
+    `
+      UPDATE call_scripts
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `,
+    values
+  );
+  return result.rows.length > 0 ? mapCallScriptRow(result.rows[0]) : null;
+}
+
+/**
+ * Delete a call script. Calls that used it keep their record, without the script.
+ *
+ * @returns true if the script was deleted, false if it didn't exist
+ */
+export async function deleteCallScript(id: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM call_scripts WHERE id = $1', [id]);
+  return result.rowCount !== null && result.rowCount > 0;
+}
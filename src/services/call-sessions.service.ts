@@ -0,0 +1,352 @@
+/**
+ * Call Sessions Service
+ *
+ * A call session is a rep's queue of leads to cold call. The queue is built once from a lead
+ * filter, least recently contacted first (never contacted leads lead the queue), and handed
+ * out one lead at a time. Logging a cold call for the handed-out lead (calls.service
+ * createColdCall) marks it as called, so the next request moves on to the following lead.
+ */
+
+import pool, { getPoolClient, PoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { buildLeadFilterConditions } from './leads.service';
+import type { CallQueueItem, CallSession, CallSessionFilters, CallSessionStats } from '../types/calls';
+
+/**
+ * Per-session counters, computed from the queue and the calls logged from it
+ */
+const STATS_COLUMNS = `
+  COUNT(csl.lead_id)::int AS total_leads,
+  COUNT(csl.lead_id) FILTER (WHERE csl.status = 'pending')::int AS remaining,
+  COUNT(csl.lead_id) FILTER (WHERE csl.status = 'skipped')::int AS skipped,
+  COUNT(cc.id)::int AS calls_made,
+  COUNT(cc.id) FILTER (WHERE cc.disposition = 'connected')::int AS connects,
+  ROUND(AVG(cc.duration))::int AS average_duration
+`;
+
+const SESSION_QUERY = `
+  SELECT s.*, ${STATS_COLUMNS}
+  FROM call_sessions s
+  LEFT JOIN call_session_leads csl ON csl.session_id = s.id
+  LEFT JOIN cold_calls cc ON cc.id = csl.cold_call_id
+`;
+
+function mapSessionRow(row: any): CallSession {
+  const stats: CallSessionStats = {
+    total_leads: row.total_leads,
+    remaining: row.remaining,
+    skipped: row.skipped,
+    calls_made: row.calls_made,
+    connects: row.connects,
+    average_duration: row.average_duration ?? null,
+  };
+  return {
+    id: row.id,
+    name: row.name || null,
+    owner_email: row.owner_email,
+    filters: row.filters || {},
+    status: row.status,
+    created_at: new Date(row.created_at).toISOString(),
+    completed_at: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    stats,
+  };
+}
+
+/**
+ * Get a call session with its stats
+ */
+export async function getCallSessionById(id: number): Promise<CallSession | null> {
+  const result = await pool.query(`${SESSION_QUERY} WHERE s.id = $1 GROUP BY s.id`, [id]);
+  return result.rows.length > 0 ? mapSessionRow(result.rows[0]) : null;
+}
+
+/**
+ * List a rep's call sessions, newest first
+ */
+export async function getCallSessionsForOwner(ownerEmail: string): Promise<CallSession[]> {
+  const result = await pool.query(
+    `${SESSION_QUERY} WHERE s.owner_email = $1 GROUP BY s.id ORDER BY s.created_at DESC, s.id DESC`,
+    [ownerEmail]
+  );
+  return result.rows.map(mapSessionRow);
+}
+
+/**
+ * Create a call session and queue the leads matching the filters
+ *
+ * @param params.maxLeads - Queue size cap; the least recently contacted leads are kept
+ * @throws Error with statusCode 400 if no lead matches the filters
+ */
+export async function createCallSession(params: {
+  name?: string;
+  ownerEmail: string;
+  filters: CallSessionFilters;
+  maxLeads: number;
+}): Promise<CallSession> {
+  const values: any[] = [];
+  const conditions = buildLeadFilterConditions(params.filters, values);
+
+  if (params.filters.lastContactedBefore) {
+    values.push(params.filters.lastContactedBefore);
+    conditions.push(`(lc.last_contacted_at IS NULL OR lc.last_contacted_at < $${values.length}::timestamptz)`);
+  }
+  if (params.filters.noCallInDays) {
+    values.push(params.filters.noCallInDays);
+    conditions.push(`
+      NOT EXISTS (
+        SELECT 1 FROM cold_calls recent
+        WHERE recent.lead_id = l.id AND recent.call_date >= NOW() - make_interval(days => $${values.length}::int)
+      )
+    `);
+  }
+
+  const client = await getPoolClient(5000);
+  let sessionId: number;
+
+  try {
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `
+        INSERT INTO call_sessions (name, owner_email, filters, created_at)
+        VALUES ($1, $2, $3, NOW())
+        RETURNING id
+      `,
+      [params.name || null, params.ownerEmail, JSON.stringify(params.filters)]
+    );
+    sessionId = sessionResult.rows[0].id;
+
+    values.push(sessionId, params.maxLeads);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Last contact = latest cold call or activity; GREATEST ignores NULLs
+    const queueResult = await client.query(
+      `
+        INSERT INTO call_session_leads (session_id, lead_id, position)
+        SELECT $${values.length - 1}, queued.id, ROW_NUMBER() OVER (ORDER BY queued.last_contacted_at ASC NULLS FIRST, queued.id ASC)
+        FROM (
+          SELECT l.id, lc.last_contacted_at
+          FROM leads l
+          LEFT JOIN contacts c ON l.contact_id = c.id
+          CROSS JOIN LATERAL (
+            SELECT GREATEST(
+              (SELECT MAX(cc.call_date) FROM cold_calls cc WHERE cc.lead_id = l.id),
+              (SELECT MAX(a.created_at) FROM activities a WHERE a.lead_id = l.id)
+            ) AS last_contacted_at
+          ) lc
+          ${whereClause}
+          ORDER BY lc.last_contacted_at ASC NULLS FIRST, l.id ASC
+          LIMIT $${values.length}
+        ) queued
+      `,
+      values
+    );
+    if (queueResult.rowCount === 0) {
+      throw new HttpError('No leads match the filters', 400);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const session = await getCallSessionById(sessionId);
+  return session!;
+}
+
+/**
+ * Loads what the rep sees for a handed-out lead: contact details, recent activities and calls
+ */
+async function loadQueueItem(leadId: number, position: number): Promise<CallQueueItem> {
+  const [leadResult, activitiesResult, callsResult] = await Promise.all([
+    pool.query(
+      `
+        SELECT
+          l.id,
+          COALESCE(c.name, l.name) AS name,
+          COALESCE(c.email, l.email) AS email,
+          COALESCE(c.phone, l.phone) AS phone,
+          c.company,
+          l.stage,
+          l.status,
+          l.verticals
+        FROM leads l
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        WHERE l.id = $1
+      `,
+      [leadId]
+    ),
+    pool.query(
+      `
+        SELECT id, activity_type, description, created_at
+        FROM activities
+        WHERE lead_id = $1
+        ORDER BY created_at DESC, id DESC
+        LIMIT 5
+      `,
+      [leadId]
+    ),
+    pool.query(
+      `
+        SELECT id, call_date, disposition, outcome, duration, caller_email, notes
+        FROM cold_calls
+        WHERE lead_id = $1
+        ORDER BY call_date DESC, id DESC
+        LIMIT 3
+      `,
+      [leadId]
+    ),
+  ]);
+
+  const lead = leadResult.rows[0];
+  return {
+    position,
+    lead: {
+      id: lead.id,
+      name: lead.name || null,
+      email: lead.email || null,
+      phone: lead.phone || null,
+      company: lead.company || null,
+      stage: lead.stage || null,
+      status: lead.status || null,
+      verticals: lead.verticals || null,
+    },
+    recent_activities: activitiesResult.rows.map((row: any) => ({
+      id: row.id,
+      activity_type: row.activity_type,
+      description: row.description,
+      created_at: new Date(row.created_at).toISOString(),
+    })),
+    recent_calls: callsResult.rows.map((row: any) => ({
+      id: row.id,
+      call_date: new Date(row.call_date).toISOString(),
+      disposition: row.disposition || null,
+      outcome: row.outcome,
+      duration: row.duration,
+      caller_email: row.caller_email || null,
+      notes: row.notes,
+    })),
+  };
+}
+
+/**
+ * Hand out the session's current lead.
+ *
+ * The handed-out lead stays current until a call is logged for it, so asking again returns
+ * the same lead. With skip, the current lead is skipped and the next one is handed out.
+ * When the queue runs out, the session is completed and no lead is returned.
+ *
+ * @throws Error with statusCode 404 if the session does not exist,
+ *         403 if the caller is not the session's rep
+ */
+export async function getNextLead(
+  sessionId: number,
+  userEmail: string,
+  options: { skip?: boolean } = {}
+): Promise<{ session: CallSession; item: CallQueueItem | null }> {
+  const client = await getPoolClient(5000);
+  let current: { lead_id: number; position: number } | null = null;
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the session so two tabs can't hand out different leads at once
+    const sessionResult = await client.query(
+      'SELECT id, owner_email, status FROM call_sessions WHERE id = $1 FOR UPDATE',
+      [sessionId]
+    );
+    if (sessionResult.rows.length === 0) {
+      throw new HttpError(`Call session with ID ${sessionId} not found`, 404);
+    }
+    const session = sessionResult.rows[0];
+    if (session.owner_email !== userEmail) {
+      throw new HttpError('Only the rep who started this call session can call from it', 403);
+    }
+
+    if (session.status === 'active') {
+      const currentResult = await client.query(
+        `SELECT lead_id, position FROM call_session_leads WHERE session_id = $1 AND status = 'in_progress'`,
+        [sessionId]
+      );
+      current = currentResult.rows[0] || null;
+
+      if (current && options.skip) {
+        await client.query(
+          `UPDATE call_session_leads SET status = 'skipped' WHERE session_id = $1 AND lead_id = $2`,
+          [sessionId, current.lead_id]
+        );
+        current = null;
+      }
+
+      if (!current) {
+        const nextResult = await client.query(
+          `
+            UPDATE call_session_leads
+            SET status = 'in_progress', handed_out_at = NOW()
+            WHERE session_id = $1 AND lead_id = (
+              SELECT lead_id FROM call_session_leads
+              WHERE session_id = $1 AND status = 'pending'
+              ORDER BY position ASC
+              LIMIT 1
+            )
+            RETURNING lead_id, position
+          `,
+          [sessionId]
+        );
+        current = nextResult.rows[0] || null;
+      }
+
+      if (!current) {
+        await client.query(
+          `UPDATE call_sessions SET status = 'completed', completed_at = NOW() WHERE id = $1`,
+          [sessionId]
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const [session, item] = await Promise.all([
+    getCallSessionById(sessionId),
+    current ? loadQueueItem(current.lead_id, current.position) : Promise.resolve(null),
+  ]);
+  return { session: session!, item };
+}
+
+/**
+ * Mark a lead as called in the caller's active sessions where it is the handed-out lead.
+ * Called when a cold call is logged, which advances those queues.
+ *
+ * @param client - Optional transaction client, so the queue only moves on if the call is saved
+ * @returns The number of sessions advanced
+ */
+export async function recordSessionCall(
+  leadId: number,
+  callerEmail: string,
+  coldCallId: number,
+  client?: PoolClient
+): Promise<number> {
+  const result = await (client || pool).query(
+    `
+      UPDATE call_session_leads csl
+      SET status = 'called', called_at = NOW(), cold_call_id = $3
+      FROM call_sessions s
+      WHERE s.id = csl.session_id
+        AND s.status = 'active'
+        AND s.owner_email = $2
+        AND csl.lead_id = $1
+        AND csl.status = 'in_progress'
+    `,
+    [leadId, callerEmail, coldCallId]
+  );
+  return result.rowCount ?? 0;
+}
@@ -4,7 +4,12 @@
  * This service handles database operations for cold calls.
  */
 
-import pool from '../lib/db';
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import * as tasksService from './tasks.service';
+import * as callSessionsService from './call-sessions.service';
+import type { CallDisposition } from '../types/calls';
+import type { Task } from '../types/tasks';
 
 export interface ColdCall {
   id: number;
@@ -12,6 +17,12 @@ export interface ColdCall {
   call_date: string;
   duration: number | null;
   outcome: string | null;
+  disposition: string | null;
+  caller_email: string | null;
+  next_callback_at: string | null;
+  callback_task_id: number | null;
+  call_script_id: number | null;
+  call_script_name?: string | null;
   notes: string | null;
   created_at: string;
   lead_name?: string;
@@ -26,6 +37,12 @@ function mapColdCallRow(row: any): ColdCall {
     call_date: new Date(row.call_date).toISOString(),
     duration: row.duration,
     outcome: row.outcome,
+    disposition: row.disposition || null,
+    caller_email: row.caller_email || null,
+    next_callback_at: row.next_callback_at ? new Date(row.next_callback_at).toISOString() : null,
+    callback_task_id: row.callback_task_id || null,
+    call_script_id: row.call_script_id || null,
+    call_script_name: row.call_script_name || null,
     notes: row.notes,
     created_at: new Date(row.created_at).toISOString(),
     lead_name: row.lead_name,
@@ -43,10 +60,12 @@ export async function getAllColdCalls(): Promise<ColdCall[]> {
       cc.*,
       l.name as lead_name,
       l.email as lead_email,
-      c.company as lead_company
+      c.company as lead_company,
+      cs.name as call_script_name
     FROM cold_calls cc
     LEFT JOIN leads l ON cc.lead_id = l.id
     LEFT JOIN contacts c ON l.contact_id = c.id
+    LEFT JOIN call_scripts cs ON cc.call_script_id = cs.id
     ORDER BY cc.call_date DESC, cc.created_at DESC
   `;
 
@@ -63,10 +82,12 @@ export async function getColdCallsForLead(leadId: number): Promise<ColdCall[]> {
       cc.*,
       l.name as lead_name,
       l.email as lead_email,
-      c.company as lead_company
+      c.company as lead_company,
+      cs.name as call_script_name
     FROM cold_calls cc
     LEFT JOIN leads l ON cc.lead_id = l.id
     LEFT JOIN contacts c ON l.contact_id = c.id
+    LEFT JOIN call_scripts cs ON cc.call_script_id = cs.id
     WHERE cc.lead_id = $1
     ORDER BY cc.call_date DESC, cc.created_at DESC
   `;
@@ -84,10 +105,12 @@ export async function getColdCallById(id: number): Promise<ColdCall | null> {
       cc.*,
       l.name as lead_name,
       l.email as lead_email,
-      c.company as lead_company
+      c.company as lead_company,
+      cs.name as call_script_name
     FROM cold_calls cc
     LEFT JOIN leads l ON cc.lead_id = l.id
     LEFT JOIN contacts c ON l.contact_id = c.id
+    LEFT JOIN call_scripts cs ON cc.call_script_id = cs.id
     WHERE cc.id = $1
   `;
 
@@ -98,8 +121,54 @@ export async function getColdCallById(id: number): Promise<ColdCall | null> {
   return mapColdCallRow(result.rows[0]);
 }
 
+/**
+ * Works out the disposition to store on a call.
+ * An explicit disposition must be an active one; without it, an outcome that matches
+ * a disposition key (e.g. 'Voicemail') is used, so older clients still get dispositions.
+ *
+ * @throws Error with statusCode 400 if the disposition is unknown or inactive
+ */
+async function resolveDisposition(disposition?: string | null, outcome?: string | null): Promise<string | null> {
+  const key = (disposition ?? outcome)?.trim().toLowerCase();
+  if (!key) {
+    return null;
+  }
+
+  const result = await pool.query(
+    'SELECT key FROM call_dispositions WHERE key = $1 AND is_active = true',
+    [key]
+  );
+  if (result.rows.length > 0) {
+    return result.rows[0].key;
+  }
+  if (disposition) {
+    throw new HttpError(`Unknown or inactive disposition: ${disposition}`, 400);
+  }
+  return null;
+}
+
+/**
+ * @throws Error with statusCode 400 if the call script does not exist or is inactive
+ */
+async function assertCallScript(callScriptId: number): Promise<void> {
+  const result = await pool.query(
+    'SELECT id FROM call_scripts WHERE id = $1 AND is_active = true',
+    [callScriptId]
+  );
+  if (result.rows.length === 0) {
+    throw new HttpError(`Call script with ID ${callScriptId} not found`, 400);
+  }
+}
+
 /**
  * Create a new cold call
+ *
+ * When next_callback_at is given, a follow-up task due at that time is created for the caller
+ * and linked to the call (callback_task_id). If the lead is the one the caller was handed in
+ * a call session, the session moves on to its next lead.
+ *
+ * @throws Error with statusCode 404 if the lead does not exist,
+ *         400 if the disposition or call script is invalid or a callback has no caller
  */
 export async function createColdCall(data: {
   lead_id: number;
@@ -107,28 +176,96 @@ export async function createColdCall(data: {
   duration?: number;
   outcome?: string;
   notes?: string;
+  disposition?: string;
+  caller_email?: string | null;
+  next_callback_at?: string;
+  call_script_id?: number;
 }): Promise<ColdCall> {
-  const query = `
-    INSERT INTO cold_calls (lead_id, call_date, duration, outcome, notes, created_at)
-    VALUES ($1, $2, $3, $4, $5, NOW())
-    RETURNING *
-  `;
+  const leadResult = await pool.query(
+    `SELECT l.id, COALESCE(c.name, l.name) AS name FROM leads l LEFT JOIN contacts c ON l.contact_id = c.id WHERE l.id = $1`,
+    [data.lead_id]
+  );
+  if (leadResult.rows.length === 0) {
+    throw new HttpError(`Lead with ID ${data.lead_id} not found`, 404);
+  }
+  if (data.next_callback_at && !data.caller_email) {
+    throw new HttpError('A caller is required to schedule a callback', 400);
+  }
+
+  const disposition = await resolveDisposition(data.disposition, data.outcome);
+  if (data.call_script_id !== undefined) {
+    await assertCallScript(data.call_script_id);
+  }
 
-  const result = await pool.query(query, [
-    data.lead_id,
-    data.call_date,
-    data.duration || null,
-    data.outcome || null,
-    data.notes || null,
-  ]);
+  // The call, its callback task and the session progress are saved together,
+  // so a failure leaves nothing behind and the call can simply be logged again
+  const client = await getPoolClient(5000);
+  let callId: number;
+  let callbackTask: Task | null = null;
+
+  try {
+    await client.query('BEGIN');
+
+    if (data.next_callback_at) {
+      const leadName = leadResult.rows[0].name || `Lead #${data.lead_id}`;
+      callbackTask = await tasksService.createTask({
+        leadId: data.lead_id,
+        assignedToEmail: data.caller_email!,
+        title: `Call back ${leadName}`,
+        description: data.notes,
+        dueDate: data.next_callback_at,
+        createdByEmail: data.caller_email,
+      }, client);
+    }
+
+    const result = await client.query(
+      `
+        INSERT INTO cold_calls (
+          lead_id, call_date, duration, outcome, disposition, caller_email, next_callback_at,
+          callback_task_id, call_script_id, notes, created_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+        RETURNING id
+      `,
+      [
+        data.lead_id,
+        data.call_date,
+        data.duration || null,
+        data.outcome || disposition,
+        disposition,
+        data.caller_email || null,
+        data.next_callback_at || null,
+        callbackTask ? callbackTask.id : null,
+        data.call_script_id ?? null,
+        data.notes || null,
+      ]
+    );
+    callId = result.rows[0].id;
+
+    if (data.caller_email) {
+      await callSessionsService.recordSessionCall(data.lead_id, data.caller_email, callId, client);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (callbackTask) {
+    await tasksService.notifyTaskAssigned(callbackTask);
+  }
 
-  const newCall = result.rows[0];
-  const callWithLead = await getColdCallById(newCall.id);
+  const callWithLead = await getColdCallById(callId);
   return callWithLead!;
 }
 
 /**
  * Update a cold call
+ *
+ * @throws Error with statusCode 400 if the disposition or call script is invalid
  */
 export async function updateColdCall(
   id: number,
@@ -137,6 +274,8 @@ export async function updateColdCall(
     duration?: number;
     outcome?: string;
     notes?: string;
+    disposition?: string;
+    call_script_id?: number | null; // null detaches the script
   }
 ): Promise<ColdCall | null> {
   const updates: string[] = [];
@@ -159,6 +298,17 @@ export async function updateColdCall(
     updates.push(`notes = $${paramCount++}`);
     values.push(data.notes);
   }
+  if (data.disposition !== undefined) {
+    updates.push(`disposition = $${paramCount++}`);
+    values.push(await resolveDisposition(data.disposition));
+  }
+  if (data.call_script_id !== undefined) {
+    if (data.call_script_id !== null) {
+      await assertCallScript(data.call_script_id);
+    }
+    updates.push(`call_script_id = $${paramCount++}`);
+    values.push(data.call_script_id);
+  }
 
   if (updates.length === 0) {
     return getColdCallById(id);
@@ -185,3 +335,99 @@ export async function deleteColdCall(id: number): Promise<boolean> {
   return result.rowCount !== null && result.rowCount > 0;
 }
 
+
+function mapDispositionRow(row: any): CallDisposition {
+  return {
+    key: row.key,
+    label: row.label,
+    position: row.position,
+    is_active: row.is_active,
+  };
+}
+
+/**
+ * List call dispositions in display order
+ *
+ * @param includeInactive - Also return dispositions that can no longer be picked
+ */
+export async function getCallDispositions(includeInactive = false): Promise<CallDisposition[]> {
+  const result = await pool.query(
+    `
+      SELECT key, label, position, is_active
+      FROM call_dispositions
+      ${includeInactive ? '' : 'WHERE is_active = true'}
+      ORDER BY position ASC, key ASC
+    `
+  );
+  return result.rows.map(mapDispositionRow);
+}
+
+/**
+ * Add a disposition to the list (at the end unless a position is given)
+ *
+ * @throws Error with statusCode 409 if the key is already used
+ */
+export async function createCallDisposition(data: {
+  key: string;
+  label: string;
+  position?: number;
+}): Promise<CallDisposition> {
+  try {
+    const result = await pool.query(
+      `
+        INSERT INTO call_dispositions (key, label, position, created_at, updated_at)
+        VALUES ($1, $2, COALESCE($3, (SELECT COALESCE(MAX(position) + 1, 0) FROM call_dispositions)), NOW(), NOW())
+        RETURNING key, label, position, is_active
+      `,
+      [data.key, data.label, data.position ?? null]
+    );
+    return mapDispositionRow(result.rows[0]);
+  } catch (error: any) {
+    if (error.code === '23505') {
+      throw new HttpError(`Disposition ${data.key} already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rename, reorder or (de)activate a disposition.
+ * Dispositions are never deleted because past calls reference them.
+ *
+ * @returns The updated disposition, or null if it doesn't exist
+ */
+export async function updateCallDisposition(
+  key: string,
+  data: { label?: string; position?: number; isActive?: boolean }
+): Promise<CallDisposition | null> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (data.label !== undefined) {
+    updates.push(`label = $${paramCount++}`);
+    values.push(data.label);
+  }
+  if (data.position !== undefined) {
+    updates.push(`position = $${paramCount++}`);
+    values.push(data.position);
+  }
+  if (data.isActive !== undefined) {
+    updates.push(`is_active = $${paramCount++}`);
+    values.push(data.isActive);
+  }
+
+  updates.push('updated_at = NOW()');
+  values.push(key);
+
+  const result = await pool.query(
+    `
+      UPDATE call_dispositions
+      SET ${updates.join(', ')}
+      WHERE key = $${paramCount}
+      RETURNING key, label, position, is_active
+    `,
+    values
+  );
+  return result.rows.length > 0 ? mapDispositionRow(result.rows[0]) : null;
+}
@@ -5,6 +5,9 @@
  */
 
 import pool from '../lib/db';
+import * as notificationsService from './notifications.service';
+import * as teamService from './team.service';
+import * as companiesService from './companies.service';
 
 export interface Client {
   id: string; // UUID
@@ -17,6 +20,7 @@ export interface Client {
   is_client?: boolean;
   client_number?: string | null;
   lead_id?: number | null; // ID of the lead this client was converted from
+  owner_email?: string | null; // Team member who owns the client account
   lead_count?: number;
   deal_count?: number;
   deleted_at?: string | null;
@@ -34,6 +38,7 @@ function mapClientRow(row: any): Client {
     is_client: row.is_client || false,
     client_number: row.client_number || null,
     lead_id: row.lead_id ? parseInt(row.lead_id) : null,
+    owner_email: row.owner_email || null,
     lead_count: row.lead_count ? parseInt(row.lead_count) : 0,
     deal_count: row.deal_count ? parseInt(row.deal_count) : 0,
     deleted_at: row.deleted_at ? new Date(row.deleted_at).toISOString() : null,
@@ -43,9 +48,18 @@ function mapClientRow(row: any): Client {
 /**
  * List all clients with lead and deal counts
  * Only returns contacts where is_client = true AND deleted_at IS NULL
- * Only counts deals with stage = 'closed'
+ * Only counts won deals (deals in a won stage of their pipeline)
+ * Optionally filtered to clients owned by a team member (?owner=me)
  */
-export async function getAllClients(): Promise<Client[]> {
+export async function getAllClients(filters: { ownerEmail?: string } = {}): Promise<Client[]> {
+  const values: any[] = [];
+  let ownerCondition = '';
+
+  if (filters.ownerEmail) {
+    values.push(filters.ownerEmail);
+    ownerCondition = `AND c.owner_email = $${values.length}`;
+  }
+
   const query = `
     SELECT 
       c.id,
@@ -56,27 +70,29 @@ export async function getAllClients(): Promise<Client[]> {
       c.is_client,
       c.client_number,
       c.lead_id,
+      c.owner_email,
       c.created_at,
       c.updated_at,
       c.deleted_at,
       COUNT(DISTINCT l.id) as lead_count,
-      COUNT(DISTINCT CASE WHEN d.stage = 'closed' THEN d.id END) as deal_count
+      COUNT(DISTINCT CASE WHEN ps.is_won THEN d.id END) as deal_count
     FROM contacts c
     LEFT JOIN leads l ON l.contact_id = c.id
     LEFT JOIN deals d ON d.lead_id = l.id
-    WHERE c.is_client = true AND c.deleted_at IS NULL
-    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.created_at, c.updated_at, c.deleted_at
+    LEFT JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
+    WHERE c.is_client = true AND c.deleted_at IS NULL ${ownerCondition}
+    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.owner_email, c.created_at, c.updated_at, c.deleted_at
     ORDER BY c.created_at DESC
   `;
 
-  const result = await pool.query(query);
+  const result = await pool.query(query, values);
   return result.rows.map(mapClientRow);
 }
 
 /**
  * Get a single client by ID
  * Only returns if is_client = true AND deleted_at IS NULL
- * Only counts deals with stage = 'closed'
+ * Only counts won deals (deals in a won stage of their pipeline)
  */
 export async function getClientById(id: string): Promise<Client | null> {
   const query = `
@@ -89,16 +105,18 @@ export async function getClientById(id: string): Promise<Client | null> {
       c.is_client,
       c.client_number,
       c.lead_id,
+      c.owner_email,
       c.created_at,
       c.updated_at,
       c.deleted_at,
       COUNT(DISTINCT l.id) as lead_count,
-      COUNT(DISTINCT CASE WHEN d.stage = 'closed' THEN d.id END) as deal_count
+      COUNT(DISTINCT CASE WHEN ps.is_won THEN d.id END) as deal_count
     FROM contacts c
     LEFT JOIN leads l ON l.contact_id = c.id
     LEFT JOIN deals d ON d.lead_id = l.id
+    LEFT JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
     WHERE c.id = $1 AND c.is_client = true AND c.deleted_at IS NULL
-    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.created_at, c.updated_at, c.deleted_at
+    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.owner_email, c.created_at, c.updated_at, c.deleted_at
   `;
 
   const result = await pool.query(query, [id]);
@@ -143,6 +161,8 @@ async function generateClientNumber(): Promise<string> {
  * Sets is_client = true to mark it as a converted client
  * Generates a unique client number
  * Optionally stores the lead_id if the client was converted from a lead
+ * The owner is inherited from the lead when converted, otherwise owner_email is used
+ * The client is linked to the company named in company (created if needed)
  */
 export async function createClient(data: {
   name: string;
@@ -150,13 +170,19 @@ export async function createClient(data: {
   phone?: string;
   company?: string;
   lead_id?: number; // Optional: ID of the lead this client was converted from
+  owner_email?: string; // Fallback owner when there is no lead (usually the creator)
 }): Promise<Client> {
   // Generate unique client number
   const clientNumber = await generateClientNumber();
+  const company = await companiesService.findOrCreateCompany(pool, data.company);
   
   const query = `
-    INSERT INTO contacts (name, email, phone, company, is_client, client_number, lead_id, created_at, updated_at)
-    VALUES ($1, $2, $3, $4, true, $5, $6, NOW(), NOW())
+    INSERT INTO contacts (name, email, phone, company, company_id, is_client, client_number, lead_id, owner_email, created_at, updated_at)
+    VALUES (
+      $1, $2, $3, $4, $5, true, $6, $7::integer,
+      COALESCE((SELECT owner_email FROM leads WHERE id = $7::integer), $8),
+      NOW(), NOW()
+    )
     RETURNING *
   `;
 
@@ -164,9 +190,11 @@ export async function createClient(data: {
     data.name,
     data.email || null,
     data.phone || null,
-    data.company || null,
+    company ? company.name : data.company || null,
+    company ? company.id : null,
     clientNumber,
     data.lead_id || null,
+    data.owner_email || null,
   ]);
 
   const newClient = result.rows[0];
@@ -176,6 +204,7 @@ export async function createClient(data: {
 
 /**
  * Update a client
+ * Changing company re-links the client to the company with that name (created if needed)
  */
 export async function updateClient(
   id: string,
@@ -203,8 +232,11 @@ export async function updateClient(
     values.push(data.phone);
   }
   if (data.company !== undefined) {
+    const company = await companiesService.findOrCreateCompany(pool, data.company);
     updates.push(`company = $${paramCount++}`);
-    values.push(data.company);
+    values.push(company ? company.name : data.company);
+    updates.push(`company_id = $${paramCount++}`);
+    values.push(company ? company.id : null);
   }
 
   if (updates.length === 0) {
@@ -224,6 +256,53 @@ export async function updateClient(
   return getClientById(id);
 }
 
+/**
+ * Reassign a client to another team member and notify the new owner
+ * Throws if the new owner is not an active team member
+ * Returns null if client not found
+ */
+export async function updateClientOwner(
+  id: string,
+  ownerEmail: string,
+  assignedByEmail: string
+): Promise<Client | null> {
+  const owner = await teamService.getTeamMemberByEmail(ownerEmail);
+  if (!owner || !owner.is_active) {
+    throw new Error(`User with email ${ownerEmail} does not exist`);
+  }
+
+  const query = `
+    UPDATE contacts
+    SET owner_email = $1, updated_at = NOW()
+    WHERE id = $2 AND is_client = true AND deleted_at IS NULL
+    RETURNING id
+  `;
+
+  const result = await pool.query(query, [owner.email, id]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const client = await getClientById(id);
+
+  if (client && owner.email !== assignedByEmail) {
+    try {
+      await notificationsService.createNotification({
+        userEmail: owner.email,
+        type: 'record_assigned',
+        title: 'Client Assigned to You',
+        message: `You are now the owner of client "${client.name}"`,
+        relatedLeadId: client.lead_id || undefined,
+      });
+    } catch (error) {
+      // Log error but don't fail the reassignment if notification fails
+      console.error('Failed to create notification for client reassignment:', error);
+    }
+  }
+
+  return client;
+}
+
 /**
  * Soft delete a client (move to trash)
  * Sets deleted_at timestamp instead of actually deleting
@@ -275,16 +354,18 @@ export async function getDeletedClients(): Promise<Client[]> {
       c.is_client,
       c.client_number,
       c.lead_id,
+      c.owner_email,
       c.created_at,
       c.updated_at,
       c.deleted_at,
       COUNT(DISTINCT l.id) as lead_count,
-      COUNT(DISTINCT CASE WHEN d.stage = 'closed' THEN d.id END) as deal_count
+      COUNT(DISTINCT CASE WHEN ps.is_won THEN d.id END) as deal_count
     FROM contacts c
     LEFT JOIN leads l ON l.contact_id = c.id
     LEFT JOIN deals d ON d.lead_id = l.id
+    LEFT JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
     WHERE c.is_client = true AND c.deleted_at IS NOT NULL
-    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.created_at, c.updated_at, c.deleted_at
+    GROUP BY c.id, c.name, c.email, c.phone, c.company, c.is_client, c.client_number, c.lead_id, c.owner_email, c.created_at, c.updated_at, c.deleted_at
     ORDER BY c.deleted_at DESC
   `;
 
@@ -0,0 +1,389 @@
+/**
+ * Companies Service
+ *
+ * Handles database operations for companies.
+ * Contacts and leads point at a company via company_id. contacts.company still holds the
+ * company's name (kept in sync here) so lists, search and exports can keep reading it.
+ */
+
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { Pool } from 'pg';
+import type {
+  Company,
+  CompanyClient,
+  CompanyDeal,
+  CompanyDetail,
+  CompanyLead,
+  CompanySize,
+} from '../types/companies';
+
+export interface CompanyPayload {
+  name?: string;
+  domain?: string | null;
+  industry?: string | null;
+  verticals?: string | null;
+  size?: CompanySize | null;
+  address?: string | null;
+}
+
+export interface CompanyListFilters {
+  q?: string; // Partial match on name or domain
+  industry?: string;
+  size?: CompanySize;
+}
+
+/**
+ * The pool or a transaction client
+ */
+type Queryable = Pick<Pool, 'query'>;
+
+/**
+ * A company reference resolved from a free-text company name
+ */
+export interface CompanyRef {
+  id: number;
+  name: string;
+}
+
+const COMPANY_COLUMNS = `
+  co.*,
+  (SELECT COUNT(*) FROM contacts c WHERE c.company_id = co.id AND c.deleted_at IS NULL) AS contact_count,
+  (SELECT COUNT(*) FROM leads l WHERE l.company_id = co.id) AS lead_count
+`;
+
+function mapCompanyRow(row: any): Company {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain || null,
+    industry: row.industry || null,
+    verticals: row.verticals || null,
+    size: row.size || null,
+    address: row.address || null,
+    contact_count: parseInt(row.contact_count || '0', 10),
+    lead_count: parseInt(row.lead_count || '0', 10),
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Turns unique violations (same name or domain as another company) into 409s
+ */
+function toConflictError(error: any): any {
+  if (error.code !== '23505') {
+    return error;
+  }
+  return new HttpError(
+    error.constraint === 'idx_companies_domain'
+      ? 'Another company already uses this domain'
+      : 'A company with this name already exists',
+    409
+  );
+}
+
+/**
+ * Tidies a free-text company name: trims it and collapses runs of whitespace
+ */
+export function cleanCompanyName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key used to match company names (same as companies.name_key):
+ * "ACME  Inc " and "Acme Inc" have the same key
+ */
+export function companyNameKey(name: string): string {
+  return cleanCompanyName(name).toLowerCase();
+}
+
+/**
+ * Finds or creates companies for free-text names (e.g. contacts.company from a form or import)
+ *
+ * @param db - Pass the caller's transaction client so new companies are only kept if it commits
+ * @param names - Company names; blank names are ignored
+ * @returns Companies keyed by companyNameKey(name)
+ */
+export async function findOrCreateCompanies(db: Queryable, names: string[]): Promise<Map<string, CompanyRef>> {
+  const byKey = new Map<string, string>();
+  for (const name of names) {
+    const cleaned = cleanCompanyName(name || '');
+    if (cleaned && !byKey.has(cleaned.toLowerCase())) {
+      byKey.set(cleaned.toLowerCase(), cleaned);
+    }
+  }
+
+  const companies = new Map<string, CompanyRef>();
+  if (byKey.size === 0) {
+    return companies;
+  }
+
+  await db.query(
+    `INSERT INTO companies (name) SELECT UNNEST($1::text[]) ON CONFLICT (name_key) DO NOTHING`,
+    [[...byKey.values()]]
+  );
+  const result = await db.query(
+    `SELECT id, name, name_key FROM companies WHERE name_key = ANY($1::text[])`,
+    [[...byKey.keys()]]
+  );
+
+  for (const row of result.rows) {
+    companies.set(row.name_key, { id: row.id, name: row.name });
+  }
+  return companies;
+}
+
+/**
+ * Finds or creates the company for one free-text name
+ *
+ * @returns The company, or null when the name is blank
+ */
+export async function findOrCreateCompany(db: Queryable, name: string | null | undefined): Promise<CompanyRef | null> {
+  if (!name || !cleanCompanyName(name)) {
+    return null;
+  }
+
+  const companies = await findOrCreateCompanies(db, [name]);
+  return companies.get(companyNameKey(name)) || null;
+}
+
+/**
+ * List companies with contact and lead counts, ordered by name
+ */
+export async function getAllCompanies(filters: CompanyListFilters = {}): Promise<Company[]> {
+  const values: any[] = [];
+  const conditions: string[] = [];
+
+  if (filters.q) {
+    values.push(`%${filters.q}%`);
+    conditions.push(`(co.name ILIKE $${values.length} OR co.domain ILIKE $${values.length})`);
+  }
+  if (filters.industry) {
+    values.push(filters.industry);
+    conditions.push(`co.industry ILIKE $${values.length}`);
+  }
+  if (filters.size) {
+    values.push(filters.size);
+    conditions.push(`co.size = $${values.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await pool.query(
+    `SELECT ${COMPANY_COLUMNS} FROM companies co ${whereClause} ORDER BY co.name ASC`,
+    values
+  );
+  return result.rows.map(mapCompanyRow);
+}
+
+/**
+ * Get a company by ID
+ */
+export async function getCompanyById(id: number): Promise<Company | null> {
+  const result = await pool.query(`SELECT ${COMPANY_COLUMNS} FROM companies co WHERE co.id = $1`, [id]);
+  return result.rows.length > 0 ? mapCompanyRow(result.rows[0]) : null;
+}
+
+/**
+ * Get a company with all its leads, the deals of those leads and its clients.
+ * Totals count open deals (not in a won/lost stage) and won deals with their summed value.
+ */
+export async function getCompanyDetail(id: number): Promise<CompanyDetail | null> {
+  const company = await getCompanyById(id);
+  if (!company) {
+    return null;
+  }
+
+  const [leadsResult, dealsResult, clientsResult] = await Promise.all([
+    pool.query(
+      `
+        SELECT l.id, l.name, l.stage, l.status, l.owner_email, l.contact_id, c.name AS contact_name, l.created_at
+        FROM leads l
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        WHERE l.company_id = $1
+        ORDER BY l.created_at DESC
+      `,
+      [id]
+    ),
+    pool.query(
+      `
+        SELECT
+          d.id, d.lead_id, d.title, d.deal_value, d.pipeline_id, d.stage, d.owner_email,
+          d.close_date::text AS close_date, d.created_at,
+          COALESCE(ps.is_won, false) AS is_won,
+          COALESCE(ps.is_lost, false) AS is_lost
+        FROM deals d
+        JOIN leads l ON d.lead_id = l.id
+        LEFT JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
+        WHERE l.company_id = $1
+        ORDER BY d.created_at DESC
+      `,
+      [id]
+    ),
+    pool.query(
+      `
+        SELECT id, name, email, phone, client_number, owner_email, created_at
+        FROM contacts
+        WHERE company_id = $1 AND is_client = true AND deleted_at IS NULL
+        ORDER BY created_at DESC
+      `,
+      [id]
+    ),
+  ]);
+
+  const leads: CompanyLead[] = leadsResult.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    stage: row.stage,
+    status: row.status,
+    owner_email: row.owner_email || null,
+    contact_id: row.contact_id ? String(row.contact_id) : null,
+    contact_name: row.contact_name || null,
+    created_at: new Date(row.created_at).toISOString(),
+  }));
+
+  const deals: CompanyDeal[] = dealsResult.rows.map((row) => ({
+    id: row.id,
+    lead_id: row.lead_id,
+    title: row.title,
+    deal_value: row.deal_value !== null ? parseFloat(row.deal_value) : null,
+    pipeline_id: row.pipeline_id,
+    stage: row.stage,
+    is_won: row.is_won,
+    is_lost: row.is_lost,
+    owner_email: row.owner_email || null,
+    close_date: row.close_date || null,
+    created_at: new Date(row.created_at).toISOString(),
+  }));
+
+  const clients: CompanyClient[] = clientsResult.rows.map((row) => ({
+    id: String(row.id),
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    client_number: row.client_number || null,
+    owner_email: row.owner_email || null,
+    created_at: new Date(row.created_at).toISOString(),
+  }));
+
+  const openDeals = deals.filter((deal) => !deal.is_won && !deal.is_lost);
+  const wonDeals = deals.filter((deal) => deal.is_won);
+  const sumValues = (list: CompanyDeal[]) =>
+    Math.round(list.reduce((sum, deal) => sum + (deal.deal_value || 0), 0) * 100) / 100;
+
+  return {
+    company,
+    leads,
+    deals,
+    clients,
+    totals: {
+      leads: leads.length,
+      clients: clients.length,
+      openDeals: openDeals.length,
+      openDealValue: sumValues(openDeals),
+      wonDeals: wonDeals.length,
+      wonDealValue: sumValues(wonDeals),
+    },
+  };
+}
+
+/**
+ * Create a company
+ *
+ * @throws Error with statusCode 409 if the name or domain is already used
+ */
+export async function createCompany(data: CompanyPayload & { name: string }): Promise<Company> {
+  let id: number;
+  try {
+    const result = await pool.query(
+      `
+        INSERT INTO companies (name, domain, industry, verticals, size, address)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id
+      `,
+      [
+        cleanCompanyName(data.name),
+        data.domain || null,
+        data.industry || null,
+        data.verticals || null,
+        data.size || null,
+        data.address || null,
+      ]
+    );
+    id = result.rows[0].id;
+  } catch (error) {
+    throw toConflictError(error);
+  }
+
+  return (await getCompanyById(id))!;
+}
+
+/**
+ * Update a company. Renaming it also renames it on its contacts (contacts.company).
+ *
+ * @returns The updated company, or null if it does not exist
+ * @throws Error with statusCode 409 if the new name or domain is already used
+ */
+export async function updateCompany(id: number, data: CompanyPayload): Promise<Company | null> {
+  const client = await getPoolClient(5000);
+
+  try {
+    await client.query('BEGIN');
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    const fields: Array<[keyof CompanyPayload, string | null | undefined]> = [
+      ['name', data.name !== undefined ? cleanCompanyName(data.name) : undefined],
+      ['domain', data.domain],
+      ['industry', data.industry],
+      ['verticals', data.verticals],
+      ['size', data.size],
+      ['address', data.address],
+    ];
+    for (const [column, value] of fields) {
+      if (value !== undefined) {
+        updateFields.push(`${column} = $${paramCount++}`);
+        values.push(value || null);
+      }
+    }
+
+    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const result = await client.query(
+      `UPDATE companies SET ${updateFields.join(', ')} WHERE id = $${paramCount} RETURNING id, name`,
+      values
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (data.name !== undefined) {
+      await client.query(
+        `UPDATE contacts SET company = $1, updated_at = CURRENT_TIMESTAMP WHERE company_id = $2 AND company IS DISTINCT FROM $1`,
+        [result.rows[0].name, id]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw toConflictError(error);
+  } finally {
+    client.release();
+  }
+
+  return getCompanyById(id);
+}
+
+/**
+ * Delete a company.
+ * Its contacts and leads are unlinked (company_id is set to NULL); contacts keep the company name as text.
+ */
+export async function deleteCompany(id: number): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM companies WHERE id = $1 RETURNING id`, [id]);
+  return result.rows.length > 0;
+}
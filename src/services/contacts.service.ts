@@ -0,0 +1,421 @@
+/**
+ * Contacts Service
+ *
+ * Duplicate detection and merging for contacts.
+ * Leads point at a contact via contact_id, and clients are contacts with is_client = true,
+ * so merging two contacts also merges their lead and client history.
+ */
+
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import type { DuplicateCandidate, DuplicateMatchReason, ContactMergeResult } from '../types/contacts';
+
+// Minimum trigram similarity (0-1) for a name / company to count as a fuzzy match.
+// Both the name and the company have to match, since many contacts share a company.
+const NAME_SIMILARITY_THRESHOLD = 0.5;
+const COMPANY_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Contact details to check for duplicates
+ */
+export interface DuplicateCheckInput {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+}
+
+/**
+ * Normalizes an email for comparison: trimmed and lower-cased
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Normalizes a phone number for comparison: the last 10 digits.
+ * Numbers with fewer than 7 digits are too short to compare.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '').slice(-10);
+  return digits.length >= 7 ? digits : null;
+}
+
+/**
+ * Maps a candidate row (see findDuplicateContacts) to a DuplicateCandidate
+ */
+function mapCandidateRow(row: any): DuplicateCandidate {
+  const nameScore = parseFloat(row.name_score);
+  const companyScore = parseFloat(row.company_score);
+
+  const matchedOn: DuplicateMatchReason[] = [];
+  if (row.email_match) matchedOn.push('email');
+  if (row.phone_match) matchedOn.push('phone');
+  if (nameScore >= NAME_SIMILARITY_THRESHOLD) matchedOn.push('name');
+  if (companyScore >= COMPANY_SIMILARITY_THRESHOLD) matchedOn.push('company');
+
+  // Email is the strongest signal, then phone, then how alike name and company are
+  const score = row.email_match ? 1 : row.phone_match ? 0.9 : (nameScore + companyScore) / 2;
+
+  return {
+    contact: {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      phone: row.phone,
+      company: row.company,
+      is_client: row.is_client,
+    },
+    lead_ids: (row.lead_ids || []).map((id: any) => parseInt(id, 10)),
+    matched_on: matchedOn,
+    score: Math.round(score * 100) / 100,
+  };
+}
+
+/**
+ * Finds existing contacts that look like the given contact.
+ * 
+ * A contact is a candidate when it has the same normalized email, the same phone digits,
+ * or both a similar name and a similar company. Contacts in the clients trash are ignored.
+ * 
+ * @param input - Contact details being entered
+ * @param limit - Maximum number of candidates (strongest first)
+ * @returns Candidates with the reasons they matched
+ */
+export async function findDuplicateContacts(
+  input: DuplicateCheckInput,
+  limit: number = 5
+): Promise<DuplicateCandidate[]> {
+  const email = normalizeEmail(input.email);
+  const phone = normalizePhone(input.phone);
+  const name = input.name?.trim().toLowerCase() || null;
+  const company = input.company?.trim().toLowerCase() || null;
+
+  if (!email && !phone && !(name && company)) {
+    return [];
+  }
+
+  // The % operator (pg_trgm) uses the trigram indexes to narrow down fuzzy matches,
+  // then the similarity scores are checked against the thresholds
+  const query = `
+    WITH candidates AS (
+      SELECT
+        c.id,
+        c.name,
+        c.email,
+        c.phone,
+        c.company,
+        COALESCE(c.is_client, false) as is_client,
+        COALESCE(LOWER(TRIM(c.email)) = $1, false) as email_match,
+        COALESCE(RIGHT(REGEXP_REPLACE(c.phone, '\\D', '', 'g'), 10) = $2, false) as phone_match,
+        COALESCE(similarity(LOWER(c.name), $3), 0) as name_score,
+        COALESCE(similarity(LOWER(c.company), $4), 0) as company_score
+      FROM contacts c
+      WHERE c.deleted_at IS NULL
+        AND (
+          LOWER(TRIM(c.email)) = $1
+          OR RIGHT(REGEXP_REPLACE(c.phone, '\\D', '', 'g'), 10) = $2
+          OR (LOWER(c.name) % $3 AND LOWER(c.company) % $4)
+        )
+    )
+    SELECT
+      cand.*,
+      COALESCE(ARRAY_AGG(l.id ORDER BY l.id) FILTER (WHERE l.id IS NOT NULL), '{}') as lead_ids
+    FROM candidates cand
+    LEFT JOIN leads l ON l.contact_id = cand.id
+    WHERE cand.email_match
+      OR cand.phone_match
+      OR (cand.name_score >= $5 AND cand.company_score >= $6)
+    GROUP BY cand.id, cand.name, cand.email, cand.phone, cand.company, cand.is_client,
+      cand.email_match, cand.phone_match, cand.name_score, cand.company_score
+    ORDER BY cand.email_match DESC, cand.phone_match DESC, cand.name_score + cand.company_score DESC
+    LIMIT $7
+  `;
+
+  const result = await pool.query(query, [
+    email,
+    phone,
+    name,
+    company,
+    NAME_SIMILARITY_THRESHOLD,
+    COMPANY_SIMILARITY_THRESHOLD,
+    limit,
+  ]);
+
+  return result.rows.map(mapCandidateRow);
+}
+
+/**
+ * Finds duplicate candidates for many contacts in one query (e.g. every row of a lead import).
+ * Matches the same way as findDuplicateContacts.
+ *
+ * @param inputs - Contact details being entered
+ * @param limit - Maximum number of candidates per contact (strongest first)
+ * @returns The candidates of each input, in input order
+ */
+export async function findDuplicateContactsForMany(
+  inputs: DuplicateCheckInput[],
+  limit: number = 5
+): Promise<DuplicateCandidate[][]> {
+  const duplicates: DuplicateCandidate[][] = inputs.map(() => []);
+  const emails: (string | null)[] = [];
+  const phones: (string | null)[] = [];
+  const names: (string | null)[] = [];
+  const companies: (string | null)[] = [];
+
+  for (const input of inputs) {
+    emails.push(normalizeEmail(input.email));
+    phones.push(normalizePhone(input.phone));
+    names.push(input.name?.trim().toLowerCase() || null);
+    companies.push(input.company?.trim().toLowerCase() || null);
+  }
+  if (!inputs.some((_, i) => emails[i] || phones[i] || (names[i] && companies[i]))) {
+    return duplicates;
+  }
+
+  // idx is the 1-based position of the input
+  const query = `
+    WITH input AS (
+      SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::text[])
+        WITH ORDINALITY AS i(email, phone, name, company, idx)
+    ),
+    candidates AS (
+      SELECT
+        i.idx,
+        c.id,
+        c.name,
+        c.email,
+        c.phone,
+        c.company,
+        COALESCE(c.is_client, false) as is_client,
+        COALESCE(LOWER(TRIM(c.email)) = i.email, false) as email_match,
+        COALESCE(RIGHT(REGEXP_REPLACE(c.phone, '\\D', '', 'g'), 10) = i.phone, false) as phone_match,
+        COALESCE(similarity(LOWER(c.name), i.name), 0) as name_score,
+        COALESCE(similarity(LOWER(c.company), i.company), 0) as company_score
+      FROM input i
+      JOIN contacts c ON c.deleted_at IS NULL
+        AND (
+          LOWER(TRIM(c.email)) = i.email
+          OR RIGHT(REGEXP_REPLACE(c.phone, '\\D', '', 'g'), 10) = i.phone
+          OR (LOWER(c.name) % i.name AND LOWER(c.company) % i.company)
+        )
+    ),
+    ranked AS (
+      SELECT
+        cand.*,
+        ROW_NUMBER() OVER (
+          PARTITION BY cand.idx
+          ORDER BY cand.email_match DESC, cand.phone_match DESC, cand.name_score + cand.company_score DESC
+        ) as rank
+      FROM candidates cand
+      WHERE cand.email_match
+        OR cand.phone_match
+        OR (cand.name_score >= $5 AND cand.company_score >= $6)
+    )
+    SELECT
+      r.*,
+      COALESCE(ARRAY_AGG(l.id ORDER BY l.id) FILTER (WHERE l.id IS NOT NULL), '{}') as lead_ids
+    FROM ranked r
+    LEFT JOIN leads l ON l.contact_id = r.id
+    WHERE r.rank <= $7
+    GROUP BY r.idx, r.rank, r.id, r.name, r.email, r.phone, r.company, r.is_client,
+      r.email_match, r.phone_match, r.name_score, r.company_score
+    ORDER BY r.idx, r.rank
+  `;
+
+  const result = await pool.query(query, [
+    emails,
+    phones,
+    names,
+    companies,
+    NAME_SIMILARITY_THRESHOLD,
+    COMPANY_SIMILARITY_THRESHOLD,
+    limit,
+  ]);
+
+  for (const row of result.rows) {
+    duplicates[parseInt(row.idx, 10) - 1].push(mapCandidateRow(row));
+  }
+  return duplicates;
+}
+
+/**
+ * Merges one contact into another.
+ * 
+ * Everything attached to the merged contact is moved to the kept contact in a single transaction:
+ * - leads (and through them their deals, cold calls, onsite visits, tasks and stage history)
+ * - activities, client tasks, client files and credentials
+ * - contact links (lead_contacts), on either side of the link
+ * Empty email/phone/company/owner fields on the kept contact are filled from the merged one
+ * (company and company_id are taken together, so the name always matches the linked company),
+ * and the kept contact becomes a client if either was. The merged contact is then deleted.
+ * 
+ * Flow: User picks the duplicate and the contact to keep → controller validates → this function moves records → deletes duplicate → returns kept contact
+ * 
+ * @param sourceId - The contact to merge in (deleted afterwards)
+ * @param targetId - The contact to keep
+ * @returns The kept contact and how many records it received
+ * @throws Error with statusCode 400 if both IDs are the same or the kept contact is in the trash, 404 if a contact does not exist
+ */
+export async function mergeContacts(sourceId: string, targetId: string): Promise<ContactMergeResult> {
+  if (sourceId === targetId) {
+    throw new HttpError('Cannot merge a contact into itself', 400);
+  }
+
+  const client = await getPoolClient(5000);
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock both contacts so nothing is attached to the duplicate while we move records
+    const contactsResult = await client.query(
+      `SELECT * FROM contacts WHERE id = $1 OR id = $2 FOR UPDATE`,
+      [sourceId, targetId]
+    );
+    const source = contactsResult.rows.find((row: any) => String(row.id) === sourceId);
+    const target = contactsResult.rows.find((row: any) => String(row.id) === targetId);
+
+    if (!source) {
+      throw new HttpError(`Contact with id ${sourceId} does not exist`, 404);
+    }
+    if (!target) {
+      throw new HttpError(`Contact with id ${targetId} does not exist`, 404);
+    }
+    if (target.deleted_at) {
+      throw new HttpError('Cannot merge into a contact that is in the trash', 400);
+    }
+
+    // Leads carry their deals, cold calls, visits and tasks with them
+    const leadsResult = await client.query(
+      `UPDATE leads SET contact_id = $1, updated_at = NOW() WHERE contact_id = $2 RETURNING id`,
+      [targetId, sourceId]
+    );
+    const leadIds: number[] = leadsResult.rows.map((row: any) => row.id);
+
+    const activitiesResult = await client.query(
+      `UPDATE activities SET contact_id = $1 WHERE contact_id = $2`,
+      [targetId, sourceId]
+    );
+    const clientTasksResult = await client.query(
+      `UPDATE team_tasks SET client_id = $1, updated_at = NOW() WHERE client_id = $2`,
+      [targetId, sourceId]
+    );
+    const filesResult = await client.query(
+      `UPDATE client_project_files SET client_id = $1 WHERE client_id = $2`,
+      [targetId, sourceId]
+    );
+    const credentialsResult = await client.query(
+      `UPDATE project_credentials SET client_id = $1 WHERE client_id = $2`,
+      [targetId, sourceId]
+    );
+
+    // Contact links (lead_contacts): drop links that would duplicate one the kept contact already has,
+    // or that would link the kept contact to itself, then move the rest
+    await client.query(
+      `
+        DELETE FROM lead_contacts s
+        WHERE (s.client_id = $1 AND s.contact_id = $2)
+           OR (s.client_id = $2 AND s.contact_id = $1)
+           OR (s.contact_id = $2 AND EXISTS (
+                SELECT 1 FROM lead_contacts t
+                WHERE t.contact_id = $1 AND (t.lead_id = s.lead_id OR t.client_id = s.client_id)
+              ))
+           OR (s.client_id = $2 AND EXISTS (
+                SELECT 1 FROM lead_contacts t
+                WHERE t.client_id = $1 AND t.contact_id = s.contact_id
+              ))
+      `,
+      [targetId, sourceId]
+    );
+    const contactLinksResult = await client.query(
+      `
+        UPDATE lead_contacts
+        SET contact_id = CASE WHEN contact_id = $2 THEN $1 ELSE contact_id END,
+            client_id = CASE WHEN client_id = $2 THEN $1 ELSE client_id END,
+            updated_at = NOW()
+        WHERE contact_id = $2 OR client_id = $2
+      `,
+      [targetId, sourceId]
+    );
+
+    // Count what came along with the moved leads
+    const leadRecordsResult = await client.query(
+      `
+        SELECT
+          (SELECT COUNT(*) FROM deals WHERE lead_id = ANY($1::int[])) as deals,
+          (SELECT COUNT(*) FROM cold_calls WHERE lead_id = ANY($1::int[])) as cold_calls,
+          (SELECT COUNT(*) FROM onsite_visits WHERE lead_id = ANY($1::int[])) as onsite_visits,
+          (SELECT COUNT(*) FROM team_tasks WHERE lead_id = ANY($1::int[])) as tasks
+      `,
+      [leadIds]
+    );
+    const leadRecords = leadRecordsResult.rows[0];
+
+    // Delete the duplicate before updating the kept contact, so its client number can be reused
+    await client.query(`DELETE FROM contacts WHERE id = $1`, [sourceId]);
+
+    const companyOwner = target.company || target.company_id ? target : source;
+
+    const mergedResult = await client.query(
+      `
+        UPDATE contacts
+        SET email = $1,
+            phone = $2,
+            company = $3,
+            company_id = $4,
+            is_client = $5,
+            client_number = $6,
+            lead_id = $7,
+            owner_email = $8,
+            updated_at = NOW()
+        WHERE id = $9
+        RETURNING *
+      `,
+      [
+        target.email || source.email || null,
+        target.phone || source.phone || null,
+        companyOwner.company || null,
+        companyOwner.company_id || null,
+        Boolean(target.is_client || source.is_client),
+        target.client_number || source.client_number || null,
+        target.lead_id || source.lead_id || null,
+        target.owner_email || source.owner_email || null,
+        targetId,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    const merged = mergedResult.rows[0];
+    return {
+      contact: {
+        id: merged.id,
+        name: merged.name,
+        email: merged.email,
+        phone: merged.phone,
+        company: merged.company,
+        is_client: merged.is_client || false,
+        client_number: merged.client_number || null,
+        owner_email: merged.owner_email || null,
+      },
+      merged_contact_id: sourceId,
+      moved: {
+        leads: leadIds.length,
+        activities: activitiesResult.rowCount || 0,
+        cold_calls: parseInt(leadRecords.cold_calls, 10),
+        onsite_visits: parseInt(leadRecords.onsite_visits, 10),
+        tasks: (clientTasksResult.rowCount || 0) + parseInt(leadRecords.tasks, 10),
+        deals: parseInt(leadRecords.deals, 10),
+        files: filesResult.rowCount || 0,
+        credentials: credentialsResult.rowCount || 0,
+        contact_links: contactLinksResult.rowCount || 0,
+      },
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -10,6 +10,7 @@
  */
 
 import pool from '../lib/db';
+import { LEAD_STAGES, LeadStage } from '../lib/lead-transitions';
 
 /**
  * Interface for the dashboard summary response.
@@ -18,13 +19,7 @@ import pool from '../lib/db';
 export interface DashboardSummary {
   totalLeads: number; // Total count of all leads in the system
   newLeadsThisWeek: number; // Count of leads created in the last 7 days
-  leadsByStage: {
-    new: number; // Leads in "new" stage
-    qualified: number; // Leads in "qualified" stage
-    proposal: number; // Leads in "proposal" stage
-    negotiation: number; // Leads in "negotiation" stage
-    closed: number; // Leads in "closed" stage
-  };
+  leadsByStage: Record<LeadStage, number>; // Count of leads per stage, one key per entry in LEAD_STAGES
   leadsByStatus: {
     new: number; // Leads with "new" status
     contacted: number; // Leads with "contacted" status
@@ -43,6 +38,25 @@ export interface DashboardSummary {
   }>;
 }
 
+/**
+ * Interface for the lead stage metrics response.
+ * Built from lead_stage_history to show where leads stall in the pipeline.
+ */
+export interface StageMetrics {
+  timeInStage: Array<{
+    stage: string; // Pipeline stage
+    averageDays: number; // Average days a lead spends in this stage (current stays count up to now)
+    leadsEntered: number; // How many times leads entered this stage
+    leadsCurrentlyInStage: number; // Leads sitting in this stage right now
+  }>;
+  conversionRates: Array<{
+    fromStage: string; // Stage the lead left
+    toStage: string; // Stage the lead moved to
+    count: number; // Number of moves from fromStage to toStage
+    rate: number; // Share of leads that entered fromStage and then moved to toStage (0-1)
+  }>;
+}
+
 /**
  * Retrieves a comprehensive dashboard summary with aggregated statistics.
  * 
@@ -89,13 +103,9 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
   
   // Convert the grouped results into an object with default values of 0
   // This ensures all stages are present even if they have no leads
-  const leadsByStage: DashboardSummary['leadsByStage'] = {
-    new: 0,
-    qualified: 0,
-    proposal: 0,
-    negotiation: 0,
-    closed: 0,
-  };
+  const leadsByStage = Object.fromEntries(
+    LEAD_STAGES.map((stage) => [stage, 0])
+  ) as DashboardSummary['leadsByStage'];
   
   leadsByStageResult.rows.forEach((row) => {
     const stage = row.stage?.toLowerCase();
@@ -300,3 +310,80 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
   };
 }
 
+
+/**
+ * Retrieves time-in-stage and stage-to-stage conversion metrics for leads.
+ * 
+ * Both metrics are computed from lead_stage_history (stage changes only):
+ * - Time in stage: each stay in a stage lasts until the lead's next stage change,
+ *   or until now if the lead is still there
+ * - Conversion rate: moves from stage A to stage B divided by the number of times
+ *   leads entered stage A
+ * 
+ * Flow: Controller calls this → we run both aggregate queries in parallel → return metrics
+ * 
+ * @returns Promise that resolves with the stage metrics
+ */
+export async function getStageMetrics(): Promise<StageMetrics> {
+  const timeInStageQuery = `
+    WITH stays AS (
+      SELECT
+        to_value as stage,
+        changed_at as entered_at,
+        LEAD(changed_at) OVER (PARTITION BY lead_id ORDER BY changed_at, id) as left_at
+      FROM lead_stage_history
+      WHERE field = 'stage'
+    )
+    SELECT
+      stage,
+      AVG(EXTRACT(EPOCH FROM (COALESCE(left_at, NOW()) - entered_at)) / 86400) as average_days,
+      COUNT(*) as leads_entered,
+      COUNT(*) FILTER (WHERE left_at IS NULL) as leads_current
+    FROM stays
+    GROUP BY stage
+    ORDER BY stage
+  `;
+
+  const conversionQuery = `
+    WITH entries AS (
+      SELECT to_value as stage, COUNT(*) as entered
+      FROM lead_stage_history
+      WHERE field = 'stage'
+      GROUP BY to_value
+    ),
+    moves AS (
+      SELECT from_value, to_value, COUNT(*) as count
+      FROM lead_stage_history
+      WHERE field = 'stage' AND from_value IS NOT NULL
+      GROUP BY from_value, to_value
+    )
+    SELECT m.from_value, m.to_value, m.count, e.entered
+    FROM moves m
+    JOIN entries e ON e.stage = m.from_value
+    ORDER BY m.from_value, m.count DESC
+  `;
+
+  const [timeInStageResult, conversionResult] = await Promise.all([
+    pool.query(timeInStageQuery),
+    pool.query(conversionQuery),
+  ]);
+
+  return {
+    timeInStage: timeInStageResult.rows.map((row) => ({
+      stage: row.stage,
+      averageDays: Math.round(parseFloat(row.average_days) * 100) / 100,
+      leadsEntered: parseInt(row.leads_entered, 10),
+      leadsCurrentlyInStage: parseInt(row.leads_current, 10),
+    })),
+    conversionRates: conversionResult.rows.map((row) => {
+      const count = parseInt(row.count, 10);
+      const entered = parseInt(row.entered, 10);
+      return {
+        fromStage: row.from_value,
+        toStage: row.to_value,
+        count,
+        rate: entered > 0 ? Math.round((count / entered) * 10000) / 10000 : 0,
+      };
+    }),
+  };
+}
@@ -3,7 +3,7 @@
  * 
  * This file contains the business logic for working with deals.
  * It handles database operations like creating deals, listing deals by stage,
- * and moving deals through the sales pipeline.
+ * and moving deals through their pipeline.
  * 
  * The service layer separates database logic from HTTP request/response handling,
  * making the code easier to test and maintain.
@@ -14,83 +14,143 @@
  * - See the full context of a deal (contact info, activities, etc.)
  */
 
-import pool from '../lib/db';
-import type { Deal, DealsByStage } from '../types/deals';
+import pool, { getPoolClient, PoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import type { Deal, DealsPipeline, DealForecast, ForecastBucket } from '../types/deals';
+import type { Pipeline } from '../types/pipelines';
+import * as notificationsService from './notifications.service';
+import * as teamService from './team.service';
+import * as pipelinesService from './pipelines.service';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Formats a DATE column as YYYY-MM-DD.
+ * pg parses DATE values as local midnight, so the local date parts are the stored date.
+ */
+function toDateOnly(value: any): string | null {
+  if (!value) return null;
+  if (!(value instanceof Date)) return String(value).slice(0, 10);
+
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Maps a raw deals row to the Deal shape returned by the API
+ */
+function mapDealRow(row: any): Deal {
+  return {
+    id: row.id,
+    lead_id: row.lead_id,
+    title: row.title,
+    deal_value: row.deal_value ? parseFloat(row.deal_value) : null,
+    pipeline_id: row.pipeline_id ?? null,
+    stage: row.stage,
+    notes: row.notes,
+    owner_email: row.owner_email || null,
+    loss_reason: row.loss_reason || null,
+    close_date: toDateOnly(row.close_date),
+    probability: row.probability ?? null,
+    expected_close_date: toDateOnly(row.expected_close_date),
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
 
 /**
- * Valid pipeline stages that a deal can be in.
- * These stages represent the progression of a deal through the sales pipeline.
+ * Loads a pipeline by ID, or the default pipeline when no ID is given
  */
-const VALID_STAGES = ['new', 'qualified', 'proposal', 'negotiation', 'closed'] as const;
+async function getPipelineOrDefault(pipelineId?: number | null): Promise<Pipeline | null> {
+  if (pipelineId === undefined || pipelineId === null) {
+    return pipelinesService.getDefaultPipeline();
+  }
+  return pipelinesService.getPipelineById(pipelineId);
+}
 
 /**
- * Retrieves all deals from the database and groups them by stage.
+ * Optional filters for the pipeline view
+ */
+export interface DealListFilters {
+  ownerEmail?: string; // Only deals owned by this team member (?owner=me)
+  pipelineId?: number; // Pipeline to show (defaults to the default pipeline)
+}
+
+/**
+ * Retrieves the deals of one pipeline grouped by that pipeline's stages.
  * 
- * The sales pipeline groups deals into 5 stages:
- * - new: Just created, not yet qualified
- * - qualified: Deal has been qualified as a real opportunity
- * - proposal: Proposal has been sent to the customer
- * - negotiation: Deal is in negotiation phase
- * - closed: Deal has been closed (won or lost)
+ * Stages are loaded from pipeline_stages (ordered by position), so each pipeline
+ * can have its own columns. The default pipeline is:
+ * new → qualified → proposal → negotiation → closed_won / closed_lost
  * 
- * Flow: Controller calls this → we query all deals → group by stage in memory → return grouped object
+ * Flow: Controller calls this → we load the pipeline → query its deals → group by stage in memory → return stages with deals
  * 
- * This function ensures all 5 stage keys exist even if they have no deals,
- * making it easy to display an empty pipeline view.
+ * Every stage is returned even if it has no deals, making it easy to display an empty pipeline view.
  * 
- * @returns Promise that resolves with deals grouped by stage
+ * @param filters - Optional filters (pipeline, owner)
+ * @returns Promise that resolves with the pipeline and its stages with deals
+ * @throws Error with statusCode 404 if the pipeline does not exist
  */
-export async function listDealsByStage(): Promise<DealsByStage> {
-  // Query all deals from the database with lead and contact information, ordered by created_at descending
+export async function listDealsByStage(filters: DealListFilters = {}): Promise<DealsPipeline> {
+  const pipeline = await getPipelineOrDefault(filters.pipelineId);
+  if (!pipeline) {
+    throw new HttpError(
+      filters.pipelineId !== undefined
+        ? `Pipeline with id ${filters.pipelineId} does not exist`
+        : 'No default pipeline is configured',
+      404
+    );
+  }
+
+  const values: any[] = [pipeline.id];
+  let whereClause = 'WHERE d.pipeline_id = $1';
+
+  if (filters.ownerEmail) {
+    values.push(filters.ownerEmail);
+    whereClause += ` AND d.owner_email = $${values.length}`;
+  }
+
+  // Query the pipeline's deals with lead and contact information, ordered by created_at descending
   const query = `
     SELECT 
       d.id,
       d.lead_id,
       d.title,
       d.deal_value,
+      d.pipeline_id,
       d.stage,
       d.notes,
+      d.owner_email,
+      d.loss_reason,
+      d.close_date,
+      d.probability,
+      d.expected_close_date,
       d.created_at,
       d.updated_at,
       c.company as contact_company
     FROM deals d
     LEFT JOIN leads l ON d.lead_id = l.id
     LEFT JOIN contacts c ON l.contact_id = c.id
+    ${whereClause}
     ORDER BY d.created_at DESC
   `;
   
-  const result = await pool.query(query);
+  const result = await pool.query(query, values);
   const allDeals: Deal[] = result.rows.map((row) => ({
-    id: row.id,
-    lead_id: row.lead_id,
+    ...mapDealRow(row),
     title: row.contact_company || row.title, // Use company name if available, otherwise use stored title
-    deal_value: row.deal_value ? parseFloat(row.deal_value) : null,
-    stage: row.stage,
-    notes: row.notes,
-    created_at: row.created_at.toISOString(),
-    updated_at: row.updated_at.toISOString(),
   }));
 
-  // Initialize the grouped object with empty arrays for all stages
-  // This ensures all 5 keys exist even if there are no deals in that stage
-  const dealsByStage: DealsByStage = {
-    new: [],
-    qualified: [],
-    proposal: [],
-    negotiation: [],
-    closed: [],
+  // Group deals by stage key, keeping the pipeline's stage order
+  const { stages, ...pipelineInfo } = pipeline;
+  return {
+    pipeline: pipelineInfo,
+    stages: stages.map((stage) => ({
+      ...stage,
+      deals: allDeals.filter((deal) => deal.stage === stage.key),
+    })),
   };
-
-  // Group deals by stage
-  // We filter deals into their respective stage arrays
-  allDeals.forEach((deal) => {
-    const stage = deal.stage.toLowerCase();
-    if (stage in dealsByStage) {
-      dealsByStage[stage as keyof DealsByStage].push(deal);
-    }
-  });
-
-  return dealsByStage;
 }
 
 /**
@@ -99,7 +159,7 @@ export async function listDealsByStage(): Promise<DealsByStage> {
  * A Deal is linked to a Lead via lead_id. This function:
  * 1. Verifies the lead exists
  * 2. Creates a new deal record linked to that lead
- * 3. Sets the deal stage to 'new' (starting point of the pipeline)
+ * 3. Places the deal in the first stage of its pipeline (the default pipeline unless one is given)
  * 
  * Flow: User converts lead to deal → controller validates → this function checks lead exists → inserts deal → returns new deal
  * 
@@ -108,19 +168,28 @@ export async function listDealsByStage(): Promise<DealsByStage> {
  * @param params.title - Title/name of the deal (defaults to 'Deal for Lead #<id>' if not provided)
  * @param params.dealValue - Optional monetary value of the deal
  * @param params.notes - Optional notes about the deal
+ * @param params.ownerEmail - Optional owner (defaults to the lead's owner)
+ * @param params.pipelineId - Optional pipeline (defaults to the default pipeline)
+ * @param params.probability - Optional win probability (defaults to the first stage's probability)
+ * @param params.expectedCloseDate - Optional expected close date, YYYY-MM-DD
  * @returns The newly created deal
- * @throws Error if the lead does not exist
+ * @throws Error if the lead or pipeline does not exist
  */
 export async function createDealFromLead(params: {
   leadId: number;
+  createdByEmail?: string | null;
   title?: string;
   dealValue?: number | null;
   notes?: string | null;
+  ownerEmail?: string | null;
+  pipelineId?: number;
+  probability?: number;
+  expectedCloseDate?: string;
 }): Promise<Deal> {
   // First, verify that the lead exists
   // This prevents creating deals for non-existent leads
   const leadCheckQuery = `
-    SELECT id FROM leads WHERE id = $1
+    SELECT id, owner_email FROM leads WHERE id = $1
   `;
   const leadResult = await pool.query(leadCheckQuery, [params.leadId]);
   
@@ -128,6 +197,15 @@ export async function createDealFromLead(params: {
     throw new Error(`Lead with id ${params.leadId} does not exist`);
   }
 
+  const pipeline = await getPipelineOrDefault(params.pipelineId);
+  if (!pipeline || pipeline.stages.length === 0) {
+    throw new Error(
+      params.pipelineId !== undefined
+        ? `Pipeline with id ${params.pipelineId} does not exist`
+        : 'No default pipeline is configured'
+    );
+  }
+
   // Get the lead's company name to use as default title
   const leadCompanyQuery = `
     SELECT c.company
@@ -143,10 +221,11 @@ export async function createDealFromLead(params: {
   const title = params.title || companyName || `Deal for Lead #${params.leadId}`;
 
   // Insert the new deal into the database
-  // All deals start at the 'new' stage (first stage of the pipeline)
+  // All deals start at the first stage of their pipeline, with that stage's probability unless one is given
+  // The deal inherits the lead's owner unless one is given explicitly
   const insertQuery = `
-    INSERT INTO deals (lead_id, title, deal_value, stage, notes, created_at, updated_at)
-    VALUES ($1, $2, $3, 'new', $4, NOW(), NOW())
+    INSERT INTO deals (lead_id, title, deal_value, pipeline_id, stage, notes, owner_email, probability, expected_close_date, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
     RETURNING *
   `;
   
@@ -154,93 +233,438 @@ export async function createDealFromLead(params: {
     params.leadId,
     title,
     params.dealValue || null,
+    pipeline.id,
+    pipeline.stages[0].key,
     params.notes || null,
+    params.ownerEmail || leadResult.rows[0].owner_email || null,
+    params.probability ?? pipeline.stages[0].probability,
+    params.expectedCloseDate || null,
   ]);
 
-  const dealRow = result.rows[0];
-  
-  return {
-    id: dealRow.id,
-    lead_id: dealRow.lead_id,
-    title: dealRow.title,
-    deal_value: dealRow.deal_value ? parseFloat(dealRow.deal_value) : null,
-    stage: dealRow.stage,
-    notes: dealRow.notes,
-    created_at: dealRow.created_at.toISOString(),
-    updated_at: dealRow.updated_at.toISOString(),
-  };
+  const deal = mapDealRow(result.rows[0]);
+  await recordDealStageChange(deal.id, null, deal.stage, params.createdByEmail ?? null);
+
+  return deal;
+}
+
+/**
+ * Writes a stage change to deal_stage_history (from = null for the stage a deal was created in)
+ */
+async function recordDealStageChange(
+  dealId: string,
+  fromStage: string | null,
+  toStage: string,
+  changedByEmail: string | null,
+  client?: PoolClient
+): Promise<void> {
+  await (client || pool).query(
+    `INSERT INTO deal_stage_history (deal_id, from_stage, to_stage, changed_by_email, changed_at)
+     VALUES ($1, $2, $3, $4, NOW())`,
+    [dealId, fromStage, toStage, changedByEmail]
+  );
+}
+
+/**
+ * Input for editing a deal (PATCH /api/deals/:id)
+ */
+export interface UpdateDealParams {
+  title?: string;
+  dealValue?: number | null;
+  notes?: string | null;
+  pipelineId?: number; // Move the deal to another pipeline
+  stage?: string;
+  lossReason?: string | null;
+  closeDate?: string | null; // YYYY-MM-DD
+  probability?: number | null; // null resets to the stage's probability
+  expectedCloseDate?: string | null; // YYYY-MM-DD
 }
 
 /**
- * Moves a deal to a different stage in the sales pipeline.
+ * Updates a deal's details and/or stage.
+ * 
+ * The stage must be one of the stages of the deal's pipeline. When the deal moves to another
+ * pipeline without a stage, it keeps its stage if the new pipeline has it, otherwise it starts at the first stage.
+ * 
+ * Closing rules are checked against the deal as it will be after the update:
+ * - won and lost stages require a close date
+ * - lost stages require a loss reason
+ * Moving a deal back to an open stage clears its loss reason and close date.
+ * 
+ * The probability follows the stage: changing stage resets it to the new stage's probability
+ * unless a probability is given in the same update.
  * 
- * The sales pipeline has 5 stages: new → qualified → proposal → negotiation → closed
- * This function updates a deal's stage and sets updated_at to the current timestamp.
+ * Flow: User edits deal → controller validates → this function merges with current deal → checks stage and close rules → updates → returns deal
+ * 
+ * The deal row is locked and the update and its stage history are written in one transaction.
+ * Stage changes are also written to deal_stage_history.
+ * 
+ * @param dealId - The UUID of the deal to update
+ * @param data - The fields to update
+ * @param changedByEmail - Email of the user making the change (stored in the stage history)
+ * @returns The updated deal
+ * @throws Error with statusCode 404 if the deal does not exist, 400 if the pipeline, stage or close fields are invalid
+ */
+export async function updateDeal(
+  dealId: string,
+  data: UpdateDealParams,
+  changedByEmail: string | null = null
+): Promise<Deal> {
+  // Deal ids are UUIDs; anything else can't match a deal (and would make Postgres fail with 22P02)
+  if (!UUID_PATTERN.test(dealId)) {
+    throw new HttpError(`Deal with id ${dealId} does not exist`, 404);
+  }
+
+  const client = await getPoolClient(5000);
+  try {
+    await client.query('BEGIN');
+
+    // Lock the row so concurrent edits can't both check the close rules against the old deal
+    const currentResult = await client.query('SELECT * FROM deals WHERE id = $1 FOR UPDATE', [dealId]);
+    if (currentResult.rows.length === 0) {
+      throw new HttpError(`Deal with id ${dealId} does not exist`, 404);
+    }
+    const current = mapDealRow(currentResult.rows[0]);
+
+    const pipelineChanged = data.pipelineId !== undefined && data.pipelineId !== current.pipeline_id;
+    const pipeline = await getPipelineOrDefault(data.pipelineId ?? current.pipeline_id);
+    if (!pipeline) {
+      throw new HttpError(`Pipeline with id ${data.pipelineId ?? current.pipeline_id} does not exist`, 400);
+    }
+
+    // Work out the deal's stage and outcome fields after this update
+    // Validate that the stage belongs to the deal's pipeline
+    const stageKeys = pipeline.stages.map((s) => s.key);
+    let stage = data.stage?.toLowerCase() ?? current.stage;
+    if (data.stage === undefined && pipelineChanged && !stageKeys.includes(stage)) {
+      stage = stageKeys[0];
+    }
+    const stageDefinition = pipeline.stages.find((s) => s.key === stage);
+    if (!stageDefinition) {
+      throw new HttpError(`Invalid stage: ${stage}. Must be one of: ${stageKeys.join(', ')}`, 400);
+    }
+
+    const isClosed = stageDefinition.is_won || stageDefinition.is_lost;
+    const lossReason = !stageDefinition.is_lost
+      ? null
+      : data.lossReason !== undefined ? data.lossReason : current.loss_reason;
+    const closeDate = !isClosed
+      ? null
+      : data.closeDate !== undefined ? data.closeDate : current.close_date;
+
+    if (isClosed && !closeDate) {
+      throw new HttpError('Close date is required when closing a deal', 400);
+    }
+    if (stageDefinition.is_lost && !lossReason?.trim()) {
+      throw new HttpError('Loss reason is required when a deal is lost', 400);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.title !== undefined) {
+      updates.push(`title = $${paramCount++}`);
+      values.push(data.title);
+    }
+    if (data.dealValue !== undefined) {
+      updates.push(`deal_value = $${paramCount++}`);
+      values.push(data.dealValue);
+    }
+    if (data.notes !== undefined) {
+      updates.push(`notes = $${paramCount++}`);
+      values.push(data.notes);
+    }
+    if (data.expectedCloseDate !== undefined) {
+      updates.push(`expected_close_date = $${paramCount++}`);
+      values.push(data.expectedCloseDate);
+    }
+    if (pipelineChanged) {
+      updates.push(`pipeline_id = $${paramCount++}`);
+      values.push(pipeline.id);
+    }
+    if (data.probability !== undefined || stage !== current.stage || pipelineChanged) {
+      updates.push(`probability = $${paramCount++}`);
+      values.push(data.probability ?? stageDefinition.probability);
+    }
+
+    updates.push(`stage = $${paramCount++}`);
+    values.push(stage);
+    updates.push(`loss_reason = $${paramCount++}`);
+    values.push(lossReason);
+    updates.push(`close_date = $${paramCount++}`);
+    values.push(closeDate);
+
+    updates.push(`updated_at = NOW()`);
+    values.push(dealId);
+
+    const updateQuery = `
+      UPDATE deals
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await client.query(updateQuery, values);
+
+    if (stage !== current.stage) {
+      await recordDealStageChange(dealId, current.stage, stage, changedByEmail, client);
+    }
+
+    await client.query('COMMIT');
+    return mapDealRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Moves a deal to a different stage in its pipeline.
+ * 
+ * The stage must belong to the deal's pipeline (e.g. new → qualified → proposal → negotiation → closed_won / closed_lost).
+ * Closing a deal requires a close date, and a loss reason when it was lost (see updateDeal).
  * 
  * Flow: User moves deal in pipeline → controller validates stage → this function updates → returns updated deal
  * 
  * @param params - Stage update parameters
  * @param params.dealId - The UUID of the deal to update
- * @param params.stage - The new stage to move the deal to (must be one of the valid stages)
+ * @param params.stage - Key of the stage to move the deal to (must belong to the deal's pipeline)
+ * @param params.lossReason - Why the deal was lost (required for lost stages)
+ * @param params.closeDate - When the deal was closed, YYYY-MM-DD (required for won/lost stages)
+ * @param params.changedByEmail - Email of the user moving the deal (stored in the stage history)
  * @returns The updated deal
- * @throws Error if the deal does not exist or if the stage is invalid
+ * @throws Error if the deal does not exist, the stage is invalid or close fields are missing
  */
 export async function moveDealToStage(params: {
   dealId: string;
   stage: string;
+  lossReason?: string;
+  closeDate?: string;
+  changedByEmail?: string | null;
 }): Promise<Deal> {
-  // Validate that the stage is one of the allowed values
-  // This prevents invalid stages from being set
-  const normalizedStage = params.stage.toLowerCase();
-  if (!VALID_STAGES.includes(normalizedStage as any)) {
-    throw new Error(
-      `Invalid stage: ${params.stage}. Must be one of: ${VALID_STAGES.join(', ')}`
-    );
+  return updateDeal(
+    params.dealId,
+    {
+      stage: params.stage,
+      lossReason: params.lossReason,
+      closeDate: params.closeDate,
+    },
+    params.changedByEmail ?? null
+  );
+}
+
+/**
+ * Deletes a deal from the database.
+ * 
+ * Flow: User deletes deal → controller validates → this function deletes deal → returns success
+ * 
+ * @param dealId - The UUID of the deal to delete
+ * @returns true if the deal was deleted, false if it didn't exist
+ */
+export async function deleteDeal(dealId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(dealId)) {
+    return false;
+  }
+
+  const deleteQuery = `
+    DELETE FROM deals
+    WHERE id = $1
+  `;
+  
+  const result = await pool.query(deleteQuery, [dealId]);
+  
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Reassigns a deal to another team member and notifies the new owner.
+ * 
+ * Flow: User picks a new owner → controller validates → this function updates owner_email → notifies owner → returns updated deal
+ * 
+ * @param params - Reassignment parameters
+ * @param params.dealId - The UUID of the deal to reassign
+ * @param params.ownerEmail - Email of the team member who will own the deal
+ * @param params.assignedByEmail - Email of the user making the change (not notified when assigning to themselves)
+ * @returns The updated deal
+ * @throws Error if the deal or the new owner does not exist
+ */
+export async function updateDealOwner(params: {
+  dealId: string;
+  ownerEmail: string;
+  assignedByEmail: string;
+}): Promise<Deal> {
+  // Deal ids are UUIDs; anything else can't match a deal (and would make Postgres fail with 22P02)
+  if (!UUID_PATTERN.test(params.dealId)) {
+    throw new Error(`Deal with id ${params.dealId} does not exist`);
+  }
+
+  // The new owner must be an active team member
+  const owner = await teamService.getTeamMemberByEmail(params.ownerEmail);
+  if (!owner || !owner.is_active) {
+    throw new Error(`User with email ${params.ownerEmail} does not exist`);
   }
 
-  // Update the deal's stage and set updated_at to the current timestamp
   const updateQuery = `
     UPDATE deals
-    SET stage = $1, updated_at = NOW()
+    SET owner_email = $1, updated_at = NOW()
     WHERE id = $2
     RETURNING *
   `;
   
-  const result = await pool.query(updateQuery, [normalizedStage, params.dealId]);
+  const result = await pool.query(updateQuery, [owner.email, params.dealId]);
   
   if (result.rows.length === 0) {
     throw new Error(`Deal with id ${params.dealId} does not exist`);
   }
 
-  const dealRow = result.rows[0];
-  
+  const deal = mapDealRow(result.rows[0]);
+
+  if (owner.email !== params.assignedByEmail) {
+    try {
+      await notificationsService.createNotification({
+        userEmail: owner.email,
+        type: 'record_assigned',
+        title: 'Deal Assigned to You',
+        message: `You are now the owner of deal "${deal.title}"`,
+        relatedLeadId: deal.lead_id,
+      });
+    } catch (error) {
+      // Log error but don't fail the reassignment if notification fails
+      console.error('Failed to create notification for deal reassignment:', error);
+    }
+  }
+
+  return deal;
+}
+
+/**
+ * Options for the sales forecast
+ */
+export interface ForecastOptions {
+  from: string; // First month, YYYY-MM
+  months: number; // Number of months in the horizon
+  ownerEmail?: string; // Only deals owned by this team member
+  pipelineId?: number; // Only deals in this pipeline
+}
+
+/**
+ * Adds months to a YYYY-MM month
+ */
+function addMonths(month: string, count: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + count, 1)).toISOString().slice(0, 7);
+}
+
+function emptyBucket(): ForecastBucket {
+  return { dealCount: 0, won: 0, weighted: 0, bestCase: 0, worstCase: 0 };
+}
+
+function addToBucket(bucket: ForecastBucket, row: any): void {
+  bucket.dealCount += parseInt(row.deal_count, 10);
+  bucket.won += parseFloat(row.won);
+  bucket.weighted += parseFloat(row.weighted);
+  bucket.bestCase += parseFloat(row.best_case);
+  bucket.worstCase += parseFloat(row.worst_case);
+}
+
+/**
+ * Rounds every figure in a bucket to cents
+ */
+function roundBucket<T extends ForecastBucket>(bucket: T): T {
+  const round = (value: number) => Math.round(value * 100) / 100;
   return {
-    id: dealRow.id,
-    lead_id: dealRow.lead_id,
-    title: dealRow.title,
-    deal_value: dealRow.deal_value ? parseFloat(dealRow.deal_value) : null,
-    stage: dealRow.stage,
-    notes: dealRow.notes,
-    created_at: dealRow.created_at.toISOString(),
-    updated_at: dealRow.updated_at.toISOString(),
+    ...bucket,
+    won: round(bucket.won),
+    weighted: round(bucket.weighted),
+    bestCase: round(bucket.bestCase),
+    worstCase: round(bucket.worstCase),
   };
 }
 
 /**
- * Deletes a deal from the database.
+ * Builds the weighted sales forecast for a horizon of months.
  * 
- * Flow: User deletes deal → controller validates → this function deletes deal → returns success
+ * - Open deals count in the month of their expected close date, weighted by their probability
+ * - Won deals count in the month of their close date at full value
+ * - Lost deals, deals without a value and open deals without an expected close date are left out
  * 
- * @param dealId - The UUID of the deal to delete
- * @returns true if the deal was deleted, false if it didn't exist
+ * Flow: Controller validates horizon → this function sums deal values per month and owner in SQL → fills empty months → returns forecast
+ * 
+ * @param options - Horizon and filters
+ * @returns Forecast per month, per owner and in total
  */
-export async function deleteDeal(dealId: string): Promise<boolean> {
-  const deleteQuery = `
-    DELETE FROM deals
-    WHERE id = $1
+export async function getDealForecast(options: ForecastOptions): Promise<DealForecast> {
+  const endMonth = addMonths(options.from, options.months);
+  const values: any[] = [`${options.from}-01`, `${endMonth}-01`];
+  const conditions: string[] = [];
+
+  if (options.ownerEmail) {
+    values.push(options.ownerEmail);
+    conditions.push(`d.owner_email = $${values.length}`);
+  }
+  if (options.pipelineId !== undefined) {
+    values.push(options.pipelineId);
+    conditions.push(`d.pipeline_id = $${values.length}`);
+  }
+
+  // forecast_date is the close date for won deals and the expected close date for open ones
+  const query = `
+    WITH forecast_deals AS (
+      SELECT
+        d.id,
+        d.owner_email,
+        d.deal_value,
+        COALESCE(d.probability, ps.probability) as probability,
+        ps.is_won,
+        CASE WHEN ps.is_won THEN d.close_date ELSE d.expected_close_date END as forecast_date
+      FROM deals d
+      JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
+      WHERE ps.is_lost = false
+        AND d.deal_value IS NOT NULL
+        ${conditions.map((condition) => `AND ${condition}`).join('\n        ')}
+    )
+    SELECT
+      to_char(forecast_date, 'YYYY-MM') as month,
+      owner_email,
+      COUNT(*) as deal_count,
+      COALESCE(SUM(CASE WHEN is_won THEN deal_value ELSE 0 END), 0) as won,
+      COALESCE(SUM(CASE WHEN is_won THEN deal_value ELSE deal_value * probability / 100.0 END), 0) as weighted,
+      COALESCE(SUM(deal_value), 0) as best_case,
+      COALESCE(SUM(CASE WHEN is_won THEN deal_value ELSE 0 END), 0) as worst_case
+    FROM forecast_deals
+    WHERE forecast_date >= $1::date AND forecast_date < $2::date
+    GROUP BY month, owner_email
   `;
-  
-  const result = await pool.query(deleteQuery, [dealId]);
-  
-  return result.rowCount !== null && result.rowCount > 0;
+
+  const result = await pool.query(query, values);
+
+  // Every month in the horizon is returned, even without deals
+  const months = new Map<string, ForecastBucket>();
+  for (let i = 0; i < options.months; i++) {
+    months.set(addMonths(options.from, i), emptyBucket());
+  }
+  const owners = new Map<string | null, ForecastBucket>();
+  const totals = emptyBucket();
+
+  result.rows.forEach((row) => {
+    addToBucket(months.get(row.month)!, row);
+
+    if (!owners.has(row.owner_email)) {
+      owners.set(row.owner_email, emptyBucket());
+    }
+    addToBucket(owners.get(row.owner_email)!, row);
+
+    addToBucket(totals, row);
+  });
+
+  return {
+    from: options.from,
+    to: addMonths(options.from, options.months - 1),
+    months: Array.from(months, ([month, bucket]) => roundBucket({ month, ...bucket })),
+    owners: Array.from(owners, ([ownerEmail, bucket]) => roundBucket({ ownerEmail, ...bucket }))
+      .sort((a, b) => b.weighted - a.weighted),
+    totals: roundBucket(totals),
+  };
 }
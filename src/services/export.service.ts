@@ -0,0 +1,302 @@
+/**
+ * Export Service
+ * 
+ * Streams every row of an entity that matches the list filters, for CSV/JSON/NDJSON downloads.
+ * 
+ * Rows are read through a server-side cursor (DECLARE ... CURSOR / FETCH) inside a read-only
+ * transaction, so exports are not capped like the list endpoints and memory stays flat:
+ * only one batch is held at a time, and the next batch is fetched once the caller has written
+ * the previous one.
+ */
+
+import { getPoolClient } from '../lib/db';
+import { buildLeadFilterConditions } from './leads.service';
+import type { ExportBatch, ExportEntity, ExportFilters } from '../types/export';
+
+/**
+ * Rows fetched from the cursor per round trip
+ */
+export const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * statement_timeout for each FETCH.
+ * Higher than the pool's 5s default because the first FETCH has to sort the whole result.
+ */
+const FETCH_TIMEOUT_MS = 15000;
+
+interface ExportQuery {
+  sql: string;
+  values: any[];
+}
+
+/**
+ * Company columns for queries that join companies as co
+ */
+const COMPANY_COLUMNS = 'co.id AS company_id, co.domain AS company_domain, co.industry AS company_industry, co.size AS company_size';
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * Per-entity export queries.
+ * Each query selects the entity's own columns followed by its lead/contact columns
+ * (contact_name, contact_email, contact_phone, contact_company; leads, deals and clients
+ * also get company_id/domain/industry/size), and applies the same filters as the entity's list endpoint.
+ */
+const EXPORT_QUERIES: Record<ExportEntity, (filters: ExportFilters) => ExportQuery> = {
+  leads: (filters) => {
+    const values: any[] = [];
+    const conditions = buildLeadFilterConditions(filters, values);
+    return {
+      values,
+      sql: `
+        SELECT
+          l.id, l.name, l.email, l.phone, l.source, l.stage, l.status, l.verticals, l.notes,
+          l.owner_email, l.created_by_email, l.created_at, l.updated_at,
+          c.id AS contact_id, c.name AS contact_name, c.email AS contact_email,
+          c.phone AS contact_phone, c.company AS contact_company,
+          ${COMPANY_COLUMNS}
+        FROM leads l
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        LEFT JOIN companies co ON l.company_id = co.id
+        ${whereClause(conditions)}
+        ORDER BY l.created_at DESC, l.id DESC
+      `,
+    };
+  },
+
+  deals: (filters) => {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.pipelineId !== undefined) {
+      values.push(filters.pipelineId);
+      conditions.push(`d.pipeline_id = $${values.length}`);
+    }
+    if (filters.ownerEmail) {
+      values.push(filters.ownerEmail);
+      conditions.push(`d.owner_email = $${values.length}`);
+    }
+    return {
+      values,
+      sql: `
+        SELECT
+          d.id, d.title, d.deal_value, p.name AS pipeline, d.stage, ps.name AS stage_name,
+          d.probability, d.expected_close_date::text AS expected_close_date, d.close_date::text AS close_date,
+          d.loss_reason, d.owner_email, d.notes, d.created_at, d.updated_at,
+          d.lead_id, l.name AS lead_name,
+          c.name AS contact_name, c.email AS contact_email, c.phone AS contact_phone, c.company AS contact_company,
+          ${COMPANY_COLUMNS}
+        FROM deals d
+        LEFT JOIN pipelines p ON p.id = d.pipeline_id
+        LEFT JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
+        LEFT JOIN leads l ON d.lead_id = l.id
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        LEFT JOIN companies co ON l.company_id = co.id
+        ${whereClause(conditions)}
+        ORDER BY d.created_at DESC, d.id DESC
+      `,
+    };
+  },
+
+  clients: (filters) => {
+    const values: any[] = [];
+    const conditions = ['c.is_client = true', 'c.deleted_at IS NULL'];
+    if (filters.ownerEmail) {
+      values.push(filters.ownerEmail);
+      conditions.push(`c.owner_email = $${values.length}`);
+    }
+    // Only won deals are counted, like GET /api/clients
+    return {
+      values,
+      sql: `
+        SELECT
+          c.id, c.client_number, c.name AS contact_name, c.email AS contact_email,
+          c.phone AS contact_phone, c.company AS contact_company,
+          ${COMPANY_COLUMNS},
+          c.owner_email, c.lead_id, c.created_at, c.updated_at,
+          (SELECT COUNT(*) FROM leads l WHERE l.contact_id = c.id) AS lead_count,
+          (
+            SELECT COUNT(*)
+            FROM deals d
+            JOIN leads l ON d.lead_id = l.id
+            JOIN pipeline_stages ps ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage
+            WHERE l.contact_id = c.id AND ps.is_won
+          ) AS deal_count
+        FROM contacts c
+        LEFT JOIN companies co ON c.company_id = co.id
+        ${whereClause(conditions)}
+        ORDER BY c.created_at DESC, c.id DESC
+      `,
+    };
+  },
+
+  tasks: (filters) => {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.assignedToEmail) {
+      values.push(filters.assignedToEmail);
+      conditions.push(`t.assigned_to_email = $${values.length}`);
+    }
+    if (filters.leadId !== undefined) {
+      values.push(filters.leadId);
+      conditions.push(`t.lead_id = $${values.length}`);
+    }
+    if (filters.clientId) {
+      values.push(filters.clientId);
+      conditions.push(`t.client_id = $${values.length}`);
+    }
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`t.status = $${values.length}`);
+    }
+    // Client tasks use the client's contact, lead tasks the lead's contact
+    return {
+      values,
+      sql: `
+        SELECT
+          t.id, t.title, t.description, t.status, t.priority, t.due_date, t.assigned_to_email,
+          t.created_at, t.updated_at,
+          t.lead_id, l.name AS lead_name, t.client_id,
+          c.name AS contact_name, c.email AS contact_email, c.phone AS contact_phone, c.company AS contact_company
+        FROM team_tasks t
+        LEFT JOIN leads l ON t.lead_id = l.id
+        LEFT JOIN contacts c ON c.id = COALESCE(t.client_id, l.contact_id)
+        ${whereClause(conditions)}
+        ORDER BY t.created_at DESC, t.id DESC
+      `,
+    };
+  },
+
+  calls: (filters) => {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.leadId !== undefined) {
+      values.push(filters.leadId);
+      conditions.push(`cc.lead_id = $${values.length}`);
+    }
+    return {
+      values,
+      sql: `
+        SELECT
+          cc.*,
+          l.name AS lead_name,
+          c.name AS contact_name, c.email AS contact_email, c.phone AS contact_phone, c.company AS contact_company
+        FROM cold_calls cc
+        LEFT JOIN leads l ON cc.lead_id = l.id
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        ${whereClause(conditions)}
+        ORDER BY cc.call_date DESC, cc.id DESC
+      `,
+    };
+  },
+
+  visits: (filters) => {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.leadId !== undefined) {
+      values.push(filters.leadId);
+      conditions.push(`ov.lead_id = $${values.length}`);
+    }
+    return {
+      values,
+      sql: `
+        SELECT
+          ov.*,
+          l.name AS lead_name,
+          c.name AS contact_name, c.email AS contact_email, c.phone AS contact_phone, c.company AS contact_company
+        FROM onsite_visits ov
+        LEFT JOIN leads l ON ov.lead_id = l.id
+        LEFT JOIN contacts c ON l.contact_id = c.id
+        ${whereClause(conditions)}
+        ORDER BY ov.visit_date DESC, ov.id DESC
+      `,
+    };
+  },
+
+  activities: (filters) => {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.leadId !== undefined) {
+      values.push(filters.leadId);
+      conditions.push(`a.lead_id = $${values.length}`);
+    }
+    if (filters.activityType) {
+      values.push(filters.activityType);
+      conditions.push(`a.activity_type = $${values.length}`);
+    }
+    // An activity's contact is its own contact_id, falling back to the lead's contact
+    return {
+      values,
+      sql: `
+        SELECT
+          a.id, a.activity_type, a.description, a.created_at,
+          a.lead_id, l.name AS lead_name, COALESCE(a.contact_id, l.contact_id) AS contact_id,
+          c.name AS contact_name, c.email AS contact_email, c.phone AS contact_phone, c.company AS contact_company
+        FROM activities a
+        LEFT JOIN leads l ON a.lead_id = l.id
+        LEFT JOIN contacts c ON c.id = COALESCE(a.contact_id, l.contact_id)
+        ${whereClause(conditions)}
+        ORDER BY a.created_at DESC, a.id DESC
+      `,
+    };
+  },
+};
+
+/**
+ * Builds the export query for an entity
+ */
+export function buildExportQuery(entity: ExportEntity, filters: ExportFilters): ExportQuery {
+  return EXPORT_QUERIES[entity](filters);
+}
+
+/**
+ * Streams the matching rows of an entity in batches.
+ * 
+ * The first batch is always yielded (even when empty) so the caller knows the columns.
+ * If the caller stops iterating early (e.g. the client disconnected), the transaction is
+ * rolled back and the connection returned to the pool.
+ * 
+ * @param entity - The entity to export
+ * @param filters - List filters for that entity
+ * @param batchSize - Rows fetched per round trip
+ */
+export async function* streamExportRows(
+  entity: ExportEntity,
+  filters: ExportFilters,
+  batchSize: number = EXPORT_BATCH_SIZE
+): AsyncGenerator<ExportBatch> {
+  const { sql, values } = buildExportQuery(entity, filters);
+  const client = await getPoolClient(5000);
+  let committed = false;
+
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${FETCH_TIMEOUT_MS}`);
+    await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${sql}`, values);
+
+    let first = true;
+    while (true) {
+      const result = await client.query(`FETCH ${batchSize} FROM export_cursor`);
+      if (first || result.rows.length > 0) {
+        yield {
+          columns: result.fields.map((field: { name: string }) => field.name),
+          rows: result.rows,
+        };
+      }
+      first = false;
+      if (result.rows.length < batchSize) {
+        break;
+      }
+    }
+
+    await client.query('CLOSE export_cursor');
+    await client.query('COMMIT');
+    committed = true;
+  } finally {
+    if (!committed) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    client.release();
+  }
+}
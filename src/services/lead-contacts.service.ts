@@ -0,0 +1,232 @@
+/**
+ * Lead Contacts Service
+ *
+ * Links several contacts to a lead or a client, each with a role (decision maker, billing,
+ * technical, other), via the lead_contacts table. A lead's own contact (leads.contact_id)
+ * stays its primary contact and is always listed; it can be linked too, to give it a role.
+ */
+
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import * as companiesService from './companies.service';
+import type { ContactRole, LinkedContact } from '../types/contacts';
+
+/**
+ * What contacts are linked to: a lead (serial id) or a client (contact UUID)
+ */
+export type ContactLinkTarget =
+  | { type: 'lead'; id: number }
+  | { type: 'client'; id: string };
+
+export interface LinkContactParams {
+  contactId?: string; // Link an existing contact...
+  contact?: {
+    // ...or create a new one
+    name: string;
+    email?: string;
+    phone?: string;
+    company?: string;
+  };
+  role: ContactRole;
+  createdByEmail: string;
+}
+
+const TARGET_COLUMNS = {
+  lead: 'lead_id',
+  client: 'client_id',
+} as const;
+
+function mapLinkedContactRow(row: any): LinkedContact {
+  return {
+    id: row.id ?? null,
+    contact_id: String(row.contact_id),
+    role: row.role,
+    is_primary: Boolean(row.is_primary),
+    name: row.name,
+    email: row.email || null,
+    phone: row.phone || null,
+    company: row.company || null,
+    created_by_email: row.created_by_email || null,
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
+
+function targetLabel(target: ContactLinkTarget): string {
+  return target.type === 'lead' ? `Lead with ID ${target.id}` : `Client with ID ${target.id}`;
+}
+
+/**
+ * The primary contact of a target: a lead's own contact, or for a client the contact
+ * of the lead it was converted from (contacts.lead_id)
+ */
+const PRIMARY_CONTACT_SQL = {
+  lead: 'SELECT contact_id FROM leads WHERE id = $1',
+  client: 'SELECT l.contact_id FROM contacts cl JOIN leads l ON l.id = cl.lead_id WHERE cl.id = $1',
+} as const;
+
+/**
+ * List the contacts linked to a lead or client.
+ * The primary contact is always included (with role 'other' and no link id when it was never
+ * linked explicitly) and comes first, then contacts by role and name.
+ */
+export async function listLinkedContacts(target: ContactLinkTarget): Promise<LinkedContact[]> {
+  const column = TARGET_COLUMNS[target.type];
+  const result = await pool.query(
+    `
+      WITH primary_contact AS (${PRIMARY_CONTACT_SQL[target.type]})
+      SELECT * FROM (
+        SELECT
+          lc.id,
+          lc.contact_id,
+          lc.role,
+          lc.created_by_email,
+          lc.created_at,
+          c.name,
+          c.email,
+          c.phone,
+          c.company,
+          EXISTS (SELECT 1 FROM primary_contact p WHERE p.contact_id = lc.contact_id) AS is_primary
+        FROM lead_contacts lc
+        JOIN contacts c ON c.id = lc.contact_id
+        WHERE lc.${column} = $1
+        UNION ALL
+        SELECT
+          NULL,
+          c.id,
+          'other',
+          NULL,
+          c.created_at,
+          c.name,
+          c.email,
+          c.phone,
+          c.company,
+          true
+        FROM primary_contact p
+        JOIN contacts c ON c.id = p.contact_id
+        WHERE NOT EXISTS (SELECT 1 FROM lead_contacts lc WHERE lc.${column} = $1 AND lc.contact_id = p.contact_id)
+      ) linked
+      ORDER BY
+        is_primary DESC,
+        ARRAY_POSITION(ARRAY['decision_maker', 'billing', 'technical', 'other']::varchar[], role),
+        name ASC
+    `,
+    [target.id]
+  );
+
+  return result.rows.map(mapLinkedContactRow);
+}
+
+/**
+ * Link a contact to a lead or client, creating the contact first when contact details are given.
+ * Linking a contact that is already linked changes its role.
+ * New contacts default to the lead's / client's company.
+ *
+ * @returns The linked contact, and whether a new link was created (false when only the role changed)
+ * @throws Error with statusCode 404 if the lead/client or contact does not exist,
+ *         400 if a client is linked to itself
+ */
+export async function linkContact(
+  target: ContactLinkTarget,
+  params: LinkContactParams
+): Promise<{ contact: LinkedContact; created: boolean }> {
+  const column = TARGET_COLUMNS[target.type];
+  const client = await getPoolClient(5000);
+  let linkId: number;
+  let created: boolean;
+
+  try {
+    await client.query('BEGIN');
+
+    // The lead or client, with the company new contacts inherit
+    const targetResult = target.type === 'lead'
+      ? await client.query(
+          `SELECT l.company_id, co.name AS company FROM leads l LEFT JOIN companies co ON co.id = l.company_id WHERE l.id = $1`,
+          [target.id]
+        )
+      : await client.query(
+          `SELECT company_id, company FROM contacts WHERE id = $1 AND is_client = true AND deleted_at IS NULL`,
+          [target.id]
+        );
+    if (targetResult.rows.length === 0) {
+      throw new HttpError(`${targetLabel(target)} not found`, 404);
+    }
+    const owner = targetResult.rows[0];
+
+    let contactId = params.contactId;
+    if (params.contact) {
+      const company = params.contact.company
+        ? await companiesService.findOrCreateCompany(client, params.contact.company)
+        : owner.company_id
+          ? { id: owner.company_id, name: owner.company }
+          : null;
+      const contactResult = await client.query(
+        `
+          INSERT INTO contacts (name, email, phone, company, company_id, created_at, updated_at)
+          VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+          RETURNING id
+        `,
+        [
+          params.contact.name,
+          params.contact.email || null,
+          params.contact.phone || null,
+          company ? company.name : owner.company || null,
+          company ? company.id : null,
+        ]
+      );
+      contactId = String(contactResult.rows[0].id);
+    } else {
+      const contactResult = await client.query(
+        `SELECT id FROM contacts WHERE id = $1 AND deleted_at IS NULL`,
+        [contactId]
+      );
+      if (contactResult.rows.length === 0) {
+        throw new HttpError(`Contact with ID ${contactId} not found`, 404);
+      }
+    }
+
+    if (target.type === 'client' && contactId === target.id) {
+      throw new HttpError('A client cannot be linked to itself', 400);
+    }
+
+    // xmax = 0 only for freshly inserted rows, so it tells a new link from a role change
+    const linkResult = await client.query(
+      `
+        INSERT INTO lead_contacts (${column}, contact_id, role, created_by_email)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (${column}, contact_id)
+        DO UPDATE SET role = EXCLUDED.role, updated_at = CURRENT_TIMESTAMP
+        RETURNING id, (xmax = 0) AS inserted
+      `,
+      [target.id, contactId, params.role, params.createdByEmail]
+    );
+    linkId = linkResult.rows[0].id;
+    created = linkResult.rows[0].inserted;
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const contacts = await listLinkedContacts(target);
+  return {
+    contact: contacts.find((contact) => contact.id === linkId)!,
+    created,
+  };
+}
+
+/**
+ * Remove a contact from a lead or client (the contact itself is kept)
+ *
+ * @returns false if the contact was not linked
+ */
+export async function unlinkContact(target: ContactLinkTarget, contactId: string): Promise<boolean> {
+  const column = TARGET_COLUMNS[target.type];
+  const result = await pool.query(
+    `DELETE FROM lead_contacts WHERE ${column} = $1 AND contact_id = $2 RETURNING id`,
+    [target.id, contactId]
+  );
+  return result.rows.length > 0;
+}
@@ -0,0 +1,291 @@
+/**
+ * Lead Import Service
+ *
+ * Imports leads from CSV/XLSX spreadsheets.
+ * Every row is validated with the same schema as POST /api/leads and checked for duplicate contacts.
+ * A dry run only reports the outcome per row; a committed import creates the leads in one
+ * transaction and records the run in automation_runs.
+ */
+
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+import { HttpError } from '../lib/http-error';
+import { validateCreateLead } from '../validators/leads.validator';
+import * as leadsService from './leads.service';
+import * as contactsService from './contacts.service';
+import * as automationRunsService from './automation-runs.service';
+import type {
+  LeadImportField,
+  LeadImportMapping,
+  LeadImportResult,
+  LeadImportRowResult,
+} from '../types/lead-import';
+import type { CreateLeadInput } from './leads.service';
+
+// Largest spreadsheet we accept in one import
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * Header names (lower-cased, letters and digits only) recognised when suggesting a mapping
+ */
+const HEADER_SYNONYMS: Record<LeadImportField, string[]> = {
+  'contact.name': ['name', 'fullname', 'contactname', 'contact', 'person'],
+  'contact.email': ['email', 'emailaddress', 'mail', 'contactemail'],
+  'contact.phone': ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'tel', 'telephone', 'contactphone'],
+  'contact.company': ['company', 'companyname', 'organization', 'organisation', 'business', 'account'],
+  'source': ['source', 'leadsource'],
+  'stage': ['stage', 'leadstage'],
+  'verticals': ['verticals', 'vertical', 'industry'],
+};
+
+/**
+ * A parsed spreadsheet: its headers and one record per data row
+ */
+export interface ParsedSpreadsheet {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+/**
+ * Reads the header row and data rows of a CSV or XLSX file.
+ * For XLSX files the first worksheet is used.
+ * 
+ * @param file - The uploaded file contents and original name
+ * @throws Error with statusCode 400 if the file type is not supported or the file cannot be read
+ */
+export async function parseSpreadsheet(file: { buffer: Buffer; originalname: string }): Promise<ParsedSpreadsheet> {
+  const extension = file.originalname.toLowerCase().split('.').pop();
+
+  if (extension === 'csv') {
+    let records: string[][];
+    try {
+      records = parse(file.buffer, { bom: true, skip_empty_lines: true, trim: true, relax_column_count: true });
+    } catch (error: any) {
+      throw new HttpError(`Could not read CSV file: ${error.message}`, 400);
+    }
+    return toSpreadsheet(records);
+  }
+
+  if (extension === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(file.buffer as any);
+    } catch (error: any) {
+      throw new HttpError(`Could not read XLSX file: ${error.message}`, 400);
+    }
+
+    const sheet = workbook.worksheets[0];
+    const records: string[][] = [];
+    sheet?.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = [];
+      for (let i = 1; i <= row.cellCount; i++) {
+        cells.push(row.getCell(i).text.trim());
+      }
+      records.push(cells);
+    });
+    return toSpreadsheet(records);
+  }
+
+  throw new HttpError('Only .csv and .xlsx files can be imported', 400);
+}
+
+/**
+ * Turns raw records into headers + row objects keyed by header.
+ * Rows where every cell is empty are dropped.
+ */
+function toSpreadsheet(records: string[][]): ParsedSpreadsheet {
+  const [header = [], ...dataRows] = records;
+  const columns = header.map((column) => column.trim());
+
+  const rows = dataRows
+    .filter((cells) => cells.some((cell) => cell !== ''))
+    .map((cells) => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+
+  return { columns, rows };
+}
+
+/**
+ * Suggests a mapping from spreadsheet headers to lead fields based on common header names
+ * (e.g. "Full Name" → contact.name, "E-mail" → contact.email). Unrecognised headers are left out.
+ */
+export function suggestMapping(columns: string[]): LeadImportMapping {
+  const mapping: LeadImportMapping = {};
+  const used = new Set<LeadImportField>();
+
+  for (const column of columns) {
+    const normalized = column.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const field = (Object.keys(HEADER_SYNONYMS) as LeadImportField[])
+      .find((candidate) => !used.has(candidate) && HEADER_SYNONYMS[candidate].includes(normalized));
+
+    if (field) {
+      mapping[column] = field;
+      used.add(field);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Builds the POST /api/leads body for one row using the mapping.
+ * Empty cells are left out so optional fields stay optional.
+ */
+function rowToLeadBody(row: Record<string, string>, mapping: LeadImportMapping): Record<string, any> {
+  const body: Record<string, any> = { contact: {} };
+
+  for (const [column, field] of Object.entries(mapping)) {
+    const value = row[column];
+    if (value === undefined || value === '') continue;
+
+    if (field.startsWith('contact.')) {
+      body.contact[field.slice('contact.'.length)] = value;
+    } else {
+      body[field] = value;
+    }
+  }
+
+  return body;
+}
+
+/**
+ * Options for a lead import
+ */
+export interface LeadImportOptions {
+  mapping?: LeadImportMapping; // Suggested from the headers when omitted
+  dryRun: boolean;
+  skipDuplicates: boolean;
+  createdByEmail: string;
+  userId: number;
+  fileName: string;
+}
+
+/**
+ * Imports leads from a parsed spreadsheet.
+ * 
+ * Flow: map columns → validate each row with createLeadSchema → check duplicates (existing contacts and earlier rows)
+ *       → dry run: return per-row report / commit: create leads in batches in one transaction and record the run
+ * 
+ * @param spreadsheet - Headers and rows from parseSpreadsheet
+ * @param options - Mapping, mode and the importing user
+ * @returns Summary and per-row results
+ * @throws Error with statusCode 400 if the file has no rows, too many rows, or the mapping uses unknown columns
+ */
+export async function importLeads(
+  spreadsheet: ParsedSpreadsheet,
+  options: LeadImportOptions
+): Promise<LeadImportResult> {
+  if (spreadsheet.rows.length === 0) {
+    throw new HttpError('The file has no data rows', 400);
+  }
+  if (spreadsheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new HttpError(`The file has ${spreadsheet.rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`, 400);
+  }
+
+  const mapping = options.mapping || suggestMapping(spreadsheet.columns);
+  const unknownColumns = Object.keys(mapping).filter((column) => !spreadsheet.columns.includes(column));
+  if (unknownColumns.length > 0) {
+    throw new HttpError(`Mapped columns not found in the file: ${unknownColumns.join(', ')}`, 400);
+  }
+  if (!Object.values(mapping).includes('contact.name')) {
+    throw new HttpError('No column is mapped to contact.name', 400);
+  }
+
+  const results: LeadImportRowResult[] = [];
+  const leadsToCreate: Array<{ result: LeadImportRowResult; lead: CreateLeadInput }> = [];
+  const seenEmails = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+
+  for (const [index, row] of spreadsheet.rows.entries()) {
+    const result: LeadImportRowResult = { row: index + 2, status: 'valid' };
+    results.push(result);
+
+    const validation = validateCreateLead(rowToLeadBody(row, mapping));
+    if (!validation.success) {
+      result.status = 'invalid';
+      result.errors = validation.errors?.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+      continue;
+    }
+
+    const leadData = validation.data!;
+    const contact = leadData.contact;
+
+    // Earlier row in the same file with the same email or phone
+    const email = contactsService.normalizeEmail(contact.email);
+    const phone = contactsService.normalizePhone(contact.phone);
+    const earlierRow = (email && seenEmails.get(email)) || (phone && seenPhones.get(phone)) || undefined;
+    if (email && !seenEmails.has(email)) seenEmails.set(email, result.row);
+    if (phone && !seenPhones.has(phone)) seenPhones.set(phone, result.row);
+    if (earlierRow) {
+      result.status = 'duplicate';
+      result.duplicate_of_row = earlierRow;
+    }
+
+    leadsToCreate.push({ result, lead: { ...leadData, created_by_email: options.createdByEmail } });
+  }
+
+  // Existing contacts matching any row, looked up for the whole file at once
+  const existingDuplicates = await contactsService.findDuplicateContactsForMany(
+    leadsToCreate.map(({ lead }) => lead.contact)
+  );
+  leadsToCreate.forEach(({ result }, i) => {
+    if (existingDuplicates[i].length > 0) {
+      result.status = 'duplicate';
+      result.duplicates = existingDuplicates[i];
+    }
+  });
+
+  const validRows = leadsToCreate.length;
+  const duplicateRows = results.filter((result) => result.status === 'duplicate').length;
+  const summary = {
+    dry_run: options.dryRun,
+    columns: spreadsheet.columns,
+    mapping,
+    total_rows: results.length,
+    valid_rows: validRows,
+    invalid_rows: results.length - validRows,
+    duplicate_rows: duplicateRows,
+  };
+
+  if (options.dryRun) {
+    return { ...summary, imported: 0, skipped: 0, automation_run_id: null, rows: results };
+  }
+
+  // Committed import: create leads and record the run
+  const toCreate = leadsToCreate.filter(({ result }) => !(options.skipDuplicates && result.status === 'duplicate'));
+  const run = await automationRunsService.startAutomationRun({
+    name: 'lead_import',
+    type: 'import',
+    triggeredBy: 'manual',
+    relatedUserId: options.userId,
+    metadata: { file_name: options.fileName, total_rows: results.length, skip_duplicates: options.skipDuplicates },
+  });
+
+  let leadIds: number[];
+  try {
+    leadIds = await leadsService.createLeadsInBatches(toCreate.map(({ lead }) => lead));
+  } catch (error) {
+    await automationRunsService.failAutomationRun(run.id, error);
+    throw error;
+  }
+
+  toCreate.forEach(({ result }, i) => {
+    result.status = 'imported';
+    result.lead_id = leadIds[i];
+  });
+  leadsToCreate
+    .filter(({ result }) => result.status === 'duplicate')
+    .forEach(({ result }) => {
+      result.status = 'skipped';
+    });
+
+  const skipped = validRows - toCreate.length;
+  await automationRunsService.completeAutomationRun(run.id, {
+    recordsProcessed: leadIds.length,
+    metadata: { imported: leadIds.length, skipped, invalid_rows: summary.invalid_rows },
+  });
+
+  return { ...summary, imported: leadIds.length, skipped, automation_run_id: run.id, rows: results };
+}
@@ -9,8 +9,16 @@
  */
 
 import pool, { getPoolClient, queryWithTimeout } from '../lib/db';
+import { HttpError } from '../lib/http-error';
 import { PoolClient } from 'pg';
-import type { LeadDetail, Activity, ColdCall, OnsiteVisit, LeadTimeline } from '../types/leads';
+import type { LeadDetail, Activity, ColdCall, OnsiteVisit, LeadStageHistoryEntry } from '../types/leads';
+import * as notificationsService from './notifications.service';
+import * as teamService from './team.service';
+import * as companiesService from './companies.service';
+import * as leadContactsService from './lead-contacts.service';
+import * as callsService from './calls.service';
+import { encodeCursor, decodeCursor } from '../lib/cursor';
+import { canTransitionStage, canTransitionStatus, LeadStage, LeadStatus } from '../lib/lead-transitions';
 
 /**
  * Interface defining the structure of a Contact in the database
@@ -21,6 +29,7 @@ export interface Contact {
   email: string | null;
   phone: string | null;
   company: string | null;
+  company_id?: number | null;
   created_at: Date;
   updated_at?: Date | null;
 }
@@ -39,10 +48,12 @@ export interface Lead {
   status: string | null;
   verticals: string | null;
   notes: string | null;
+  company_id?: number | null;
   created_at: Date;
   updated_at: Date;
   created_by_email?: string | null;
   creator_name?: string | null;
+  owner_email?: string | null;
 }
 
 /**
@@ -53,6 +64,7 @@ export interface CreateContactInput {
   email?: string;
   phone?: string;
   company?: string;
+  companyId?: number; // Existing company to link; otherwise the company is found or created from its name
 }
 
 /**
@@ -64,6 +76,7 @@ export interface CreateLeadInput {
   stage?: string;
   verticals?: string;
   created_by_email?: string;
+  owner_email?: string; // Defaults to created_by_email
 }
 
 /**
@@ -85,33 +98,54 @@ async function createContact(
   client?: PoolClient
 ): Promise<Contact> {
   // SQL query to insert a new contact
-  // $1, $2, $3, $4 are parameter placeholders (prevents SQL injection)
+  // $1 - $5 are parameter placeholders (prevents SQL injection)
   const query = `
-    INSERT INTO contacts (name, email, phone, company, created_at, updated_at)
-    VALUES ($1, $2, $3, $4, NOW(), NOW())
+    INSERT INTO contacts (name, email, phone, company, company_id, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
     RETURNING *
   `;
+  const values = [
+    contactData.name,
+    contactData.email || null,
+    contactData.phone || null,
+    contactData.company || null,
+    contactData.companyId || null,
+  ];
   
   // Execute the query with the contact data
   // Use the provided client (for transactions) or the pool (for standalone operations)
   const result = client
-    ? await client.query(query, [
-        contactData.name,
-        contactData.email || null,
-        contactData.phone || null,
-        contactData.company || null,
-      ])
-    : await pool.query(query, [
-        contactData.name,
-        contactData.email || null,
-        contactData.phone || null,
-        contactData.company || null,
-      ]);
+    ? await client.query(query, values)
+    : await pool.query(query, values);
   
   // Return the first (and only) row from the result
   return result.rows[0];
 }
 
+/**
+ * Resolves the company a new contact belongs to
+ * 
+ * - contact.companyId → that company (400 if it doesn't exist)
+ * - contact.company → the company with that name, created if needed
+ * - neither → null
+ * 
+ * @param client - Transaction client, so a new company is only kept if the lead is created
+ */
+async function resolveContactCompany(
+  client: PoolClient,
+  contactData: CreateContactInput
+): Promise<companiesService.CompanyRef | null> {
+  if (contactData.companyId !== undefined) {
+    const result = await client.query(`SELECT id, name FROM companies WHERE id = $1`, [contactData.companyId]);
+    if (result.rows.length === 0) {
+      throw new HttpError(`Company with id ${contactData.companyId} does not exist`, 400);
+    }
+    return result.rows[0];
+  }
+
+  return companiesService.findOrCreateCompany(client, contactData.company);
+}
+
 /**
  * Creates a new lead in the database, linked to a contact
  * 
@@ -128,13 +162,21 @@ export async function createLead(leadData: CreateLeadInput): Promise<LeadWithCon
     // Begin the transaction
     await client.query('BEGIN');
     
-    // Step 1: Create the contact first (using the transaction client)
-    const contact = await createContact(leadData.contact, client);
+    // Step 1: Create the contact first (using the transaction client), linked to its company
+    const company = await resolveContactCompany(client, leadData.contact);
+    const contact = await createContact(
+      {
+        ...leadData.contact,
+        company: company ? company.name : leadData.contact.company,
+        companyId: company?.id,
+      },
+      client
+    );
     
-    // Step 2: Create the lead, referencing the contact we just created
+    // Step 2: Create the lead, referencing the contact (and company) we just created
     const leadQuery = `
-      INSERT INTO leads (name, email, phone, contact_id, source, stage, status, verticals, notes, created_by_email, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+      INSERT INTO leads (name, email, phone, contact_id, company_id, source, stage, status, verticals, notes, created_by_email, owner_email, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
       RETURNING *
     `;
     
@@ -143,15 +185,27 @@ export async function createLead(leadData: CreateLeadInput): Promise<LeadWithCon
       contact.email,
       contact.phone,
       contact.id, // Link the lead to the contact
+      company ? company.id : null,
       leadData.source || null,
       leadData.stage || 'new',
       'new', // Default status
       leadData.verticals || null,
       null, // notes placeholder
       leadData.created_by_email || null,
+      leadData.owner_email || leadData.created_by_email || null,
     ]);
     
     const lead = leadResult.rows[0];
+
+    // Step 3: Record the initial stage and status in the stage history
+    await recordStageHistory(client, {
+      leadId: lead.id,
+      changes: [
+        { field: 'stage', from: null, to: lead.stage },
+        { field: 'status', from: null, to: lead.status },
+      ],
+      changedByEmail: leadData.created_by_email || null,
+    });
     
     // Commit the transaction (save all changes)
     await client.query('COMMIT');
@@ -179,6 +233,142 @@ export async function createLead(leadData: CreateLeadInput): Promise<LeadWithCon
   }
 }
 
+/**
+ * Creates many leads (and their contacts) in one transaction, in batches.
+ * Used by the spreadsheet import. Either every lead is created or none are.
+ * 
+ * Each batch is inserted with one multi-row INSERT for contacts, one for leads and one for
+ * stage history. RETURNING gives rows back in VALUES order, which is how leads are matched to their contacts.
+ * 
+ * @param leads - The leads to create (already validated)
+ * @param batchSize - How many leads to insert per statement
+ * @returns IDs of the created leads, in input order
+ */
+export async function createLeadsInBatches(
+  leads: CreateLeadInput[],
+  batchSize: number = 100
+): Promise<number[]> {
+  const client = await getPoolClient(5000);
+  const leadIds: number[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    // Find or create every company named in the file up front
+    const companies = await companiesService.findOrCreateCompanies(
+      client,
+      leads.map((lead) => lead.contact.company || '')
+    );
+
+    for (let start = 0; start < leads.length; start += batchSize) {
+      const batch = leads.slice(start, start + batchSize);
+
+      // Step 1: Insert the batch's contacts, linked to their companies
+      const contactValues: any[] = [];
+      const contactRows = batch.map((lead) => {
+        const company = lead.contact.company
+          ? companies.get(companiesService.companyNameKey(lead.contact.company))
+          : undefined;
+        contactValues.push(
+          lead.contact.name,
+          lead.contact.email || null,
+          lead.contact.phone || null,
+          company ? company.name : lead.contact.company || null,
+          company ? company.id : null
+        );
+        const n = contactValues.length;
+        return `($${n - 4}, $${n - 3}, $${n - 2}, $${n - 1}, $${n}, NOW(), NOW())`;
+      });
+      const contactResult = await client.query(
+        `INSERT INTO contacts (name, email, phone, company, company_id, created_at, updated_at)
+         VALUES ${contactRows.join(', ')}
+         RETURNING id, name, email, phone, company_id`,
+        contactValues
+      );
+
+      // Step 2: Insert the leads, each linked to its contact
+      const leadValues: any[] = [];
+      const leadRows = batch.map((lead, index) => {
+        const contact = contactResult.rows[index];
+        leadValues.push(
+          contact.name,
+          contact.email,
+          contact.phone,
+          contact.id,
+          contact.company_id,
+          lead.source || null,
+          lead.stage || 'new',
+          lead.verticals || null,
+          lead.created_by_email || null,
+          lead.owner_email || lead.created_by_email || null
+        );
+        const n = leadValues.length;
+        const params = Array.from({ length: 10 }, (_, i) => `$${n - 9 + i}`);
+        return `(${params.slice(0, 7).join(', ')}, 'new', ${params.slice(7).join(', ')}, NOW(), NOW())`;
+      });
+      const leadResult = await client.query(
+        `INSERT INTO leads (name, email, phone, contact_id, company_id, source, stage, status, verticals, created_by_email, owner_email, created_at, updated_at)
+         VALUES ${leadRows.join(', ')}
+         RETURNING id, stage, status, created_by_email`,
+        leadValues
+      );
+
+      // Step 3: Record the initial stage and status of each lead
+      const historyValues: any[] = [];
+      const historyRows: string[] = [];
+      for (const lead of leadResult.rows) {
+        for (const field of ['stage', 'status'] as const) {
+          historyValues.push(lead.id, field, lead[field], lead.created_by_email);
+          const n = historyValues.length;
+          historyRows.push(`($${n - 3}, $${n - 2}, NULL, $${n - 1}, $${n}, NOW())`);
+        }
+      }
+      await client.query(
+        `INSERT INTO lead_stage_history (lead_id, field, from_value, to_value, changed_by_email, changed_at)
+         VALUES ${historyRows.join(', ')}`,
+        historyValues
+      );
+
+      leadIds.push(...leadResult.rows.map((lead: any) => lead.id));
+    }
+
+    await client.query('COMMIT');
+    return leadIds;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Writes stage/status changes to lead_stage_history
+ * Changes where the value is missing or didn't actually change are skipped.
+ * 
+ * @param client - Transaction client, so history is only stored if the lead change commits
+ */
+async function recordStageHistory(
+  client: PoolClient,
+  params: {
+    leadId: number;
+    changes: Array<{ field: 'stage' | 'status'; from: string | null; to: string | null | undefined }>;
+    changedByEmail: string | null;
+  }
+): Promise<void> {
+  for (const change of params.changes) {
+    if (!change.to || change.to === change.from) {
+      continue;
+    }
+
+    await client.query(
+      `INSERT INTO lead_stage_history (lead_id, field, from_value, to_value, changed_by_email, changed_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())`,
+      [params.leadId, change.field, change.from, change.to, params.changedByEmail]
+    );
+  }
+}
+
 /**
  * Interface for the raw SQL query result row
  */
@@ -193,9 +383,11 @@ interface LeadQueryRow {
   status: string | null;
   verticals: string | null;
   notes: string | null;
+  company_id: number | null;
   created_at: Date | string;
   updated_at: Date | string;
   created_by_email: string | null;
+  owner_email: string | null;
   contact_table_id?: number | null;
   contact_name?: string | null;
   contact_email?: string | null;
@@ -207,19 +399,157 @@ interface LeadQueryRow {
 }
 
 /**
- * Retrieves all leads from the database with their associated contact information
+ * Filters for listing leads (GET /api/leads query string)
+ */
+export interface LeadListFilters {
+  stage?: string;
+  status?: string;
+  source?: string;
+  verticals?: string; // Partial match
+  company?: string; // Partial match on the contact's company
+  createdByEmail?: string;
+  createdFrom?: string; // ISO date or date-time, inclusive
+  createdTo?: string; // ISO date or date-time, inclusive (a bare date covers the whole day)
+  ownerEmail?: string; // Only leads owned by this team member (?owner=me)
+}
+
+/**
+ * Columns the lead list can be sorted by, mapped to SQL expressions.
+ * Nullable text columns are coalesced so keyset comparisons never hit NULL.
+ */
+const LEAD_SORT_COLUMNS = {
+  created_at: { expression: 'l.created_at', type: 'timestamptz' },
+  updated_at: { expression: 'l.updated_at', type: 'timestamptz' },
+  name: { expression: "COALESCE(l.name, '')", type: 'text' },
+  company: { expression: "COALESCE(c.company, '')", type: 'text' },
+  stage: { expression: "COALESCE(l.stage, '')", type: 'text' },
+  status: { expression: "COALESCE(l.status, '')", type: 'text' },
+  source: { expression: "COALESCE(l.source, '')", type: 'text' },
+} as const;
+
+export type LeadSortField = keyof typeof LEAD_SORT_COLUMNS;
+
+/**
+ * Options for one page of leads
+ */
+export interface LeadListOptions extends LeadListFilters {
+  limit: number;
+  cursor?: string; // nextCursor from the previous page
+  sortBy: LeadSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * One page of leads plus what the client needs to fetch the next one
+ */
+export interface LeadPage {
+  leads: LeadWithContact[];
+  total: number; // Total leads matching the filters (across all pages)
+  nextCursor: string | null; // null when this is the last page
+}
+
+/**
+ * Wraps a partial-match filter in % for ILIKE, escaping the LIKE wildcards (% and _) and the
+ * escape character itself, so the value is matched literally (use with ESCAPE '\')
+ */
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Builds the WHERE conditions for the lead list filters.
+ * Expects the query to alias leads as l and contacts as c.
+ */
+export function buildLeadFilterConditions(filters: LeadListFilters, values: any[]): string[] {
+  const conditions: string[] = [];
+
+  if (filters.stage) {
+    values.push(filters.stage);
+    conditions.push(`l.stage = $${values.length}`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`l.status = $${values.length}`);
+  }
+  if (filters.source) {
+    values.push(filters.source);
+    conditions.push(`l.source = $${values.length}`);
+  }
+  if (filters.verticals) {
+    values.push(containsPattern(filters.verticals));
+    conditions.push(`l.verticals ILIKE $${values.length} ESCAPE '\\'`);
+  }
+  if (filters.company) {
+    values.push(containsPattern(filters.company));
+    conditions.push(`c.company ILIKE $${values.length} ESCAPE '\\'`);
+  }
+  if (filters.createdByEmail) {
+    values.push(filters.createdByEmail);
+    conditions.push(`l.created_by_email = $${values.length}`);
+  }
+  if (filters.createdFrom) {
+    values.push(filters.createdFrom);
+    conditions.push(`l.created_at >= $${values.length}::timestamptz`);
+  }
+  if (filters.createdTo) {
+    values.push(filters.createdTo);
+    // A bare date (2024-01-31) includes the whole day
+    conditions.push(
+      /^\d{4}-\d{2}-\d{2}$/.test(filters.createdTo)
+        ? `l.created_at < $${values.length}::date + INTERVAL '1 day'`
+        : `l.created_at <= $${values.length}::timestamptz`
+    );
+  }
+  if (filters.ownerEmail) {
+    values.push(filters.ownerEmail);
+    conditions.push(`l.owner_email = $${values.length}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Retrieves one page of leads with their associated contact information
+ * 
+ * Uses keyset (cursor) pagination on (sort column, id) so pages stay stable
+ * while new leads are being added, and counts the total matching leads in parallel.
  * 
  * OPTIMIZED: 
  * - Uses timeout-protected queries (5s)
  * - Simplified date conversion logic
- * - LIMIT 1000 to prevent excessive data transfer
  * 
- * @returns An array of all leads with their contacts
+ * @param options - Filters, sort and page options
+ * @returns The page of leads, total count and cursor for the next page
  */
-export async function getAllLeads(): Promise<LeadWithContact[]> {
+export async function getAllLeads(options: LeadListOptions): Promise<LeadPage> {
+  const sortColumn = LEAD_SORT_COLUMNS[options.sortBy];
+  const direction = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+  const countValues: any[] = [];
+  const countConditions = buildLeadFilterConditions(options, countValues);
+
+  const values: any[] = [];
+  const conditions = buildLeadFilterConditions(options, values);
+
+  // Continue after the last row of the previous page
+  const cursorKey = options.cursor ? decodeCursor(options.cursor) : null;
+  if (cursorKey) {
+    values.push(cursorKey.v, cursorKey.id);
+    const comparator = direction === 'ASC' ? '>' : '<';
+    conditions.push(
+      `(${sortColumn.expression}, l.id) ${comparator} ($${values.length - 1}::${sortColumn.type}, $${values.length})`
+    );
+  }
+
+  // Fetch one extra row to know whether there is a next page
+  values.push(options.limit + 1);
+  const limitParam = `$${values.length}`;
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const countWhereClause = countConditions.length > 0 ? `WHERE ${countConditions.join(' AND ')}` : '';
+
   // Optimized single query with all joins - reduces query time significantly
   // LEFT JOINs ensure we get leads even if contacts/users don't exist
-  // LIMIT 1000 prevents excessive data transfer (consider pagination for production)
   const query = `
     SELECT 
       l.id,
@@ -232,9 +562,11 @@ export async function getAllLeads(): Promise<LeadWithContact[]> {
       l.status,
       l.verticals,
       l.notes,
+      l.company_id,
       l.created_at,
       l.updated_at,
       l.created_by_email,
+      l.owner_email,
       c.id as contact_table_id,
       c.name as contact_name,
       c.email as contact_email,
@@ -242,17 +574,37 @@ export async function getAllLeads(): Promise<LeadWithContact[]> {
       c.company as contact_company,
       c.created_at as contact_created_at,
       c.updated_at as contact_updated_at,
-      u.name as creator_name
+      u.name as creator_name,
+      (${sortColumn.expression})::text as sort_value
     FROM leads l
     LEFT JOIN contacts c ON l.contact_id = c.id
     LEFT JOIN users u ON l.created_by_email = u.email
-    ORDER BY l.created_at DESC
-    LIMIT 1000
+    ${whereClause}
+    ORDER BY ${sortColumn.expression} ${direction}, l.id ${direction}
+    LIMIT ${limitParam}
+  `;
+
+  const countQuery = `
+    SELECT COUNT(*) as total
+    FROM leads l
+    LEFT JOIN contacts c ON l.contact_id = c.id
+    ${countWhereClause}
   `;
   
   try {
-    // OPTIMIZED: Use timeout-protected query (5s timeout) to prevent hanging
-    const result = await queryWithTimeout(query, [], 5000);
+    // OPTIMIZED: Use timeout-protected queries (5s timeout) to prevent hanging
+    const [result, countResult] = await Promise.all([
+      queryWithTimeout(query, values, 5000),
+      queryWithTimeout(countQuery, countValues, 5000),
+    ]);
+
+    const hasMore = result.rows.length > options.limit;
+    const rows: (LeadQueryRow & { sort_value: string })[] = result.rows.slice(0, options.limit);
+    const lastRow = rows[rows.length - 1];
+    // The cursor records its sort field and order, since its value only makes sense for that column and direction
+    const nextCursor = hasMore && lastRow
+      ? encodeCursor({ s: options.sortBy, o: options.sortOrder, v: lastRow.sort_value, id: lastRow.id })
+      : null;
     
     // OPTIMIZED: Simplified date conversion - PostgreSQL timestamptz is already in UTC
     const toISOString = (date: any): string => {
@@ -277,7 +629,7 @@ export async function getAllLeads(): Promise<LeadWithContact[]> {
     };
     
     // Transform the flat result into nested objects (lead with contact)
-    return result.rows.map((row: LeadQueryRow): LeadWithContact => {
+    const leads = rows.map((row: LeadQueryRow): LeadWithContact => {
       return {
         id: row.id,
         name: row.name,
@@ -289,10 +641,12 @@ export async function getAllLeads(): Promise<LeadWithContact[]> {
         status: row.status,
         verticals: row.verticals,
         notes: row.notes,
+        company_id: row.company_id ?? null,
         created_at: toDate(row.created_at),
         updated_at: toDate(row.updated_at),
         created_by_email: row.created_by_email || null,
         creator_name: row.creator_name || null,
+        owner_email: row.owner_email || null,
         contact: row.contact_id
           ? {
               id: row.contact_table_id || row.contact_id || 0,
@@ -306,6 +660,12 @@ export async function getAllLeads(): Promise<LeadWithContact[]> {
           : null,
       } as LeadWithContact;
     });
+
+    return {
+      leads,
+      total: parseInt(countResult.rows[0].total, 10),
+      nextCursor,
+    };
   } catch (error: any) {
     console.error('Error in getAllLeads service:', {
       message: error.message,
@@ -348,9 +708,11 @@ export async function getLeadById(leadId: number): Promise<LeadDetail> {
       l.status,
       l.verticals,
       l.notes,
+      l.company_id,
       l.created_at::timestamptz as created_at,
       l.updated_at::timestamptz as updated_at,
       l.created_by_email,
+      l.owner_email,
       c.id as contact_table_id,
       c.name as contact_name,
       c.email as contact_email,
@@ -378,17 +740,16 @@ export async function getLeadById(leadId: number): Promise<LeadDetail> {
     ORDER BY created_at DESC
   `;
   
-  // Execute both queries in parallel with timeout protection (5s each)
-  const [leadResult, activitiesResult] = await Promise.all([
+  // Execute the queries in parallel with timeout protection (5s each)
+  const [leadResult, activitiesResult, contacts] = await Promise.all([
     queryWithTimeout(leadQuery, [leadId], 5000),
     queryWithTimeout(activitiesQuery, [leadId], 5000),
+    leadContactsService.listLinkedContacts({ type: 'lead', id: leadId }),
   ]);
   
   // If no lead found, throw an error that the controller can catch
   if (leadResult.rows.length === 0) {
-    const notFoundError = new Error(`Lead with ID ${leadId} not found`);
-    (notFoundError as any).statusCode = 404;
-    throw notFoundError;
+    throw new HttpError(`Lead with ID ${leadId} not found`, 404);
   }
   
   const leadRow = leadResult.rows[0];
@@ -417,10 +778,12 @@ export async function getLeadById(leadId: number): Promise<LeadDetail> {
     status: leadRow.status,
     verticals: leadRow.verticals,
     notes: leadRow.notes,
+    company_id: leadRow.company_id ?? null,
     created_at: toISOString(leadRow.created_at),
     updated_at: toISOString(leadRow.updated_at),
     created_by_email: leadRow.created_by_email || null,
     creator_name: leadRow.creator_name || null,
+    owner_email: leadRow.owner_email || null,
     contact: leadRow.contact_id
       ? {
           id: leadRow.contact_table_id || leadRow.contact_id,
@@ -448,6 +811,7 @@ export async function getLeadById(leadId: number): Promise<LeadDetail> {
   return {
     lead,
     activities,
+    contacts,
   };
 }
 
@@ -461,13 +825,17 @@ export async function getLeadById(leadId: number): Promise<LeadDetail> {
  * @param params.leadId - The ID of the lead this activity belongs to
  * @param params.activityType - Type of activity (e.g., 'call', 'email', 'meeting', 'note')
  * @param params.description - Optional description of the activity
+ * @param client - Optional database client (for transactions). If not provided, uses the pool.
  * @returns The newly created activity record
  */
-export async function addActivity(params: {
-  leadId: number;
-  activityType: string;
-  description?: string;
-}): Promise<Activity> {
+export async function addActivity(
+  params: {
+    leadId: number;
+    activityType: string;
+    description?: string;
+  },
+  client?: PoolClient
+): Promise<Activity> {
   // SQL query to insert a new activity
   // We set contact_id to NULL for now (can be enhanced later to link to a specific contact)
   // Use UTC time explicitly to ensure consistent timezone handling
@@ -479,14 +847,19 @@ export async function addActivity(params: {
     RETURNING *
   `;
   
-  // OPTIMIZED: Use timeout-protected query (5s timeout) to prevent hanging
-  const result = await queryWithTimeout(query, [
+  const values = [
     params.leadId,
     null, // contact_id - can be enhanced later
     params.activityType,
     params.description || null,
     nowUTC, // UTC timestamp as ISO string
-  ], 5000);
+  ];
+
+  // OPTIMIZED: Use timeout-protected query (5s timeout) to prevent hanging
+  // Inside a transaction the insert goes through the caller's client instead
+  const result = client
+    ? await client.query(query, values)
+    : await queryWithTimeout(query, values, 5000);
   
   // Return the first (and only) row from the result
   const activityRow = result.rows[0];
@@ -507,226 +880,45 @@ export async function addActivity(params: {
   };
 }
 
-/**
- * Retrieves the complete timeline for a lead, including activities, cold calls, and onsite visits.
- * 
- * This function groups all timeline events for a lead into three categories:
- * - activities: General activities (notes, emails, etc.)
- * - coldCalls: Outbound calls made to the lead
- * - onsiteVisits: In-person visits to the lead's location
- * 
- * Flow: GET /api/leads/:id/timeline → controller calls this → we query all three tables in parallel → return grouped timeline
- * OPTIMIZED: All three queries now run in parallel instead of sequentially, reducing total time from ~(q1+q2+q3) to ~max(q1,q2,q3)
- * 
- * This allows the frontend to display a unified timeline showing all interactions with a lead,
- * whether they were general activities, cold calls, or onsite visits.
- * 
- * @param leadId - The ID of the lead to get the timeline for
- * @returns An object containing arrays of activities, cold calls, and onsite visits
- */
-export async function getLeadTimeline(leadId: number): Promise<LeadTimeline> {
-  // OPTIMIZATION: Fetch all three queries in parallel instead of sequentially
-  // This reduces total execution time from ~(query1 + query2 + query3) to ~max(query1, query2, query3)
-  // Each query has a 5s timeout to prevent hanging
-  
-  // Query 1: Activities
-  const activitiesQuery = `
-    SELECT 
-      id,
-      lead_id,
-      contact_id,
-      activity_type,
-      description,
-      (created_at AT TIME ZONE 'UTC')::timestamptz as created_at
-    FROM activities
-    WHERE lead_id = $1
-    ORDER BY created_at DESC
-  `;
-  
-  // Query 2: Cold calls
-  const coldCallsQuery = `
-    SELECT 
-      id,
-      lead_id,
-      (call_date AT TIME ZONE 'UTC')::timestamptz as call_date,
-      duration,
-      outcome,
-      notes,
-      (created_at AT TIME ZONE 'UTC')::timestamptz as created_at
-    FROM cold_calls
-    WHERE lead_id = $1
-    ORDER BY created_at DESC
-  `;
-  
-  // Query 3: Onsite visits (try full query first, fallback handled in catch)
-  const onsiteVisitsQuery = `
-    SELECT 
-      id,
-      lead_id,
-      (visit_date AT TIME ZONE 'UTC')::timestamptz as visit_date,
-      address,
-      visit_type,
-      status,
-      notes,
-      in_time,
-      out_time,
-      (created_at AT TIME ZONE 'UTC')::timestamptz as created_at,
-      (updated_at AT TIME ZONE 'UTC')::timestamptz as updated_at
-    FROM onsite_visits
-    WHERE lead_id = $1
-    ORDER BY created_at DESC
-  `;
-  
-  // OPTIMIZED: Simplified date conversion helper
-  const toISOString = (value: any): string => {
-    if (!value) return new Date().toISOString();
-    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
-  };
-  
-  const toISOStringOrNull = (value: any): string | null => {
-    if (!value) return null;
-    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
-  };
-  
-  // Execute activities and cold calls queries in parallel (both are safe)
-  const [activitiesResult, coldCallsResult] = await Promise.all([
-    queryWithTimeout(activitiesQuery, [leadId], 5000),
-    queryWithTimeout(coldCallsQuery, [leadId], 5000),
-  ]);
-  
-  // Execute onsite visits query separately (needs fallback handling)
-  let onsiteVisitsResult;
-  try {
-    onsiteVisitsResult = await queryWithTimeout(onsiteVisitsQuery, [leadId], 5000);
-  } catch (error: any) {
-    // If the error is about missing columns, try the fallback query without new columns
-    if (error.message && (
-      error.message.includes('column') && error.message.includes('does not exist') ||
-      error.message.includes('in_time') || error.message.includes('out_time')
-    )) {
-      console.warn('Columns in_time/out_time do not exist in database. Using fallback query. Please run migration 011_add_visit_times_to_onsite_visits.sql');
-      const fallbackQuery = `
-        SELECT 
-          id,
-          lead_id,
-          (visit_date AT TIME ZONE 'UTC')::timestamptz as visit_date,
-          address,
-          visit_type,
-          status,
-          notes,
-          (created_at AT TIME ZONE 'UTC')::timestamptz as created_at,
-          (updated_at AT TIME ZONE 'UTC')::timestamptz as updated_at
-        FROM onsite_visits
-        WHERE lead_id = $1
-        ORDER BY created_at DESC
-      `;
-      onsiteVisitsResult = await queryWithTimeout(fallbackQuery, [leadId], 5000);
-    } else {
-      // Re-throw the error if it's not about missing columns
-      throw error;
-    }
-  }
-  
-  // Transform results (optimized date conversion)
-  const activities: Activity[] = activitiesResult.rows.map((row: any) => ({
-    id: row.id,
-    lead_id: row.lead_id,
-    contact_id: row.contact_id,
-    activity_type: row.activity_type,
-    description: row.description,
-    created_at: toISOString(row.created_at),
-  }));
-
-  const coldCalls: ColdCall[] = coldCallsResult.rows.map((row: any) => ({
-    id: row.id,
-    lead_id: row.lead_id,
-    call_date: toISOString(row.call_date),
-    duration: row.duration,
-    outcome: row.outcome,
-    notes: row.notes,
-    created_at: toISOString(row.created_at),
-  }));
-  
-  const onsiteVisits: OnsiteVisit[] = onsiteVisitsResult.rows.map((row: any) => ({
-    id: row.id,
-    lead_id: row.lead_id,
-    visit_date: toISOString(row.visit_date),
-    location: row.address, // Map 'address' from DB to 'location' for API
-    visit_type: row.visit_type,
-    outcome: row.status || null, // Map 'status' from DB to 'outcome' for API
-    notes: row.notes,
-    in_time: row.in_time ? String(row.in_time) : null,
-    out_time: row.out_time ? String(row.out_time) : null,
-    created_at: toISOString(row.created_at),
-    updated_at: toISOStringOrNull(row.updated_at) || '',
-  }));
-
-  // Return all three types grouped together
-  return {
-    activities,
-    coldCalls,
-    onsiteVisits,
-  };
-}
-
 /**
  * Adds a new cold call record for a lead
  * 
  * Cold calls are outbound calls made to potential customers to introduce products or services.
- * This function stores the outcome of a cold call (e.g., 'connected', 'no_answer', 'wrong_number')
- * and any notes about the call.
+ * This function stores the disposition of a cold call (e.g., 'connected', 'no_answer', 'wrong_number'),
+ * who made it, and any notes about the call. The call is recorded as made now.
  * 
- * Flow: Sales rep makes a call → records outcome → controller validates → this function inserts → returns new cold call
- * OPTIMIZED: Added timeout protection to prevent hanging queries
+ * Flow: Sales rep makes a call → records disposition → controller validates → calls service inserts → returns new cold call
  * 
  * @param params - Cold call creation parameters
  * @param params.leadId - The ID of the lead this cold call belongs to
- * @param params.outcome - The result of the call (e.g., 'connected', 'no_answer', 'wrong_number')
+ * @param params.disposition - Key of the call disposition (see /api/calls/dispositions)
+ * @param params.outcome - Free-text result of the call, for clients that don't send a disposition
+ * @param params.callerEmail - The team member who made the call
+ * @param params.nextCallbackAt - When to call back; creates a follow-up task for the caller
+ * @param params.callScriptId - Call script used on the call
  * @param params.notes - Optional notes about the call
  * @returns The newly created cold call record
+ * @throws Error with statusCode 404 if the lead does not exist, 400 if the disposition or call script is invalid
  */
 export async function addColdCall(params: {
   leadId: number;
-  outcome: string;
+  disposition?: string;
+  outcome?: string;
+  callerEmail: string;
+  nextCallbackAt?: string;
+  callScriptId?: number;
   notes?: string;
 }): Promise<ColdCall> {
-  // SQL query to insert a new cold call
-  // Note: call_date is required by the database, so we use UTC time explicitly
-  // This represents when the call was made (we assume it's being recorded immediately)
-  // Convert ISO string to UTC timestamp explicitly
-  const nowUTC = new Date().toISOString();
-  const query = `
-    INSERT INTO cold_calls (lead_id, call_date, outcome, notes, created_at)
-    VALUES ($1, ($4::timestamptz AT TIME ZONE 'UTC')::timestamp, $2, $3, ($4::timestamptz AT TIME ZONE 'UTC')::timestamp)
-    RETURNING *
-  `;
-  
-  // OPTIMIZED: Use timeout-protected query (5s timeout) to prevent hanging
-  const result = await queryWithTimeout(query, [
-    params.leadId,
-    params.outcome,
-    params.notes || null,
-    nowUTC, // UTC timestamp as ISO string
-  ], 5000);
-  
-  // Return the first (and only) row from the result
-  const coldCallRow = result.rows[0];
-  
-  // OPTIMIZED: Simplified date conversion
-  const toISOString = (value: any): string => {
-    if (!value) return new Date().toISOString();
-    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
-  };
-  
-  return {
-    id: coldCallRow.id,
-    lead_id: coldCallRow.lead_id,
-    call_date: toISOString(coldCallRow.call_date),
-    duration: coldCallRow.duration,
-    outcome: coldCallRow.outcome,
-    notes: coldCallRow.notes,
-    created_at: toISOString(coldCallRow.created_at),
-  };
+  return callsService.createColdCall({
+    lead_id: params.leadId,
+    call_date: new Date().toISOString(),
+    disposition: params.disposition,
+    outcome: params.outcome,
+    caller_email: params.callerEmail,
+    next_callback_at: params.nextCallbackAt,
+    call_script_id: params.callScriptId,
+    notes: params.notes,
+  });
 }
 
 /**
@@ -881,3 +1073,231 @@ export async function deleteLead(leadId: number): Promise<boolean> {
     client.release();
   }
 }
+
+/**
+ * Retrieves the stage and status history of a lead, oldest first
+ * 
+ * Each entry includes how many days the lead spent in that value: until the next
+ * change of the same field, or until now for the current value.
+ * 
+ * @param leadId - The ID of the lead
+ * @returns The history entries
+ * @throws Error with statusCode 404 if the lead doesn't exist
+ */
+export async function getLeadStageHistory(leadId: number): Promise<LeadStageHistoryEntry[]> {
+  const leadResult = await queryWithTimeout('SELECT id FROM leads WHERE id = $1', [leadId], 5000);
+
+  if (leadResult.rows.length === 0) {
+    throw new HttpError(`Lead with ID ${leadId} not found`, 404);
+  }
+
+  const query = `
+    SELECT
+      id,
+      lead_id,
+      field,
+      from_value,
+      to_value,
+      changed_by_email,
+      changed_at,
+      EXTRACT(EPOCH FROM (
+        COALESCE(
+          LEAD(changed_at) OVER (PARTITION BY field ORDER BY changed_at, id),
+          NOW()
+        ) - changed_at
+      )) / 86400 as days_in_value
+    FROM lead_stage_history
+    WHERE lead_id = $1
+    ORDER BY changed_at ASC, id ASC
+  `;
+
+  const result = await queryWithTimeout(query, [leadId], 5000);
+
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    lead_id: row.lead_id,
+    field: row.field,
+    from_value: row.from_value,
+    to_value: row.to_value,
+    changed_by_email: row.changed_by_email,
+    changed_at: new Date(row.changed_at).toISOString(),
+    days_in_value: Math.round(parseFloat(row.days_in_value) * 100) / 100,
+  }));
+}
+
+/**
+ * Interface for updating a lead (PATCH /api/leads/:id)
+ */
+export interface UpdateLeadInput {
+  stage?: LeadStage;
+  status?: LeadStatus;
+  source?: string | null;
+  verticals?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Updates a lead's stage, status, source, verticals and/or notes
+ * 
+ * Stage and status changes must follow the transition rules in lib/lead-transitions.ts.
+ * Every stage change is recorded as a 'stage_change' activity on the lead.
+ * 
+ * Flow: User edits lead → controller validates → this function checks transitions → updates → logs activity → returns lead
+ * 
+ * Stage and status changes are also written to lead_stage_history.
+ * 
+ * @param leadId - The ID of the lead to update
+ * @param data - The fields to update
+ * @param changedByEmail - Email of the user making the change (stored in the stage history)
+ * @returns The updated lead
+ * @throws Error with statusCode 404 if the lead doesn't exist, 400 if a transition is not allowed
+ */
+export async function updateLead(
+  leadId: number,
+  data: UpdateLeadInput,
+  changedByEmail: string | null = null
+): Promise<Lead> {
+  const client = await getPoolClient(5000);
+  let lead: Lead;
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the row so concurrent updates can't both pass the transition check
+    const currentResult = await client.query(
+      'SELECT id, stage, status FROM leads WHERE id = $1 FOR UPDATE',
+      [leadId]
+    );
+
+    if (currentResult.rows.length === 0) {
+      throw new HttpError(`Lead with ID ${leadId} not found`, 404);
+    }
+
+    const current = currentResult.rows[0];
+
+    if (data.stage !== undefined && !canTransitionStage(current.stage, data.stage)) {
+      throw new HttpError(`Cannot move lead from stage '${current.stage}' to '${data.stage}'`, 400);
+    }
+
+    if (data.status !== undefined && !canTransitionStatus(current.status, data.status)) {
+      throw new HttpError(`Cannot change lead status from '${current.status}' to '${data.status}'`, 400);
+    }
+
+    // Build the UPDATE from the provided fields only
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.stage !== undefined) {
+      updates.push(`stage = $${paramCount++}`);
+      values.push(data.stage);
+    }
+    if (data.status !== undefined) {
+      updates.push(`status = $${paramCount++}`);
+      values.push(data.status);
+    }
+    if (data.source !== undefined) {
+      updates.push(`source = $${paramCount++}`);
+      values.push(data.source);
+    }
+    if (data.verticals !== undefined) {
+      updates.push(`verticals = $${paramCount++}`);
+      values.push(data.verticals);
+    }
+    if (data.notes !== undefined) {
+      updates.push(`notes = $${paramCount++}`);
+      values.push(data.notes);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(leadId);
+
+    const updateResult = await client.query(
+      `UPDATE leads SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+    lead = updateResult.rows[0];
+
+    await recordStageHistory(client, {
+      leadId,
+      changes: [
+        { field: 'stage', from: current.stage, to: data.stage },
+        { field: 'status', from: current.status, to: data.status },
+      ],
+      changedByEmail,
+    });
+
+    // Record the stage change on the lead's activity feed, in the same transaction as the move
+    if (data.stage !== undefined && data.stage !== current.stage) {
+      await addActivity(
+        {
+          leadId,
+          activityType: 'stage_change',
+          description: `Stage changed from ${current.stage || 'none'} to ${data.stage}`,
+        },
+        client
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return lead;
+}
+
+/**
+ * Reassigns a lead to another team member and notifies the new owner
+ * 
+ * @param leadId - The ID of the lead to reassign
+ * @param ownerEmail - Email of the team member who will own the lead
+ * @param assignedByEmail - Email of the user making the change (not notified when assigning to themselves)
+ * @returns The updated lead, or null if not found
+ */
+export async function updateLeadOwner(
+  leadId: number,
+  ownerEmail: string,
+  assignedByEmail: string
+): Promise<Lead | null> {
+  // The new owner must be an active team member
+  const owner = await teamService.getTeamMemberByEmail(ownerEmail);
+  if (!owner || !owner.is_active) {
+    throw new Error(`User with email ${ownerEmail} does not exist`);
+  }
+
+  const query = `
+    UPDATE leads
+    SET owner_email = $1, updated_at = NOW()
+    WHERE id = $2
+    RETURNING *
+  `;
+
+  const result = await pool.query(query, [owner.email, leadId]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const lead: Lead = result.rows[0];
+
+  if (owner.email !== assignedByEmail) {
+    try {
+      await notificationsService.createNotification({
+        userEmail: owner.email,
+        type: 'record_assigned',
+        title: 'Lead Assigned to You',
+        message: `You are now the owner of lead "${lead.name || `#${lead.id}`}"`,
+        relatedLeadId: lead.id,
+      });
+    } catch (error) {
+      // Log error but don't fail the reassignment if notification fails
+      console.error('Failed to create notification for lead reassignment:', error);
+    }
+  }
+
+  return lead;
+}
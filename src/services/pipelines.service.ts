@@ -0,0 +1,314 @@
+/**
+ * Pipelines Service
+ *
+ * Handles database operations for deal pipelines and their stages.
+ * Deals store the key of their stage (deals.stage) and the pipeline it belongs to (deals.pipeline_id).
+ */
+
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { PoolClient } from 'pg';
+import type { Pipeline, PipelineStage, PipelineStageInput } from '../types/pipelines';
+
+export interface CreatePipelinePayload {
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+  stages: PipelineStageInput[];
+}
+
+export interface UpdatePipelinePayload {
+  name?: string;
+  description?: string | null;
+  isDefault?: boolean;
+  stages?: PipelineStageInput[];
+}
+
+function mapStageRow(row: any): PipelineStage {
+  return {
+    id: row.id,
+    pipeline_id: row.pipeline_id,
+    key: row.key,
+    name: row.name,
+    position: row.position,
+    probability: row.probability,
+    color: row.color || null,
+    is_won: row.is_won,
+    is_lost: row.is_lost,
+  };
+}
+
+function mapPipelineRow(row: any, stages: PipelineStage[]): Pipeline {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || null,
+    is_default: row.is_default,
+    stages,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Loads the stages of the given pipelines, ordered by position
+ */
+async function getStagesByPipeline(pipelineIds: number[]): Promise<Map<number, PipelineStage[]>> {
+  const stagesByPipeline = new Map<number, PipelineStage[]>();
+  if (pipelineIds.length === 0) {
+    return stagesByPipeline;
+  }
+
+  const result = await pool.query(
+    `SELECT * FROM pipeline_stages WHERE pipeline_id = ANY($1::int[]) ORDER BY pipeline_id, position ASC`,
+    [pipelineIds]
+  );
+
+  for (const row of result.rows) {
+    const stage = mapStageRow(row);
+    const stages = stagesByPipeline.get(stage.pipeline_id) || [];
+    stages.push(stage);
+    stagesByPipeline.set(stage.pipeline_id, stages);
+  }
+
+  return stagesByPipeline;
+}
+
+/**
+ * Turns a stage name into a key, e.g. "Proposal Sent" → "proposal_sent"
+ */
+function toStageKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+}
+
+/**
+ * Resolves stage keys and rejects duplicates
+ */
+function normalizeStages(stages: PipelineStageInput[]): Array<PipelineStageInput & { key: string }> {
+  const normalized = stages.map((stage, index) => ({
+    ...stage,
+    key: stage.key || toStageKey(stage.name) || `stage_${index + 1}`,
+  }));
+
+  const seen = new Set<string>();
+  for (const stage of normalized) {
+    if (seen.has(stage.key)) {
+      throw new HttpError(`Duplicate stage key: ${stage.key}`, 400);
+    }
+    seen.add(stage.key);
+  }
+
+  return normalized;
+}
+
+/**
+ * Replaces a pipeline's stages inside a transaction.
+ * Stages are matched by key so deals keep pointing at the same stage when it is renamed or reordered.
+ * Removing a stage that still has deals is rejected with a 409.
+ */
+async function saveStages(client: PoolClient, pipelineId: number, stages: PipelineStageInput[]): Promise<void> {
+  const normalized = normalizeStages(stages);
+  const keys = normalized.map((stage) => stage.key);
+
+  const inUseResult = await client.query(
+    `SELECT DISTINCT stage FROM deals WHERE pipeline_id = $1 AND NOT (stage = ANY($2::text[])) ORDER BY stage`,
+    [pipelineId, keys]
+  );
+  if (inUseResult.rows.length > 0) {
+    const inUse = inUseResult.rows.map((row) => row.stage).join(', ');
+    throw new HttpError(`Cannot remove stages that still have deals: ${inUse}`, 409);
+  }
+
+  await client.query(
+    `DELETE FROM pipeline_stages WHERE pipeline_id = $1 AND NOT (key = ANY($2::text[]))`,
+    [pipelineId, keys]
+  );
+
+  for (const [position, stage] of normalized.entries()) {
+    await client.query(
+      `
+        INSERT INTO pipeline_stages (pipeline_id, key, name, position, probability, color, is_won, is_lost)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (pipeline_id, key) DO UPDATE SET
+          name = EXCLUDED.name,
+          position = EXCLUDED.position,
+          probability = EXCLUDED.probability,
+          color = EXCLUDED.color,
+          is_won = EXCLUDED.is_won,
+          is_lost = EXCLUDED.is_lost,
+          updated_at = CURRENT_TIMESTAMP
+      `,
+      [
+        pipelineId,
+        stage.key,
+        stage.name,
+        position,
+        stage.probability ?? 0,
+        stage.color || null,
+        stage.isWon || false,
+        stage.isLost || false,
+      ]
+    );
+  }
+}
+
+/**
+ * Get all pipelines with their stages
+ */
+export async function getAllPipelines(): Promise<Pipeline[]> {
+  const result = await pool.query(`SELECT * FROM pipelines ORDER BY is_default DESC, name ASC`);
+  const stagesByPipeline = await getStagesByPipeline(result.rows.map((row) => row.id));
+
+  return result.rows.map((row) => mapPipelineRow(row, stagesByPipeline.get(row.id) || []));
+}
+
+/**
+ * Get a pipeline with its stages by ID
+ */
+export async function getPipelineById(id: number): Promise<Pipeline | null> {
+  const result = await pool.query(`SELECT * FROM pipelines WHERE id = $1`, [id]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const stagesByPipeline = await getStagesByPipeline([id]);
+  return mapPipelineRow(result.rows[0], stagesByPipeline.get(id) || []);
+}
+
+/**
+ * Get the default pipeline (used for deals created without a pipeline)
+ */
+export async function getDefaultPipeline(): Promise<Pipeline | null> {
+  const result = await pool.query(`SELECT id FROM pipelines WHERE is_default = true LIMIT 1`);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return getPipelineById(result.rows[0].id);
+}
+
+/**
+ * Create a pipeline with its stages
+ */
+export async function createPipeline(data: CreatePipelinePayload): Promise<Pipeline> {
+  const client = await getPoolClient(5000);
+  let pipelineId: number;
+
+  try {
+    await client.query('BEGIN');
+
+    // Only one pipeline can be the default
+    if (data.isDefault) {
+      await client.query(`UPDATE pipelines SET is_default = false, updated_at = CURRENT_TIMESTAMP WHERE is_default = true`);
+    }
+
+    const result = await client.query(
+      `
+        INSERT INTO pipelines (name, description, is_default)
+        VALUES ($1, $2, $3)
+        RETURNING id
+      `,
+      [data.name, data.description || null, data.isDefault || false]
+    );
+    pipelineId = result.rows[0].id;
+
+    await saveStages(client, pipelineId, data.stages);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await getPipelineById(pipelineId))!;
+}
+
+/**
+ * Update a pipeline and optionally replace its stages
+ */
+export async function updatePipeline(id: number, data: UpdatePipelinePayload): Promise<Pipeline | null> {
+  const client = await getPoolClient(5000);
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT id FROM pipelines WHERE id = $1 FOR UPDATE`, [id]);
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (data.isDefault) {
+      await client.query(
+        `UPDATE pipelines SET is_default = false, updated_at = CURRENT_TIMESTAMP WHERE is_default = true AND id <> $1`,
+        [id]
+      );
+    }
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updateFields.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.description !== undefined) {
+      updateFields.push(`description = $${paramCount++}`);
+      values.push(data.description || null);
+    }
+    if (data.isDefault) {
+      updateFields.push(`is_default = true`);
+    }
+
+    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    await client.query(
+      `UPDATE pipelines SET ${updateFields.join(', ')} WHERE id = $${paramCount}`,
+      values
+    );
+
+    if (data.stages) {
+      await saveStages(client, id, data.stages);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getPipelineById(id);
+}
+
+/**
+ * Delete a pipeline and its stages.
+ * The default pipeline and pipelines that still have deals cannot be deleted.
+ */
+export async function deletePipeline(id: number): Promise<boolean> {
+  const pipeline = await pool.query(`SELECT is_default FROM pipelines WHERE id = $1`, [id]);
+  if (pipeline.rows.length === 0) {
+    return false;
+  }
+  if (pipeline.rows[0].is_default) {
+    throw new HttpError('The default pipeline cannot be deleted', 400);
+  }
+
+  const dealCount = await pool.query(`SELECT COUNT(*) as count FROM deals WHERE pipeline_id = $1`, [id]);
+  const count = parseInt(dealCount.rows[0].count, 10);
+  if (count > 0) {
+    throw new HttpError(`Pipeline still has ${count} deal(s); move them to another pipeline first`, 409);
+  }
+
+  const result = await pool.query(`DELETE FROM pipelines WHERE id = $1 RETURNING id`, [id]);
+  return result.rows.length > 0;
+}
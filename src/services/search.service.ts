@@ -0,0 +1,229 @@
+/**
+ * Search Service
+ * 
+ * Full-text search across contacts, clients, leads, deals, activities and chat messages.
+ * Each table has a generated search_vector column with a GIN index (see migration 019),
+ * so every entity is searched with its own ranked query and the queries run in parallel.
+ */
+
+import { queryWithTimeout } from '../lib/db';
+import type { SearchEntity, SearchHit, SearchResponse, SearchResults } from '../types/search';
+
+/**
+ * Highlight markers used inside ts_headline.
+ * Plain-text markers are swapped for <mark> tags after the snippet is HTML-escaped,
+ * so user content can never inject markup into the snippet.
+ */
+const HIGHLIGHT_START = '[[mark]]';
+const HIGHLIGHT_END = '[[/mark]]';
+
+const HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", ` +
+  'MaxWords=25, MinWords=8, ShortWord=2, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * Per-entity search queries.
+ * Parameters: $1 = tsquery text, $2 = limit, $3 = ts_headline options,
+ * $4 = email of the searching user (only for queries scoped to the user).
+ * Every query returns id, title, snippet, rank, lead_id and created_at.
+ */
+const SEARCH_QUERIES: Record<SearchEntity, { type: SearchHit['type']; sql: string; scopedToUser?: boolean }> = {
+  contacts: {
+    type: 'contact',
+    sql: `
+      SELECT
+        c.id,
+        c.name AS title,
+        ts_headline('simple', concat_ws(' · ', c.name, c.company, c.email, c.phone), q.query, $3) AS snippet,
+        ts_rank(c.search_vector, q.query) AS rank,
+        NULL::integer AS lead_id,
+        c.created_at
+      FROM contacts c, (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE c.search_vector @@ q.query
+        AND c.is_client IS NOT TRUE
+      ORDER BY rank DESC, c.created_at DESC
+      LIMIT $2
+    `,
+  },
+  clients: {
+    type: 'client',
+    sql: `
+      SELECT
+        c.id,
+        c.name AS title,
+        ts_headline('simple', concat_ws(' · ', c.name, c.company, c.email, c.phone), q.query, $3) AS snippet,
+        ts_rank(c.search_vector, q.query) AS rank,
+        c.lead_id,
+        c.created_at
+      FROM contacts c, (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE c.search_vector @@ q.query
+        AND c.is_client = true
+        AND c.deleted_at IS NULL
+      ORDER BY rank DESC, c.created_at DESC
+      LIMIT $2
+    `,
+  },
+  leads: {
+    type: 'lead',
+    // Leads also match on their contact's email, phone and company
+    sql: `
+      SELECT
+        l.id,
+        COALESCE(l.name, ct.name, 'Lead #' || l.id) AS title,
+        ts_headline('simple', concat_ws(' · ', l.name, ct.company, ct.email, ct.phone, l.notes), q.query, $3) AS snippet,
+        ts_rank(l.search_vector || COALESCE(ct.search_vector, ''::tsvector), q.query) AS rank,
+        l.id AS lead_id,
+        l.created_at
+      FROM leads l
+      LEFT JOIN contacts ct ON l.contact_id = ct.id,
+      (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE l.search_vector @@ q.query OR ct.search_vector @@ q.query
+      ORDER BY rank DESC, l.created_at DESC
+      LIMIT $2
+    `,
+  },
+  deals: {
+    type: 'deal',
+    sql: `
+      SELECT
+        d.id,
+        d.title,
+        ts_headline('simple', concat_ws(' · ', d.title, d.notes), q.query, $3) AS snippet,
+        ts_rank(d.search_vector, q.query) AS rank,
+        d.lead_id,
+        d.created_at
+      FROM deals d, (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE d.search_vector @@ q.query
+      ORDER BY rank DESC, d.created_at DESC
+      LIMIT $2
+    `,
+  },
+  activities: {
+    type: 'activity',
+    sql: `
+      SELECT
+        a.id,
+        a.activity_type AS title,
+        ts_headline('simple', COALESCE(a.description, a.activity_type), q.query, $3) AS snippet,
+        ts_rank(a.search_vector, q.query) AS rank,
+        a.lead_id,
+        a.created_at
+      FROM activities a, (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE a.search_vector @@ q.query
+      ORDER BY rank DESC, a.created_at DESC
+      LIMIT $2
+    `,
+  },
+  messages: {
+    type: 'message',
+    // Only the searching user's own conversations
+    scopedToUser: true,
+    sql: `
+      SELECT
+        m.id,
+        m.sender_email AS title,
+        ts_headline('simple', m.message, q.query, $3) AS snippet,
+        ts_rank(m.search_vector, q.query) AS rank,
+        NULL::integer AS lead_id,
+        m.created_at
+      FROM chat_messages m, (SELECT to_tsquery('simple', $1) AS query) q
+      WHERE m.search_vector @@ q.query
+        AND (m.sender_email = $4 OR m.receiver_email = $4)
+      ORDER BY rank DESC, m.created_at DESC
+      LIMIT $2
+    `,
+  },
+};
+
+/**
+ * Converts free text into a prefix-matching tsquery string.
+ * "acme corp" → 'acme':* & 'corp':*  (so results appear while the user is still typing)
+ * 
+ * @returns The tsquery text, or null if the input has no searchable terms
+ */
+export function buildPrefixQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    // Keep letters, digits and the characters that appear inside emails and phone numbers
+    .map((term) => term.replace(/[^\p{L}\p{N}@._+-]/gu, '').replace(/^[._+-]+|[._+-]+$/g, ''))
+    .filter((term) => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `'${term.toLowerCase()}':*`).join(' & ');
+}
+
+/**
+ * HTML-escapes a ts_headline snippet and turns the highlight markers into <mark> tags
+ */
+function highlightSnippet(snippet: string | null): string {
+  if (!snippet) return '';
+
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
+
+function mapSearchHitRow(type: SearchHit['type'], row: any): SearchHit {
+  return {
+    type,
+    id: row.id,
+    title: row.title || '',
+    snippet: highlightSnippet(row.snippet),
+    rank: Number(row.rank),
+    lead_id: row.lead_id ? parseInt(row.lead_id, 10) : null,
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Searches the requested entities and returns ranked hits grouped by entity
+ * 
+ * @param params.q - The search text
+ * @param params.limit - Maximum hits per entity
+ * @param params.types - Entities to search (others come back as empty arrays)
+ * @param params.userEmail - The searching user (chat messages are limited to their conversations)
+ */
+export async function search(params: {
+  q: string;
+  limit: number;
+  types: SearchEntity[];
+  userEmail: string;
+}): Promise<SearchResponse> {
+  const results: SearchResults = {
+    leads: [],
+    contacts: [],
+    clients: [],
+    deals: [],
+    activities: [],
+    messages: [],
+  };
+
+  const tsQuery = buildPrefixQuery(params.q);
+  if (!tsQuery) {
+    return { query: params.q, total: 0, results };
+  }
+
+  // One timeout-protected query per entity, run in parallel
+  await Promise.all(
+    params.types.map(async (entity) => {
+      const { type, sql, scopedToUser } = SEARCH_QUERIES[entity];
+      const values = [tsQuery, params.limit, HEADLINE_OPTIONS];
+      if (scopedToUser) {
+        values.push(params.userEmail);
+      }
+      const result = await queryWithTimeout(sql, values, 5000);
+      results[entity] = result.rows.map((row: any) => mapSearchHitRow(type, row));
+    })
+  );
+
+  const total = Object.values(results).reduce((sum, hits) => sum + hits.length, 0);
+
+  return { query: params.q, total, results };
+}
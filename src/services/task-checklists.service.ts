@@ -0,0 +1,122 @@
+/**
+ * Task Checklists Service
+ *
+ * Handles database operations for checklist items: small to-dos inside a task.
+ * Checked items count towards the task's progress (see tasks.service).
+ */
+
+import pool from '../lib/db';
+import type { TaskChecklistItem } from '../types/tasks';
+import type { CreateChecklistItemInput, UpdateChecklistItemInput } from '../validators/tasks.validator';
+
+function mapChecklistItemRow(row: any): TaskChecklistItem {
+  return {
+    id: row.id,
+    task_id: row.task_id,
+    position: row.position,
+    title: row.title,
+    is_done: row.is_done,
+    completed_at: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    completed_by_email: row.completed_by_email || null,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * List a task's checklist items in order
+ *
+ * @returns The items, or null if the task doesn't exist
+ */
+export async function getChecklistItems(taskId: number): Promise<TaskChecklistItem[] | null> {
+  const task = await pool.query('SELECT id FROM team_tasks WHERE id = $1', [taskId]);
+  if (task.rows.length === 0) {
+    return null;
+  }
+
+  const result = await pool.query(
+    'SELECT * FROM task_checklist_items WHERE task_id = $1 ORDER BY position ASC, id ASC',
+    [taskId]
+  );
+  return result.rows.map(mapChecklistItemRow);
+}
+
+/**
+ * Add an item at the end of a task's checklist
+ *
+ * @returns The new item, or null if the task doesn't exist
+ */
+export async function createChecklistItem(
+  taskId: number,
+  data: CreateChecklistItemInput
+): Promise<TaskChecklistItem | null> {
+  const result = await pool.query(
+    `
+      INSERT INTO task_checklist_items (task_id, position, title, created_at, updated_at)
+      SELECT t.id, COALESCE((SELECT MAX(position) + 1 FROM task_checklist_items WHERE task_id = t.id), 0), $2, NOW(), NOW()
+      FROM team_tasks t
+      WHERE t.id = $1
+      RETURNING *
+    `,
+    [taskId, data.title]
+  );
+  return result.rows.length > 0 ? mapChecklistItemRow(result.rows[0]) : null;
+}
+
+/**
+ * Rename, check or uncheck a checklist item. Checking stamps who completed it and when.
+ *
+ * @returns The updated item, or null if it doesn't exist on that task
+ */
+export async function updateChecklistItem(
+  taskId: number,
+  itemId: number,
+  data: UpdateChecklistItemInput,
+  changedByEmail: string | null
+): Promise<TaskChecklistItem | null> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (data.title !== undefined) {
+    updates.push(`title = $${paramCount++}`);
+    values.push(data.title);
+  }
+  if (data.isDone !== undefined) {
+    const isDoneParam = `$${paramCount++}`;
+    const changedByParam = `$${paramCount++}`;
+    updates.push(
+      `is_done = ${isDoneParam}`,
+      `completed_at = CASE WHEN ${isDoneParam} THEN COALESCE(completed_at, NOW()) ELSE NULL END`,
+      `completed_by_email = CASE WHEN ${isDoneParam} THEN COALESCE(completed_by_email, ${changedByParam}) ELSE NULL END`
+    );
+    values.push(data.isDone, changedByEmail);
+  }
+
+  updates.push('updated_at = NOW()');
+  values.push(itemId, taskId);
+
+  const result = await pool.query(
+    `
+      UPDATE task_checklist_items
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount} AND task_id = $${paramCount + 1}
+      RETURNING *
+    `,
+    values
+  );
+  return result.rows.length > 0 ? mapChecklistItemRow(result.rows[0]) : null;
+}
+
+/**
+ * Delete a checklist item
+ *
+ * @returns true if the item was deleted, false if it didn't exist on that task
+ */
+export async function deleteChecklistItem(taskId: number, itemId: number): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM task_checklist_items WHERE id = $1 AND task_id = $2',
+    [itemId, taskId]
+  );
+  return result.rowCount !== null && result.rowCount > 0;
+}
@@ -0,0 +1,182 @@
+/**
+ * Task Comments Service
+ *
+ * Handles database operations for a task's discussion thread. Comments can mention
+ * team members as @email (see lib/mentions); each active member mentioned gets a
+ * 'mention' notification. Only a comment's author can edit or delete it.
+ */
+
+import pool from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { parseMentions } from '../lib/mentions';
+import type { TaskComment } from '../types/tasks';
+import * as notificationsService from './notifications.service';
+
+const EXCERPT_LENGTH = 140;
+
+function mapCommentRow(row: any): TaskComment {
+  return {
+    id: row.id,
+    task_id: row.task_id,
+    author_email: row.author_email,
+    body: row.body,
+    mentions: row.mentions || [],
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Loads the task fields the notifications need
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+async function getCommentTask(taskId: number): Promise<{ id: number; title: string; lead_id: number | null }> {
+  const result = await pool.query('SELECT id, title, lead_id FROM team_tasks WHERE id = $1', [taskId]);
+  if (result.rows.length === 0) {
+    throw new HttpError(`Task with id ${taskId} does not exist`, 404);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Loads a comment and checks the user wrote it
+ *
+ * @throws Error with statusCode 404 if the comment does not exist on that task,
+ *         403 if the user is not its author
+ */
+async function getOwnComment(taskId: number, commentId: number, userEmail: string): Promise<any> {
+  const result = await pool.query(
+    'SELECT * FROM task_comments WHERE id = $1 AND task_id = $2',
+    [commentId, taskId]
+  );
+  if (result.rows.length === 0) {
+    throw new HttpError(`Comment with id ${commentId} not found on task ${taskId}`, 404);
+  }
+  if (result.rows[0].author_email.toLowerCase() !== userEmail.toLowerCase()) {
+    throw new HttpError('Only the author can change this comment', 403);
+  }
+  return result.rows[0];
+}
+
+function excerpt(body: string): string {
+  return body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH - 1)}…` : body;
+}
+
+/**
+ * Sends a 'mention' notification to each active team member mentioned, except the author.
+ * Unknown emails are ignored.
+ */
+async function notifyMentions(
+  task: { id: number; title: string; lead_id: number | null },
+  comment: TaskComment,
+  mentions: string[]
+): Promise<void> {
+  const candidates = mentions.filter((email) => email !== comment.author_email.toLowerCase());
+  if (candidates.length === 0) {
+    return;
+  }
+
+  try {
+    const users = await pool.query(
+      'SELECT email FROM users WHERE LOWER(email) = ANY($1::text[]) AND is_active = true',
+      [candidates]
+    );
+
+    for (const user of users.rows) {
+      try {
+        await notificationsService.createNotification({
+          userEmail: user.email,
+          type: 'mention',
+          title: 'You Were Mentioned',
+          message: `${comment.author_email} mentioned you on task "${task.title}": ${excerpt(comment.body)}`,
+          relatedTaskId: task.id,
+          relatedLeadId: task.lead_id || undefined,
+        });
+      } catch (error) {
+        // Log error but don't fail the comment if a notification fails
+        console.error('Failed to create mention notification:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to look up mentioned users:', error);
+  }
+}
+
+/**
+ * List a task's comments, oldest first
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+export async function listTaskComments(taskId: number): Promise<TaskComment[]> {
+  await getCommentTask(taskId);
+  const result = await pool.query(
+    'SELECT * FROM task_comments WHERE task_id = $1 ORDER BY created_at ASC, id ASC',
+    [taskId]
+  );
+  return result.rows.map(mapCommentRow);
+}
+
+/**
+ * Add a comment to a task and notify the team members it mentions
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+export async function createTaskComment(taskId: number, body: string, authorEmail: string): Promise<TaskComment> {
+  const task = await getCommentTask(taskId);
+  const mentions = parseMentions(body);
+
+  const result = await pool.query(
+    `
+      INSERT INTO task_comments (task_id, author_email, body, mentions, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      RETURNING *
+    `,
+    [taskId, authorEmail, body, mentions]
+  );
+  const comment = mapCommentRow(result.rows[0]);
+
+  await notifyMentions(task, comment, mentions);
+  return comment;
+}
+
+/**
+ * Edit a comment's body. Only people newly mentioned by the edit are notified.
+ *
+ * @throws Error with statusCode 404 if the task or comment does not exist, 403 if the user is not the author
+ */
+export async function updateTaskComment(
+  taskId: number,
+  commentId: number,
+  body: string,
+  userEmail: string
+): Promise<TaskComment> {
+  const task = await getCommentTask(taskId);
+  const existing = await getOwnComment(taskId, commentId, userEmail);
+  const previousMentions: string[] = existing.mentions || [];
+  const mentions = parseMentions(body);
+
+  const result = await pool.query(
+    `
+      UPDATE task_comments
+      SET body = $1, mentions = $2, updated_at = NOW()
+      WHERE id = $3 AND task_id = $4
+      RETURNING *
+    `,
+    [body, mentions, commentId, taskId]
+  );
+  const comment = mapCommentRow(result.rows[0]);
+
+  await notifyMentions(task, comment, mentions.filter((email) => !previousMentions.includes(email)));
+  return comment;
+}
+
+/**
+ * Delete a comment
+ *
+ * @throws Error with statusCode 404 if the comment does not exist on that task, 403 if the user is not the author
+ */
+export async function deleteTaskComment(taskId: number, commentId: number, userEmail: string): Promise<void> {
+  await getOwnComment(taskId, commentId, userEmail);
+  await pool.query('DELETE FROM task_comments WHERE id = $1 AND task_id = $2', [commentId, taskId]);
+}
@@ -0,0 +1,280 @@
+/**
+ * Task Reminders Service
+ *
+ * The task reminder job notifies assignees about open tasks that are due soon or overdue,
+ * and escalates tasks overdue for several days to the assignee's manager (users.manager_email).
+ * Reminders are claimed in task_reminders (one statement per type) before they are sent, so each
+ * fires once per task and due date even when runs overlap. Every run is recorded in automation_runs;
+ * a run that reaches its time budget stops, releases the claims it hasn't sent and is recorded as
+ * partial, and the next run picks up the rest.
+ *
+ * Settings (environment):
+ *   TASK_DUE_SOON_HOURS        - "Due soon" window before the due date (default 24)
+ *   TASK_ESCALATION_DAYS       - Days overdue before the manager is notified (default 3)
+ *   TASK_REMINDER_LOOKBACK_DAYS - Tasks due longer ago than this get no reminders, so old backlogs
+ *                                 aren't notified all at once (default 7, at least TASK_ESCALATION_DAYS + 1)
+ */
+
+import pool from '../lib/db';
+import * as notificationsService from './notifications.service';
+import * as automationRunsService from './automation-runs.service';
+
+export const TASK_REMINDER_TYPES = ['task_due_soon', 'task_overdue', 'task_overdue_escalation'] as const;
+
+export type TaskReminderType = typeof TASK_REMINDER_TYPES[number];
+
+export interface TaskReminderOptions {
+  dueSoonHours: number;
+  escalateAfterDays: number;
+  lookbackDays: number;
+}
+
+export interface TaskReminderSummary {
+  automation_run_id: number;
+  due_soon: number; // Reminders sent per type
+  overdue: number;
+  escalated: number;
+  failed: number; // Notifications that could not be created; they are retried on the next run
+  partial: boolean; // The time budget ran out; the next run sends the rest
+}
+
+// Most reminders of one type claimed per run
+const MAX_REMINDERS_PER_TYPE = 500;
+
+// Stops sending well inside the 30 second serverless request timeout
+const RUN_TIME_BUDGET_MS = 20000;
+
+// A run still 'running' after this long was cut off before it could record its outcome
+const STALE_RUN_MINUTES = 10;
+
+type ClaimedReminder = {
+  id: number;
+  title: string;
+  due_date: Date;
+  lead_id: number | null;
+  assigned_to_email: string;
+  manager_email: string | null;
+};
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the reminder settings from the environment
+ */
+export function getTaskReminderOptions(): TaskReminderOptions {
+  const escalateAfterDays = parsePositiveInt(process.env.TASK_ESCALATION_DAYS, 3);
+  return {
+    dueSoonHours: parsePositiveInt(process.env.TASK_DUE_SOON_HOURS, 24),
+    escalateAfterDays,
+    // Escalations need tasks overdue by more than escalateAfterDays
+    lookbackDays: Math.max(parsePositiveInt(process.env.TASK_REMINDER_LOOKBACK_DAYS, 7), escalateAfterDays + 1),
+  };
+}
+
+/**
+ * Which open tasks each reminder type applies to ($1 is the type's window setting)
+ */
+const REMINDER_CONDITIONS: Record<TaskReminderType, string> = {
+  task_due_soon: 't.due_date > NOW() AND t.due_date <= NOW() + make_interval(hours => $1::int)',
+  task_overdue: 't.due_date <= NOW()',
+  task_overdue_escalation: 't.due_date <= NOW() - make_interval(days => $1::int) AND m.email IS NOT NULL',
+};
+
+/**
+ * Who each reminder type goes to (a column of the candidates)
+ */
+const REMINDER_RECIPIENTS: Record<TaskReminderType, string> = {
+  task_due_soon: 'assigned_to_email',
+  task_overdue: 'assigned_to_email',
+  task_overdue_escalation: 'manager_email',
+};
+
+/**
+ * Claims the reminders of one type that are due: open tasks the type applies to, due within the
+ * lookback, that have not had it for their current due date. Tasks another run claims at the
+ * same time are left out.
+ */
+async function claimReminders(
+  type: TaskReminderType,
+  windowSetting: number,
+  lookbackDays: number,
+  runId: number
+): Promise<ClaimedReminder[]> {
+  const result = await pool.query(
+    `
+      WITH candidates AS (
+        SELECT t.id, t.title, t.due_date, t.lead_id, t.assigned_to_email, m.email AS manager_email
+        FROM team_tasks t
+        LEFT JOIN users u ON LOWER(u.email) = LOWER(t.assigned_to_email)
+        LEFT JOIN users m ON LOWER(m.email) = LOWER(u.manager_email) AND m.is_active = true
+        WHERE t.status <> 'done'
+          AND t.due_date IS NOT NULL
+          AND t.due_date > NOW() - make_interval(days => $4::int)
+          AND ${REMINDER_CONDITIONS[type]}
+          AND NOT EXISTS (
+            SELECT 1 FROM task_reminders r
+            WHERE r.task_id = t.id AND r.reminder_type = $2 AND r.due_date = t.due_date
+          )
+        ORDER BY t.due_date ASC, t.id ASC
+        LIMIT $3
+      ),
+      claimed AS (
+        INSERT INTO task_reminders (task_id, reminder_type, due_date, recipient_email, automation_run_id, sent_at)
+        SELECT id, $2, due_date, ${REMINDER_RECIPIENTS[type]}, $5, NOW()
+        FROM candidates
+        ON CONFLICT (task_id, reminder_type, due_date) DO NOTHING
+        RETURNING task_id
+      )
+      SELECT c.*
+      FROM candidates c
+      JOIN claimed ON claimed.task_id = c.id
+      ORDER BY c.due_date ASC, c.id ASC
+    `,
+    [windowSetting, type, MAX_REMINDERS_PER_TYPE, lookbackDays, runId]
+  );
+  return result.rows;
+}
+
+/**
+ * Releases claims this run did not send, so the next run tries them again
+ */
+async function releaseClaims(type: TaskReminderType, runId: number, taskIds: number[]): Promise<void> {
+  if (taskIds.length === 0) {
+    return;
+  }
+  await pool.query(
+    'DELETE FROM task_reminders WHERE reminder_type = $1 AND automation_run_id = $2 AND task_id = ANY($3::int[])',
+    [type, runId, taskIds]
+  );
+}
+
+function formatDueDate(dueDate: Date): string {
+  return new Date(dueDate).toISOString().slice(0, 10);
+}
+
+/**
+ * Who receives a reminder and what it says
+ */
+function buildNotification(type: TaskReminderType, task: ClaimedReminder) {
+  const dueDate = formatDueDate(task.due_date);
+  switch (type) {
+    case 'task_due_soon':
+      return {
+        userEmail: task.assigned_to_email,
+        title: 'Task Due Soon',
+        message: `Your task "${task.title}" is due on ${dueDate}`,
+      };
+    case 'task_overdue':
+      return {
+        userEmail: task.assigned_to_email,
+        title: 'Task Overdue',
+        message: `Your task "${task.title}" was due on ${dueDate}`,
+      };
+    case 'task_overdue_escalation':
+      return {
+        userEmail: task.manager_email!,
+        title: 'Overdue Task Escalated',
+        message: `${task.assigned_to_email}'s task "${task.title}" has been overdue since ${dueDate}`,
+      };
+  }
+}
+
+/**
+ * Sends one claimed reminder
+ *
+ * @returns false if the notification could not be created
+ */
+async function sendReminder(type: TaskReminderType, task: ClaimedReminder): Promise<boolean> {
+  try {
+    await notificationsService.createNotification({
+      ...buildNotification(type, task),
+      type,
+      relatedTaskId: task.id,
+      relatedLeadId: task.lead_id || undefined,
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send ${type} reminder for task ${task.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Send all pending due-soon, overdue and escalation reminders, for up to RUN_TIME_BUDGET_MS
+ *
+ * @param triggeredBy - Recorded on the automation run ('scheduled' | 'manual')
+ * @returns How many reminders of each type were sent, and whether the run stopped early
+ */
+export async function runTaskReminders(
+  triggeredBy: string,
+  options: TaskReminderOptions = getTaskReminderOptions()
+): Promise<TaskReminderSummary> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  await automationRunsService.failStaleAutomationRuns('task_reminders', STALE_RUN_MINUTES);
+  const run = await automationRunsService.startAutomationRun({
+    name: 'task_reminders',
+    type: 'task_reminder',
+    triggeredBy,
+    metadata: {
+      dueSoonHours: options.dueSoonHours,
+      escalateAfterDays: options.escalateAfterDays,
+      lookbackDays: options.lookbackDays,
+    },
+  });
+
+  const sent: Record<TaskReminderType, number> = { task_due_soon: 0, task_overdue: 0, task_overdue_escalation: 0 };
+  let failed = 0;
+  let partial = false;
+
+  try {
+    const windows: Record<TaskReminderType, number> = {
+      task_due_soon: options.dueSoonHours,
+      task_overdue: 0,
+      task_overdue_escalation: options.escalateAfterDays,
+    };
+
+    for (const type of TASK_REMINDER_TYPES) {
+      if (Date.now() >= deadline) {
+        partial = true;
+        break;
+      }
+
+      const claimed = await claimReminders(type, windows[type], options.lookbackDays, run.id);
+      const unsent: number[] = [];
+      for (const task of claimed) {
+        if (Date.now() >= deadline) {
+          partial = true;
+          unsent.push(task.id);
+        } else if (await sendReminder(type, task)) {
+          sent[type]++;
+        } else {
+          failed++;
+          unsent.push(task.id);
+        }
+      }
+      await releaseClaims(type, run.id, unsent);
+    }
+  } catch (error) {
+    await automationRunsService.failAutomationRun(run.id, error);
+    throw error;
+  }
+
+  const summary: TaskReminderSummary = {
+    automation_run_id: run.id,
+    due_soon: sent.task_due_soon,
+    overdue: sent.task_overdue,
+    escalated: sent.task_overdue_escalation,
+    failed,
+    partial,
+  };
+
+  await automationRunsService.completeAutomationRun(run.id, {
+    recordsProcessed: summary.due_soon + summary.overdue + summary.escalated,
+    metadata: { dueSoon: summary.due_soon, overdue: summary.overdue, escalated: summary.escalated, failed, partial },
+  });
+
+  return summary;
+}
@@ -0,0 +1,263 @@
+/**
+ * Task Templates Service
+ *
+ * Handles database operations for task templates: named checklists of tasks that are
+ * applied to a lead or client in one call (e.g. "New client onboarding").
+ */
+
+import pool, { getPoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { PoolClient } from 'pg';
+import type { Task, TaskTemplate, TaskTemplateItem } from '../types/tasks';
+import type {
+  ApplyTaskTemplateInput,
+  CreateTaskTemplateInput,
+  TaskTemplateItemInput,
+  UpdateTaskTemplateInput,
+} from '../validators/task-templates.validator';
+import * as tasksService from './tasks.service';
+
+function mapItemRow(row: any): TaskTemplateItem {
+  return {
+    id: row.id,
+    position: row.position,
+    title: row.title,
+    description: row.description || null,
+    priority: row.priority,
+    due_in_days: row.due_in_days ?? null,
+    recurrence_rule: row.recurrence_rule || null,
+  };
+}
+
+function mapTemplateRow(row: any, items: TaskTemplateItem[]): TaskTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || null,
+    created_by_email: row.created_by_email || null,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+    items,
+  };
+}
+
+/**
+ * Loads the items of the given templates, grouped by template id
+ */
+async function getItemsByTemplate(templateIds: number[]): Promise<Map<number, TaskTemplateItem[]>> {
+  const itemsByTemplate = new Map<number, TaskTemplateItem[]>();
+  if (templateIds.length === 0) {
+    return itemsByTemplate;
+  }
+
+  const result = await pool.query(
+    'SELECT * FROM task_template_items WHERE template_id = ANY($1::int[]) ORDER BY position ASC, id ASC',
+    [templateIds]
+  );
+  for (const row of result.rows) {
+    const items = itemsByTemplate.get(row.template_id) || [];
+    items.push(mapItemRow(row));
+    itemsByTemplate.set(row.template_id, items);
+  }
+  return itemsByTemplate;
+}
+
+/**
+ * List task templates by name, with their items
+ */
+export async function getAllTaskTemplates(): Promise<TaskTemplate[]> {
+  const result = await pool.query('SELECT * FROM task_templates ORDER BY name ASC, id ASC');
+  const itemsByTemplate = await getItemsByTemplate(result.rows.map((row: any) => row.id));
+  return result.rows.map((row: any) => mapTemplateRow(row, itemsByTemplate.get(row.id) || []));
+}
+
+/**
+ * Get a single task template with its items
+ */
+export async function getTaskTemplateById(id: number): Promise<TaskTemplate | null> {
+  const result = await pool.query('SELECT * FROM task_templates WHERE id = $1', [id]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+  const itemsByTemplate = await getItemsByTemplate([id]);
+  return mapTemplateRow(result.rows[0], itemsByTemplate.get(id) || []);
+}
+
+/**
+ * Inserts a template's checklist, numbering items in the order given
+ */
+async function insertItems(client: PoolClient, templateId: number, items: TaskTemplateItemInput[]): Promise<void> {
+  for (const [position, item] of items.entries()) {
+    await client.query(
+      `
+        INSERT INTO task_template_items (template_id, position, title, description, priority, due_in_days, recurrence_rule)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `,
+      [
+        templateId,
+        position,
+        item.title,
+        item.description || null,
+        item.priority,
+        item.dueInDays ?? null,
+        item.recurrenceRule || null,
+      ]
+    );
+  }
+}
+
+/**
+ * Create a task template with its items
+ */
+export async function createTaskTemplate(data: CreateTaskTemplateInput, createdByEmail: string): Promise<TaskTemplate> {
+  const client = await getPoolClient(5000);
+  let templateId: number;
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `
+        INSERT INTO task_templates (name, description, created_by_email, created_at, updated_at)
+        VALUES ($1, $2, $3, NOW(), NOW())
+        RETURNING id
+      `,
+      [data.name, data.description || null, createdByEmail]
+    );
+    templateId = result.rows[0].id;
+    await insertItems(client, templateId, data.items);
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const template = await getTaskTemplateById(templateId);
+  return template!;
+}
+
+/**
+ * Partially update a task template. Sending items replaces the whole checklist.
+ *
+ * @returns The updated template, or null if it doesn't exist
+ */
+export async function updateTaskTemplate(id: number, data: UpdateTaskTemplateInput): Promise<TaskTemplate | null> {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (data.name !== undefined) {
+    updates.push(`name = $${paramCount++}`);
+    values.push(data.name);
+  }
+  if (data.description !== undefined) {
+    updates.push(`description = $${paramCount++}`);
+    values.push(data.description);
+  }
+
+  updates.push('updated_at = NOW()');
+  values.push(id);
+
+  const client = await getPoolClient(5000);
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `UPDATE task_templates SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING id`,
+      values
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (data.items !== undefined) {
+      await client.query('DELETE FROM task_template_items WHERE template_id = $1', [id]);
+      await insertItems(client, id, data.items);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getTaskTemplateById(id);
+}
+
+/**
+ * Delete a task template. Tasks already created from it are kept.
+ *
+ * @returns true if the template was deleted, false if it didn't exist
+ */
+export async function deleteTaskTemplate(id: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM task_templates WHERE id = $1', [id]);
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00.000Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Create the template's tasks on a lead or client, in checklist order.
+ * Each item is due its dueInDays after the start date (default: today).
+ *
+ * @throws Error with statusCode 404 if the template, lead or client does not exist
+ * @returns The created tasks
+ */
+export async function applyTaskTemplate(
+  id: number,
+  params: ApplyTaskTemplateInput,
+  createdByEmail: string
+): Promise<Task[]> {
+  const template = await getTaskTemplateById(id);
+  if (!template) {
+    throw new HttpError(`Task template with ID ${id} not found`, 404);
+  }
+
+  if (params.leadId !== undefined) {
+    const lead = await pool.query('SELECT id FROM leads WHERE id = $1', [params.leadId]);
+    if (lead.rows.length === 0) {
+      throw new HttpError(`Lead with ID ${params.leadId} not found`, 404);
+    }
+  } else {
+    const client = await pool.query(
+      'SELECT id FROM contacts WHERE id = $1 AND is_client = true',
+      [params.clientId]
+    );
+    if (client.rows.length === 0) {
+      throw new HttpError(`Client with ID ${params.clientId} not found`, 404);
+    }
+  }
+
+  const startDate = params.startDate || new Date().toISOString().slice(0, 10);
+  const tasks: Task[] = [];
+
+  for (const item of template.items) {
+    tasks.push(await tasksService.createTask({
+      leadId: params.leadId ?? null,
+      clientId: params.clientId ?? null,
+      assignedToEmail: params.assignedToEmail,
+      title: item.title,
+      description: item.description || undefined,
+      dueDate: item.due_in_days !== null ? addDays(startDate, item.due_in_days) : undefined,
+      priority: item.priority,
+      createdByEmail,
+      recurrenceRule: item.recurrence_rule,
+    }));
+  }
+
+  return tasks;
+}
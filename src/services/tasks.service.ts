@@ -3,17 +3,78 @@
  *
  * Tasks are lightweight follow-ups tied to a lead. This service contains the
  * database logic for listing, creating, and updating tasks.
+ *
+ * Recurring tasks carry a recurrence rule; marking one done creates the next occurrence.
+ * Tasks can have subtasks and blockers; a task with open blockers cannot be marked done.
+ * The task detail adds the checklist and comment thread (task-checklists / task-comments services).
  */
 
-import pool from '../lib/db';
-import type { Task } from '../types/tasks';
+import pool, { PoolClient } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import type { BulkTaskUpdateResult, Task, TaskDetail, TaskGroup, TaskProgress } from '../types/tasks';
 import * as notificationsService from './notifications.service';
+import * as taskChecklistsService from './task-checklists.service';
+import * as taskCommentsService from './task-comments.service';
+import {
+  anchorRecurrenceRule,
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from '../lib/recurrence';
 
 const VALID_STATUS = ['open', 'in_progress', 'done'] as const;
 const VALID_PRIORITY = ['low', 'normal', 'high'] as const;
 
-function mapTaskRow(row: any): Task {
+/**
+ * Task lists select each task with its checklist / subtask counts and blockers
+ */
+const TASK_LIST_QUERY = `
+  SELECT
+    t.*,
+    (SELECT COUNT(*) FROM task_checklist_items ci WHERE ci.task_id = t.id)::int AS checklist_total,
+    (SELECT COUNT(*) FROM task_checklist_items ci WHERE ci.task_id = t.id AND ci.is_done)::int AS checklist_done,
+    (SELECT COUNT(*) FROM team_tasks st WHERE st.parent_task_id = t.id)::int AS subtasks_total,
+    (SELECT COUNT(*) FROM team_tasks st WHERE st.parent_task_id = t.id AND st.status = 'done')::int AS subtasks_done,
+    ARRAY(
+      SELECT d.blocked_by_task_id FROM task_dependencies d WHERE d.task_id = t.id ORDER BY d.blocked_by_task_id
+    ) AS blocked_by,
+    EXISTS (
+      SELECT 1 FROM task_dependencies d
+      JOIN team_tasks b ON b.id = d.blocked_by_task_id
+      WHERE d.task_id = t.id AND b.status <> 'done'
+    ) AS is_blocked
+  FROM team_tasks t
+`;
+
+const TASK_LIST_ORDER = `
+  ORDER BY
+    CASE WHEN t.due_date IS NULL THEN 1 ELSE 0 END,
+    t.due_date ASC,
+    t.created_at DESC
+`;
+
+/**
+ * Works out a task's progress from its checklist and subtask counts
+ */
+function computeProgress(row: any): TaskProgress {
+  const total = row.checklist_total + row.subtasks_total;
+  let percent = 0;
+  if (row.status === 'done') {
+    percent = 100;
+  } else if (total > 0) {
+    percent = Math.round(((row.checklist_done + row.subtasks_done) / total) * 100);
+  }
   return {
+    checklist_total: row.checklist_total,
+    checklist_done: row.checklist_done,
+    subtasks_total: row.subtasks_total,
+    subtasks_done: row.subtasks_done,
+    percent,
+  };
+}
+
+function mapTaskRow(row: any): Task {
+  const task: Task = {
     id: row.id,
     lead_id: row.lead_id,
     client_id: row.client_id ? String(row.client_id) : null, // UUID as string
@@ -22,24 +83,31 @@ function mapTaskRow(row: any): Task {
     due_date: row.due_date ? new Date(row.due_date).toISOString() : null,
     status: row.status,
     priority: row.priority,
+    created_by_email: row.created_by_email || null,
+    completed_at: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    completed_by_email: row.completed_by_email || null,
+    recurrence_rule: row.recurrence_rule || null,
+    recurrence_parent_id: row.recurrence_parent_id || null,
+    recurrence_occurrence: row.recurrence_occurrence ?? 1,
+    parent_task_id: row.parent_task_id || null,
     created_at: new Date(row.created_at).toISOString(),
     updated_at: new Date(row.updated_at).toISOString(),
   };
+
+  // Only the task lists (TASK_LIST_QUERY) select progress and blockers
+  if (row.checklist_total !== undefined) {
+    task.progress = computeProgress(row);
+    task.blocked_by = row.blocked_by || [];
+    task.is_blocked = row.is_blocked;
+  }
+  return task;
 }
 
 /**
  * List all tasks assigned to a specific email (for "My Tasks" view).
  */
 export async function listTasksForUser(email: string): Promise<Task[]> {
-  const query = `
-    SELECT *
-    FROM team_tasks
-    WHERE assigned_to_email = $1
-    ORDER BY
-      CASE WHEN due_date IS NULL THEN 1 ELSE 0 END,
-      due_date ASC,
-      created_at DESC
-  `;
+  const query = `${TASK_LIST_QUERY} WHERE t.assigned_to_email = $1 ${TASK_LIST_ORDER}`;
 
   const result = await pool.query(query, [email]);
   return result.rows.map(mapTaskRow);
@@ -49,15 +117,7 @@ export async function listTasksForUser(email: string): Promise<Task[]> {
  * List all tasks for a given lead.
  */
 export async function listTasksForLead(leadId: number): Promise<Task[]> {
-  const query = `
-    SELECT *
-    FROM team_tasks
-    WHERE lead_id = $1
-    ORDER BY
-      CASE WHEN due_date IS NULL THEN 1 ELSE 0 END,
-      due_date ASC,
-      created_at DESC
-  `;
+  const query = `${TASK_LIST_QUERY} WHERE t.lead_id = $1 ${TASK_LIST_ORDER}`;
 
   const result = await pool.query(query, [leadId]);
   return result.rows.map(mapTaskRow);
@@ -67,20 +127,187 @@ export async function listTasksForLead(leadId: number): Promise<Task[]> {
  * List all tasks for a given client.
  */
 export async function listTasksForClient(clientId: string): Promise<Task[]> {
-  const query = `
-    SELECT *
-    FROM team_tasks
-    WHERE client_id = $1
-    ORDER BY
-      CASE WHEN due_date IS NULL THEN 1 ELSE 0 END,
-      due_date ASC,
-      created_at DESC
-  `;
+  const query = `${TASK_LIST_QUERY} WHERE t.client_id = $1 ${TASK_LIST_ORDER}`;
 
   const result = await pool.query(query, [clientId]);
   return result.rows.map(mapTaskRow);
 }
 
+export type TaskListFilters = {
+  assigneeEmail?: string;
+  statuses?: string[];
+  priorities?: string[];
+  dueFrom?: string; // ISO date or date-time, inclusive
+  dueTo?: string; // ISO date or date-time, inclusive (a bare date covers the whole day)
+  leadId?: number;
+  clientId?: string;
+  overdue?: boolean; // true: past due and not done; false: everything else
+};
+
+/**
+ * Builds the WHERE conditions for the team task board filters
+ * Values are pushed onto the values array so the conditions can reference them by index.
+ */
+function buildTaskFilterConditions(filters: TaskListFilters, values: any[]): string[] {
+  const conditions: string[] = [];
+
+  if (filters.assigneeEmail) {
+    values.push(filters.assigneeEmail);
+    conditions.push(`t.assigned_to_email = $${values.length}`);
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    values.push(filters.statuses);
+    conditions.push(`t.status = ANY($${values.length}::text[])`);
+  }
+  if (filters.priorities && filters.priorities.length > 0) {
+    values.push(filters.priorities);
+    conditions.push(`t.priority = ANY($${values.length}::text[])`);
+  }
+  if (filters.dueFrom) {
+    values.push(filters.dueFrom);
+    conditions.push(`t.due_date >= $${values.length}::timestamptz`);
+  }
+  if (filters.dueTo) {
+    values.push(filters.dueTo);
+    // A bare date (2024-01-31) includes the whole day
+    conditions.push(
+      /^\d{4}-\d{2}-\d{2}$/.test(filters.dueTo)
+        ? `t.due_date < $${values.length}::date + INTERVAL '1 day'`
+        : `t.due_date <= $${values.length}::timestamptz`
+    );
+  }
+  if (filters.leadId) {
+    values.push(filters.leadId);
+    conditions.push(`t.lead_id = $${values.length}`);
+  }
+  if (filters.clientId) {
+    values.push(filters.clientId);
+    conditions.push(`t.client_id = $${values.length}`);
+  }
+  if (filters.overdue === true) {
+    conditions.push(`t.status <> 'done' AND t.due_date < NOW()`);
+  } else if (filters.overdue === false) {
+    conditions.push(`(t.status = 'done' OR t.due_date IS NULL OR t.due_date >= NOW())`);
+  }
+
+  return conditions;
+}
+
+export type TaskGroupBy = 'assignee' | 'status';
+
+const TASK_GROUP_COLUMNS: Record<TaskGroupBy, string> = {
+  assignee: 't.assigned_to_email',
+  status: 't.status',
+};
+
+/**
+ * List tasks across the team (the team task board), soonest due first
+ *
+ * @param limit - Maximum number of tasks returned; total counts every match
+ * @param groupBy - Also count every match per assignee or status (groupCounts)
+ */
+export async function listTasks(
+  filters: TaskListFilters,
+  limit: number,
+  groupBy?: TaskGroupBy
+): Promise<{ tasks: Task[]; total: number; groupCounts?: Map<string, number> }> {
+  const values: any[] = [];
+  const conditions = buildTaskFilterConditions(filters, values);
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const countQuery = groupBy
+    ? `SELECT ${TASK_GROUP_COLUMNS[groupBy]} AS key, COUNT(*)::int AS total FROM team_tasks t ${whereClause} GROUP BY 1`
+    : `SELECT COUNT(*)::int AS total FROM team_tasks t ${whereClause}`;
+
+  const [tasksResult, countResult] = await Promise.all([
+    pool.query(`${TASK_LIST_QUERY} ${whereClause} ${TASK_LIST_ORDER}, t.id DESC LIMIT $${values.length + 1}`, [...values, limit]),
+    pool.query(countQuery, values),
+  ]);
+
+  const tasks = tasksResult.rows.map(mapTaskRow);
+  if (!groupBy) {
+    return { tasks, total: countResult.rows[0].total };
+  }
+  const groupCounts = new Map<string, number>(countResult.rows.map((row: any) => [row.key, row.total]));
+  const total = [...groupCounts.values()].reduce((sum, count) => sum + count, 0);
+  return { tasks, total, groupCounts };
+}
+
+/**
+ * Groups tasks by assignee or status, keeping their order within each group.
+ * Status groups follow the workflow (open, in progress, done); assignee groups are sorted by email.
+ *
+ * @param counts - Matches per group across all pages (listTasks groupCounts); without them a
+ *                 group's count only covers the tasks given
+ */
+export function groupTasks(tasks: Task[], groupBy: TaskGroupBy, counts?: Map<string, number>): TaskGroup[] {
+  const groups = new Map<string, Task[]>();
+  if (groupBy === 'status') {
+    for (const status of VALID_STATUS) {
+      groups.set(status, []);
+    }
+  }
+  // Groups whose tasks are all past the limit still get listed
+  for (const key of counts?.keys() ?? []) {
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+  }
+
+  for (const task of tasks) {
+    const key = groupBy === 'assignee' ? task.assigned_to_email : task.status;
+    const group = groups.get(key) || [];
+    group.push(task);
+    groups.set(key, group);
+  }
+
+  const keys = groupBy === 'assignee' ? [...groups.keys()].sort() : [...groups.keys()];
+  return keys.map((key) => ({ key, count: counts?.get(key) ?? groups.get(key)!.length, tasks: groups.get(key)! }));
+}
+
+/**
+ * List a task's direct subtasks, with their progress.
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+export async function listSubtasks(taskId: number): Promise<Task[]> {
+  await getTaskRow(taskId);
+  const query = `${TASK_LIST_QUERY} WHERE t.parent_task_id = $1 ${TASK_LIST_ORDER}`;
+
+  const result = await pool.query(query, [taskId]);
+  return result.rows.map(mapTaskRow);
+}
+
+/**
+ * Get a single task with its progress, blockers, checklist and comments
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+export async function getTaskDetail(taskId: number): Promise<TaskDetail> {
+  const result = await pool.query(`${TASK_LIST_QUERY} WHERE t.id = $1`, [taskId]);
+  if (result.rows.length === 0) {
+    throw new HttpError(`Task with id ${taskId} does not exist`, 404);
+  }
+
+  const [checklist, comments] = await Promise.all([
+    taskChecklistsService.getChecklistItems(taskId),
+    taskCommentsService.listTaskComments(taskId),
+  ]);
+  return { ...mapTaskRow(result.rows[0]), checklist: checklist || [], comments };
+}
+
+/**
+ * Loads a task's row
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+async function getTaskRow(taskId: number): Promise<any> {
+  const result = await pool.query('SELECT * FROM team_tasks WHERE id = $1', [taskId]);
+  if (result.rows.length === 0) {
+    throw new HttpError(`Task with id ${taskId} does not exist`, 404);
+  }
+  return result.rows[0];
+}
+
 type CreateTaskParams = {
   leadId?: number | null;
   clientId?: string | null;
@@ -89,13 +316,39 @@ type CreateTaskParams = {
   description?: string;
   dueDate?: string | null;
   priority?: string;
+  createdByEmail?: string | null;
+  recurrenceRule?: string | null; // Makes the task recurring; requires a due date
+  recurrenceParentId?: number | null; // Set on generated occurrences
+  recurrenceOccurrence?: number;
+  parentTaskId?: number | null; // Makes the task a subtask (see createSubtask)
+  notifyAssignee?: boolean; // false skips the 'task_assigned' notification (default true)
 };
 
+/**
+ * Validates a recurrence rule and pins monthly rules to the due date's day of the month
+ *
+ * @returns The canonical rule string
+ */
+function normalizeRecurrenceRule(rule: string, dueDate: string | null | undefined): string {
+  const parsed = parseRecurrenceRule(rule);
+  if (!parsed) {
+    throw new Error(`Invalid recurrence rule: ${rule}`);
+  }
+  if (!dueDate) {
+    throw new Error('Recurring tasks need a due date');
+  }
+  return formatRecurrenceRule(anchorRecurrenceRule(parsed, new Date(dueDate)));
+}
+
 /**
  * Create a new task attached to a lead or client.
  * Either leadId or clientId must be provided, but not both.
+ *
+ * @param client - Optional transaction client. The task and its activity are written through it
+ *                 and the assignment notification is left to the caller (notifyTaskAssigned), to be
+ *                 sent once the transaction commits.
  */
-export async function createTask(params: CreateTaskParams): Promise<Task> {
+export async function createTask(params: CreateTaskParams, client?: PoolClient): Promise<Task> {
   // Validate that exactly one of leadId or clientId is provided
   if (!params.leadId && !params.clientId) {
     throw new Error('Either leadId or clientId must be provided');
@@ -107,11 +360,17 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
   const priority = params.priority && VALID_PRIORITY.includes(params.priority as any)
     ? params.priority
     : 'normal';
+  const recurrenceRule = params.recurrenceRule
+    ? normalizeRecurrenceRule(params.recurrenceRule, params.dueDate)
+    : null;
 
   // Try to insert with description, fallback if column doesn't exist
   let query = `
-    INSERT INTO team_tasks (lead_id, client_id, assigned_to_email, title, description, due_date, priority)
-    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    INSERT INTO team_tasks (
+      lead_id, client_id, assigned_to_email, title, description, due_date, priority, created_by_email,
+      recurrence_rule, recurrence_parent_id, recurrence_occurrence, parent_task_id
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
     RETURNING *
   `;
   
@@ -123,16 +382,23 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
     params.description || null,
     params.dueDate || null,
     priority,
+    params.createdByEmail || null,
+    recurrenceRule,
+    params.recurrenceParentId || null,
+    params.recurrenceOccurrence ?? 1,
+    params.parentTaskId || null,
   ];
 
   // clientId is a UUID string from contacts table
   // team_tasks.client_id is UUID type to match contacts.id
+  const db = client || pool;
   let result;
   try {
-    result = await pool.query(query, values);
+    result = await db.query(query, values);
   } catch (error: any) {
     // If description column doesn't exist, fallback to query without it
-    if (error.message && error.message.includes('column') && error.message.includes('description')) {
+    // (not inside a transaction: the failed insert has already aborted it)
+    if (!client && error.message && error.message.includes('column') && error.message.includes('description')) {
       query = `
         INSERT INTO team_tasks (lead_id, client_id, assigned_to_email, title, due_date, priority)
         VALUES ($1, $2, $3, $4, $5, $6)
@@ -146,7 +412,7 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
         params.dueDate || null,
         priority,
       ];
-      result = await pool.query(query, values);
+      result = await db.query(query, values);
     } else {
       throw error;
     }
@@ -162,7 +428,7 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
         INSERT INTO activities (lead_id, activity_type, description, created_at)
         VALUES ($1, 'task', $2, NOW())
       `;
-      await pool.query(activityQuery, [
+      await db.query(activityQuery, [
         params.leadId,
         `Task created: "${params.title}"${params.description ? ` - ${params.description}` : ''}`,
       ]);
@@ -172,7 +438,7 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
       const clientQuery = `
         SELECT id, lead_id FROM contacts WHERE id = $1 AND is_client = true
       `;
-      const clientResult = await pool.query(clientQuery, [params.clientId]);
+      const clientResult = await db.query(clientQuery, [params.clientId]);
       
       if (clientResult.rows.length > 0) {
         const client = clientResult.rows[0];
@@ -182,7 +448,7 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
             INSERT INTO activities (lead_id, activity_type, description, created_at)
             VALUES ($1, 'task', $2, NOW())
           `;
-          await pool.query(activityQuery, [
+          await db.query(activityQuery, [
             client.lead_id,
             `Task created: "${params.title}"${params.description ? ` - ${params.description}` : ''}`,
           ]);
@@ -192,7 +458,7 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
             INSERT INTO activities (contact_id, activity_type, description, created_at)
             VALUES ($1, 'task', $2, NOW())
           `;
-          await pool.query(activityQuery, [
+          await db.query(activityQuery, [
             params.clientId, // UUID string
             `Task created: "${params.title}"${params.description ? ` - ${params.description}` : ''}`,
           ]);
@@ -203,62 +469,190 @@ export async function createTask(params: CreateTaskParams): Promise<Task> {
           INSERT INTO activities (contact_id, activity_type, description, created_at)
           VALUES ($1, 'task', $2, NOW())
         `;
-        await pool.query(activityQuery, [
+        await db.query(activityQuery, [
           params.clientId, // UUID string
           `Task created: "${params.title}"${params.description ? ` - ${params.description}` : ''}`,
         ]);
       }
     }
   } catch (error) {
+    // A failed statement aborts the caller's transaction, so it can't be skipped there
+    if (client) {
+      throw error;
+    }
     // Log error but don't fail task creation if activity creation fails
     console.error('Failed to create activity for task:', error);
   }
 
-  // Create notification for the assigned user
+  if (!client && params.notifyAssignee !== false) {
+    await notifyTaskAssigned(task);
+  }
+
+  return task;
+}
+
+/**
+ * Tell a task's assignee about it. Failures are logged, not thrown.
+ */
+export async function notifyTaskAssigned(task: Task): Promise<void> {
   try {
     await notificationsService.createNotification({
-      userEmail: params.assignedToEmail,
+      userEmail: task.assigned_to_email,
       type: 'task_assigned',
       title: 'New Task Assigned',
-      message: `You have been assigned a new task: "${params.title}"`,
+      message: `You have been assigned a new task: "${task.title}"`,
       relatedTaskId: task.id,
-      relatedLeadId: params.leadId || undefined,
+      relatedLeadId: task.lead_id || undefined,
     });
   } catch (error) {
     // Log error but don't fail task creation if notification fails
     console.error('Failed to create notification for task:', error);
   }
+}
 
-  return task;
+/**
+ * Create a subtask under a task. The subtask belongs to the parent's lead or client.
+ *
+ * @throws Error with statusCode 404 if the parent task does not exist
+ */
+export async function createSubtask(
+  parentTaskId: number,
+  params: Omit<CreateTaskParams, 'leadId' | 'clientId' | 'parentTaskId'>
+): Promise<Task> {
+  const parent = await getTaskRow(parentTaskId);
+  return createTask({
+    ...params,
+    leadId: parent.lead_id,
+    clientId: parent.client_id ? String(parent.client_id) : null,
+    parentTaskId,
+  });
 }
 
 type UpdateTaskStatusParams = {
   taskId: number;
   status: string;
+  changedByEmail?: string | null;
 };
 
+/**
+ * SET clauses that stamp completed_at / completed_by_email when a task moves to 'done'
+ * (keeping the original stamp if it already was) and clear them when it is reopened.
+ */
+function completionFields(statusParam: string, changedByParam: string): string[] {
+  return [
+    `completed_at = CASE WHEN ${statusParam} = 'done' THEN COALESCE(completed_at, NOW()) ELSE NULL END`,
+    `completed_by_email = CASE WHEN ${statusParam} = 'done' THEN COALESCE(completed_by_email, ${changedByParam}) ELSE NULL END`,
+  ];
+}
+
+/**
+ * Creates the next occurrence of a recurring task that was just marked done.
+ * Nothing is created when the series is over or the next occurrence already exists
+ * (the task was completed before, reopened and completed again).
+ *
+ * @param row - The completed task's database row
+ * @param notifyAssignee - false when the caller tells the assignee itself (bulk updates)
+ * @returns The new task, or null
+ */
+async function createNextOccurrence(
+  row: any,
+  changedByEmail: string | null | undefined,
+  notifyAssignee = true
+): Promise<Task | null> {
+  const rule = row.recurrence_rule ? parseRecurrenceRule(row.recurrence_rule) : null;
+  if (row.status !== 'done' || !rule) {
+    return null;
+  }
+
+  const existing = await pool.query('SELECT id FROM team_tasks WHERE recurrence_parent_id = $1', [row.id]);
+  if (existing.rows.length > 0) {
+    return null;
+  }
+
+  // Tasks whose due date was cleared continue from the completion date
+  const occurrence = row.recurrence_occurrence ?? 1;
+  const dueDate = nextOccurrence(rule, row.due_date ? new Date(row.due_date) : new Date(), occurrence);
+  if (!dueDate) {
+    return null;
+  }
+
+  try {
+    return await createTask({
+      leadId: row.lead_id,
+      clientId: row.client_id ? String(row.client_id) : null,
+      assignedToEmail: row.assigned_to_email,
+      title: row.title,
+      description: row.description || undefined,
+      dueDate: dueDate.toISOString(),
+      priority: row.priority,
+      createdByEmail: changedByEmail || row.created_by_email,
+      recurrenceRule: row.recurrence_rule,
+      recurrenceParentId: row.id,
+      recurrenceOccurrence: occurrence + 1,
+      parentTaskId: row.parent_task_id,
+      notifyAssignee,
+    });
+  } catch (error: any) {
+    // A concurrent completion created it first (unique recurrence_parent_id)
+    if (error.code === '23505') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refuses to complete a task while any of its blockers is not done
+ *
+ * @throws Error with statusCode 409 listing the open blockers
+ */
+async function assertNotBlocked(taskId: number): Promise<void> {
+  const result = await pool.query(
+    `
+      SELECT b.id, b.title
+      FROM task_dependencies d
+      JOIN team_tasks b ON b.id = d.blocked_by_task_id
+      WHERE d.task_id = $1 AND b.status <> 'done'
+      ORDER BY b.id
+    `,
+    [taskId]
+  );
+  if (result.rows.length > 0) {
+    const blockers = result.rows.map((row: any) => `#${row.id} "${row.title}"`).join(', ');
+    throw new HttpError(`Task is blocked by open tasks: ${blockers}`, 409);
+  }
+}
+
 /**
  * Update the status (open/in_progress/done) for a task.
+ * Marking a recurring task done creates its next occurrence (returned as next_occurrence).
+ *
+ * @throws Error with statusCode 409 when marking a task done while it has open blockers
  */
 export async function updateTaskStatus(params: UpdateTaskStatusParams): Promise<Task> {
   if (!VALID_STATUS.includes(params.status as any)) {
     throw new Error(`Invalid status: ${params.status}`);
   }
+  if (params.status === 'done') {
+    await assertNotBlocked(params.taskId);
+  }
 
   const query = `
     UPDATE team_tasks
-    SET status = $1, updated_at = NOW()
+    SET status = $1, ${completionFields('$1', '$3').join(', ')}, updated_at = NOW()
     WHERE id = $2
     RETURNING *
   `;
 
-  const result = await pool.query(query, [params.status, params.taskId]);
+  const result = await pool.query(query, [params.status, params.taskId, params.changedByEmail || null]);
 
   if (result.rows.length === 0) {
     throw new Error(`Task with id ${params.taskId} does not exist`);
   }
 
-  return mapTaskRow(result.rows[0]);
+  const task = mapTaskRow(result.rows[0]);
+  const next = await createNextOccurrence(result.rows[0], params.changedByEmail);
+  return next ? { ...task, next_occurrence: next } : task;
 }
 
 type UpdateTaskParams = {
@@ -269,11 +663,16 @@ type UpdateTaskParams = {
   dueDate?: string | null;
   status?: string;
   priority?: string;
+  recurrenceRule?: string | null; // null stops the task from recurring
+  changedByEmail?: string | null;
 };
 
 /**
  * Partially updates a task. Only provided fields are changed.
- * Helpful when editing title, assignee, due date, status, or priority.
+ * Helpful when editing title, assignee, due date, status, priority, or recurrence.
+ * Marking a recurring task done creates its next occurrence, like updateTaskStatus.
+ *
+ * @throws Error with statusCode 409 when marking a task done while it has open blockers
  */
 export async function updateTask(params: UpdateTaskParams): Promise<Task> {
   const fields: string[] = [];
@@ -300,8 +699,13 @@ export async function updateTask(params: UpdateTaskParams): Promise<Task> {
     if (!VALID_STATUS.includes(params.status as any)) {
       throw new Error(`Invalid status: ${params.status}`);
     }
-    fields.push(`status = $${index++}`);
-    values.push(params.status);
+    if (params.status === 'done') {
+      await assertNotBlocked(params.taskId);
+    }
+    const statusParam = `$${index++}`;
+    const changedByParam = `$${index++}`;
+    fields.push(`status = ${statusParam}`, ...completionFields(statusParam, changedByParam));
+    values.push(params.status, params.changedByEmail || null);
   }
   if (params.priority !== undefined) {
     if (!VALID_PRIORITY.includes(params.priority as any)) {
@@ -310,6 +714,20 @@ export async function updateTask(params: UpdateTaskParams): Promise<Task> {
     fields.push(`priority = $${index++}`);
     values.push(params.priority);
   }
+  if (params.recurrenceRule !== undefined) {
+    let recurrenceRule: string | null = null;
+    if (params.recurrenceRule) {
+      // Anchor to the new due date if one is set in the same update, otherwise the stored one
+      let dueDate = params.dueDate;
+      if (dueDate === undefined) {
+        const current = await pool.query('SELECT due_date FROM team_tasks WHERE id = $1', [params.taskId]);
+        dueDate = current.rows[0]?.due_date ? new Date(current.rows[0].due_date).toISOString() : null;
+      }
+      recurrenceRule = normalizeRecurrenceRule(params.recurrenceRule, dueDate);
+    }
+    fields.push(`recurrence_rule = $${index++}`);
+    values.push(recurrenceRule);
+  }
 
   if (fields.length === 0) {
     throw new Error('At least one field must be provided for update');
@@ -332,7 +750,11 @@ export async function updateTask(params: UpdateTaskParams): Promise<Task> {
     throw new Error(`Task with id ${params.taskId} does not exist`);
   }
 
-  const task = mapTaskRow(result.rows[0]);
+  const updated = mapTaskRow(result.rows[0]);
+  const next = params.status !== undefined
+    ? await createNextOccurrence(result.rows[0], params.changedByEmail)
+    : null;
+  const task: Task = next ? { ...updated, next_occurrence: next } : updated;
 
   // Create notification for task update
   // Notify the assignee (new assignee if changed, otherwise current assignee)
@@ -395,3 +817,267 @@ export async function updateTask(params: UpdateTaskParams): Promise<Task> {
   return task;
 }
 
+/**
+ * List the tasks blocking a task, with their progress.
+ *
+ * @throws Error with statusCode 404 if the task does not exist
+ */
+export async function listTaskBlockers(taskId: number): Promise<Task[]> {
+  await getTaskRow(taskId);
+  const query = `
+    ${TASK_LIST_QUERY}
+    WHERE t.id IN (SELECT blocked_by_task_id FROM task_dependencies WHERE task_id = $1)
+    ${TASK_LIST_ORDER}
+  `;
+
+  const result = await pool.query(query, [taskId]);
+  return result.rows.map(mapTaskRow);
+}
+
+/**
+ * Make a task blocked by another task. Adding an existing dependency again does nothing.
+ *
+ * @throws Error with statusCode 400 if a task would block itself,
+ *         404 if either task does not exist,
+ *         409 if the dependency would create a cycle
+ * @returns The task's blockers after the change
+ */
+export async function addTaskDependency(
+  taskId: number,
+  blockedByTaskId: number,
+  createdByEmail: string | null
+): Promise<Task[]> {
+  if (taskId === blockedByTaskId) {
+    throw new HttpError('A task cannot block itself', 400);
+  }
+  await getTaskRow(taskId);
+  await getTaskRow(blockedByTaskId);
+
+  // The blocker must not already wait on this task, directly or through other tasks
+  const cycle = await pool.query(
+    `
+      WITH RECURSIVE chain AS (
+        SELECT blocked_by_task_id AS id FROM task_dependencies WHERE task_id = $1
+        UNION
+        SELECT d.blocked_by_task_id FROM task_dependencies d JOIN chain c ON d.task_id = c.id
+      )
+      SELECT 1 FROM chain WHERE id = $2
+    `,
+    [blockedByTaskId, taskId]
+  );
+  if (cycle.rows.length > 0) {
+    throw new HttpError(`Task ${blockedByTaskId} already depends on task ${taskId}`, 409);
+  }
+
+  await pool.query(
+    `
+      INSERT INTO task_dependencies (task_id, blocked_by_task_id, created_by_email, created_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (task_id, blocked_by_task_id) DO NOTHING
+    `,
+    [taskId, blockedByTaskId, createdByEmail]
+  );
+
+  return listTaskBlockers(taskId);
+}
+
+/**
+ * Remove a dependency between two tasks
+ *
+ * @returns true if the dependency was removed, false if it didn't exist
+ */
+export async function removeTaskDependency(taskId: number, blockedByTaskId: number): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM task_dependencies WHERE task_id = $1 AND blocked_by_task_id = $2',
+    [taskId, blockedByTaskId]
+  );
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+type BulkTaskChanges = {
+  assignedToEmail?: string;
+  priority?: string;
+  dueDate?: string | null;
+  status?: string;
+};
+
+/**
+ * Describes bulk changes from the point of view of a task's (new) assignee
+ */
+function describeBulkChanges(changes: BulkTaskChanges): string {
+  const parts: string[] = [];
+  if (changes.assignedToEmail !== undefined) {
+    parts.push('assigned to you');
+  }
+  if (changes.priority !== undefined) {
+    parts.push(`priority ${changes.priority}`);
+  }
+  if (changes.dueDate !== undefined) {
+    parts.push(changes.dueDate ? `due ${changes.dueDate.slice(0, 10)}` : 'due date removed');
+  }
+  if (changes.status !== undefined) {
+    parts.push(changes.status === 'done' ? 'marked done' : `status ${changes.status.replace('_', ' ')}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Lists task titles for a notification, e.g. "Call Acme", "Send quote" and 3 more
+ * (or "Call Acme" due 2024-06-10, ... with showDueDate)
+ */
+function formatTaskTitles(tasks: Task[], showDueDate = false): string {
+  const shown = tasks
+    .slice(0, 5)
+    .map((task) => `"${task.title}"${showDueDate && task.due_date ? ` due ${task.due_date.slice(0, 10)}` : ''}`)
+    .join(', ');
+  return tasks.length > 5 ? `${shown} and ${tasks.length - 5} more` : shown;
+}
+
+/**
+ * Apply the same changes to many tasks at once: reassign, reprioritize, reschedule or close.
+ *
+ * Tasks that don't exist are skipped, and so are tasks with open blockers when closing.
+ * Closing recurring tasks creates their next occurrences. Instead of one notification per
+ * task (or new occurrence), every affected assignee (including the previous assignee of
+ * reassigned tasks) gets one notification listing their tasks and new occurrences.
+ */
+export async function bulkUpdateTasks(
+  taskIds: number[],
+  changes: BulkTaskChanges,
+  changedByEmail: string
+): Promise<BulkTaskUpdateResult> {
+  const existing = await pool.query(
+    'SELECT id, assigned_to_email FROM team_tasks WHERE id = ANY($1::int[])',
+    [taskIds]
+  );
+  const previousAssignees = new Map<number, string>(
+    existing.rows.map((row: any) => [row.id, row.assigned_to_email])
+  );
+  const skipped: BulkTaskUpdateResult['skipped'] = taskIds
+    .filter((id) => !previousAssignees.has(id))
+    .map((id) => ({ id, reason: 'not_found' as const }));
+  let ids = taskIds.filter((id) => previousAssignees.has(id));
+
+  if (changes.status === 'done' && ids.length > 0) {
+    const blocked = await pool.query(
+      `
+        SELECT DISTINCT d.task_id
+        FROM task_dependencies d
+        JOIN team_tasks b ON b.id = d.blocked_by_task_id
+        WHERE d.task_id = ANY($1::int[]) AND b.status <> 'done'
+      `,
+      [ids]
+    );
+    const blockedIds = new Set<number>(blocked.rows.map((row: any) => row.task_id));
+    skipped.push(...ids.filter((id) => blockedIds.has(id)).map((id) => ({ id, reason: 'blocked' as const })));
+    ids = ids.filter((id) => !blockedIds.has(id));
+  }
+
+  if (ids.length === 0) {
+    return { updated: [], skipped, notified: [] };
+  }
+
+  const fields: string[] = [];
+  const values: any[] = [];
+  let index = 1;
+
+  if (changes.assignedToEmail !== undefined) {
+    fields.push(`assigned_to_email = $${index++}`);
+    values.push(changes.assignedToEmail);
+  }
+  if (changes.priority !== undefined) {
+    fields.push(`priority = $${index++}`);
+    values.push(changes.priority);
+  }
+  if (changes.dueDate !== undefined) {
+    fields.push(`due_date = $${index++}`);
+    values.push(changes.dueDate || null);
+  }
+  if (changes.status !== undefined) {
+    const statusParam = `$${index++}`;
+    const changedByParam = `$${index++}`;
+    fields.push(`status = ${statusParam}`, ...completionFields(statusParam, changedByParam));
+    values.push(changes.status, changedByEmail);
+  }
+  fields.push('updated_at = NOW()');
+  values.push(ids);
+
+  const result = await pool.query(
+    `
+      UPDATE team_tasks
+      SET ${fields.join(', ')}
+      WHERE id = ANY($${index}::int[])
+      RETURNING *
+    `,
+    values
+  );
+
+  // Keep the order the tasks were given in
+  const rowsById = new Map<number, any>(result.rows.map((row: any) => [row.id, row]));
+  const updated: Task[] = [];
+  for (const id of ids) {
+    const row = rowsById.get(id);
+    if (!row) continue;
+    const task = mapTaskRow(row);
+    const next = await createNextOccurrence(row, changedByEmail, false);
+    updated.push(next ? { ...task, next_occurrence: next } : task);
+  }
+
+  // One notification per affected assignee
+  const tasksByAssignee = new Map<string, Task[]>();
+  const reassignedAway = new Map<string, Task[]>();
+  for (const task of updated) {
+    tasksByAssignee.set(task.assigned_to_email, [...(tasksByAssignee.get(task.assigned_to_email) || []), task]);
+    const previous = previousAssignees.get(task.id);
+    if (previous && previous !== task.assigned_to_email) {
+      reassignedAway.set(previous, [...(reassignedAway.get(previous) || []), task]);
+    }
+  }
+
+  const changeSummary = describeBulkChanges(changes);
+  const notified: string[] = [];
+  for (const email of new Set([...tasksByAssignee.keys(), ...reassignedAway.keys()])) {
+    const assigned = tasksByAssignee.get(email) || [];
+    const removed = reassignedAway.get(email) || [];
+    const lines: string[] = [];
+    const mentioned: Task[] = [];
+    if (assigned.length > 0) {
+      // Tasks this person already had are not "assigned to you"
+      const summary = changes.assignedToEmail !== undefined && assigned.every((task) => previousAssignees.get(task.id) === email)
+        ? describeBulkChanges({ ...changes, assignedToEmail: undefined })
+        : changeSummary;
+      if (summary) {
+        lines.push(`${changedByEmail} updated ${assigned.length} of your tasks (${summary}): ${formatTaskTitles(assigned)}.`);
+        mentioned.push(...assigned);
+      }
+      const occurrences = assigned.flatMap((task) => (task.next_occurrence ? [task.next_occurrence] : []));
+      if (occurrences.length > 0) {
+        lines.push(`Next occurrences created: ${formatTaskTitles(occurrences, true)}.`);
+        mentioned.push(...occurrences);
+      }
+    }
+    if (removed.length > 0) {
+      lines.push(`${changedByEmail} reassigned ${removed.length} of your tasks to ${changes.assignedToEmail}: ${formatTaskTitles(removed)}.`);
+      mentioned.push(...removed);
+    }
+    if (lines.length === 0) {
+      continue;
+    }
+
+    try {
+      await notificationsService.createNotification({
+        userEmail: email,
+        type: 'tasks_bulk_updated',
+        title: 'Tasks Updated',
+        message: lines.join(' '),
+        relatedTaskId: mentioned.length === 1 ? mentioned[0].id : undefined,
+      });
+      notified.push(email);
+    } catch (error) {
+      // Log error but don't fail the update if a notification fails
+      console.error('Failed to create bulk update notification:', error);
+    }
+  }
+
+  return { updated, skipped, notified };
+}
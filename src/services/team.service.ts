@@ -13,6 +13,7 @@ export interface TeamMember {
   name: string;
   role: string;
   is_active: boolean;
+  manager_email?: string | null; // Receives escalations for this member's overdue tasks
   created_at: string;
   updated_at: string;
 }
@@ -24,6 +25,7 @@ function mapTeamMemberRow(row: any): TeamMember {
     name: row.name,
     role: row.role,
     is_active: row.is_active,
+    manager_email: row.manager_email || null,
     created_at: new Date(row.created_at).toISOString(),
     updated_at: new Date(row.updated_at).toISOString(),
   };
@@ -325,6 +327,7 @@ export async function updateTeamMember(
     name?: string;
     role?: string;
     is_active?: boolean;
+    manager_email?: string | null;
   }
 ): Promise<TeamMember | null> {
   const updates: string[] = [];
@@ -343,6 +346,10 @@ export async function updateTeamMember(
     updates.push(`is_active = $${paramCount++}`);
     values.push(data.is_active);
   }
+  if (data.manager_email !== undefined) {
+    updates.push(`manager_email = $${paramCount++}`);
+    values.push(data.manager_email);
+  }
 
   if (updates.length === 0) {
     return getTeamMemberById(id);
@@ -0,0 +1,356 @@
+/**
+ * Timeline Service
+ *
+ * Builds the merged, newest-first feed of events for a lead or client from the tables
+ * that record them: activities, cold_calls, onsite_visits, team_tasks, task_comments,
+ * deal_stage_history, lead_stage_history, client_project_files, task_attachments and chat_messages.
+ *
+ * A client's feed also includes the events of the lead it was converted from (contacts.lead_id).
+ * Chat messages appear when they mention the record as #lead-<id> or #client-<id>, and only
+ * to the two people in the conversation.
+ */
+
+import { queryWithTimeout } from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { encodeCursor, decodeCursor } from '../lib/cursor';
+import type { TimelineEvent, TimelineEventType, TimelinePage } from '../types/timeline';
+
+/**
+ * What the timeline is for: a lead (serial id) or a client (contact UUID)
+ */
+export type TimelineTarget =
+  | { type: 'lead'; id: number }
+  | { type: 'client'; id: string };
+
+export interface TimelineOptions {
+  types: TimelineEventType[];
+  limit: number;
+  cursor?: string; // nextCursor from the previous page
+  viewerEmail: string; // Chat mentions are only shown to the sender and receiver
+}
+
+/**
+ * One SELECT per source table. Each returns the columns event_id, type, actor, occurred_at and payload (in that order),
+ * reading the record's ids from the scope CTE (lead_id, client_id, viewer_email, mention_pattern).
+ * TIMESTAMP columns hold UTC, so they are converted with AT TIME ZONE 'UTC'.
+ */
+const TIMELINE_SOURCES: Array<{ types: TimelineEventType[]; sql: string }> = [
+  {
+    // Task-created activities are skipped; those tasks come from team_tasks below
+    types: ['activity', 'note'],
+    sql: `
+      SELECT
+        'activity:' || a.id,
+        CASE WHEN a.activity_type = 'note' THEN 'note' ELSE 'activity' END,
+        NULL::varchar,
+        a.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object('id', a.id, 'activity_type', a.activity_type, 'description', a.description)
+      FROM activities a, scope s
+      WHERE (a.lead_id = s.lead_id OR a.contact_id::text = s.client_id)
+        AND a.activity_type <> 'task'
+    `,
+  },
+  {
+    types: ['cold_call'],
+    sql: `
+      SELECT
+        'cold_call:' || cc.id,
+        'cold_call',
+        cc.caller_email,
+        cc.call_date AT TIME ZONE 'UTC',
+        jsonb_build_object(
+          'id', cc.id, 'disposition', cc.disposition, 'disposition_label', cd.label, 'outcome', cc.outcome,
+          'duration', cc.duration, 'next_callback_at', cc.next_callback_at, 'notes', cc.notes
+        )
+      FROM cold_calls cc
+      CROSS JOIN scope s
+      LEFT JOIN call_dispositions cd ON cd.key = cc.disposition
+      WHERE cc.lead_id = s.lead_id
+    `,
+  },
+  {
+    types: ['onsite_visit'],
+    sql: `
+      SELECT
+        'onsite_visit:' || v.id,
+        'onsite_visit',
+        v.assigned_to_email,
+        v.visit_date AT TIME ZONE 'UTC',
+        jsonb_build_object('id', v.id, 'visit_type', v.visit_type, 'status', v.status, 'address', v.address, 'notes', v.notes)
+      FROM onsite_visits v, scope s
+      WHERE v.lead_id = s.lead_id
+    `,
+  },
+  {
+    types: ['task_created'],
+    sql: `
+      SELECT
+        'task_created:' || t.id,
+        'task_created',
+        t.created_by_email,
+        t.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object(
+          'id', t.id, 'title', t.title, 'assigned_to_email', t.assigned_to_email,
+          'due_date', t.due_date AT TIME ZONE 'UTC', 'priority', t.priority, 'status', t.status
+        )
+      FROM team_tasks t, scope s
+      WHERE t.lead_id = s.lead_id OR t.client_id::text = s.client_id
+    `,
+  },
+  {
+    types: ['task_completed'],
+    sql: `
+      SELECT
+        'task_completed:' || t.id,
+        'task_completed',
+        t.completed_by_email,
+        t.completed_at,
+        jsonb_build_object('id', t.id, 'title', t.title, 'assigned_to_email', t.assigned_to_email)
+      FROM team_tasks t, scope s
+      WHERE (t.lead_id = s.lead_id OR t.client_id::text = s.client_id)
+        AND t.completed_at IS NOT NULL
+    `,
+  },
+  {
+    types: ['task_comment'],
+    sql: `
+      SELECT
+        'task_comment:' || tc.id,
+        'task_comment',
+        tc.author_email,
+        tc.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object(
+          'id', tc.id, 'author_email', tc.author_email, 'body', tc.body, 'mentions', tc.mentions,
+          'task_id', t.id, 'task_title', t.title
+        )
+      FROM task_comments tc
+      JOIN team_tasks t ON t.id = tc.task_id, scope s
+      WHERE t.lead_id = s.lead_id OR t.client_id::text = s.client_id
+    `,
+  },
+  {
+    // The first history row of a deal is the stage it was created in
+    types: ['deal_created', 'deal_stage_changed'],
+    sql: `
+      SELECT
+        'deal_stage:' || h.id,
+        CASE WHEN h.from_stage IS NULL THEN 'deal_created' ELSE 'deal_stage_changed' END,
+        h.changed_by_email,
+        h.changed_at,
+        jsonb_build_object(
+          'deal_id', d.id, 'title', d.title, 'deal_value', d.deal_value,
+          'from_stage', h.from_stage, 'to_stage', h.to_stage
+        )
+      FROM deal_stage_history h
+      JOIN deals d ON d.id = h.deal_id, scope s
+      WHERE d.lead_id = s.lead_id
+    `,
+  },
+  {
+    // Initial values (from_value NULL) are the lead's creation, not a change
+    types: ['lead_stage_changed'],
+    sql: `
+      SELECT
+        'lead_stage:' || h.id,
+        'lead_stage_changed',
+        h.changed_by_email,
+        h.changed_at,
+        jsonb_build_object('field', h.field, 'from_value', h.from_value, 'to_value', h.to_value)
+      FROM lead_stage_history h, scope s
+      WHERE h.lead_id = s.lead_id
+        AND h.from_value IS NOT NULL
+    `,
+  },
+  {
+    types: ['file_uploaded'],
+    sql: `
+      SELECT
+        'client_file:' || f.id,
+        'file_uploaded',
+        f.uploaded_by,
+        f.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object('id', f.id, 'original_name', f.original_name, 'file_size', f.file_size, 'mime_type', f.mime_type)
+      FROM client_project_files f, scope s
+      WHERE f.client_id = s.client_id
+      UNION ALL
+      SELECT
+        'task_attachment:' || ta.id,
+        'file_uploaded',
+        ta.uploaded_by,
+        ta.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object(
+          'id', ta.id, 'original_name', ta.original_name, 'file_size', ta.file_size, 'mime_type', ta.mime_type,
+          'task_id', t.id, 'task_title', t.title
+        )
+      FROM task_attachments ta
+      JOIN team_tasks t ON t.id = ta.task_id, scope s
+      WHERE t.lead_id = s.lead_id OR t.client_id::text = s.client_id
+    `,
+  },
+  {
+    types: ['chat_mention'],
+    sql: `
+      SELECT
+        'chat_message:' || m.id,
+        'chat_mention',
+        m.sender_email,
+        m.created_at AT TIME ZONE 'UTC',
+        jsonb_build_object('id', m.id, 'sender_email', m.sender_email, 'receiver_email', m.receiver_email, 'message', m.message)
+      FROM chat_messages m, scope s
+      WHERE (m.sender_email = s.viewer_email OR m.receiver_email = s.viewer_email)
+        AND m.message ~* s.mention_pattern
+    `,
+  },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex (Postgres ~* syntax) matching chat mentions of the lead and/or client, e.g. #lead-42
+ */
+export function mentionPattern(leadId: number | null, clientId: string | null): string | null {
+  const mentions = [
+    ...(leadId !== null ? [`lead-${leadId}`] : []),
+    ...(clientId !== null ? [`client-${escapeRegExp(clientId)}`] : []),
+  ];
+  return mentions.length > 0 ? `#(${mentions.join('|')})\\M` : null;
+}
+
+/**
+ * One-line description of an event, built from its payload
+ */
+export function summarizeEvent(type: TimelineEventType, payload: Record<string, any>): string {
+  switch (type) {
+    case 'activity':
+      return payload.description || `${payload.activity_type} logged`;
+    case 'note':
+      return payload.description || 'Note added';
+    case 'cold_call': {
+      const result = payload.disposition_label || payload.outcome;
+      return result ? `Cold call: ${result}` : 'Cold call';
+    }
+    case 'onsite_visit':
+      return `${payload.visit_type ? `${payload.visit_type} visit` : 'Onsite visit'} (${payload.status || 'scheduled'})`;
+    case 'task_created':
+      return `Task created: "${payload.title}"`;
+    case 'task_completed':
+      return `Task completed: "${payload.title}"`;
+    case 'task_comment':
+      return `${payload.author_email} commented on task "${payload.task_title}"`;
+    case 'deal_created':
+      return `Deal created: "${payload.title}" in ${payload.to_stage}`;
+    case 'deal_stage_changed':
+      return `Deal "${payload.title}" moved from ${payload.from_stage} to ${payload.to_stage}`;
+    case 'lead_stage_changed':
+      return `${payload.field === 'status' ? 'Status' : 'Stage'} changed from ${payload.from_value} to ${payload.to_value}`;
+    case 'file_uploaded':
+      return payload.task_title
+        ? `File uploaded to task "${payload.task_title}": ${payload.original_name}`
+        : `File uploaded: ${payload.original_name}`;
+    case 'chat_mention':
+      return `Mentioned in chat by ${payload.sender_email}`;
+  }
+}
+
+/**
+ * Works out which lead and client ids the timeline covers
+ *
+ * @throws Error with statusCode 404 if the lead or client does not exist
+ */
+async function resolveScope(target: TimelineTarget): Promise<{ leadId: number | null; clientId: string | null }> {
+  if (target.type === 'lead') {
+    const result = await queryWithTimeout('SELECT id FROM leads WHERE id = $1', [target.id], 5000);
+    if (result.rows.length === 0) {
+      throw new HttpError(`Lead with ID ${target.id} not found`, 404);
+    }
+    return { leadId: target.id, clientId: null };
+  }
+
+  const result = await queryWithTimeout(
+    'SELECT id, lead_id FROM contacts WHERE id = $1 AND is_client = true',
+    [target.id],
+    5000
+  );
+  if (result.rows.length === 0) {
+    throw new HttpError(`Client with ID ${target.id} not found`, 404);
+  }
+  return { leadId: result.rows[0].lead_id ?? null, clientId: String(result.rows[0].id) };
+}
+
+/**
+ * Get one page of a lead's or client's timeline, newest first.
+ * Uses keyset (cursor) pagination on (timestamp, event id) so pages stay stable as events are added.
+ *
+ * @returns The page of events and the cursor for the next page
+ * @throws Error with statusCode 404 if the lead or client does not exist
+ */
+export async function getTimeline(target: TimelineTarget, options: TimelineOptions): Promise<TimelinePage> {
+  const scope = await resolveScope(target);
+
+  const sources = TIMELINE_SOURCES.filter((source) => source.types.some((type) => options.types.includes(type)));
+  if (sources.length === 0) {
+    return { events: [], nextCursor: null };
+  }
+
+  const values: unknown[] = [
+    scope.leadId,
+    scope.clientId,
+    options.viewerEmail,
+    mentionPattern(scope.leadId, scope.clientId),
+    options.types,
+  ];
+
+  let cursorCondition = '';
+  const cursorKey = options.cursor ? decodeCursor(options.cursor) : null;
+  if (cursorKey) {
+    values.push(cursorKey.t, cursorKey.id);
+    cursorCondition = `AND (occurred_at, event_id) < ($${values.length - 1}::timestamptz, $${values.length}::text)`;
+  }
+
+  // Fetch one extra row to know whether there is another page
+  values.push(options.limit + 1);
+
+  // sort_time keeps microseconds, which a JS Date would drop, so the cursor matches exactly
+  const query = `
+    WITH scope AS (
+      SELECT $1::int AS lead_id, $2::text AS client_id, $3::text AS viewer_email, $4::text AS mention_pattern
+    )
+    SELECT
+      event_id,
+      type,
+      actor,
+      occurred_at,
+      TO_CHAR(occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS sort_time,
+      payload
+    FROM (
+      ${sources.map((source) => source.sql).join('\n      UNION ALL\n')}
+    ) AS events (event_id, type, actor, occurred_at, payload)
+    WHERE type = ANY($5::text[])
+      AND occurred_at IS NOT NULL
+      ${cursorCondition}
+    ORDER BY occurred_at DESC, event_id DESC
+    LIMIT $${values.length}
+  `;
+
+  const result = await queryWithTimeout(query, values, 10000);
+
+  const hasMore = result.rows.length > options.limit;
+  const rows = result.rows.slice(0, options.limit);
+  const lastRow = rows[rows.length - 1];
+
+  const events: TimelineEvent[] = rows.map((row: any) => ({
+    id: row.event_id,
+    type: row.type,
+    actor: row.actor || null,
+    timestamp: new Date(row.occurred_at).toISOString(),
+    summary: summarizeEvent(row.type, row.payload || {}),
+    payload: row.payload || {},
+  }));
+
+  return {
+    events,
+    nextCursor: hasMore && lastRow ? encodeCursor({ t: lastRow.sort_time, id: lastRow.event_id }) : null,
+  };
+}
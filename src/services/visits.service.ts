@@ -2,9 +2,15 @@
  * Onsite Visits Service
  *
  * This service handles database operations for onsite visits.
+ * Visits are scheduled for a rep (assigned_to_email); the rep checks in on arrival and
+ * checks out when leaving, capturing the time and device coordinates each time.
+ * Addresses are geocoded (see lib/geocoder) so a rep's day can be ordered into a route.
  */
 
 import pool from '../lib/db';
+import { HttpError } from '../lib/http-error';
+import { getGeocoder, Geocoder, GeoPoint } from '../lib/geocoder';
+import { haversineKm, planRoute } from '../lib/route-planner';
 
 export interface OnsiteVisit {
   id: number;
@@ -14,6 +20,17 @@ export interface OnsiteVisit {
   visit_type: string | null;
   status: string;
   notes: string | null;
+  latitude: number | null; // Geocoded from the address
+  longitude: number | null;
+  assigned_to_email: string | null;
+  created_by_email: string | null;
+  checked_in_at: string | null;
+  check_in_latitude: number | null;
+  check_in_longitude: number | null;
+  checked_out_at: string | null;
+  check_out_latitude: number | null;
+  check_out_longitude: number | null;
+  duration_minutes: number | null; // Time between check-in and check-out
   created_at: string;
   updated_at: string;
   lead_name?: string;
@@ -21,7 +38,78 @@ export interface OnsiteVisit {
   lead_company?: string;
 }
 
+/**
+ * Visit day of the agenda
+ */
+export interface VisitScheduleDay {
+  date: string; // YYYY-MM-DD (UTC)
+  visits: OnsiteVisit[]; // By start time
+}
+
+/**
+ * One stop of a planned route
+ */
+export interface VisitRouteStop {
+  stop: number; // 1 = first
+  visit: OnsiteVisit;
+  distance_from_previous_km: number; // From the previous stop (or the start location); 0 for a first stop without one
+}
+
+/**
+ * A rep's visits for one day in driving order (GET /api/visits/route)
+ */
+export interface VisitRoute {
+  date: string; // YYYY-MM-DD (UTC)
+  rep_email: string;
+  stops: VisitRouteStop[];
+  total_distance_km: number; // Straight-line estimate
+  unrouted: OnsiteVisit[]; // Visits whose address is missing, could not be geocoded or is not geocoded yet
+}
+
+/**
+ * Time a route request may spend geocoding addresses, so it stays well within the
+ * request time limit with a slow or rate-limited geocoder
+ */
+const ROUTE_GEOCODE_BUDGET_MS = 10000;
+
+function toIsoOrNull(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toNumberOrNull(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function roundKm(distance: number): number {
+  return Math.round(distance * 10) / 10;
+}
+
+/**
+ * Geocodes a visit's address and stores the result.
+ * An address the geocoder can't find is stored as checked (geocoded_at) so it isn't retried;
+ * a geocoder error leaves the visit untouched so the next attempt retries it.
+ *
+ * @param geocoder - Resolved by the caller before writing anything, so a missing GEOCODER fails the request
+ */
+async function geocodeVisit(geocoder: Geocoder, visitId: number, address: string): Promise<GeoPoint | null> {
+  let point: GeoPoint | null;
+  try {
+    point = await geocoder.geocode(address);
+  } catch (error) {
+    console.error(`Error geocoding address of visit ${visitId}:`, error);
+    return null;
+  }
+
+  await pool.query(
+    'UPDATE onsite_visits SET latitude = $2, longitude = $3, geocoded_at = NOW() WHERE id = $1',
+    [visitId, point?.latitude ?? null, point?.longitude ?? null]
+  );
+  return point;
+}
+
 function mapVisitRow(row: any): OnsiteVisit {
+  const checkedInAt = toIsoOrNull(row.checked_in_at);
+  const checkedOutAt = toIsoOrNull(row.checked_out_at);
   return {
     id: row.id,
     lead_id: row.lead_id,
@@ -30,6 +118,19 @@ function mapVisitRow(row: any): OnsiteVisit {
     visit_type: row.visit_type,
     status: row.status,
     notes: row.notes,
+    latitude: toNumberOrNull(row.latitude),
+    longitude: toNumberOrNull(row.longitude),
+    assigned_to_email: row.assigned_to_email || null,
+    created_by_email: row.created_by_email || null,
+    checked_in_at: checkedInAt,
+    check_in_latitude: toNumberOrNull(row.check_in_latitude),
+    check_in_longitude: toNumberOrNull(row.check_in_longitude),
+    checked_out_at: checkedOutAt,
+    check_out_latitude: toNumberOrNull(row.check_out_latitude),
+    check_out_longitude: toNumberOrNull(row.check_out_longitude),
+    duration_minutes: checkedInAt && checkedOutAt
+      ? Math.round((Date.parse(checkedOutAt) - Date.parse(checkedInAt)) / 60000)
+      : null,
     created_at: new Date(row.created_at).toISOString(),
     updated_at: new Date(row.updated_at).toISOString(),
     lead_name: row.lead_name,
@@ -103,7 +204,7 @@ export async function getVisitById(id: number): Promise<OnsiteVisit | null> {
 }
 
 /**
- * Create a new onsite visit
+ * Create a new onsite visit (a scheduled visit unless another status is given)
  */
 export async function createVisit(data: {
   lead_id: number;
@@ -112,10 +213,15 @@ export async function createVisit(data: {
   visit_type?: string;
   status?: string;
   notes?: string;
+  assigned_to_email?: string | null;
+  created_by_email?: string | null;
 }): Promise<OnsiteVisit> {
+  const geocoder = data.address ? getGeocoder() : null;
   const query = `
-    INSERT INTO onsite_visits (lead_id, visit_date, address, visit_type, status, notes, created_at, updated_at)
-    VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+    INSERT INTO onsite_visits (
+      lead_id, visit_date, address, visit_type, status, notes, assigned_to_email, created_by_email, created_at, updated_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
     RETURNING *
   `;
 
@@ -126,9 +232,14 @@ export async function createVisit(data: {
     data.visit_type || null,
     data.status || 'scheduled',
     data.notes || null,
+    data.assigned_to_email || null,
+    data.created_by_email || null,
   ]);
 
   const newVisit = result.rows[0];
+  if (geocoder && data.address) {
+    await geocodeVisit(geocoder, newVisit.id, data.address);
+  }
   const visitWithLead = await getVisitById(newVisit.id);
   return visitWithLead!;
 }
@@ -146,8 +257,10 @@ export async function updateVisit(
     notes?: string;
     in_time?: string;
     out_time?: string;
+    assigned_to_email?: string | null;
   }
 ): Promise<OnsiteVisit | null> {
+  const geocoder = data.address ? getGeocoder() : null;
   const updates: string[] = [];
   const values: any[] = [];
   let paramCount = 1;
@@ -159,6 +272,8 @@ export async function updateVisit(
   if (data.address !== undefined) {
     updates.push(`address = $${paramCount++}`);
     values.push(data.address);
+    // The old coordinates no longer apply
+    updates.push('latitude = NULL', 'longitude = NULL', 'geocoded_at = NULL');
   }
   if (data.visit_type !== undefined) {
     updates.push(`visit_type = $${paramCount++}`);
@@ -180,6 +295,10 @@ export async function updateVisit(
     updates.push(`out_time = $${paramCount++}`);
     values.push(data.out_time);
   }
+  if (data.assigned_to_email !== undefined) {
+    updates.push(`assigned_to_email = $${paramCount++}`);
+    values.push(data.assigned_to_email);
+  }
 
   if (updates.length === 0) {
     return getVisitById(id);
@@ -194,7 +313,10 @@ export async function updateVisit(
     RETURNING *
   `;
 
-  await pool.query(query, values);
+  const result = await pool.query(query, values);
+  if (result.rows.length > 0 && geocoder && data.address) {
+    await geocodeVisit(geocoder, id, data.address);
+  }
   return getVisitById(id);
 }
 
@@ -207,3 +329,239 @@ export async function deleteVisit(id: number): Promise<boolean> {
   return result.rowCount !== null && result.rowCount > 0;
 }
 
+
+/**
+ * Who is checking in or out: the rep, and whether they may act on other reps' visits
+ */
+type VisitCheckActor = { userEmail: string; canManageVisits?: boolean };
+
+/**
+ * Throws the right error when a check-in / check-out update matched no row:
+ * 404 if the visit doesn't exist, 403 if the rep may not act on it, 409 otherwise
+ */
+async function throwCheckError(
+  id: number,
+  conflictMessage: string,
+  isAllowed: (assignedToEmail: string | null) => boolean
+): Promise<never> {
+  const existing = await pool.query('SELECT id, assigned_to_email FROM onsite_visits WHERE id = $1', [id]);
+  if (existing.rows.length === 0) {
+    throw new HttpError(`Visit with ID ${id} not found`, 404);
+  }
+  if (!isAllowed(existing.rows[0].assigned_to_email || null)) {
+    throw new HttpError('Only the assigned rep or a manager can check in or out of this visit', 403);
+  }
+  throw new HttpError(conflictMessage, 409);
+}
+
+function isAssignedTo(assignedToEmail: string | null, userEmail: string): boolean {
+  return assignedToEmail !== null && assignedToEmail.toLowerCase() === userEmail.toLowerCase();
+}
+
+/**
+ * Check in to a visit: records the arrival time and coordinates and marks the visit in progress.
+ * An unassigned visit is assigned to the rep checking in. Only the assigned rep (anyone, for an
+ * unassigned visit) can check in, unless canManageVisits is set.
+ *
+ * @throws Error with statusCode 404 if the visit does not exist, 403 if it is another rep's visit,
+ *         409 if it was already checked in, completed or cancelled
+ */
+export async function checkIn(
+  id: number,
+  data: { latitude: number; longitude: number } & VisitCheckActor
+): Promise<OnsiteVisit> {
+  const canManageVisits = data.canManageVisits === true;
+  const result = await pool.query(
+    `
+      UPDATE onsite_visits
+      SET checked_in_at = NOW(),
+          check_in_latitude = $2,
+          check_in_longitude = $3,
+          assigned_to_email = COALESCE(assigned_to_email, $4),
+          status = 'in_progress',
+          updated_at = NOW()
+      WHERE id = $1
+        AND checked_in_at IS NULL
+        AND status NOT IN ('completed', 'cancelled')
+        AND ($5::boolean OR assigned_to_email IS NULL OR LOWER(assigned_to_email) = LOWER($4))
+    `,
+    [id, data.latitude, data.longitude, data.userEmail, canManageVisits]
+  );
+  if (result.rowCount === 0) {
+    await throwCheckError(
+      id,
+      'Visit is already checked in, completed or cancelled',
+      (assignedToEmail) => canManageVisits || assignedToEmail === null || isAssignedTo(assignedToEmail, data.userEmail)
+    );
+  }
+
+  const visit = await getVisitById(id);
+  return visit!;
+}
+
+/**
+ * Check out of a visit: records the departure time and coordinates and completes the visit.
+ * Only the assigned rep can check out, unless canManageVisits is set.
+ *
+ * @throws Error with statusCode 404 if the visit does not exist, 403 if it is another rep's visit,
+ *         409 if it wasn't checked in or was already checked out
+ */
+export async function checkOut(
+  id: number,
+  data: { latitude: number; longitude: number } & VisitCheckActor
+): Promise<OnsiteVisit> {
+  const canManageVisits = data.canManageVisits === true;
+  const result = await pool.query(
+    `
+      UPDATE onsite_visits
+      SET checked_out_at = NOW(),
+          check_out_latitude = $2,
+          check_out_longitude = $3,
+          status = 'completed',
+          updated_at = NOW()
+      WHERE id = $1
+        AND checked_in_at IS NOT NULL
+        AND checked_out_at IS NULL
+        AND ($5::boolean OR LOWER(assigned_to_email) = LOWER($4))
+    `,
+    [id, data.latitude, data.longitude, data.userEmail, canManageVisits]
+  );
+  if (result.rowCount === 0) {
+    await throwCheckError(
+      id,
+      'Visit is not checked in or is already checked out',
+      (assignedToEmail) => canManageVisits || isAssignedTo(assignedToEmail, data.userEmail)
+    );
+  }
+
+  const visit = await getVisitById(id);
+  return visit!;
+}
+
+/**
+ * Agenda of visits between two dates, by day and start time
+ *
+ * @param params.from - Range start (ISO date or date-time, inclusive)
+ * @param params.to - Range end (ISO date or date-time, inclusive; a bare date covers the whole day)
+ * @param params.repEmail - Only visits assigned to this rep
+ */
+export async function getSchedule(params: {
+  from: string;
+  to: string;
+  repEmail?: string;
+}): Promise<VisitScheduleDay[]> {
+  const values: any[] = [params.from, params.to];
+  // visit_date is stored in UTC without a time zone
+  const conditions = [
+    `ov.visit_date >= ($1::timestamptz AT TIME ZONE 'UTC')`,
+    /^\d{4}-\d{2}-\d{2}$/.test(params.to)
+      ? `ov.visit_date < $2::date + INTERVAL '1 day'`
+      : `ov.visit_date <= ($2::timestamptz AT TIME ZONE 'UTC')`,
+  ];
+  if (params.repEmail) {
+    values.push(params.repEmail);
+    conditions.push(`ov.assigned_to_email = $${values.length}`);
+  }
+
+  const query = `
+    SELECT 
+      ov.*,
+      l.name as lead_name,
+      l.email as lead_email,
+      c.company as lead_company
+    FROM onsite_visits ov
+    LEFT JOIN leads l ON ov.lead_id = l.id
+    LEFT JOIN contacts c ON l.contact_id = c.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ov.visit_date ASC, ov.id ASC
+  `;
+
+  const result = await pool.query(query, values);
+
+  const days: VisitScheduleDay[] = [];
+  for (const visit of result.rows.map(mapVisitRow)) {
+    const date = visit.visit_date.slice(0, 10);
+    const day = days[days.length - 1];
+    if (day && day.date === date) {
+      day.visits.push(visit);
+    } else {
+      days.push({ date, visits: [visit] });
+    }
+  }
+  return days;
+}
+
+/**
+ * Orders a rep's visits for one day into a driving route.
+ * Cancelled visits are left out; addresses that were never geocoded are geocoded first, for up to
+ * ROUTE_GEOCODE_BUDGET_MS. Visits left over when the budget runs out are listed as unrouted and
+ * geocoded by a later request.
+ *
+ * @param params.date - The day (YYYY-MM-DD, UTC)
+ * @param params.start - Where the rep starts; when missing, the route starts at the earliest scheduled visit
+ */
+export async function planVisitRoute(params: {
+  date: string;
+  repEmail: string;
+  start?: GeoPoint;
+}): Promise<VisitRoute> {
+  const query = `
+    SELECT 
+      ov.*,
+      l.name as lead_name,
+      l.email as lead_email,
+      c.company as lead_company
+    FROM onsite_visits ov
+    LEFT JOIN leads l ON ov.lead_id = l.id
+    LEFT JOIN contacts c ON l.contact_id = c.id
+    WHERE ov.visit_date >= $1::date
+      AND ov.visit_date < $1::date + INTERVAL '1 day'
+      AND ov.assigned_to_email = $2
+      AND ov.status <> 'cancelled'
+    ORDER BY ov.visit_date ASC, ov.id ASC
+  `;
+  const result = await pool.query(query, [params.date, params.repEmail]);
+
+  // One at a time: remote geocoders rate-limit bursts
+  const pending = result.rows.filter((row) => row.latitude === null && row.geocoded_at === null && row.address);
+  if (pending.length > 0) {
+    const geocoder = getGeocoder();
+    const deadline = Date.now() + ROUTE_GEOCODE_BUDGET_MS;
+    for (const row of pending) {
+      if (Date.now() >= deadline) {
+        break;
+      }
+      const point = await geocodeVisit(geocoder, row.id, row.address);
+      if (point) {
+        row.latitude = point.latitude;
+        row.longitude = point.longitude;
+      }
+    }
+  }
+
+  const visits = result.rows.map(mapVisitRow);
+  const routable = visits.filter((visit) => visit.latitude !== null && visit.longitude !== null);
+  const points: GeoPoint[] = routable.map((visit) => ({ latitude: visit.latitude!, longitude: visit.longitude! }));
+  const order = planRoute(points, params.start);
+
+  let previous = params.start ?? null;
+  let total = 0;
+  const stops = order.map((index, position) => {
+    const distance = previous ? haversineKm(previous, points[index]) : 0;
+    total += distance;
+    previous = points[index];
+    return {
+      stop: position + 1,
+      visit: routable[index],
+      distance_from_previous_km: roundKm(distance),
+    };
+  });
+
+  return {
+    date: params.date,
+    rep_email: params.repEmail,
+    stops,
+    total_distance_km: roundKm(total),
+    unrouted: visits.filter((visit) => visit.latitude === null || visit.longitude === null),
+  };
+}
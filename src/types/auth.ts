@@ -0,0 +1,22 @@
+/**
+ * Auth Types
+ *
+ * The authenticated caller attached to every request by the auth middleware.
+ * Identity comes from the verified bearer token; id and role come from the users table.
+ */
+
+export type UserRole = 'admin' | 'manager' | 'user';
+
+export interface AuthUser {
+  id: number; // users.id
+  email: string; // users.email (the identity used across tasks, chat and notifications)
+  role: UserRole; // users.role
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser; // Set by the authenticate middleware
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Type Definitions for Cold Call Dispositions, Call Scripts and Call Sessions
+ * 
+ * A disposition is the result picked when logging a cold call (e.g. 'voicemail').
+ * The list lives in the call_dispositions table so managers can rename, reorder or add entries.
+ * Call scripts are reusable talk tracks that can be attached to a call record.
+ * A call session is a queue of leads a rep calls one after the other.
+ */
+
+/**
+ * CallDisposition represents one entry of the disposition list.
+ * Cold calls reference it by key (cold_calls.disposition).
+ */
+export interface CallDisposition {
+  key: string; // Identifier stored on calls (e.g. 'callback_requested')
+  label: string; // Display name (e.g. 'Callback requested')
+  position: number; // Order in the list (0 = first)
+  is_active: boolean; // Inactive dispositions can't be picked for new calls
+}
+
+/**
+ * CallScript represents a reusable call script (GET /api/call-scripts).
+ */
+export interface CallScript {
+  id: number; // Auto-generated serial ID from database
+  name: string; // Short name (e.g. 'Website redesign intro')
+  body: string; // The script text
+  is_active: boolean; // Inactive scripts are hidden from the picker but stay on old calls
+  created_by_email: string | null; // Team member who created the script
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+/**
+ * Lead filter a call session's queue is built from.
+ * Same filters as GET /api/leads, plus how recently the lead was contacted.
+ */
+export interface CallSessionFilters {
+  stage?: string;
+  status?: string;
+  source?: string;
+  verticals?: string; // Partial match
+  company?: string; // Partial match on the contact's company
+  createdByEmail?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  ownerEmail?: string;
+  lastContactedBefore?: string; // Last call or activity before this date (never contacted leads match)
+  noCallInDays?: number; // No cold call logged in the last N days
+}
+
+/**
+ * Progress of a call session
+ */
+export interface CallSessionStats {
+  total_leads: number; // Leads queued when the session was created
+  remaining: number; // Leads not handed out yet
+  skipped: number;
+  calls_made: number; // Calls logged for handed-out leads
+  connects: number; // Calls with the 'connected' disposition
+  average_duration: number | null; // Average call duration in seconds (calls with a duration only)
+}
+
+/**
+ * CallSession represents a rep's call queue (POST /api/call-sessions).
+ */
+export interface CallSession {
+  id: number;
+  name: string | null;
+  owner_email: string; // Rep working through the queue
+  filters: CallSessionFilters;
+  status: 'active' | 'completed';
+  created_at: string; // ISO timestamp
+  completed_at: string | null; // ISO timestamp, set once the queue is empty
+  stats: CallSessionStats;
+}
+
+/**
+ * The lead handed out by GET /api/call-sessions/:id/next, with what the rep needs before dialing
+ */
+export interface CallQueueItem {
+  position: number; // Place in the queue (1 = first)
+  lead: {
+    id: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+    stage: string | null;
+    status: string | null;
+    verticals: string | null;
+  };
+  recent_activities: {
+    id: number;
+    activity_type: string;
+    description: string | null;
+    created_at: string;
+  }[];
+  recent_calls: {
+    id: number;
+    call_date: string;
+    disposition: string | null;
+    outcome: string | null;
+    duration: number | null;
+    caller_email: string | null;
+    notes: string | null;
+  }[];
+}
@@ -0,0 +1,92 @@
+/**
+ * Type Definitions for Companies
+ * 
+ * A Company groups contacts (and through them leads, deals and clients).
+ * Contacts and leads point at a company via company_id; contacts.company mirrors the company's name.
+ */
+
+/**
+ * Employee ranges a company can be sized as
+ */
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+'] as const;
+
+export type CompanySize = typeof COMPANY_SIZES[number];
+
+/**
+ * Company as stored in the companies table, plus how many contacts/leads point at it
+ */
+export interface Company {
+  id: number;
+  name: string;
+  domain: string | null; // e.g. 'acme.com'
+  industry: string | null;
+  verticals: string | null; // Comma-separated, like leads.verticals
+  size: CompanySize | null;
+  address: string | null;
+  contact_count: number;
+  lead_count: number;
+  created_at: string; // ISO string
+  updated_at: string; // ISO string
+}
+
+/**
+ * A lead of the company (GET /api/companies/:id)
+ */
+export interface CompanyLead {
+  id: number;
+  name: string | null;
+  stage: string | null;
+  status: string | null;
+  owner_email: string | null;
+  contact_id: string | null;
+  contact_name: string | null;
+  created_at: string;
+}
+
+/**
+ * A deal of one of the company's leads
+ */
+export interface CompanyDeal {
+  id: string;
+  lead_id: number;
+  title: string;
+  deal_value: number | null;
+  pipeline_id: number | null;
+  stage: string;
+  is_won: boolean;
+  is_lost: boolean;
+  owner_email: string | null;
+  close_date: string | null; // YYYY-MM-DD
+  created_at: string;
+}
+
+/**
+ * A client (converted contact) at the company
+ */
+export interface CompanyClient {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  client_number: string | null;
+  owner_email: string | null;
+  created_at: string;
+}
+
+/**
+ * Company detail: the company with everything linked to it and deal totals
+ */
+export interface CompanyDetail {
+  company: Company;
+  leads: CompanyLead[];
+  deals: CompanyDeal[];
+  clients: CompanyClient[];
+  totals: {
+    leads: number;
+    clients: number;
+    openDeals: number;
+    openDealValue: number; // Sum of deal_value of deals not in a won/lost stage
+    wonDeals: number;
+    wonDealValue: number;
+  };
+}
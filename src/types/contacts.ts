@@ -0,0 +1,83 @@
+/**
+ * Type Definitions for Contacts
+ * 
+ * A Contact is a person (leads point at it via contact_id; clients are contacts with is_client = true).
+ * These types cover duplicate detection, merging, and linking several contacts to a lead or client.
+ */
+
+/**
+ * Why a contact was flagged as a possible duplicate
+ * - email: same email after trimming and lower-casing
+ * - phone: same last 10 phone digits
+ * - name / company: similar name / company (trigram similarity)
+ */
+export type DuplicateMatchReason = 'email' | 'phone' | 'name' | 'company';
+
+/**
+ * An existing contact that looks like the one being created
+ */
+export interface DuplicateCandidate {
+  contact: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+    is_client: boolean;
+  };
+  lead_ids: number[]; // Leads linked to the contact
+  matched_on: DuplicateMatchReason[];
+  score: number; // 0-1, higher is a stronger match
+}
+
+/**
+ * Result of merging one contact into another (POST /api/contacts/merge)
+ * Counts are the number of records that now belong to the kept contact.
+ */
+export interface ContactMergeResult {
+  contact: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+    is_client: boolean;
+    client_number: string | null;
+    owner_email: string | null;
+  };
+  merged_contact_id: string; // The contact that was merged in and deleted
+  moved: {
+    leads: number;
+    activities: number;
+    cold_calls: number; // Via the moved leads
+    onsite_visits: number; // Via the moved leads
+    tasks: number; // Tasks on the moved leads and tasks on the merged client
+    deals: number; // Via the moved leads
+    files: number;
+    credentials: number;
+    contact_links: number; // Lead/client contact links (lead_contacts) of the merged contact
+  };
+}
+
+/**
+ * Role a contact plays on a lead or client
+ */
+export const CONTACT_ROLES = ['decision_maker', 'billing', 'technical', 'other'] as const;
+
+export type ContactRole = typeof CONTACT_ROLES[number];
+
+/**
+ * A contact linked to a lead or client (lead_contacts row joined with the contact)
+ */
+export interface LinkedContact {
+  id: number | null; // lead_contacts.id; null for a primary contact that was never linked explicitly
+  contact_id: string;
+  role: ContactRole;
+  is_primary: boolean; // The lead's own contact (leads.contact_id), or for a client its original lead's
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  created_by_email: string | null;
+  created_at: string; // When the contact was linked (ISO string)
+}
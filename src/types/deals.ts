@@ -6,9 +6,11 @@
  * it clear what data structures we're working with.
  * 
  * A Deal represents a sales opportunity that is linked to a Lead.
- * Deals move through different stages in the sales pipeline: new → qualified → proposal → negotiation → closed
+ * Deals move through the stages of their pipeline. The default pipeline is: new → qualified → proposal → negotiation → closed_won / closed_lost
  */
 
+import type { Pipeline, PipelineStage } from './pipelines';
+
 /**
  * Deal represents a single deal record in the database.
  * 
@@ -24,31 +26,66 @@ export type Deal = {
   lead_id: number; // Foreign key to the leads table - links the deal to its originating lead
   title: string; // Title/name of the deal (e.g., "Enterprise License - Acme Corp")
   deal_value: number | null; // Monetary value of the deal (can be null if not yet determined)
-  stage: string; // Current stage in the sales pipeline: 'new' | 'qualified' | 'proposal' | 'negotiation' | 'closed'
+  pipeline_id: number | null; // Foreign key to the pipelines table - the pipeline the deal moves through
+  stage: string; // Key of the current stage within the deal's pipeline (e.g. 'proposal')
   notes: string | null; // Optional notes about the deal
+  owner_email: string | null; // Team member who owns the deal (defaults to the lead's owner)
+  loss_reason: string | null; // Why the deal was lost (only set in a lost stage)
+  close_date: string | null; // Date the deal was won or lost, YYYY-MM-DD (only set in won/lost stages)
+  probability: number | null; // Win probability in percent (defaults from the stage)
+  expected_close_date: string | null; // When the deal is expected to close, YYYY-MM-DD
   created_at: string; // ISO timestamp when the deal was created
   updated_at: string; // ISO timestamp when the deal was last updated
 };
 
 /**
- * DealsByStage represents deals grouped by their pipeline stage.
+ * PipelineStageWithDeals is one column of the pipeline view: a stage and the deals currently in it.
+ */
+export type PipelineStageWithDeals = PipelineStage & {
+  deals: Deal[]; // Deals in this stage, newest first
+};
+
+/**
+ * DealsPipeline represents deals grouped by the stages of one pipeline.
  * 
- * The sales pipeline groups deals into 5 stages:
- * - new: Just created, not yet qualified
- * - qualified: Deal has been qualified as a real opportunity
- * - proposal: Proposal has been sent to the customer
- * - negotiation: Deal is in negotiation phase
- * - closed: Deal has been closed (won or lost)
+ * Stages come from the pipeline_stages table (ordered by position) instead of a fixed list,
+ * so every stage appears even if it has no deals.
  * 
- * Flow: GET /api/deals/pipeline → service queries all deals → groups by stage → returns grouped object
+ * Flow: GET /api/deals/pipeline?pipelineId= → service loads the pipeline → queries its deals → groups by stage
  * 
  * This structure makes it easy to display deals in a Kanban-style pipeline view.
  */
-export type DealsByStage = {
-  new: Deal[]; // Deals in the "new" stage
-  qualified: Deal[]; // Deals in the "qualified" stage
-  proposal: Deal[]; // Deals in the "proposal" stage
-  negotiation: Deal[]; // Deals in the "negotiation" stage
-  closed: Deal[]; // Deals in the "closed" stage
+export type DealsPipeline = {
+  pipeline: Omit<Pipeline, 'stages'>; // The pipeline being viewed
+  stages: PipelineStageWithDeals[]; // Stages ordered by position, each with its deals
+};
+
+/**
+ * ForecastBucket holds the forecast figures for one month, one owner or the whole horizon.
+ * 
+ * - won: Value of deals already won (by close date)
+ * - weighted: won + open deal values multiplied by their probability
+ * - bestCase: won + the full value of every open deal
+ * - worstCase: only what has been won
+ */
+export type ForecastBucket = {
+  dealCount: number; // Won and open deals counted in this bucket
+  won: number;
+  weighted: number;
+  bestCase: number;
+  worstCase: number;
 };
 
+/**
+ * DealForecast is the response of GET /api/deals/forecast.
+ * 
+ * Open deals are placed in the month of their expected close date, won deals in the month of their close date.
+ * Lost deals and deals without a value are not counted.
+ */
+export type DealForecast = {
+  from: string; // First month of the horizon, YYYY-MM
+  to: string; // Last month of the horizon, YYYY-MM
+  months: Array<ForecastBucket & { month: string }>; // One entry per month in the horizon, YYYY-MM
+  owners: Array<ForecastBucket & { ownerEmail: string | null }>; // One entry per deal owner, highest weighted first
+  totals: ForecastBucket; // Whole horizon
+};
@@ -0,0 +1,58 @@
+/**
+ * Type Definitions for Exports
+ * 
+ * GET /api/export/:entity streams every matching row of an entity as CSV, JSON or NDJSON.
+ * Rows are read through a Postgres cursor, so exports are not capped like the list endpoints.
+ */
+
+/**
+ * Entities that can be exported (the :entity path segment)
+ */
+export const EXPORT_ENTITIES = ['leads', 'deals', 'clients', 'tasks', 'calls', 'visits', 'activities'] as const;
+
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+
+/**
+ * Output formats
+ * - csv: header row plus one line per record
+ * - json: a single JSON array
+ * - ndjson: one JSON object per line
+ */
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Filters applied to an export.
+ * Each entity only uses the filters its list endpoint supports; the rest are ignored.
+ */
+export interface ExportFilters {
+  // Leads (same as GET /api/leads)
+  stage?: string;
+  status?: string; // Also filters tasks
+  source?: string;
+  verticals?: string; // Partial match
+  company?: string; // Partial match on the contact's company
+  createdByEmail?: string;
+  createdFrom?: string; // ISO date or date-time, inclusive
+  createdTo?: string; // ISO date or date-time, inclusive (a bare date covers the whole day)
+  // Leads, deals and clients (?owner=me)
+  ownerEmail?: string;
+  // Deals
+  pipelineId?: number;
+  // Tasks (?assignedTo=me)
+  assignedToEmail?: string;
+  clientId?: string;
+  // Tasks, calls, visits and activities
+  leadId?: number;
+  // Activities
+  activityType?: string;
+}
+
+/**
+ * One batch of rows fetched from the export cursor
+ */
+export interface ExportBatch {
+  columns: string[]; // Column names in select order (also the CSV header)
+  rows: Record<string, unknown>[];
+}
@@ -0,0 +1,70 @@
+/**
+ * Type Definitions for Lead Imports
+ * 
+ * A lead import reads a CSV/XLSX spreadsheet, maps its columns to lead fields,
+ * validates every row and either reports what would happen (dry run) or creates the leads.
+ * 
+ * Flow: Upload spreadsheet → columns are mapped → rows are validated and checked for duplicates → (commit) leads are created
+ */
+
+import type { DuplicateCandidate } from './contacts';
+
+/**
+ * Lead fields a spreadsheet column can be mapped to
+ */
+export const LEAD_IMPORT_FIELDS = [
+  'contact.name',
+  'contact.email',
+  'contact.phone',
+  'contact.company',
+  'source',
+  'stage',
+  'verticals',
+] as const;
+
+export type LeadImportField = typeof LEAD_IMPORT_FIELDS[number];
+
+/**
+ * Column mapping: spreadsheet header → lead field
+ * Example: { "Full Name": "contact.name", "E-mail": "contact.email" }
+ */
+export type LeadImportMapping = Record<string, LeadImportField>;
+
+/**
+ * What happened to a spreadsheet row
+ * - valid: passes validation and has no duplicates (dry run)
+ * - invalid: failed validation, never imported
+ * - duplicate: looks like an existing contact or an earlier row
+ * - imported: lead was created (commit)
+ * - skipped: duplicate that was not imported (commit with skipDuplicates)
+ */
+export type LeadImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'imported' | 'skipped';
+
+/**
+ * Per-row result of an import
+ */
+export interface LeadImportRowResult {
+  row: number; // Spreadsheet row number (the header is row 1)
+  status: LeadImportRowStatus;
+  errors?: Array<{ field: string; message: string }>; // Validation errors (invalid rows)
+  duplicates?: DuplicateCandidate[]; // Existing contacts this row looks like
+  duplicate_of_row?: number; // Earlier row in the same file with the same email or phone
+  lead_id?: number; // Created lead (imported rows)
+}
+
+/**
+ * Result of POST /api/leads/import
+ */
+export interface LeadImportResult {
+  dry_run: boolean;
+  columns: string[]; // Headers found in the spreadsheet
+  mapping: LeadImportMapping; // Mapping that was applied (given or suggested)
+  total_rows: number;
+  valid_rows: number; // Rows without validation errors (including duplicates)
+  invalid_rows: number;
+  duplicate_rows: number;
+  imported: number; // Leads created (0 for dry runs)
+  skipped: number; // Duplicate rows not imported
+  automation_run_id: number | null; // automation_runs entry for committed imports
+  rows: LeadImportRowResult[];
+}
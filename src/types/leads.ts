@@ -6,6 +6,8 @@
  * it clear what data structures we're working with.
  */
 
+import type { LinkedContact } from './contacts';
+
 /**
  * Activity represents a single activity record in the database.
  * Activities track interactions and events related to a lead (e.g., calls, emails, meetings).
@@ -35,6 +37,8 @@ export interface LeadDetail {
     stage: string | null;
     status: string | null;
     notes: string | null;
+    company_id?: number | null; // Company the lead belongs to (see /api/companies)
+    owner_email?: string | null; // Team member who owns the lead
     created_at: string; // ISO string
     updated_at: string; // ISO string
     contact: {
@@ -47,6 +51,7 @@ export interface LeadDetail {
     } | null;
   };
   activities: Activity[]; // Array of all activities for this lead, ordered by created_at DESC
+  contacts: LinkedContact[]; // Contacts linked to the lead with their roles (see lead_contacts)
 }
 
 /**
@@ -62,6 +67,11 @@ export interface ColdCall {
   call_date: string; // Date/time when the call was made (ISO string)
   duration: number | null; // Duration of the call in seconds (optional)
   outcome: string | null; // Result of the call (e.g., 'connected', 'no_answer', 'wrong_number')
+  disposition: string | null; // Key of the call disposition (see /api/calls/dispositions)
+  caller_email: string | null; // Team member who made the call
+  next_callback_at: string | null; // When to call back (ISO string); a task is created for the caller
+  callback_task_id: number | null; // The follow-up task created for next_callback_at
+  call_script_id: number | null; // Call script used on the call (see /api/call-scripts)
   notes: string | null; // Optional notes about the call
   created_at: string; // Timestamp when the cold call was recorded (ISO string)
 }
@@ -91,17 +101,19 @@ export interface OnsiteVisit {
 }
 
 /**
- * LeadTimeline represents all timeline events for a lead grouped by type.
- * This combines activities, cold calls, and onsite visits into a single response.
- * 
- * Flow: GET /api/leads/:id/timeline → service fetches all three types → returns grouped timeline
+ * LeadStageHistoryEntry represents one stage or status change of a lead.
+ * A new row is written every time PATCH /api/leads/:id changes the stage or status,
+ * plus an initial row (from_value = null) when the lead is created.
  * 
- * This allows the frontend to display a unified timeline showing all interactions
- * with a lead, whether they were general activities, cold calls, or onsite visits.
+ * Flow: Lead stage/status changes → row stored in lead_stage_history → GET /api/leads/:id/stage-history
  */
-export interface LeadTimeline {
-  activities: Activity[]; // General activities (notes, emails, etc.)
-  coldCalls: ColdCall[]; // All cold calls made to this lead
-  onsiteVisits: OnsiteVisit[]; // All onsite visits for this lead
+export interface LeadStageHistoryEntry {
+  id: number; // Auto-generated serial ID from database
+  lead_id: number; // Foreign key to the leads table
+  field: 'stage' | 'status'; // Which field changed
+  from_value: string | null; // Previous value (null for the initial entry)
+  to_value: string; // New value
+  changed_by_email: string | null; // User who made the change
+  changed_at: string; // When the change happened (ISO string)
+  days_in_value: number; // Days the lead spent in to_value (until the next change of this field, or now)
 }
-
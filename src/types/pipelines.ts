@@ -0,0 +1,50 @@
+/**
+ * Type Definitions for Pipelines
+ * 
+ * A Pipeline is an ordered set of stages that deals move through.
+ * Each team process (e.g. web projects, retainers) can have its own pipeline.
+ * 
+ * Flow: Pipeline is configured → deals are assigned to it → deals move between its stages
+ */
+
+/**
+ * PipelineStage represents one column of a pipeline.
+ * Deals reference a stage by its key (deals.stage) within their pipeline.
+ */
+export interface PipelineStage {
+  id: number; // Auto-generated serial ID from database
+  pipeline_id: number; // Foreign key to the pipelines table
+  key: string; // Identifier stored on deals (e.g. 'proposal'), unique within the pipeline
+  name: string; // Display name (e.g. 'Proposal Sent')
+  position: number; // Order within the pipeline (0 = first)
+  probability: number; // Win probability in percent (0-100)
+  color: string | null; // Hex colour for the UI (e.g. '#3B82F6')
+  is_won: boolean; // Deals in this stage are closed as won
+  is_lost: boolean; // Deals in this stage are closed as lost
+}
+
+/**
+ * Pipeline represents a pipeline with its stages, ordered by position.
+ */
+export interface Pipeline {
+  id: number; // Auto-generated serial ID from database
+  name: string; // Display name (e.g. 'Web Projects')
+  description: string | null; // Optional description
+  is_default: boolean; // Used for deals created without a pipeline
+  stages: PipelineStage[]; // Stages ordered by position
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+/**
+ * Stage definition used when creating or updating a pipeline.
+ * The array order of stages becomes their position.
+ */
+export interface PipelineStageInput {
+  key?: string; // Defaults to a slug of the name
+  name: string;
+  probability?: number; // Defaults to 0
+  color?: string | null;
+  isWon?: boolean;
+  isLost?: boolean;
+}
@@ -0,0 +1,43 @@
+/**
+ * Type Definitions for Search
+ * 
+ * GET /api/search runs one full-text query per searchable entity and returns
+ * the best hits for each, grouped by entity.
+ */
+
+/**
+ * Entities that can be searched (also the keys of the grouped results)
+ */
+export const SEARCH_ENTITIES = ['leads', 'contacts', 'clients', 'deals', 'activities', 'messages'] as const;
+
+export type SearchEntity = typeof SEARCH_ENTITIES[number];
+
+/**
+ * SearchHit is a single ranked match.
+ * 
+ * The snippet is HTML-escaped text with matching terms wrapped in <mark>...</mark>,
+ * so the frontend can render it directly.
+ */
+export interface SearchHit {
+  type: 'lead' | 'contact' | 'client' | 'deal' | 'activity' | 'message'; // Kind of record
+  id: string | number; // Primary key of the record (UUID for deals, clients and contacts, serial otherwise)
+  title: string; // Display name (contact name, deal title, activity type, sender email)
+  snippet: string; // Highlighted excerpt around the matched terms
+  rank: number; // ts_rank score - higher is more relevant
+  lead_id: number | null; // Related lead, when the record belongs to one (for linking in the UI)
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * Hits grouped by entity, each group ordered by rank (best first)
+ */
+export type SearchResults = Record<SearchEntity, SearchHit[]>;
+
+/**
+ * Response body for GET /api/search
+ */
+export interface SearchResponse {
+  query: string; // The search text as received
+  total: number; // Number of hits across all groups
+  results: SearchResults;
+}
@@ -3,6 +3,9 @@
  *
  * Tasks are follow-ups tied to a lead. Each task is assigned to a team member
  * via their email address so we can build simple "My Tasks" views.
+ * Tasks can have subtasks, checklist items and blockers (tasks that must be done first),
+ * and a comment thread.
+ * Task templates create a checklist of tasks in one call.
  */
 
 export type Task = {
@@ -14,7 +17,110 @@ export type Task = {
   due_date: string | null; // ISO string or null if no due date
   status: string; // 'open' | 'in_progress' | 'done'
   priority: string; // 'low' | 'normal' | 'high'
+  created_by_email: string | null; // Teammate who created the task (null for older tasks)
+  completed_at: string | null; // ISO timestamp when the task was marked done
+  completed_by_email: string | null; // Teammate who marked the task done
+  recurrence_rule: string | null; // RRULE-style rule for recurring tasks (see lib/recurrence)
+  recurrence_parent_id: number | null; // Previous occurrence of a recurring task
+  recurrence_occurrence: number; // 1 for the first task of a series
+  parent_task_id: number | null; // Set on subtasks
   created_at: string; // ISO timestamp for creation
   updated_at: string; // ISO timestamp for last update
+  next_occurrence?: Task | null; // Set when marking a recurring task done created the next one
+  progress?: TaskProgress; // Returned by the task lists
+  blocked_by?: number[]; // Ids of the tasks blocking this one (returned by the task lists)
+  is_blocked?: boolean; // True while any blocker is not done
+};
+
+/**
+ * How far along a task is, counting its checklist items and subtasks.
+ * A done task is always at 100%; a task with neither is at 0% until it is done.
+ */
+export type TaskProgress = {
+  checklist_total: number;
+  checklist_done: number;
+  subtasks_total: number;
+  subtasks_done: number;
+  percent: number; // 0-100, rounded
+};
+
+/**
+ * Tasks of the team task board grouped by assignee or status (GET /api/tasks?groupBy=)
+ */
+export type TaskGroup = {
+  key: string; // Assignee email or status
+  count: number; // Every task in the group that matches the filters
+  tasks: Task[]; // The group's tasks within the returned page (limit)
+};
+
+/**
+ * Outcome of a bulk task update (POST /api/tasks/bulk)
+ */
+export type BulkTaskUpdateResult = {
+  updated: Task[];
+  skipped: { id: number; reason: 'not_found' | 'blocked' }[];
+  notified: string[]; // Emails that received the aggregated notification
+};
+
+/**
+ * A to-do inside a task's checklist
+ */
+export type TaskChecklistItem = {
+  id: number;
+  task_id: number;
+  position: number; // Order in the checklist (0 = first)
+  title: string;
+  is_done: boolean;
+  completed_at: string | null; // ISO timestamp
+  completed_by_email: string | null;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+};
+
+/**
+ * A comment in a task's discussion thread
+ */
+export type TaskComment = {
+  id: number;
+  task_id: number;
+  author_email: string;
+  body: string;
+  mentions: string[]; // Emails mentioned as @email in the body (lowercased)
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp; later than created_at once edited
+};
+
+/**
+ * A single task with its checklist and comments (GET /api/tasks/:id)
+ */
+export type TaskDetail = Task & {
+  checklist: TaskChecklistItem[];
+  comments: TaskComment[]; // Oldest first
+};
+
+/**
+ * One task of a template's checklist
+ */
+export type TaskTemplateItem = {
+  id: number;
+  position: number; // Order in the checklist (0 = first)
+  title: string;
+  description: string | null;
+  priority: string; // 'low' | 'normal' | 'high'
+  due_in_days: number | null; // Due this many days after the template is applied
+  recurrence_rule: string | null; // Makes the created task recurring
+};
+
+/**
+ * A reusable checklist of tasks (/api/task-templates), e.g. "Monthly client report"
+ */
+export type TaskTemplate = {
+  id: number;
+  name: string;
+  description: string | null;
+  created_by_email: string | null;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+  items: TaskTemplateItem[];
 };
 
@@ -0,0 +1,38 @@
+/**
+ * Timeline Types
+ *
+ * The timeline is one chronological feed of everything that happened on a lead or client:
+ * activities and notes, cold calls, onsite visits, tasks and their comments, deals, stage changes,
+ * file uploads and chat messages that mention the record.
+ */
+
+export const TIMELINE_EVENT_TYPES = [
+  'activity', // Activity logged on the lead/client (call, email, meeting, ...)
+  'note', // Activity with activity_type 'note'
+  'cold_call',
+  'onsite_visit',
+  'task_created',
+  'task_completed',
+  'task_comment', // Comment on one of the record's tasks
+  'deal_created',
+  'deal_stage_changed',
+  'lead_stage_changed', // Lead stage or status change (see lead_stage_history)
+  'file_uploaded', // Client project file or task attachment
+  'chat_mention', // Chat message containing #lead-<id> or #client-<id>
+] as const;
+
+export type TimelineEventType = (typeof TIMELINE_EVENT_TYPES)[number];
+
+export interface TimelineEvent {
+  id: string; // '<source>:<row id>', unique across the feed
+  type: TimelineEventType;
+  actor: string | null; // Email of the team member behind the event, when known
+  timestamp: string; // ISO string
+  summary: string; // One-line description for display
+  payload: Record<string, unknown>; // Source row fields (snake_case), depending on type
+}
+
+export interface TimelinePage {
+  events: TimelineEvent[]; // Newest first
+  nextCursor: string | null; // null when this is the last page
+}
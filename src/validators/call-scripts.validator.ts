@@ -0,0 +1,84 @@
+/**
+ * Call Scripts Validation Module
+ *
+ * Validates request bodies for the /api/call-scripts endpoints.
+ */
+
+import { z } from 'zod';
+
+const callScriptFields = {
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  body: z.string().trim().min(1, 'Script text is required').max(20000, 'Script text is too long'),
+  isActive: z.boolean(),
+};
+
+/**
+ * Schema for validating call script creation request body
+ * This is what we expect on POST /api/call-scripts
+ */
+export const createCallScriptSchema = z.object({
+  name: callScriptFields.name,
+  body: callScriptFields.body,
+  isActive: callScriptFields.isActive.default(true),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreateCallScriptInput = z.infer<typeof createCallScriptSchema>;
+
+/**
+ * Validates a request body against the createCallScriptSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreateCallScript(data: unknown): {
+  success: boolean;
+  data?: CreateCallScriptInput;
+  errors?: z.ZodError;
+} {
+  const result = createCallScriptSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating call script update request body
+ * This is what we expect on PATCH /api/call-scripts/:id
+ */
+export const updateCallScriptSchema = z.object(callScriptFields)
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateCallScriptInput = z.infer<typeof updateCallScriptSchema>;
+
+/**
+ * Validates a request body against the updateCallScriptSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateCallScript(data: unknown): {
+  success: boolean;
+  data?: UpdateCallScriptInput;
+  errors?: z.ZodError;
+} {
+  const result = updateCallScriptSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
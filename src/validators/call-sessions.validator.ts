@@ -0,0 +1,55 @@
+/**
+ * Call Sessions Validation Module
+ *
+ * Validates request bodies for the call session endpoints (/api/call-sessions).
+ */
+
+import { z } from 'zod';
+import { leadFiltersSchema, isValidCreatedRange, dateFilter } from './leads.validator';
+
+/**
+ * Schema for validating call session creation request body
+ * This is what we expect on POST /api/call-sessions
+ */
+export const createCallSessionSchema = z.object({
+  // Optional label, e.g. 'Dentists - Monday'
+  name: z.string().trim().min(1, 'Name cannot be empty').max(255, 'Name is too long').optional(),
+  // Which leads to queue: the GET /api/leads filters plus contact recency
+  filters: leadFiltersSchema
+    .extend({
+      // Only leads whose last call or activity is before this date (never contacted leads included)
+      lastContactedBefore: dateFilter.optional(),
+      // Only leads without a cold call in the last N days
+      noCallInDays: z.number().int().min(1, 'noCallInDays must be at least 1').max(3650).optional(),
+    })
+    .strict()
+    .refine(isValidCreatedRange, { message: 'createdFrom must be before createdTo', path: ['createdFrom'] })
+    .default({}),
+  // Queue size cap (least recently contacted leads are queued first)
+  maxLeads: z.number().int().min(1, 'maxLeads must be at least 1').max(500, 'maxLeads cannot exceed 500').default(100),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreateCallSessionInput = z.infer<typeof createCallSessionSchema>;
+
+/**
+ * Validates a request body against the createCallSessionSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreateCallSession(data: unknown): {
+  success: boolean;
+  data?: CreateCallSessionInput;
+  errors?: z.ZodError;
+} {
+  const result = createCallSessionSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
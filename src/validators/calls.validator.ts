@@ -0,0 +1,94 @@
+/**
+ * Calls Validation Module
+ *
+ * Validates request bodies for the call disposition endpoints (/api/calls/dispositions).
+ */
+
+import { z } from 'zod';
+
+const dispositionFields = {
+  label: z.string().trim().min(1, 'Label is required').max(100, 'Label is too long'),
+  position: z.number().int().min(0, 'Position must be 0 or more'),
+};
+
+/**
+ * Schema for validating disposition creation request body
+ * This is what we expect on POST /api/calls/dispositions
+ */
+export const createDispositionSchema = z.object({
+  // Key stored on calls, e.g. 'meeting_booked'
+  key: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9_]+$/, 'Key may only contain lowercase letters, numbers and underscores')
+    .max(50, 'Key is too long'),
+  label: dispositionFields.label,
+  // Defaults to the end of the list
+  position: dispositionFields.position.optional(),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreateDispositionInput = z.infer<typeof createDispositionSchema>;
+
+/**
+ * Validates a request body against the createDispositionSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreateDisposition(data: unknown): {
+  success: boolean;
+  data?: CreateDispositionInput;
+  errors?: z.ZodError;
+} {
+  const result = createDispositionSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating disposition update request body
+ * This is what we expect on PATCH /api/calls/dispositions/:key
+ * The key can't change because past calls reference it; deactivate instead of deleting.
+ */
+export const updateDispositionSchema = z.object({
+  label: dispositionFields.label.optional(),
+  position: dispositionFields.position.optional(),
+  isActive: z.boolean().optional(),
+})
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateDispositionInput = z.infer<typeof updateDispositionSchema>;
+
+/**
+ * Validates a request body against the updateDispositionSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateDisposition(data: unknown): {
+  success: boolean;
+  data?: UpdateDispositionInput;
+  errors?: z.ZodError;
+} {
+  const result = updateDispositionSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Companies Validation Module
+ *
+ * Validates request bodies and query strings for the /api/companies endpoints.
+ */
+
+import { z } from 'zod';
+import { COMPANY_SIZES } from '../types/companies';
+
+/**
+ * Accepts a domain or website URL and keeps only the host, without www
+ * e.g. "https://www.Acme.com/about" → "acme.com"
+ */
+const domainSchema = z
+  .string()
+  .max(255, 'Domain is too long')
+  .transform((value) => value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0])
+  .refine((value) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value), 'Domain must look like example.com');
+
+const companyFields = {
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  domain: domainSchema.nullable().optional(),
+  industry: z.string().max(100, 'Industry is too long').nullable().optional(),
+  verticals: z.string().max(1000, 'Verticals are too long').nullable().optional(),
+  size: z.enum(COMPANY_SIZES, {
+    errorMap: () => ({ message: `Size must be one of: ${COMPANY_SIZES.join(', ')}` }),
+  }).nullable().optional(),
+  address: z.string().max(1000, 'Address is too long').nullable().optional(),
+};
+
+/**
+ * Schema for validating company creation request body
+ * This is what we expect on POST /api/companies
+ */
+export const createCompanySchema = z.object(companyFields);
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreateCompanyInput = z.infer<typeof createCompanySchema>;
+
+/**
+ * Validates a request body against the createCompanySchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreateCompany(data: unknown): {
+  success: boolean;
+  data?: CreateCompanyInput;
+  errors?: z.ZodError;
+} {
+  const result = createCompanySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating company update request body
+ * This is what we expect on PATCH /api/companies/:id
+ * Renaming a company also renames it on its contacts.
+ */
+export const updateCompanySchema = z.object(companyFields)
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateCompanyInput = z.infer<typeof updateCompanySchema>;
+
+/**
+ * Validates a request body against the updateCompanySchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateCompany(data: unknown): {
+  success: boolean;
+  data?: UpdateCompanyInput;
+  errors?: z.ZodError;
+} {
+  const result = updateCompanySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the GET /api/companies query string
+ */
+export const listCompaniesQuerySchema = z.object({
+  // Partial, case-insensitive match on name or domain
+  q: z.string().trim().max(255).optional(),
+  industry: z.string().max(100).optional(),
+  size: z.enum(COMPANY_SIZES).optional(),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type ListCompaniesQuery = z.infer<typeof listCompaniesQuerySchema>;
+
+/**
+ * Validates a query string against the listCompaniesQuerySchema
+ *
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateListCompaniesQuery(data: unknown): {
+  success: boolean;
+  data?: ListCompaniesQuery;
+  errors?: z.ZodError;
+} {
+  const result = listCompaniesQuerySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
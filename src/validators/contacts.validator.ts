@@ -0,0 +1,139 @@
+/**
+ * Contacts Validation Module
+ *
+ * Validates requests for duplicate lookups, contact merges and linking contacts to leads/clients.
+ */
+
+import { z } from 'zod';
+import { CONTACT_ROLES } from '../types/contacts';
+
+/**
+ * Contact IDs may be numeric or UUIDs depending on the database, so both are accepted as strings
+ */
+const contactIdSchema = z.union([z.string().min(1), z.number().int().positive()])
+  .transform((value) => String(value));
+
+/**
+ * Schema for validating contact merge request body
+ * This is what we expect on POST /api/contacts/merge
+ */
+export const mergeContactsSchema = z.object({
+  // The duplicate contact - its records are moved and it is deleted
+  sourceId: contactIdSchema,
+  // The contact to keep
+  targetId: contactIdSchema,
+}).refine((data) => data.sourceId !== data.targetId, {
+  message: 'sourceId and targetId must be different contacts',
+  path: ['targetId'],
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type MergeContactsInput = z.infer<typeof mergeContactsSchema>;
+
+/**
+ * Validates a request body against the mergeContactsSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateMergeContacts(data: unknown): {
+  success: boolean;
+  data?: MergeContactsInput;
+  errors?: z.ZodError;
+} {
+  const result = mergeContactsSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the duplicate lookup query string
+ * This is what we expect on GET /api/contacts/duplicates
+ */
+export const duplicatesQuerySchema = z.object({
+  name: z.string().max(255).optional(),
+  email: z.string().max(255).optional(),
+  phone: z.string().max(50).optional(),
+  company: z.string().max(255).optional(),
+}).refine((data) => Boolean(data.email || data.phone || (data.name && data.company)), {
+  message: 'Provide an email, a phone number, or both a name and a company',
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type DuplicatesQueryInput = z.infer<typeof duplicatesQuerySchema>;
+
+/**
+ * Validates a query string against the duplicatesQuerySchema
+ *
+ * @param data - The data to validate (usually from req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateDuplicatesQuery(data: unknown): {
+  success: boolean;
+  data?: DuplicatesQueryInput;
+  errors?: z.ZodError;
+} {
+  const result = duplicatesQuerySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating a contact link request body
+ * This is what we expect on POST /api/leads/:id/contacts and POST /api/clients/:id/contacts
+ * Either link an existing contact (contactId) or create a new one (contact).
+ * Linking a contact that is already linked changes its role.
+ */
+export const linkContactSchema = z.object({
+  contactId: contactIdSchema.optional(),
+  contact: z.object({
+    name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
+    email: z.string().email('Invalid email format').optional().or(z.literal('')),
+    phone: z.string().max(50, 'Phone number is too long').optional().or(z.literal('')),
+    // Defaults to the lead's / client's company
+    company: z.string().max(255, 'Company name is too long').optional().or(z.literal('')),
+  }).optional(),
+  role: z.enum(CONTACT_ROLES, {
+    errorMap: () => ({ message: `role must be one of: ${CONTACT_ROLES.join(', ')}` }),
+  }).default('other'),
+}).refine((data) => Boolean(data.contactId) !== Boolean(data.contact), {
+  message: 'Provide either contactId or contact',
+  path: ['contactId'],
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type LinkContactInput = z.infer<typeof linkContactSchema>;
+
+/**
+ * Validates a request body against the linkContactSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateLinkContact(data: unknown): {
+  success: boolean;
+  data?: LinkContactInput;
+  errors?: z.ZodError;
+} {
+  const result = linkContactSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
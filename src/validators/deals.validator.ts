@@ -11,10 +11,30 @@
 import { z } from 'zod';
 
 /**
- * Valid pipeline stages that a deal can be in.
- * These stages represent the progression of a deal through the sales pipeline.
+ * Stage key within the deal's pipeline (e.g. 'proposal').
+ * Which keys exist, and which of them close a deal, depends on the pipeline,
+ * so the service checks the stage and the closing rules against the pipeline's stages.
  */
-const VALID_STAGES = ['new', 'qualified', 'proposal', 'negotiation', 'closed'] as const;
+const stageSchema = z.string().min(1, 'Stage is required').max(50, 'Stage is too long');
+
+/**
+ * Close date in YYYY-MM-DD format
+ */
+const closeDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Close date must be in YYYY-MM-DD format')
+  .refine((value) => !isNaN(Date.parse(value)), 'Close date must be a valid date');
+
+/**
+ * Win probability in percent
+ */
+const probabilitySchema = z.number().int('Probability must be a whole number')
+  .min(0, 'Probability must be between 0 and 100')
+  .max(100, 'Probability must be between 0 and 100');
+
+/**
+ * Expected close date in YYYY-MM-DD format
+ */
+const expectedCloseDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected close date must be in YYYY-MM-DD format')
+  .refine((value) => !isNaN(Date.parse(value)), 'Expected close date must be a valid date');
 
 /**
  * Schema for validating deal creation request body
@@ -35,6 +55,15 @@ export const createDealSchema = z.object({
   
   // Optional notes about the deal
   notes: z.string().max(1000, 'Notes are too long').optional(),
+
+  // Optional pipeline to create the deal in (defaults to the default pipeline)
+  pipelineId: z.number().int().positive('Pipeline ID must be a positive integer').optional(),
+
+  // Optional win probability (defaults to the probability of the first stage)
+  probability: probabilitySchema.optional(),
+
+  // Optional date the deal is expected to close, used by the forecast
+  expectedCloseDate: expectedCloseDateSchema.optional(),
 });
 
 /**
@@ -69,13 +98,12 @@ export function validateCreateDeal(data: unknown): {
  * This is what we expect when someone moves a deal to a different stage via PATCH /api/deals/:id/stage
  */
 export const moveDealStageSchema = z.object({
-  // The new stage to move the deal to
-  // Must be one of: 'new', 'qualified', 'proposal', 'negotiation', 'closed'
-  stage: z.enum(VALID_STAGES, {
-    errorMap: () => ({
-      message: `Stage must be one of: ${VALID_STAGES.join(', ')}`,
-    }),
-  }),
+  // The key of the stage to move the deal to (must belong to the deal's pipeline)
+  stage: stageSchema,
+  // Why the deal was lost (required for lost stages)
+  lossReason: z.string().max(1000, 'Loss reason is too long').optional(),
+  // When the deal was closed (required for won and lost stages)
+  closeDate: closeDateSchema.optional(),
 });
 
 /**
@@ -103,3 +131,91 @@ export function validateMoveDealStage(data: unknown): {
   }
 }
 
+/**
+ * Schema for validating deal update request body
+ * This is what we expect when someone edits a deal via PATCH /api/deals/:id
+ * All fields are optional, but at least one must be provided.
+ * Closing a deal here follows the same rules as PATCH /api/deals/:id/stage.
+ */
+export const updateDealSchema = z.object({
+  title: z.string().min(1, 'Title cannot be empty').max(255, 'Title is too long').optional(),
+  dealValue: z.number().positive('Deal value must be positive').nullable().optional(),
+  notes: z.string().max(1000, 'Notes are too long').nullable().optional(),
+  // Move the deal to another pipeline
+  pipelineId: z.number().int().positive('Pipeline ID must be a positive integer').optional(),
+  stage: stageSchema.optional(),
+  lossReason: z.string().max(1000, 'Loss reason is too long').nullable().optional(),
+  closeDate: closeDateSchema.nullable().optional(),
+  // null resets the probability to the stage's default
+  probability: probabilitySchema.nullable().optional(),
+  expectedCloseDate: expectedCloseDateSchema.nullable().optional(),
+})
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateDealInput = z.infer<typeof updateDealSchema>;
+
+/**
+ * Validates a request body against the updateDealSchema
+ * 
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateDeal(data: unknown): {
+  success: boolean;
+  data?: UpdateDealInput;
+  errors?: z.ZodError;
+} {
+  const result = updateDealSchema.safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the forecast query string
+ * This is what we expect on GET /api/deals/forecast
+ */
+export const forecastQuerySchema = z.object({
+  // First month of the horizon, YYYY-MM (defaults to the current month)
+  from: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'from must be a month in YYYY-MM format').optional(),
+  // Number of months in the horizon
+  months: z.coerce.number().int().min(1, 'months must be between 1 and 24').max(24, 'months must be between 1 and 24').default(6),
+  // Only deals in this pipeline
+  pipelineId: z.coerce.number().int().positive('Pipeline ID must be a positive integer').optional(),
+  // Only deals owned by this team member (me or an email)
+  owner: z.string().optional(),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type ForecastQueryInput = z.infer<typeof forecastQuerySchema>;
+
+/**
+ * Validates a query string against the forecastQuerySchema
+ * 
+ * @param data - The data to validate (usually from req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateForecastQuery(data: unknown): {
+  success: boolean;
+  data?: ForecastQueryInput;
+  errors?: z.ZodError;
+} {
+  const result = forecastQuerySchema.safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Export Validation Module
+ * 
+ * Validates the GET /api/export/:entity query string.
+ * Every entity accepts ?format= plus the filters of its own list endpoint.
+ */
+
+import { z } from 'zod';
+import { EXPORT_FORMATS, ExportEntity, ExportFilters, ExportFormat } from '../types/export';
+import { leadFiltersSchema, isValidCreatedRange } from './leads.validator';
+
+const formatField = {
+  // Output format (defaults to CSV)
+  format: z.enum(EXPORT_FORMATS, { errorMap: () => ({ message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }) }).default('csv'),
+};
+
+const ownerField = {
+  // Owner filter: 'me' or an email (resolved by the controller)
+  owner: z.string().max(255).optional(),
+};
+
+const leadIdField = {
+  leadId: z.coerce.number().int().positive('leadId must be a positive integer').optional(),
+};
+
+/**
+ * Query schemas per entity
+ * Query values arrive as strings, so numbers are coerced
+ */
+export const exportQuerySchemas = {
+  leads: leadFiltersSchema
+    .extend(formatField)
+    .refine(isValidCreatedRange, { message: 'createdFrom must be before createdTo', path: ['createdFrom'] }),
+  deals: z.object({
+    ...formatField,
+    ...ownerField,
+    // Only deals of this pipeline (defaults to every pipeline)
+    pipelineId: z.coerce.number().int().positive('pipelineId must be a positive integer').optional(),
+  }),
+  clients: z.object({
+    ...formatField,
+    ...ownerField,
+  }),
+  tasks: z.object({
+    ...formatField,
+    ...leadIdField,
+    // Assignee filter: 'me' or an email (resolved by the controller)
+    assignedTo: z.string().max(255).optional(),
+    clientId: z.string().uuid('clientId must be a UUID').optional(),
+    status: z.enum(['open', 'in_progress', 'done']).optional(),
+  }),
+  calls: z.object({
+    ...formatField,
+    ...leadIdField,
+  }),
+  visits: z.object({
+    ...formatField,
+    ...leadIdField,
+  }),
+  activities: z.object({
+    ...formatField,
+    ...leadIdField,
+    // Activity type (call, email, meeting, note)
+    type: z.string().max(100).optional(),
+  }),
+} satisfies Record<ExportEntity, z.ZodTypeAny>;
+
+/**
+ * Validated export query (any entity's fields; ?owner, ?assignedTo and ?type are resolved by the controller)
+ */
+export type ExportQueryInput = Omit<ExportFilters, 'ownerEmail' | 'assignedToEmail' | 'activityType'> & {
+  format: ExportFormat;
+  owner?: string;
+  assignedTo?: string;
+  type?: string;
+};
+
+/**
+ * Validates a query string against the schema of the exported entity
+ * 
+ * @param entity - The entity being exported
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateExportQuery(entity: ExportEntity, data: unknown): {
+  success: boolean;
+  data?: ExportQueryInput;
+  errors?: z.ZodError;
+} {
+  const result = exportQuerySchemas[entity].safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data as ExportQueryInput };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
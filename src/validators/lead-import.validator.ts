@@ -0,0 +1,77 @@
+/**
+ * Lead Import Validation Module
+ *
+ * Validates the form fields sent with a spreadsheet to POST /api/leads/import.
+ * Multipart form fields arrive as strings, so booleans and the mapping JSON are parsed here.
+ */
+
+import { z } from 'zod';
+import { LEAD_IMPORT_FIELDS } from '../types/lead-import';
+
+/**
+ * "true"/"false" form field → boolean
+ */
+const booleanField = (defaultValue: boolean) => z
+  .union([z.boolean(), z.enum(['true', 'false'])])
+  .transform((value) => value === true || value === 'true')
+  .default(defaultValue);
+
+/**
+ * Column mapping sent as a JSON string: { "<spreadsheet header>": "<lead field>" }
+ */
+const mappingSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Mapping must be valid JSON' });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.record(z.enum(LEAD_IMPORT_FIELDS, {
+    errorMap: () => ({ message: `Mapped fields must be one of: ${LEAD_IMPORT_FIELDS.join(', ')}` }),
+  })))
+  .refine((mapping) => Object.values(mapping).includes('contact.name'), {
+    message: 'A column must be mapped to contact.name',
+  })
+  .refine((mapping) => new Set(Object.values(mapping)).size === Object.values(mapping).length, {
+    message: 'Each lead field can only be mapped from one column',
+  });
+
+/**
+ * Schema for validating the import form fields
+ */
+export const leadImportOptionsSchema = z.object({
+  // Column mapping; when omitted it is suggested from the headers
+  mapping: mappingSchema.optional(),
+  // Only report what would happen (default) - send dryRun=false to create the leads
+  dryRun: booleanField(true),
+  // When committing, leave out rows that look like existing contacts or earlier rows
+  skipDuplicates: booleanField(true),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type LeadImportOptionsInput = z.infer<typeof leadImportOptionsSchema>;
+
+/**
+ * Validates the import form fields against the leadImportOptionsSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateLeadImportOptions(data: unknown): {
+  success: boolean;
+  data?: LeadImportOptionsInput;
+  errors?: z.ZodError;
+} {
+  const result = leadImportOptionsSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
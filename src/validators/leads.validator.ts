@@ -9,6 +9,8 @@
  */
 
 import { z } from 'zod';
+import { decodeCursor } from '../lib/cursor';
+import { LEAD_STAGES, LEAD_STATUSES } from '../lib/lead-transitions';
 
 /**
  * Schema for validating contact information
@@ -19,6 +21,8 @@ const contactSchema = z.object({
   email: z.string().email('Invalid email format').optional().or(z.literal('')),
   phone: z.string().max(50, 'Phone number is too long').optional().or(z.literal('')),
   company: z.string().max(255, 'Company name is too long').optional().or(z.literal('')),
+  // Existing company to link (see GET /api/companies); without it the company is matched or created by name
+  companyId: z.number().int().positive('companyId must be a positive integer').optional(),
 });
 
 /**
@@ -34,6 +38,8 @@ export const createLeadSchema = z.object({
   stage: z.string().max(100, 'Stage is too long').optional(),
   // Vertical/Industry of the lead (e.g., 'Healthcare', 'Finance', 'Technology')
   verticals: z.string().max(255, 'Verticals is too long').optional(),
+  // Create the lead even if the contact looks like an existing one (skips the 409 duplicate warning)
+  allowDuplicate: z.boolean().optional(),
 });
 
 /**
@@ -63,6 +69,54 @@ export function validateCreateLead(data: unknown): {
   }
 }
 
+/**
+ * Schema for validating lead update request body
+ * This is what we expect when someone updates a lead via PATCH /api/leads/:id
+ * All fields are optional, but at least one must be provided.
+ * Whether a stage/status change is allowed is checked by the service (see lib/lead-transitions.ts).
+ */
+export const updateLeadSchema = z
+  .object({
+    stage: z.enum(LEAD_STAGES, {
+      errorMap: () => ({ message: `Stage must be one of: ${LEAD_STAGES.join(', ')}` }),
+    }).optional(),
+    status: z.enum(LEAD_STATUSES, {
+      errorMap: () => ({ message: `Status must be one of: ${LEAD_STATUSES.join(', ')}` }),
+    }).optional(),
+    source: z.string().max(100, 'Source is too long').nullable().optional(),
+    verticals: z.string().max(255, 'Verticals is too long').nullable().optional(),
+    notes: z.string().max(5000, 'Notes are too long').nullable().optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateLeadInput = z.infer<typeof updateLeadSchema>;
+
+/**
+ * Validates a request body against the updateLeadSchema
+ * 
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateLead(data: unknown): {
+  success: boolean;
+  data?: UpdateLeadInput;
+  errors?: z.ZodError;
+} {
+  const result = updateLeadSchema.safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
 /**
  * Schema for validating activity creation request body
  * This is what we expect when someone creates a new activity via POST /api/leads/:id/activities
@@ -105,11 +159,19 @@ export function validateCreateActivity(data: unknown): {
  * This is what we expect when someone creates a new cold call via POST /api/leads/:id/cold-calls
  */
 export const createColdCallSchema = z.object({
-  // Outcome of the cold call (e.g., 'connected', 'no_answer', 'wrong_number')
-  // Must be a non-empty string
-  outcome: z.string().min(1, 'Outcome is required').max(100, 'Outcome is too long'),
+  // Disposition key (e.g., 'connected', 'voicemail', 'callback_requested'), see GET /api/calls/dispositions
+  disposition: z.string().min(1, 'Disposition is required').max(50, 'Disposition is too long').optional(),
+  // Free-text outcome, still accepted from older clients (used as the disposition when it matches one)
+  outcome: z.string().min(1, 'Outcome is required').max(100, 'Outcome is too long').optional(),
+  // When to call back (ISO datetime); creates a follow-up task for the caller
+  nextCallbackAt: z.string().datetime({ offset: true, message: 'nextCallbackAt must be an ISO datetime' }).optional(),
+  // Call script used on the call (see /api/call-scripts)
+  callScriptId: z.number().int().positive('callScriptId must be a positive integer').optional(),
   // Optional notes about the call
   notes: z.string().max(1000, 'Notes are too long').optional(),
+}).refine((data) => data.disposition !== undefined || data.outcome !== undefined, {
+  message: 'Either disposition or outcome is required',
+  path: ['disposition'],
 });
 
 /**
@@ -183,3 +245,103 @@ export function validateCreateOnsiteVisit(data: unknown): {
   }
 }
 
+
+/**
+ * Columns the lead list can be sorted by
+ */
+export const LEAD_SORT_FIELDS = ['created_at', 'updated_at', 'name', 'company', 'stage', 'status', 'source'] as const;
+
+/**
+ * Accepts an ISO date (2024-01-31) or date-time (2024-01-31T12:00:00Z)
+ */
+export const dateFilter = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), 'Must be a valid ISO date');
+
+/**
+ * Filters shared by the lead list (GET /api/leads) and the lead export (GET /api/export/leads)
+ */
+export const leadFiltersSchema = z.object({
+  // Exact-match filters
+  stage: z.string().max(100).optional(),
+  status: z.string().max(100).optional(),
+  source: z.string().max(100).optional(),
+  createdByEmail: z.string().email('createdByEmail must be a valid email').optional(),
+  // Partial, case-insensitive filters
+  verticals: z.string().max(255).optional(),
+  company: z.string().max(255).optional(),
+  // Created date range (inclusive)
+  createdFrom: dateFilter.optional(),
+  createdTo: dateFilter.optional(),
+  // Owner filter: 'me' or an email (resolved by the controller)
+  owner: z.string().max(255).optional(),
+});
+
+/**
+ * Checks that the created date range does not end before it starts
+ */
+export function isValidCreatedRange(query: { createdFrom?: string; createdTo?: string }): boolean {
+  return !query.createdFrom || !query.createdTo || Date.parse(query.createdFrom) <= Date.parse(query.createdTo);
+}
+
+/**
+ * Schema for validating the GET /api/leads query string
+ * Query values arrive as strings, so numbers are coerced
+ */
+export const listLeadsQuerySchema = leadFiltersSchema
+  .extend({
+    // Page size
+    limit: z.coerce.number().int().min(1, 'limit must be at least 1').max(200, 'limit cannot exceed 200').default(50),
+    // Opaque cursor from the previous page's nextCursor
+    cursor: z
+      .string()
+      .refine((value) => {
+        const key = decodeCursor(value);
+        return (
+          key !== null &&
+          typeof key.s === 'string' &&
+          typeof key.o === 'string' &&
+          typeof key.v === 'string' &&
+          typeof key.id === 'number'
+        );
+      }, 'Invalid cursor')
+      .optional(),
+    sortBy: z.enum(LEAD_SORT_FIELDS).default('created_at'),
+    sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(isValidCreatedRange, { message: 'createdFrom must be before createdTo', path: ['createdFrom'] })
+  // A cursor holds a value of its sort column, so it can't be reused with another sortBy
+  .refine((query) => !query.cursor || decodeCursor(query.cursor)?.s === query.sortBy, {
+    message: 'cursor belongs to a different sortBy; start again without a cursor',
+    path: ['cursor'],
+  })
+  // Its position is only meaningful in the direction it was read, so sortOrder can't change either
+  .refine((query) => !query.cursor || decodeCursor(query.cursor)?.o === query.sortOrder, {
+    message: 'cursor belongs to a different sortOrder; start again without a cursor',
+    path: ['cursor'],
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type ListLeadsQuery = z.infer<typeof listLeadsQuerySchema>;
+
+/**
+ * Validates a query string against the listLeadsQuerySchema
+ * 
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateListLeadsQuery(data: unknown): {
+  success: boolean;
+  data?: ListLeadsQuery;
+  errors?: z.ZodError;
+} {
+  const result = listLeadsQuerySchema.safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Ownership Validation Module
+ *
+ * Validates record reassignment requests and the ?owner= list filter
+ * shared by leads, deals and clients.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for validating owner reassignment request body
+ * This is what we expect on PATCH /api/leads/:id/owner, /api/deals/:id/owner and /api/clients/:id/owner
+ */
+export const updateOwnerSchema = z.object({
+  // Email of the team member who will own the record
+  ownerEmail: z.string().email('ownerEmail must be a valid email'),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateOwnerInput = z.infer<typeof updateOwnerSchema>;
+
+/**
+ * Validates a request body against the updateOwnerSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateOwner(data: unknown): {
+  success: boolean;
+  data?: UpdateOwnerInput;
+  errors?: z.ZodError;
+} {
+  const result = updateOwnerSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Resolves the ?owner= query parameter into an owner email
+ *
+ * - owner=me → the authenticated caller's email
+ * - owner=<email> → that email
+ * - missing → undefined (no owner filter)
+ *
+ * @param value - Raw query value (req.query.owner)
+ * @param currentUserEmail - Email of the authenticated caller
+ */
+export function resolveOwnerFilter(value: unknown, currentUserEmail: string): string | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  return value === 'me' ? currentUserEmail : value.trim();
+}
@@ -0,0 +1,113 @@
+/**
+ * Pipelines Validation Module
+ *
+ * Validates request bodies for the /api/pipelines endpoints.
+ * Stages are sent as an ordered array - the array order becomes the stage position.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for a single stage definition
+ */
+export const pipelineStageSchema = z.object({
+  // Identifier stored on deals; derived from the name when omitted
+  key: z.string()
+    .max(50, 'Stage key is too long')
+    .regex(/^[a-z0-9_]+$/, 'Stage key may only contain lowercase letters, numbers and underscores')
+    .optional(),
+  name: z.string().min(1, 'Stage name is required').max(100, 'Stage name is too long'),
+  // Win probability in percent
+  probability: z.number().int().min(0, 'Probability must be between 0 and 100').max(100, 'Probability must be between 0 and 100').optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex colour like #3B82F6').nullable().optional(),
+  isWon: z.boolean().optional(),
+  isLost: z.boolean().optional(),
+}).refine((stage) => !(stage.isWon && stage.isLost), {
+  message: 'A stage cannot be both won and lost',
+  path: ['isLost'],
+});
+
+const stagesSchema = z.array(pipelineStageSchema)
+  .min(1, 'A pipeline needs at least one stage')
+  .max(20, 'A pipeline can have at most 20 stages');
+
+/**
+ * Schema for validating pipeline creation request body
+ * This is what we expect on POST /api/pipelines
+ */
+export const createPipelineSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  description: z.string().max(1000, 'Description is too long').nullable().optional(),
+  // Make this the pipeline used for deals created without a pipelineId
+  isDefault: z.boolean().optional(),
+  stages: stagesSchema,
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreatePipelineInput = z.infer<typeof createPipelineSchema>;
+
+/**
+ * Validates a request body against the createPipelineSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreatePipeline(data: unknown): {
+  success: boolean;
+  data?: CreatePipelineInput;
+  errors?: z.ZodError;
+} {
+  const result = createPipelineSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating pipeline update request body
+ * This is what we expect on PATCH /api/pipelines/:id
+ * When stages are given they replace the pipeline's stages (matched by key).
+ */
+export const updatePipelineSchema = z.object({
+  name: z.string().min(1, 'Name cannot be empty').max(100, 'Name is too long').optional(),
+  description: z.string().max(1000, 'Description is too long').nullable().optional(),
+  // Only true is accepted - another pipeline is un-defaulted by making a different one the default
+  isDefault: z.literal(true, {
+    errorMap: () => ({ message: 'isDefault can only be set to true' }),
+  }).optional(),
+  stages: stagesSchema.optional(),
+})
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdatePipelineInput = z.infer<typeof updatePipelineSchema>;
+
+/**
+ * Validates a request body against the updatePipelineSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdatePipeline(data: unknown): {
+  success: boolean;
+  data?: UpdatePipelineInput;
+  errors?: z.ZodError;
+} {
+  const result = updatePipelineSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Search Validation Module
+ * 
+ * Validates the GET /api/search query string.
+ */
+
+import { z } from 'zod';
+import { SEARCH_ENTITIES, SearchEntity } from '../types/search';
+
+/**
+ * Schema for validating the search query string
+ * Query values arrive as strings, so numbers are coerced and lists are comma-separated
+ */
+export const searchQuerySchema = z.object({
+  // Search text (e.g. "acme", "john@exa", "555 0101")
+  q: z.string().trim().min(2, 'Search text must be at least 2 characters').max(200, 'Search text is too long'),
+  // Maximum hits per entity
+  limit: z.coerce.number().int().min(1, 'limit must be at least 1').max(50, 'limit cannot exceed 50').default(5),
+  // Optional comma-separated list of entities to search (defaults to all)
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((type) => type.trim()).filter(Boolean) : [...SEARCH_ENTITIES]))
+    .refine(
+      (types) => types.every((type) => (SEARCH_ENTITIES as readonly string[]).includes(type)),
+      `types must be a comma-separated list of: ${SEARCH_ENTITIES.join(', ')}`
+    )
+    .transform((types) => types as SearchEntity[]),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
+
+/**
+ * Validates a query string against the searchQuerySchema
+ * 
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateSearchQuery(data: unknown): {
+  success: boolean;
+  data?: SearchQueryInput;
+  errors?: z.ZodError;
+} {
+  const result = searchQuerySchema.safeParse(data);
+  
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
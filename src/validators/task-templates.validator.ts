@@ -0,0 +1,144 @@
+/**
+ * Task Templates Validation Module
+ *
+ * Validates request bodies for the /api/task-templates endpoints.
+ */
+
+import { z } from 'zod';
+import { recurrenceRuleSchema } from './tasks.validator';
+
+const PRIORITY_VALUES = ['low', 'normal', 'high'] as const;
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be YYYY-MM-DD');
+
+/**
+ * One task of the template's checklist. Items are created in the order given.
+ */
+const templateItemSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(255, 'Title is too long'),
+  description: z.string().max(1000, 'Description is too long').optional(),
+  priority: z.enum(PRIORITY_VALUES).default('normal'),
+  dueInDays: z.number().int().min(0, 'dueInDays cannot be negative').max(3650, 'dueInDays is too large').optional(),
+  recurrenceRule: recurrenceRuleSchema.optional(),
+}).refine((data) => !data.recurrenceRule || data.dueInDays !== undefined, {
+  message: 'Recurring items need dueInDays',
+  path: ['dueInDays'],
+});
+
+export type TaskTemplateItemInput = z.infer<typeof templateItemSchema>;
+
+const taskTemplateFields = {
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  description: z.string().max(1000, 'Description is too long').nullable(),
+  items: z.array(templateItemSchema).min(1, 'A template needs at least one item').max(50, 'A template can have at most 50 items'),
+};
+
+/**
+ * Schema for validating task template creation request body
+ * This is what we expect on POST /api/task-templates
+ */
+export const createTaskTemplateSchema = z.object({
+  name: taskTemplateFields.name,
+  description: taskTemplateFields.description.optional(),
+  items: taskTemplateFields.items,
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type CreateTaskTemplateInput = z.infer<typeof createTaskTemplateSchema>;
+
+/**
+ * Validates a request body against the createTaskTemplateSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateCreateTaskTemplate(data: unknown): {
+  success: boolean;
+  data?: CreateTaskTemplateInput;
+  errors?: z.ZodError;
+} {
+  const result = createTaskTemplateSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating task template update request body
+ * This is what we expect on PATCH /api/task-templates/:id
+ * Sending items replaces the whole checklist.
+ */
+export const updateTaskTemplateSchema = z.object(taskTemplateFields)
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type UpdateTaskTemplateInput = z.infer<typeof updateTaskTemplateSchema>;
+
+/**
+ * Validates a request body against the updateTaskTemplateSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateUpdateTaskTemplate(data: unknown): {
+  success: boolean;
+  data?: UpdateTaskTemplateInput;
+  errors?: z.ZodError;
+} {
+  const result = updateTaskTemplateSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the body of POST /api/task-templates/:id/apply
+ * Exactly one of leadId or clientId must be given.
+ */
+export const applyTaskTemplateSchema = z.object({
+  leadId: z.number().int().positive().optional(),
+  clientId: z.string().min(1).optional(),
+  assignedToEmail: z.string().email('assignedToEmail must be a valid email'),
+  startDate: dateOnly.optional(), // dueInDays counts from here (default: today)
+}).strict().refine((data) => (data.leadId === undefined) !== (data.clientId === undefined), {
+  message: 'Provide either leadId or clientId',
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type ApplyTaskTemplateInput = z.infer<typeof applyTaskTemplateSchema>;
+
+/**
+ * Validates a request body against the applyTaskTemplateSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateApplyTaskTemplate(data: unknown): {
+  success: boolean;
+  data?: ApplyTaskTemplateInput;
+  errors?: z.ZodError;
+} {
+  const result = applyTaskTemplateSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
@@ -5,10 +5,20 @@
  */
 
 import { z } from 'zod';
+import { parseRecurrenceRule } from '../lib/recurrence';
+import { dateFilter } from './leads.validator';
 
 const PRIORITY_VALUES = ['low', 'normal', 'high'] as const;
 const STATUS_VALUES = ['open', 'in_progress', 'done'] as const;
 
+// RRULE-style rule, e.g. FREQ=WEEKLY;INTERVAL=1;COUNT=10 (see lib/recurrence)
+export const recurrenceRuleSchema = z
+  .string()
+  .max(200, 'recurrenceRule is too long')
+  .refine((value) => parseRecurrenceRule(value) !== null, {
+    message: 'recurrenceRule must be a FREQ=DAILY|WEEKLY|MONTHLY rule with optional INTERVAL, COUNT or UNTIL',
+  });
+
 export const createTaskSchema = z.object({
   assignedToEmail: z.string().email('assignedToEmail must be a valid email'),
   title: z.string().min(1, 'Title is required'),
@@ -19,6 +29,10 @@ export const createTaskSchema = z.object({
     .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'dueDate must be YYYY-MM-DD'))
     .optional(),
   priority: z.enum(PRIORITY_VALUES).optional(),
+  recurrenceRule: recurrenceRuleSchema.optional(),
+}).refine((data) => !data.recurrenceRule || data.dueDate, {
+  message: 'Recurring tasks need a dueDate',
+  path: ['dueDate'],
 });
 
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
@@ -55,6 +69,7 @@ export const updateTaskSchema = z
     dueDate: z.string().optional(),
     status: z.enum(STATUS_VALUES).optional(),
     priority: z.enum(PRIORITY_VALUES).optional(),
+    recurrenceRule: recurrenceRuleSchema.nullable().optional(),
   })
   .refine(
     (data) =>
@@ -63,7 +78,8 @@ export const updateTaskSchema = z
       data.description !== undefined ||
       data.dueDate !== undefined ||
       data.status !== undefined ||
-      data.priority !== undefined,
+      data.priority !== undefined ||
+      data.recurrenceRule !== undefined,
     { message: 'At least one field must be provided' }
   );
 
@@ -78,3 +94,156 @@ export function validateUpdateTask(data: unknown) {
   return { success: false as const, errors: result.error };
 }
 
+
+export const createChecklistItemSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(255, 'Title is too long'),
+});
+
+export type CreateChecklistItemInput = z.infer<typeof createChecklistItemSchema>;
+
+export function validateCreateChecklistItem(data: unknown) {
+  const result = createChecklistItemSchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
+
+export const updateChecklistItemSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title cannot be empty').max(255, 'Title is too long').optional(),
+    isDone: z.boolean().optional(),
+  })
+  .refine((data) => data.title !== undefined || data.isDone !== undefined, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>;
+
+export function validateUpdateChecklistItem(data: unknown) {
+  const result = updateChecklistItemSchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
+
+export const addTaskDependencySchema = z.object({
+  blockedByTaskId: z.number().int().positive('blockedByTaskId must be a task id'),
+});
+
+export type AddTaskDependencyInput = z.infer<typeof addTaskDependencySchema>;
+
+export function validateAddTaskDependency(data: unknown) {
+  const result = addTaskDependencySchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
+
+/**
+ * Body of POST /api/tasks/:id/comments and PATCH /api/tasks/:id/comments/:commentId
+ * Mention team members as @email, e.g. "@ann@uplora-crm.com please review".
+ */
+export const taskCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000, 'Comment is too long'),
+});
+
+export type TaskCommentInput = z.infer<typeof taskCommentSchema>;
+
+export function validateTaskComment(data: unknown) {
+  const result = taskCommentSchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
+
+/**
+ * Comma-separated list of allowed values in a query string (e.g. status=open,in_progress)
+ */
+function csvEnum<T extends readonly [string, ...string[]]>(values: T) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : value),
+    z.array(z.enum(values)).min(1)
+  );
+}
+
+export const TASK_GROUP_BY_VALUES = ['assignee', 'status'] as const;
+
+/**
+ * Query string of the team task board (GET /api/tasks)
+ * Query values arrive as strings, so numbers and booleans are coerced
+ */
+export const listTasksQuerySchema = z
+  .object({
+    // 'me' or an email (resolved by the controller)
+    assignee: z.string().max(255).optional(),
+    status: csvEnum(STATUS_VALUES).optional(),
+    priority: csvEnum(PRIORITY_VALUES).optional(),
+    // Due date range (inclusive; a bare date covers the whole day)
+    dueFrom: dateFilter.optional(),
+    dueTo: dateFilter.optional(),
+    leadId: z.coerce.number().int().positive().optional(),
+    clientId: z.string().min(1).max(255).optional(),
+    // true: past due and not done; false: everything else
+    overdue: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    groupBy: z.enum(TASK_GROUP_BY_VALUES).optional(),
+    limit: z.coerce.number().int().min(1, 'limit must be at least 1').max(500, 'limit cannot exceed 500').default(200),
+  })
+  .refine((query) => !query.dueFrom || !query.dueTo || Date.parse(query.dueFrom) <= Date.parse(query.dueTo), {
+    message: 'dueFrom must be before dueTo',
+    path: ['dueFrom'],
+  });
+
+export type ListTasksQuery = z.infer<typeof listTasksQuerySchema>;
+
+export function validateListTasksQuery(data: unknown) {
+  const result = listTasksQuerySchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
+
+/**
+ * Body of POST /api/tasks/bulk: the same changes applied to every listed task
+ */
+export const bulkUpdateTasksSchema = z.object({
+  taskIds: z
+    .array(z.number().int().positive())
+    .min(1, 'taskIds must list at least one task')
+    .max(200, 'At most 200 tasks can be updated at once')
+    .refine((ids) => new Set(ids).size === ids.length, 'taskIds must not contain duplicates'),
+  changes: z
+    .object({
+      assignedToEmail: z.string().email('assignedToEmail must be a valid email').optional(),
+      priority: z.enum(PRIORITY_VALUES).optional(),
+      dueDate: z
+        .string()
+        .datetime({ offset: true })
+        .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'dueDate must be YYYY-MM-DD'))
+        .nullable()
+        .optional(),
+      status: z.enum(STATUS_VALUES).optional(),
+    })
+    .strict()
+    .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one change must be provided' }),
+});
+
+export type BulkUpdateTasksInput = z.infer<typeof bulkUpdateTasksSchema>;
+
+export function validateBulkUpdateTasks(data: unknown) {
+  const result = bulkUpdateTasksSchema.safeParse(data);
+  if (result.success) {
+    return { success: true as const, data: result.data };
+  }
+
+  return { success: false as const, errors: result.error };
+}
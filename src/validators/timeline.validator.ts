@@ -0,0 +1,73 @@
+/**
+ * Timeline Validation Module
+ * 
+ * Validates the GET /api/leads/:id/timeline and GET /api/clients/:id/timeline query string.
+ */
+
+import { z } from 'zod';
+import { decodeCursor } from '../lib/cursor';
+import { TIMELINE_EVENT_TYPES, TimelineEventType } from '../types/timeline';
+
+// Cursor timestamps are UTC with up to microsecond precision, e.g. 2024-03-01T09:00:00.000123Z
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?Z$/;
+
+/**
+ * Checks a cursor timestamp is well-formed and a real date, so it can be cast to timestamptz
+ */
+function isCursorTimestamp(value: unknown): boolean {
+  return typeof value === 'string'
+    && CURSOR_TIMESTAMP.test(value)
+    && !Number.isNaN(Date.parse(`${value.slice(0, 19)}Z`));
+}
+
+/**
+ * Schema for validating the timeline query string
+ * Query values arrive as strings, so numbers are coerced and lists are comma-separated
+ */
+export const timelineQuerySchema = z.object({
+  // Page size
+  limit: z.coerce.number().int().min(1, 'limit must be at least 1').max(200, 'limit cannot exceed 200').default(50),
+  // Opaque cursor from the previous page's nextCursor
+  cursor: z
+    .string()
+    .refine((value) => {
+      const key = decodeCursor(value);
+      return key !== null && isCursorTimestamp(key.t) && typeof key.id === 'string';
+    }, 'Invalid cursor')
+    .optional(),
+  // Optional comma-separated list of event types to include (defaults to all)
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((type) => type.trim()).filter(Boolean) : [...TIMELINE_EVENT_TYPES]))
+    .refine(
+      (types) => types.every((type) => (TIMELINE_EVENT_TYPES as readonly string[]).includes(type)),
+      `types must be a comma-separated list of: ${TIMELINE_EVENT_TYPES.join(', ')}`
+    )
+    .transform((types) => types as TimelineEventType[]),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type TimelineQueryInput = z.infer<typeof timelineQuerySchema>;
+
+/**
+ * Validates a query string against the timelineQuerySchema
+ * 
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateTimelineQuery(data: unknown): {
+  success: boolean;
+  data?: TimelineQueryInput;
+  errors?: z.ZodError;
+} {
+  const result = timelineQuerySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
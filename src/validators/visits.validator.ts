@@ -0,0 +1,139 @@
+/**
+ * Visits Validation Module
+ *
+ * Validates check-in / check-out request bodies and the agenda and route query strings
+ * for the onsite visit endpoints (/api/visits).
+ */
+
+import { z } from 'zod';
+import { dateFilter } from './leads.validator';
+
+/**
+ * Longest range the agenda can cover, in days
+ */
+const MAX_SCHEDULE_DAYS = 92;
+
+/**
+ * Schema for validating check-in and check-out request bodies
+ * This is what we expect on POST /api/visits/:id/check-in and POST /api/visits/:id/check-out
+ */
+export const visitLocationSchema = z.object({
+  // Where the rep's device was when checking in or out
+  latitude: z.number().min(-90, 'latitude must be between -90 and 90').max(90, 'latitude must be between -90 and 90'),
+  longitude: z.number().min(-180, 'longitude must be between -180 and 180').max(180, 'longitude must be between -180 and 180'),
+});
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type VisitLocationInput = z.infer<typeof visitLocationSchema>;
+
+/**
+ * Validates a request body against the visitLocationSchema
+ *
+ * @param data - The data to validate (usually from req.body)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateVisitLocation(data: unknown): {
+  success: boolean;
+  data?: VisitLocationInput;
+  errors?: z.ZodError;
+} {
+  const result = visitLocationSchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the GET /api/visits/schedule query string
+ */
+export const visitScheduleQuerySchema = z
+  .object({
+    // Range start (ISO date or date-time, inclusive)
+    from: dateFilter,
+    // Range end (ISO date or date-time, inclusive; a bare date covers the whole day)
+    to: dateFilter,
+    // Rep filter: 'me' or an email (resolved by the controller); every rep when missing
+    rep: z.string().max(255).optional(),
+  })
+  .refine((query) => Date.parse(query.from) <= Date.parse(query.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine((query) => Date.parse(query.to) - Date.parse(query.from) <= MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000, {
+    message: `The schedule can cover at most ${MAX_SCHEDULE_DAYS} days`,
+    path: ['to'],
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type VisitScheduleQuery = z.infer<typeof visitScheduleQuerySchema>;
+
+/**
+ * Validates a query string against the visitScheduleQuerySchema
+ *
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateVisitScheduleQuery(data: unknown): {
+  success: boolean;
+  data?: VisitScheduleQuery;
+  errors?: z.ZodError;
+} {
+  const result = visitScheduleQuerySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
+
+/**
+ * Schema for validating the GET /api/visits/route query string
+ * Query values arrive as strings, so numbers are coerced
+ */
+export const visitRouteQuerySchema = z
+  .object({
+    // The day to plan
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be a YYYY-MM-DD date'),
+    // Rep filter: 'me' (default) or an email (resolved by the controller)
+    rep: z.string().max(255).optional(),
+    // Optional start location (e.g. the office); both or neither
+    startLatitude: z.coerce.number().min(-90).max(90).optional(),
+    startLongitude: z.coerce.number().min(-180).max(180).optional(),
+  })
+  .refine((query) => (query.startLatitude === undefined) === (query.startLongitude === undefined), {
+    message: 'startLatitude and startLongitude must be given together',
+    path: ['startLatitude'],
+  });
+
+/**
+ * TypeScript type inferred from the schema
+ */
+export type VisitRouteQuery = z.infer<typeof visitRouteQuerySchema>;
+
+/**
+ * Validates a query string against the visitRouteQuerySchema
+ *
+ * @param data - The data to validate (usually req.query)
+ * @returns An object with success status and either validated data or errors
+ */
+export function validateVisitRouteQuery(data: unknown): {
+  success: boolean;
+  data?: VisitRouteQuery;
+  errors?: z.ZodError;
+} {
+  const result = visitRouteQuerySchema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  } else {
+    return { success: false, errors: result.error };
+  }
+}
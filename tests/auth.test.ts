@@ -0,0 +1,105 @@
+/**
+ * Authentication Middleware Tests
+ *
+ * These tests check that every API router is protected by the bearer token check
+ * and that controllers use the authenticated user instead of request headers.
+ *
+ * The team and notifications services are mocked so the tests don't need a database.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+import * as teamService from '../src/services/team.service';
+import * as notificationsService from '../src/services/notifications.service';
+
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/notifications.service');
+
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+
+const activeMember = {
+  id: 7,
+  email: 'rep@uplora-crm.com',
+  name: 'Sales Rep',
+  role: 'user',
+  is_active: true,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+};
+
+describe('Authentication middleware', () => {
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should keep /api/health public', async () => {
+    await request(app).get('/api/health').expect(200);
+  });
+
+  it('should return 401 when the Authorization header is missing', async () => {
+    const response = await request(app).get('/api/notifications').expect(401);
+
+    expect(response.body).toHaveProperty('success', false);
+    expect(mockedTeamService.getTeamMemberByEmail).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when the token signature is invalid', async () => {
+    const token = signLocalToken({ email: activeMember.email });
+    const tampered = `${token.slice(0, -2)}xx`;
+
+    await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${tampered}`)
+      .expect(401);
+  });
+
+  it('should return 401 when the token has expired', async () => {
+    const token = signLocalToken({ email: activeMember.email }, -60);
+
+    await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+  });
+
+  it('should return 401 when the user is not in the users table', async () => {
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue(null);
+    const token = signLocalToken({ email: 'stranger@example.com' });
+
+    await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+  });
+
+  it('should return 401 when the user is inactive', async () => {
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue({ ...activeMember, is_active: false });
+    const token = signLocalToken({ email: activeMember.email });
+
+    await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+  });
+
+  it('should use the token identity and ignore x-user-email', async () => {
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue(activeMember);
+    mockedNotificationsService.getNotificationsForUser.mockResolvedValue([]);
+    const token = signLocalToken({ email: activeMember.email });
+
+    await request(app)
+      .get('/api/notifications')
+      .set('Authorization', `Bearer ${token}`)
+      .set('x-user-email', 'someone-else@uplora-crm.com')
+      .expect(200);
+
+    expect(mockedNotificationsService.getNotificationsForUser).toHaveBeenCalledWith(activeMember.email);
+  });
+});
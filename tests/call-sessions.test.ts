@@ -0,0 +1,240 @@
+/**
+ * Call Session Tests
+ *
+ * These tests check building a call queue from a lead filter, handing out leads
+ * one at a time (repeat, skip, end of queue) and the /api/call-sessions endpoints.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import { createCallSession, getNextLead } from '../src/services/call-sessions.service';
+import { authAs } from './helpers/auth';
+import { leadRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+function sessionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 9,
+    name: 'Dentists',
+    owner_email: 'rep@uplora-crm.com',
+    filters: { verticals: 'Dental' },
+    status: 'active',
+    created_at: '2024-06-01T09:00:00.000Z',
+    completed_at: null,
+    total_leads: 3,
+    remaining: 1,
+    skipped: 0,
+    calls_made: 1,
+    connects: 1,
+    average_duration: 95,
+    ...overrides,
+  };
+}
+
+/**
+ * Answers the queries that load a handed-out lead and the session stats
+ */
+function mockSessionReads(session = sessionRow()) {
+  mockedQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM call_sessions s')) return { rows: [session] };
+    if (sql.includes('FROM leads l')) {
+      return { rows: [leadRow()] };
+    }
+    if (sql.includes('FROM activities')) {
+      return { rows: [{ id: 3, activity_type: 'email', description: 'Sent brochure', created_at: '2024-05-20T10:00:00.000Z' }] };
+    }
+    return { rows: [] };
+  });
+}
+
+describe('createCallSession', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+  });
+
+  it('should queue the least recently contacted leads matching the filters', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO call_sessions')) return { rows: [{ id: 9 }] };
+      if (sql.includes('INSERT INTO call_session_leads')) return { rows: [], rowCount: 3 };
+      return { rows: [] };
+    });
+    mockSessionReads(sessionRow({ remaining: 3, calls_made: 0, connects: 0, average_duration: null }));
+
+    const session = await createCallSession({
+      name: 'Dentists',
+      ownerEmail: 'rep@uplora-crm.com',
+      filters: { stage: 'new', verticals: 'Dental', lastContactedBefore: '2024-05-01', noCallInDays: 14 },
+      maxLeads: 50,
+    });
+
+    const queueInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO call_session_leads'));
+    expect(queueInsert[0]).toContain('ORDER BY lc.last_contacted_at ASC NULLS FIRST, l.id ASC');
+    expect(queueInsert[0]).toContain('lc.last_contacted_at < $3::timestamptz');
+    expect(queueInsert[0]).toContain('make_interval(days => $4::int)');
+    expect(queueInsert[1]).toEqual(['new', '%Dental%', '2024-05-01', 14, 9, 50]);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(session).toMatchObject({
+      id: 9,
+      status: 'active',
+      stats: { total_leads: 3, remaining: 3, calls_made: 0, average_duration: null },
+    });
+  });
+
+  it('should roll back when no lead matches', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO call_sessions')) return { rows: [{ id: 9 }] };
+      if (sql.includes('INSERT INTO call_session_leads')) return { rows: [], rowCount: 0 };
+      return { rows: [] };
+    });
+
+    await expect(
+      createCallSession({ ownerEmail: 'rep@uplora-crm.com', filters: { stage: 'won' }, maxLeads: 100 })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe('getNextLead', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+    mockSessionReads();
+  });
+
+  it('should hand out the same lead until it is called', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM call_sessions')) return { rows: [{ id: 9, owner_email: 'rep@uplora-crm.com', status: 'active' }] };
+      if (sql.includes("status = 'in_progress'")) return { rows: [{ lead_id: 5, position: 2 }] };
+      return { rows: [] };
+    });
+
+    const { item } = await getNextLead(9, 'rep@uplora-crm.com');
+
+    expect(item).toMatchObject({
+      position: 2,
+      lead: { id: 5, name: 'Jane Doe', phone: '555-0100' },
+      recent_activities: [{ id: 3, activity_type: 'email' }],
+      recent_calls: [],
+    });
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE call_session_leads'))).toBe(false);
+  });
+
+  it('should skip the current lead and hand out the next one', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM call_sessions')) return { rows: [{ id: 9, owner_email: 'rep@uplora-crm.com', status: 'active' }] };
+      if (sql.startsWith('SELECT lead_id')) return { rows: [{ lead_id: 4, position: 1 }] };
+      if (sql.includes("SET status = 'in_progress'")) return { rows: [{ lead_id: 5, position: 2 }] };
+      return { rows: [] };
+    });
+
+    const { item } = await getNextLead(9, 'rep@uplora-crm.com', { skip: true });
+
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining("SET status = 'skipped'"),
+      [9, 4]
+    );
+    expect(item).toMatchObject({ position: 2, lead: { id: 5 } });
+  });
+
+  it('should complete the session when the queue is empty', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM call_sessions')) return { rows: [{ id: 9, owner_email: 'rep@uplora-crm.com', status: 'active' }] };
+      return { rows: [] };
+    });
+
+    const { item } = await getNextLead(9, 'rep@uplora-crm.com');
+
+    expect(item).toBeNull();
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining("SET status = 'completed'"), [9]);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+  });
+
+  it('should reject another rep with a 403', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM call_sessions')) return { rows: [{ id: 9, owner_email: 'other@uplora-crm.com', status: 'active' }] };
+      return { rows: [] };
+    });
+
+    await expect(getNextLead(9, 'rep@uplora-crm.com')).rejects.toMatchObject({ statusCode: 403 });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+  });
+});
+
+describe('Call session API', () => {
+  let auth: string;
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+    auth = authAs('user', 'rep@uplora-crm.com');
+  });
+
+  it('should create a session for the caller with owner=me resolved', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO call_sessions')) return { rows: [{ id: 9 }] };
+      if (sql.includes('INSERT INTO call_session_leads')) return { rows: [], rowCount: 3 };
+      return { rows: [] };
+    });
+    mockSessionReads();
+
+    const response = await request(app)
+      .post('/api/call-sessions')
+      .set('Authorization', auth)
+      .send({ name: 'Mine', filters: { owner: 'me' } })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({ id: 9, stats: { connects: 1, average_duration: 95 } });
+    const sessionInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO call_sessions'));
+    expect(sessionInsert[1]).toEqual(['Mine', 'rep@uplora-crm.com', JSON.stringify({ ownerEmail: 'rep@uplora-crm.com' })]);
+    const queueInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO call_session_leads'));
+    expect(queueInsert[1]).toEqual(['rep@uplora-crm.com', 9, 100]);
+  });
+
+  it('should reject unknown filters', async () => {
+    const response = await request(app)
+      .post('/api/call-sessions')
+      .set('Authorization', auth)
+      .send({ filters: { lastCalled: 'yesterday' } })
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should return a null lead once the queue is done', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM call_sessions')) return { rows: [{ id: 9, owner_email: 'rep@uplora-crm.com', status: 'completed' }] };
+      return { rows: [] };
+    });
+    mockSessionReads(sessionRow({ status: 'completed', remaining: 0 }));
+
+    const response = await request(app)
+      .get('/api/call-sessions/9/next')
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(response.body.data.lead).toBeNull();
+    expect(response.body.data.session).toMatchObject({ status: 'completed' });
+    expect(response.body.message).toBe('No more leads in this call session');
+  });
+});
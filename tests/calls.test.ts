@@ -0,0 +1,247 @@
+/**
+ * Cold Call Tests
+ *
+ * These tests check call dispositions (including the outcome fallback), the
+ * follow-up task created for a callback, the /api/calls/dispositions endpoints
+ * and who may edit call scripts.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import * as tasksService from '../src/services/tasks.service';
+import { createColdCall } from '../src/services/calls.service';
+import { authAs } from './helpers/auth';
+import { leadRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/tasks.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as jest.Mock;
+const mockedTasksService = tasksService as jest.Mocked<typeof tasksService>;
+
+function coldCallRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 40,
+    lead_id: 5,
+    call_date: '2024-06-01T10:00:00.000Z',
+    duration: 120,
+    outcome: 'callback_requested',
+    disposition: 'callback_requested',
+    caller_email: 'rep@uplora-crm.com',
+    next_callback_at: '2024-06-03T14:00:00.000Z',
+    callback_task_id: 12,
+    call_script_id: null,
+    call_script_name: null,
+    notes: 'Call after the board meeting',
+    created_at: '2024-06-01T10:00:00.000Z',
+    lead_name: 'Jane Doe',
+    ...overrides,
+  };
+}
+
+describe('createColdCall', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    // The transaction client answers like the pool, so every statement shows up in mockedQuery
+    mockedGetPoolClient.mockResolvedValue({ query: mockedQuery, release: jest.fn() });
+  });
+
+  it('should store the caller and create a callback task', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [leadRow()] };
+      if (sql.includes('FROM call_dispositions')) return { rows: [{ key: 'callback_requested' }] };
+      if (sql.includes('INSERT INTO cold_calls')) return { rows: [{ id: 40 }] };
+      if (sql.includes('WHERE cc.id')) return { rows: [coldCallRow()] };
+      return { rows: [], rowCount: 1 };
+    });
+    mockedTasksService.createTask.mockResolvedValue({ id: 12 } as any);
+
+    const call = await createColdCall({
+      lead_id: 5,
+      call_date: '2024-06-01T10:00:00.000Z',
+      disposition: 'callback_requested',
+      caller_email: 'rep@uplora-crm.com',
+      next_callback_at: '2024-06-03T14:00:00.000Z',
+      notes: 'Call after the board meeting',
+    });
+
+    const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO cold_calls'));
+    expect(insert[1].slice(3, 7)).toEqual([
+      'callback_requested',
+      'callback_requested',
+      'rep@uplora-crm.com',
+      '2024-06-03T14:00:00.000Z',
+    ]);
+    // The callback task is created first, inside the transaction, and linked by the same insert
+    expect(insert[1][7]).toBe(12);
+    expect(mockedTasksService.createTask).toHaveBeenCalledWith(expect.objectContaining({
+      leadId: 5,
+      assignedToEmail: 'rep@uplora-crm.com',
+      title: 'Call back Jane Doe',
+      dueDate: '2024-06-03T14:00:00.000Z',
+    }), expect.anything());
+    expect(mockedQuery).toHaveBeenCalledWith('COMMIT');
+    expect(mockedTasksService.notifyTaskAssigned).toHaveBeenCalledWith({ id: 12 });
+    // Advances the caller's call session if this lead was the one handed out
+    expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE call_session_leads'), [5, 'rep@uplora-crm.com', 40]);
+    expect(call).toMatchObject({ id: 40, disposition: 'callback_requested', callback_task_id: 12 });
+  });
+
+  it('should save nothing when the callback task cannot be created', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [leadRow()] };
+      if (sql.includes('FROM call_dispositions')) return { rows: [{ key: 'callback_requested' }] };
+      return { rows: [], rowCount: 1 };
+    });
+    mockedTasksService.createTask.mockRejectedValue(new Error('connection lost'));
+
+    await expect(createColdCall({
+      lead_id: 5,
+      call_date: '2024-06-01T10:00:00.000Z',
+      disposition: 'callback_requested',
+      caller_email: 'rep@uplora-crm.com',
+      next_callback_at: '2024-06-03T14:00:00.000Z',
+    })).rejects.toThrow('connection lost');
+
+    expect(mockedQuery).toHaveBeenCalledWith('ROLLBACK');
+    expect(mockedQuery).not.toHaveBeenCalledWith('COMMIT');
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO cold_calls'))).toBe(false);
+  });
+
+  it('should map a free-text outcome that matches a disposition', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [leadRow()] };
+      if (sql.includes('FROM call_dispositions')) return { rows: [{ key: 'voicemail' }] };
+      if (sql.includes('INSERT INTO cold_calls')) return { rows: [{ id: 41 }] };
+      if (sql.includes('WHERE cc.id')) return { rows: [coldCallRow({ id: 41 })] };
+      return { rows: [] };
+    });
+
+    await createColdCall({ lead_id: 5, call_date: '2024-06-01T10:00:00.000Z', outcome: ' Voicemail ' });
+
+    const lookup = mockedQuery.mock.calls.find(([sql]) => sql.includes('FROM call_dispositions'));
+    expect(lookup[1]).toEqual(['voicemail']);
+    const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO cold_calls'));
+    expect(insert[1][3]).toBe(' Voicemail ');
+    expect(insert[1][4]).toBe('voicemail');
+    expect(mockedTasksService.createTask).not.toHaveBeenCalled();
+  });
+
+  it('should reject an unknown disposition with a 400', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [leadRow()] };
+      return { rows: [] };
+    });
+
+    await expect(
+      createColdCall({ lead_id: 5, call_date: '2024-06-01T10:00:00.000Z', disposition: 'maybe' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO cold_calls'))).toBe(false);
+  });
+});
+
+describe('Call API', () => {
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should record the authenticated user as the caller on POST /api/leads/:id/cold-calls', async () => {
+    const auth = authAs('user', 'rep@uplora-crm.com');
+    mockedGetPoolClient.mockResolvedValue({ query: mockedQuery, release: jest.fn() });
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [leadRow()] };
+      if (sql.includes('FROM call_dispositions')) return { rows: [{ key: 'connected' }] };
+      if (sql.includes('INSERT INTO cold_calls')) return { rows: [{ id: 42 }] };
+      if (sql.includes('WHERE cc.id')) return { rows: [coldCallRow({ id: 42, disposition: 'connected' })] };
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/leads/5/cold-calls')
+      .set('Authorization', auth)
+      .send({ disposition: 'connected', notes: 'Interested in the pro plan' })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({ id: 42, disposition: 'connected' });
+    const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO cold_calls'));
+    expect(insert[1][5]).toBe('rep@uplora-crm.com');
+  });
+
+  it('should require a disposition or outcome', async () => {
+    const response = await request(app)
+      .post('/api/leads/5/cold-calls')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .send({ notes: 'No result given' })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'disposition' })]);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should list active dispositions on GET /api/calls/dispositions', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [{ key: 'connected', label: 'Connected', position: 0, is_active: true }],
+    });
+
+    const response = await request(app)
+      .get('/api/calls/dispositions')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .expect(200);
+
+    expect(response.body.data).toEqual([{ key: 'connected', label: 'Connected', position: 0, is_active: true }]);
+    expect(mockedQuery.mock.calls[0][0]).toContain('WHERE is_active = true');
+  });
+
+  it('should return 409 when a manager adds a duplicate disposition', async () => {
+    mockedQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+    await request(app)
+      .post('/api/calls/dispositions')
+      .set('Authorization', authAs('manager'))
+      .send({ key: 'voicemail', label: 'Voicemail' })
+      .expect(409);
+  });
+
+  it('should not let regular users manage dispositions or call scripts', async () => {
+    const auth = authAs('user', 'rep@uplora-crm.com');
+
+    await request(app).post('/api/calls/dispositions').set('Authorization', auth)
+      .send({ key: 'gatekeeper', label: 'Blocked by gatekeeper' }).expect(403);
+    await request(app).post('/api/call-scripts').set('Authorization', auth)
+      .send({ name: 'Intro', body: 'Hi, this is...' }).expect(403);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should create a call script for a manager', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [{
+        id: 3,
+        name: 'Intro',
+        body: 'Hi, this is...',
+        is_active: true,
+        created_by_email: 'rep@uplora-crm.com',
+        created_at: '2024-06-01T10:00:00.000Z',
+        updated_at: '2024-06-01T10:00:00.000Z',
+      }],
+    });
+
+    const response = await request(app)
+      .post('/api/call-scripts')
+      .set('Authorization', authAs('manager'))
+      .send({ name: 'Intro', body: 'Hi, this is...' })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({ id: 3, name: 'Intro', is_active: true });
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['Intro', 'Hi, this is...', true, 'manager@uplora-crm.com']);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Companies Tests
+ *
+ * These tests check company name matching, find-or-create for free-text company names
+ * (used when leads are created or imported), the company detail aggregation and the
+ * /api/companies endpoints.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import {
+  cleanCompanyName,
+  companyNameKey,
+  findOrCreateCompanies,
+  getCompanyDetail,
+} from '../src/services/companies.service';
+import { createLeadsInBatches } from '../src/services/leads.service';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+function companyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 4,
+    name: 'Acme Inc',
+    name_key: 'acme inc',
+    domain: 'acme.com',
+    industry: 'Manufacturing',
+    verticals: null,
+    size: '11-50',
+    address: null,
+    contact_count: '3',
+    lead_count: '2',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-02T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('company names', () => {
+  it('should tidy whitespace and match names case-insensitively', () => {
+    expect(cleanCompanyName('  Acme   Inc ')).toBe('Acme Inc');
+    expect(companyNameKey('ACME  inc')).toBe(companyNameKey('Acme Inc'));
+  });
+});
+
+describe('findOrCreateCompanies', () => {
+  it('should insert each distinct name once and return companies by key', async () => {
+    const db = { query: jest.fn() };
+    db.query
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 4, name: 'Acme Inc', name_key: 'acme inc' }, { id: 9, name: 'Globex', name_key: 'globex' }] });
+
+    const companies = await findOrCreateCompanies(db as any, ['Acme Inc', ' acme  INC', 'Globex', '', '  ']);
+
+    expect(db.query.mock.calls[0][0]).toContain('ON CONFLICT (name_key) DO NOTHING');
+    expect(db.query.mock.calls[0][1]).toEqual([['Acme Inc', 'Globex']]);
+    expect(db.query.mock.calls[1][1]).toEqual([['acme inc', 'globex']]);
+    expect(companies.get('acme inc')).toEqual({ id: 4, name: 'Acme Inc' });
+  });
+
+  it('should not query when no names are given', async () => {
+    const db = { query: jest.fn() };
+    await expect(findOrCreateCompanies(db as any, ['', ' '])).resolves.toEqual(new Map());
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('createLeadsInBatches', () => {
+  it('should link imported contacts and leads to their companies', async () => {
+    const client = { query: jest.fn(), release: jest.fn() };
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM companies')) return { rows: [{ id: 4, name: 'Acme Inc', name_key: 'acme inc' }] };
+      if (sql.includes('INSERT INTO contacts')) {
+        return {
+          rows: [
+            { id: 'c-1', name: 'Jane', email: null, phone: null, company_id: 4 },
+            { id: 'c-2', name: 'Sam', email: null, phone: null, company_id: null },
+          ],
+        };
+      }
+      if (sql.includes('INSERT INTO leads')) {
+        return { rows: [{ id: 11, stage: 'new', status: 'new' }, { id: 12, stage: 'new', status: 'new' }] };
+      }
+      return { rows: [] };
+    });
+    mockedGetPoolClient.mockResolvedValue(client);
+
+    const ids = await createLeadsInBatches([
+      { contact: { name: 'Jane', company: 'ACME inc' } },
+      { contact: { name: 'Sam' } },
+    ]);
+
+    expect(ids).toEqual([11, 12]);
+    const contactInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO contacts'));
+    expect(contactInsert[1]).toEqual(['Jane', null, null, 'Acme Inc', 4, 'Sam', null, null, null, null]);
+    const leadInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO leads'));
+    expect(leadInsert[1].slice(0, 5)).toEqual(['Jane', null, null, 'c-1', 4]);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+  });
+});
+
+describe('getCompanyDetail', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  it('should aggregate leads, deals and clients with deal totals', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [companyRow()] })
+      .mockResolvedValueOnce({
+        rows: [{ id: 3, name: 'Website', stage: 'qualified', status: 'contacted', owner_email: null, contact_id: 'c-1', contact_name: 'Jane', created_at: '2024-02-01' }],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 'd-1', lead_id: 3, title: 'Site', deal_value: '1000.50', pipeline_id: 1, stage: 'proposal', is_won: false, is_lost: false, close_date: null, created_at: '2024-02-02' },
+          { id: 'd-2', lead_id: 3, title: 'SEO', deal_value: '200', pipeline_id: 1, stage: 'closed_won', is_won: true, is_lost: false, close_date: '2024-03-01', created_at: '2024-02-03' },
+          { id: 'd-3', lead_id: 3, title: 'Ads', deal_value: null, pipeline_id: 1, stage: 'closed_lost', is_won: false, is_lost: true, close_date: '2024-03-02', created_at: '2024-02-04' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [{ id: 'c-1', name: 'Jane', email: 'jane@acme.com', phone: null, client_number: 'C-0001', owner_email: null, created_at: '2024-03-01' }],
+      });
+
+    const detail = await getCompanyDetail(4);
+
+    expect(detail!.company).toMatchObject({ id: 4, name: 'Acme Inc', contact_count: 3, lead_count: 2 });
+    expect(detail!.deals[0].deal_value).toBe(1000.5);
+    expect(detail!.totals).toEqual({
+      leads: 1, clients: 1, openDeals: 1, openDealValue: 1000.5, wonDeals: 1, wonDealValue: 200,
+    });
+    for (const [, values] of mockedQuery.mock.calls) {
+      expect(values).toEqual([4]);
+    }
+  });
+
+  it('should return null for an unknown company', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+    await expect(getCompanyDetail(99)).resolves.toBeNull();
+    expect(mockedQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('/api/companies', () => {
+  const authHeader = () => authAs('manager');
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should create a company with a normalized domain', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [{ id: 4 }] })
+      .mockResolvedValueOnce({ rows: [companyRow()] });
+
+    const response = await request(app)
+      .post('/api/companies')
+      .set('Authorization', authHeader())
+      .send({ name: '  Acme   Inc ', domain: 'https://www.Acme.com/about', size: '11-50' })
+      .expect(201);
+
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['Acme Inc', 'acme.com', null, null, '11-50', null]);
+    expect(response.body.data).toMatchObject({ id: 4, domain: 'acme.com', lead_count: 2 });
+  });
+
+  it('should validate size and domain', async () => {
+    const response = await request(app)
+      .post('/api/companies')
+      .set('Authorization', authHeader())
+      .send({ name: 'Acme', domain: 'not a domain', size: 'huge' })
+      .expect(400);
+
+    expect(response.body.errors.map((err: { field: string }) => err.field).sort()).toEqual(['domain', 'size']);
+  });
+
+  it('should return 409 when the name is taken', async () => {
+    mockedQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505', constraint: 'companies_name_key_key' }));
+
+    const response = await request(app)
+      .post('/api/companies')
+      .set('Authorization', authHeader())
+      .send({ name: 'acme inc' })
+      .expect(409);
+
+    expect(response.body.message).toBe('A company with this name already exists');
+  });
+
+  it('should rename the company on its contacts', async () => {
+    const client = { query: jest.fn(), release: jest.fn() };
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('UPDATE companies')) return { rows: [{ id: 4, name: 'Acme Corp' }] };
+      return { rows: [], rowCount: 0 };
+    });
+    mockedGetPoolClient.mockResolvedValue(client);
+    mockedQuery.mockResolvedValueOnce({ rows: [companyRow({ name: 'Acme Corp' })] });
+
+    await request(app)
+      .patch('/api/companies/4')
+      .set('Authorization', authHeader())
+      .send({ name: 'Acme Corp' })
+      .expect(200);
+
+    const contactsUpdate = client.query.mock.calls.find(([sql]) => sql.includes('UPDATE contacts'));
+    expect(contactsUpdate[1]).toEqual(['Acme Corp', 4]);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+  });
+
+  it('should return 404 for an unknown company', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+    await request(app).get('/api/companies/99').set('Authorization', authHeader()).expect(404);
+  });
+
+  it('should reject a non-numeric id', async () => {
+    await request(app).delete('/api/companies/abc').set('Authorization', authHeader()).expect(400);
+  });
+
+  it.each([
+    ['POST /api/companies', () => request(app).post('/api/companies').send({ name: 'Acme' })],
+    ['PATCH /api/companies/:id', () => request(app).patch('/api/companies/4').send({ name: 'Acme Corp' })],
+    ['DELETE /api/companies/:id', () => request(app).delete('/api/companies/4')],
+  ])('should return 403 for %s as a regular user', async (_name, send) => {
+    await send().set('Authorization', authAs('user')).expect(403);
+    expect(mockedQuery).not.toHaveBeenCalled();
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+});
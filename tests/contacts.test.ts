@@ -0,0 +1,225 @@
+/**
+ * Contact Duplicate Detection and Merge Tests
+ *
+ * These tests check email/phone normalization, how duplicate candidates are reported,
+ * the 409 warning on POST /api/leads and the transaction in contacts.service.mergeContacts.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import { authAs } from './helpers/auth';
+import {
+  normalizeEmail,
+  normalizePhone,
+  findDuplicateContacts,
+  findDuplicateContactsForMany,
+  mergeContacts,
+} from '../src/services/contacts.service';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+function candidateRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'c-1',
+    name: 'John Doe',
+    email: 'John@Example.com',
+    phone: '+1 555 010 1234',
+    company: 'Acme Inc',
+    is_client: false,
+    email_match: true,
+    phone_match: false,
+    name_score: '1',
+    company_score: '0.4',
+    lead_ids: [3, 7],
+    ...overrides,
+  };
+}
+
+describe('normalization', () => {
+  it('should trim and lower-case emails', () => {
+    expect(normalizeEmail('  John@Example.COM ')).toBe('john@example.com');
+    expect(normalizeEmail('   ')).toBeNull();
+  });
+
+  it('should compare the last 10 phone digits', () => {
+    expect(normalizePhone('+91 98765-43210')).toBe('9876543210');
+    expect(normalizePhone('(987) 654 3210')).toBe('9876543210');
+    expect(normalizePhone('12-34')).toBeNull();
+  });
+});
+
+describe('findDuplicateContacts', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  it('should not query when there is nothing to compare', async () => {
+    await expect(findDuplicateContacts({ name: 'John Doe' })).resolves.toEqual([]);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should pass normalized values and report match reasons', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [
+        candidateRow(),
+        candidateRow({ id: 'c-2', email_match: false, name_score: '0.62', company_score: '0.8', lead_ids: [] }),
+      ],
+    });
+
+    const duplicates = await findDuplicateContacts({
+      name: ' John Doe ',
+      email: 'JOHN@example.com',
+      phone: '555-010-1234',
+      company: 'ACME',
+    });
+
+    const [, values] = mockedQuery.mock.calls[0];
+    expect(values.slice(0, 4)).toEqual(['john@example.com', '5550101234', 'john doe', 'acme']);
+    expect(duplicates[0]).toMatchObject({ lead_ids: [3, 7], matched_on: ['email', 'name'], score: 1 });
+    expect(duplicates[1]).toMatchObject({ matched_on: ['name', 'company'], score: 0.71 });
+  });
+});
+
+describe('findDuplicateContactsForMany', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  it('should check every contact in one query and group candidates by input', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [candidateRow({ idx: '2' }), candidateRow({ idx: '2', id: 'c-2', email_match: false, phone_match: true })],
+    });
+
+    const duplicates = await findDuplicateContactsForMany([
+      { name: 'Ann' },
+      { name: 'John Doe', email: 'JOHN@example.com', phone: '555-010-1234' },
+    ]);
+
+    expect(mockedQuery).toHaveBeenCalledTimes(1);
+    const [, values] = mockedQuery.mock.calls[0];
+    expect(values.slice(0, 4)).toEqual([[null, 'john@example.com'], [null, '5550101234'], ['ann', 'john doe'], [null, null]]);
+    expect(duplicates[0]).toEqual([]);
+    expect(duplicates[1].map((duplicate) => duplicate.contact.id)).toEqual(['c-1', 'c-2']);
+  });
+
+  it('should not query when no contact has anything to compare', async () => {
+    await expect(findDuplicateContactsForMany([{ name: 'Ann' }])).resolves.toEqual([[]]);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/leads duplicate warning', () => {
+  const authHeader = () => authAs('user', 'rep@uplora-crm.com');
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    mockedGetPoolClient.mockReset();
+  });
+
+  it('should return 409 with candidates and not create the lead', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [candidateRow()] });
+
+    const response = await request(app)
+      .post('/api/leads')
+      .set('Authorization', authHeader())
+      .send({ contact: { name: 'John Doe', email: 'john@example.com' } })
+      .expect(409);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.duplicates).toHaveLength(1);
+    expect(response.body.duplicates[0].contact.id).toBe('c-1');
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should skip the check when allowDuplicate is set', async () => {
+    mockedGetPoolClient.mockRejectedValue(new Error('no database'));
+
+    await request(app)
+      .post('/api/leads')
+      .set('Authorization', authHeader())
+      .send({ contact: { name: 'John Doe', email: 'john@example.com' }, allowDuplicate: true })
+      .expect(500);
+
+    expect(mockedQuery).not.toHaveBeenCalled();
+    expect(mockedGetPoolClient).toHaveBeenCalled();
+  });
+});
+
+describe('mergeContacts', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    client.query.mockReset();
+    client.release.mockReset();
+    mockedGetPoolClient.mockReset();
+    mockedGetPoolClient.mockResolvedValue(client);
+  });
+
+  it('should move records to the kept contact and delete the duplicate', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) {
+        return {
+          rows: [
+            { id: 'keep', name: 'John Doe', email: null, phone: '555', company: 'Acme', company_id: 4, is_client: false, client_number: null },
+            { id: 'dupe', name: 'J. Doe', email: 'john@example.com', phone: '777', company: null, company_id: null, is_client: true, client_number: 'C-0042' },
+          ],
+        };
+      }
+      if (sql.includes('UPDATE leads')) return { rows: [{ id: 3 }, { id: 7 }], rowCount: 2 };
+      if (sql.includes('UPDATE activities')) return { rows: [], rowCount: 4 };
+      if (sql.includes('UPDATE team_tasks')) return { rows: [], rowCount: 1 };
+      if (sql.includes('UPDATE client_project_files')) return { rows: [], rowCount: 2 };
+      if (sql.includes('UPDATE project_credentials')) return { rows: [], rowCount: 0 };
+      if (sql.includes('UPDATE lead_contacts')) return { rows: [], rowCount: 3 };
+      if (sql.includes('FROM deals')) return { rows: [{ deals: '1', cold_calls: '5', onsite_visits: '2', tasks: '3' }] };
+      if (sql.includes('UPDATE contacts')) {
+        return { rows: [{ id: 'keep', name: 'John Doe', email: 'john@example.com', phone: '555', company: 'Acme', is_client: true, client_number: 'C-0042' }] };
+      }
+      return { rows: [], rowCount: 0 };
+    });
+
+    const result = await mergeContacts('dupe', 'keep');
+
+    expect(result.moved).toEqual({
+      leads: 2, activities: 4, cold_calls: 5, onsite_visits: 2, tasks: 4, deals: 1, files: 2, credentials: 0, contact_links: 3,
+    });
+    expect(result.contact).toMatchObject({ id: 'keep', email: 'john@example.com', is_client: true });
+
+    const statements = client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(' '));
+    expect(statements.indexOf('DELETE FROM contacts')).toBeLessThan(statements.findIndex((sql) => sql.startsWith('UPDATE contacts')));
+
+    // Empty fields on the kept contact are filled from the duplicate; the company stays with its company_id
+    const updateCall = client.query.mock.calls.find(([sql]) => sql.includes('UPDATE contacts'));
+    expect(updateCall[1]).toEqual(['john@example.com', '555', 'Acme', 4, true, 'C-0042', null, null, 'keep']);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should roll back when a contact does not exist', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ id: 'keep' }] };
+      return { rows: [] };
+    });
+
+    await expect(mergeContacts('dupe', 'keep')).rejects.toMatchObject({ statusCode: 404 });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should not merge a contact into itself', async () => {
+    await expect(mergeContacts('keep', 'keep')).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+});
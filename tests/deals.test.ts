@@ -0,0 +1,365 @@
+/**
+ * Deals Tests
+ *
+ * These tests check the won/lost closing rules in deals.service.updateDeal,
+ * pipeline stage checks, the forecast and request handling for the deals routes.
+ *
+ * The database and pipelines service are mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import * as pipelinesService from '../src/services/pipelines.service';
+import { updateDeal, listDealsByStage, getDealForecast } from '../src/services/deals.service';
+import type { Pipeline } from '../src/types/pipelines';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/pipelines.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+const DEAL_ID = '7c9e6679-7425-40de-944b-e07dc4fc2d7a';
+
+/**
+ * Transaction client: BEGIN / COMMIT / ROLLBACK are recorded here, every other statement
+ * goes through mockedQuery like a pool query
+ */
+const client = {
+  query: jest.fn(async (sql: string, values?: any[]) => (
+    ['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql) ? { rows: [] } : mockedQuery(sql, values)
+  )),
+  release: jest.fn(),
+};
+const mockedPipelinesService = pipelinesService as jest.Mocked<typeof pipelinesService>;
+
+function pipeline(id: number, keys: string[]): Pipeline {
+  return {
+    id,
+    name: `Pipeline ${id}`,
+    description: null,
+    is_default: id === 1,
+    stages: keys.map((key, position) => ({
+      id: id * 100 + position,
+      pipeline_id: id,
+      key,
+      name: key,
+      position,
+      probability: key === 'closed_won' ? 100 : position * 20,
+      color: null,
+      is_won: key === 'closed_won',
+      is_lost: key === 'closed_lost',
+    })),
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+const salesPipeline = pipeline(1, ['new', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost']);
+const retainerPipeline = pipeline(2, ['discovery', 'signed', 'closed_lost']);
+
+function mockPipelines(): void {
+  mockedPipelinesService.getDefaultPipeline.mockResolvedValue(salesPipeline);
+  mockedPipelinesService.getPipelineById.mockImplementation(async (id) =>
+    [salesPipeline, retainerPipeline].find((p) => p.id === id) || null
+  );
+}
+
+function dealRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: DEAL_ID,
+    lead_id: 5,
+    title: 'Acme Website',
+    deal_value: '5000.00',
+    pipeline_id: 1,
+    stage: 'negotiation',
+    notes: null,
+    owner_email: null,
+    loss_reason: null,
+    close_date: null,
+    probability: 60,
+    expected_close_date: null,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    updated_at: new Date('2024-01-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('updateDeal closing rules', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    client.query.mockClear();
+    client.release.mockClear();
+    mockedGetPoolClient.mockResolvedValue(client);
+    mockPipelines();
+  });
+
+  it('should close a deal as won with a close date', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'closed_won', close_date: '2024-03-31' })] });
+
+    const deal = await updateDeal(DEAL_ID, { stage: 'closed_won', closeDate: '2024-03-31' });
+
+    expect(deal.stage).toBe('closed_won');
+    expect(deal.close_date).toBe('2024-03-31');
+    const [, values] = mockedQuery.mock.calls[1];
+    expect(values).toEqual([100, 'closed_won', null, '2024-03-31', DEAL_ID]);
+  });
+
+  it('should require a loss reason for lost deals', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [dealRow()] });
+
+    await expect(updateDeal(DEAL_ID, { stage: 'closed_lost', closeDate: '2024-03-31' }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Loss reason is required when a deal is lost' });
+  });
+
+  it('should keep the stored loss reason when only editing other fields', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'closed_lost', loss_reason: 'Budget', close_date: '2024-03-31' })] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'closed_lost', loss_reason: 'Budget', title: 'Renamed' })] });
+
+    await updateDeal(DEAL_ID, { title: 'Renamed' });
+
+    const [, values] = mockedQuery.mock.calls[1];
+    expect(values).toEqual(['Renamed', 'closed_lost', 'Budget', '2024-03-31', DEAL_ID]);
+  });
+
+  it('should clear outcome fields when a deal is reopened', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'closed_lost', loss_reason: 'Budget', close_date: '2024-03-31' })] })
+      .mockResolvedValueOnce({ rows: [dealRow()] });
+
+    await updateDeal(DEAL_ID, { stage: 'negotiation' });
+
+    const [, values] = mockedQuery.mock.calls[1];
+    expect(values).toEqual([60, 'negotiation', null, null, DEAL_ID]);
+  });
+
+  it('should return 404 when the deal does not exist', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+    await expect(updateDeal('4b1f0a9e-1d2c-4e5f-8a7b-9c0d1e2f3a4b', { title: 'x' }))
+      .rejects.toMatchObject({ statusCode: 404 });
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  it('should return 404 without querying when the deal id is not a UUID', async () => {
+    await expect(updateDeal('not-a-uuid', { title: 'x' })).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should lock the deal and commit the update with its stage history', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'proposal' })] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await updateDeal(DEAL_ID, { stage: 'proposal' });
+
+    expect(mockedQuery.mock.calls[0][0]).toContain('FOR UPDATE');
+    expect(client.query).toHaveBeenCalledWith('BEGIN');
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should roll back the update when the stage history cannot be written', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'proposal' })] })
+      .mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(updateDeal(DEAL_ID, { stage: 'proposal' })).rejects.toThrow('insert failed');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.query).not.toHaveBeenCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should reject stages that are not in the deal\'s pipeline', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [dealRow()] });
+
+    await expect(updateDeal(DEAL_ID, { stage: 'signed' }))
+      .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('Invalid stage: signed') });
+  });
+
+  it('should start at the first stage when moved to a pipeline without that stage', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ pipeline_id: 2, stage: 'discovery' })] });
+
+    await updateDeal(DEAL_ID, { pipelineId: 2 });
+
+    const [query, values] = mockedQuery.mock.calls[1];
+    expect(query).toContain('pipeline_id = $1');
+    expect(values).toEqual([2, 0, 'discovery', null, null, DEAL_ID]);
+  });
+
+  it('should keep an explicit probability when changing stage', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'proposal', probability: 35 })] });
+
+    await updateDeal(DEAL_ID, { stage: 'proposal', probability: 35, expectedCloseDate: '2024-05-31' });
+
+    const [, values] = mockedQuery.mock.calls[1];
+    expect(values).toEqual(['2024-05-31', 35, 'proposal', null, null, DEAL_ID]);
+  });
+
+  it('should record stage changes in the deal stage history', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ stage: 'proposal' })] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await updateDeal(DEAL_ID, { stage: 'proposal' }, 'rep@uplora-crm.com');
+
+    const [query, values] = mockedQuery.mock.calls[2];
+    expect(query).toContain('INSERT INTO deal_stage_history');
+    expect(values).toEqual([DEAL_ID, 'negotiation', 'proposal', 'rep@uplora-crm.com']);
+  });
+
+  it('should not record history when the stage stays the same', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [dealRow()] })
+      .mockResolvedValueOnce({ rows: [dealRow({ title: 'Renamed' })] });
+
+    await updateDeal(DEAL_ID, { title: 'Renamed' });
+
+    expect(mockedQuery).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('listDealsByStage', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    mockPipelines();
+  });
+
+  it('should return every stage of the pipeline in order with its deals', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [dealRow({ pipeline_id: 2, stage: 'signed' }), dealRow({ id: 'deal-2', pipeline_id: 2, stage: 'signed' })],
+    });
+
+    const view = await listDealsByStage({ pipelineId: 2 });
+
+    expect(view.pipeline).toMatchObject({ id: 2, name: 'Pipeline 2' });
+    expect(view.stages.map((stage) => stage.key)).toEqual(['discovery', 'signed', 'closed_lost']);
+    expect(view.stages.map((stage) => stage.deals.length)).toEqual([0, 2, 0]);
+    expect(mockedQuery.mock.calls[0][1]).toEqual([2]);
+  });
+
+  it('should return 404 for an unknown pipeline', async () => {
+    await expect(listDealsByStage({ pipelineId: 99 })).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('getDealForecast', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  it('should fill every month in the horizon and total per owner', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [
+        { month: '2024-01', owner_email: 'a@uplora-crm.com', deal_count: '2', won: '1000', weighted: '1500.5', best_case: '2000', worst_case: '1000' },
+        { month: '2024-03', owner_email: 'a@uplora-crm.com', deal_count: '1', won: '0', weighted: '250', best_case: '1000', worst_case: '0' },
+        { month: '2024-03', owner_email: 'b@uplora-crm.com', deal_count: '1', won: '0', weighted: '3000', best_case: '4000', worst_case: '0' },
+      ],
+    });
+
+    const forecast = await getDealForecast({ from: '2023-12', months: 4, ownerEmail: 'a@uplora-crm.com' });
+
+    expect(forecast.from).toBe('2023-12');
+    expect(forecast.to).toBe('2024-03');
+    expect(forecast.months.map((m) => [m.month, m.weighted])).toEqual([
+      ['2023-12', 0], ['2024-01', 1500.5], ['2024-02', 0], ['2024-03', 3250],
+    ]);
+    expect(forecast.owners.map((o) => [o.ownerEmail, o.weighted])).toEqual([
+      ['b@uplora-crm.com', 3000], ['a@uplora-crm.com', 1750.5],
+    ]);
+    expect(forecast.totals).toEqual({ dealCount: 4, won: 1000, weighted: 4750.5, bestCase: 7000, worstCase: 1000 });
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['2023-12-01', '2024-04-01', 'a@uplora-crm.com']);
+  });
+});
+
+describe('Deals routes', () => {
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    mockedGetPoolClient.mockResolvedValue(client);
+    mockPipelines();
+  });
+
+  it('should reject closing as lost without a close date', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [dealRow()] });
+
+    const response = await request(app)
+      .patch(`/api/deals/${DEAL_ID}/stage`)
+      .set('Authorization', authAs('admin'))
+      .send({ stage: 'closed_lost' })
+      .expect(400);
+
+    expect(response.body.message).toBe('Close date is required when closing a deal');
+    expect(mockedQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject the legacy closed stage', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [dealRow()] });
+
+    const response = await request(app)
+      .patch(`/api/deals/${DEAL_ID}/stage`)
+      .set('Authorization', authAs('admin'))
+      .send({ stage: 'closed' })
+      .expect(400);
+
+    expect(response.body.message).toContain('Invalid stage: closed');
+  });
+
+  it('should reject a missing stage', async () => {
+    const response = await request(app)
+      .patch(`/api/deals/${DEAL_ID}/stage`)
+      .set('Authorization', authAs('admin'))
+      .send({})
+      .expect(400);
+
+    expect(response.body.errors[0].field).toBe('stage');
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when reassigning a deal id that is not a UUID', async () => {
+    const response = await request(app)
+      .patch('/api/deals/not-a-uuid/owner')
+      .set('Authorization', authAs('admin'))
+      .send({ ownerEmail: 'rep@uplora-crm.com' })
+      .expect(404);
+
+    expect(response.body.message).toBe('Deal with id not-a-uuid does not exist');
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['PATCH /api/deals/:id', () => request(app).patch('/api/deals/not-a-uuid').send({ title: 'Renamed' })],
+    ['PATCH /api/deals/:id/stage', () => request(app).patch('/api/deals/not-a-uuid/stage').send({ stage: 'proposal' })],
+    ['DELETE /api/deals/:id', () => request(app).delete('/api/deals/not-a-uuid')],
+  ])('should return 404 for %s with a deal id that is not a UUID', async (_name, send) => {
+    await send().set('Authorization', authAs('admin')).expect(404);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid forecast horizon', async () => {
+    const response = await request(app)
+      .get('/api/deals/forecast?months=36')
+      .set('Authorization', authAs('admin'))
+      .expect(400);
+
+    expect(response.body.errors[0].field).toBe('months');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Export Tests
+ *
+ * These tests check CSV escaping, the filters and joins in each export query,
+ * and how GET /api/export/:entity streams cursor batches as CSV, JSON and NDJSON.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { getPoolClient } from '../src/lib/db';
+import { toCsvField, toCsvLine } from '../src/lib/csv';
+import { buildExportQuery, EXPORT_BATCH_SIZE } from '../src/services/export.service';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+/**
+ * Creates a pool client whose FETCH calls return the given batches in order
+ */
+function cursorClient(batches: Record<string, unknown>[][], columns: string[]) {
+  const remaining = [...batches];
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.startsWith('FETCH')) {
+        return { rows: remaining.shift() ?? [], fields: columns.map((name) => ({ name })) };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  mockedGetPoolClient.mockResolvedValue(client);
+  return client;
+}
+
+function executedSql(client: ReturnType<typeof cursorClient>): string[] {
+  return client.query.mock.calls.map(([sql]) => String(sql).trim().split(/\s+/).slice(0, 2).join(' '));
+}
+
+describe('CSV formatting', () => {
+  it('should quote fields with commas, quotes and line breaks', () => {
+    expect(toCsvField('Acme, Inc')).toBe('"Acme, Inc"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('line\nbreak')).toBe('"line\nbreak"');
+    expect(toCsvField('plain')).toBe('plain');
+  });
+
+  it('should format dates, objects and empty values', () => {
+    expect(toCsvLine([new Date('2024-03-01T10:00:00Z'), null, undefined, 42, { a: 1 }]))
+      .toBe('2024-03-01T10:00:00.000Z,,,42,"{""a"":1}"\r\n');
+  });
+});
+
+describe('buildExportQuery', () => {
+  it('should apply the lead list filters', () => {
+    const { sql, values } = buildExportQuery('leads', {
+      stage: 'qualified',
+      company: 'acme',
+      createdTo: '2024-01-31',
+      ownerEmail: 'rep@uplora-crm.com',
+    });
+
+    expect(sql).toContain('l.stage = $1');
+    expect(sql).toContain('c.company ILIKE $2');
+    expect(sql).toContain("l.created_at < $3::date + INTERVAL '1 day'");
+    expect(sql).toContain('l.owner_email = $4');
+    expect(values).toEqual(['qualified', '%acme%', '2024-01-31', 'rep@uplora-crm.com']);
+  });
+
+  it('should include contact columns for every entity', () => {
+    for (const entity of ['leads', 'deals', 'clients', 'tasks', 'calls', 'visits', 'activities'] as const) {
+      const { sql } = buildExportQuery(entity, {});
+      expect(sql).toContain('AS contact_company');
+      expect(sql).not.toContain('WHERE $');
+    }
+  });
+
+  it('should filter deals by pipeline and owner across all pipelines by default', () => {
+    expect(buildExportQuery('deals', {}).values).toEqual([]);
+
+    const { sql, values } = buildExportQuery('deals', { pipelineId: 2, ownerEmail: 'rep@uplora-crm.com' });
+    expect(sql).toContain('d.pipeline_id = $1 AND d.owner_email = $2');
+    expect(values).toEqual([2, 'rep@uplora-crm.com']);
+  });
+
+  it('should only export active clients', () => {
+    const { sql } = buildExportQuery('clients', {});
+    expect(sql).toContain('WHERE c.is_client = true AND c.deleted_at IS NULL');
+    expect(sql).toContain('ORDER BY c.created_at DESC, c.id DESC');
+  });
+
+  it('should filter tasks and activities', () => {
+    const tasks = buildExportQuery('tasks', { assignedToEmail: 'rep@uplora-crm.com', status: 'open' });
+    expect(tasks.sql).toContain('t.assigned_to_email = $1 AND t.status = $2');
+
+    const activities = buildExportQuery('activities', { leadId: 4, activityType: 'email' });
+    expect(activities.sql).toContain('a.lead_id = $1 AND a.activity_type = $2');
+    expect(activities.values).toEqual([4, 'email']);
+  });
+});
+
+describe('GET /api/export/:entity', () => {
+  const authHeader = () => authAs('manager');
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should stream CSV with a header row and the resolved owner filter', async () => {
+    const client = cursorClient(
+      [[{ id: 1, name: 'Jane', contact_company: 'Roe, Ltd' }]],
+      ['id', 'name', 'contact_company']
+    );
+
+    const response = await request(app)
+      .get('/api/export/leads?owner=me&stage=new')
+      .set('Authorization', authHeader())
+      .expect(200);
+
+    expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="leads-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(response.text).toBe('id,name,contact_company\r\n1,Jane,"Roe, Ltd"\r\n');
+
+    const [declareSql, declareValues] = client.query.mock.calls[2] as unknown as [string, unknown[]];
+    expect(declareSql).toContain('DECLARE export_cursor NO SCROLL CURSOR FOR');
+    expect(declareValues).toEqual(['new', 'manager@uplora-crm.com']);
+    expect(executedSql(client)).toEqual(['BEGIN READ', 'SET LOCAL', 'DECLARE export_cursor', 'FETCH 500', 'CLOSE export_cursor', 'COMMIT']);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should keep fetching until a short batch and join batches into one JSON array', async () => {
+    const fullBatch = Array.from({ length: EXPORT_BATCH_SIZE }, (_, index) => ({ id: index + 1 }));
+    const client = cursorClient([fullBatch, [{ id: EXPORT_BATCH_SIZE + 1 }]], ['id']);
+
+    const response = await request(app)
+      .get('/api/export/deals?format=json&pipelineId=2')
+      .set('Authorization', authHeader())
+      .expect(200);
+
+    expect(response.body).toHaveLength(EXPORT_BATCH_SIZE + 1);
+    expect(response.body[EXPORT_BATCH_SIZE]).toEqual({ id: EXPORT_BATCH_SIZE + 1 });
+    expect(executedSql(client).filter((sql) => sql.startsWith('FETCH'))).toHaveLength(2);
+  });
+
+  it('should return an empty JSON array and empty NDJSON when nothing matches', async () => {
+    cursorClient([], ['id']);
+    const json = await request(app).get('/api/export/calls?format=json').set('Authorization', authHeader()).expect(200);
+    expect(json.body).toEqual([]);
+
+    cursorClient([[{ id: 1, activity_type: 'email' }, { id: 2, activity_type: 'note' }]], ['id', 'activity_type']);
+    const ndjson = await request(app)
+      .get('/api/export/activities?format=ndjson')
+      .set('Authorization', authHeader())
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.on('data', (chunk) => { text += chunk; });
+        res.on('end', () => callback(null, text));
+      })
+      .expect(200);
+    expect(ndjson.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+    expect(ndjson.body).toBe('{"id":1,"activity_type":"email"}\n{"id":2,"activity_type":"note"}\n');
+  });
+
+  it('should return 403 for a regular user', async () => {
+    await request(app).get('/api/export/leads').set('Authorization', authAs('user')).expect(403);
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown entity', async () => {
+    const response = await request(app).get('/api/export/invoices').set('Authorization', authHeader()).expect(404);
+    expect(response.body.message).toContain('leads, deals, clients, tasks, calls, visits, activities');
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should validate the format and filters', async () => {
+    const response = await request(app)
+      .get('/api/export/tasks?format=xml&clientId=abc')
+      .set('Authorization', authHeader())
+      .expect(400);
+
+    expect(response.body.errors.map((err: { field: string }) => err.field).sort()).toEqual(['clientId', 'format']);
+  });
+
+  it('should roll back and return 500 when the query fails before streaming', async () => {
+    const client = cursorClient([], ['id']);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('DECLARE')) {
+        throw new Error('relation does not exist');
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app).get('/api/export/visits').set('Authorization', authHeader()).expect(500);
+
+    expect(response.body).toMatchObject({ success: false, message: 'Failed to export visits' });
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Auth Helpers
+ *
+ * Suites using authAs must mock the team service (jest.mock('../src/services/team.service'))
+ * and set AUTH_MODE=local and AUTH_LOCAL_SECRET before sending requests.
+ */
+
+import { signLocalToken } from '../../src/lib/auth';
+import * as teamService from '../../src/services/team.service';
+
+/**
+ * Signs a token for a user and makes the auth lookup return that user with the given role
+ */
+export function authAs(role: string, email = `${role}@uplora-crm.com`, id = 7): string {
+  (teamService as jest.Mocked<typeof teamService>).getTeamMemberByEmail.mockResolvedValue({
+    id,
+    email,
+    name: role,
+    role,
+    is_active: true,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+  return `Bearer ${signLocalToken({ email })}`;
+}
@@ -0,0 +1,20 @@
+/**
+ * Database Mock
+ *
+ * Module factory replacing src/lib/db so the suites don't need Postgres:
+ *
+ *   jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+ *
+ * pool.query, queryWithTimeout and getPoolClient are bare jest.fn()s; each suite stubs the
+ * answers it needs. This file must not import anything from src/ - jest builds the mock
+ * while the suite loads its modules.
+ */
+
+export function mockDbModule() {
+  return {
+    __esModule: true,
+    default: { query: jest.fn() },
+    queryWithTimeout: jest.fn(),
+    getPoolClient: jest.fn(),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Row Builders
+ *
+ * Database rows as the mocked pool.query returns them. Pass overrides for the fields a test
+ * cares about.
+ */
+
+/**
+ * A team_tasks row
+ */
+export function taskRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    lead_id: 5,
+    client_id: null,
+    assigned_to_email: 'rep@uplora-crm.com',
+    title: 'Call back',
+    description: null,
+    due_date: '2024-06-03T09:00:00.000Z',
+    status: 'open',
+    priority: 'normal',
+    created_by_email: 'manager@uplora-crm.com',
+    recurrence_rule: null,
+    recurrence_parent_id: null,
+    recurrence_occurrence: 1,
+    parent_task_id: null,
+    created_at: '2024-06-01T09:00:00.000Z',
+    updated_at: '2024-06-01T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * A row from the task list queries: the task with its progress and blockers
+ */
+export function taskListRow(overrides: Record<string, unknown> = {}) {
+  return taskRow({
+    checklist_total: 0,
+    checklist_done: 0,
+    subtasks_total: 0,
+    subtasks_done: 0,
+    blocked_by: [],
+    is_blocked: false,
+    ...overrides,
+  });
+}
+
+/**
+ * A leads row
+ */
+export function leadRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    name: 'Jane Doe',
+    email: 'jane@smiledental.com',
+    phone: '555-0100',
+    company: 'Smile Dental',
+    stage: 'new',
+    status: 'new',
+    ...overrides,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Lead Contacts Tests
+ *
+ * These tests check linking several contacts to a lead or client with roles
+ * (creating the contact when needed) and the /api/leads/:id/contacts and
+ * /api/clients/:id/contacts endpoints.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import { linkContact, listLinkedContacts } from '../src/services/lead-contacts.service';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+function linkedContactRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 21,
+    contact_id: 'c-2',
+    role: 'billing',
+    is_primary: false,
+    name: 'Sam Billing',
+    email: 'sam@acme.com',
+    phone: null,
+    company: 'Acme Inc',
+    created_by_email: 'rep@uplora-crm.com',
+    created_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('linkContact', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+  });
+
+  it('should create a new contact in the lead\'s company and link it', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [{ company_id: 4, company: 'Acme Inc' }] };
+      if (sql.includes('INSERT INTO contacts')) return { rows: [{ id: 'c-2' }] };
+      if (sql.includes('INSERT INTO lead_contacts')) return { rows: [{ id: 21, inserted: true }] };
+      return { rows: [] };
+    });
+    mockedQuery.mockResolvedValueOnce({ rows: [linkedContactRow()] });
+
+    const result = await linkContact(
+      { type: 'lead', id: 5 },
+      { contact: { name: 'Sam Billing', email: 'sam@acme.com' }, role: 'billing', createdByEmail: 'rep@uplora-crm.com' }
+    );
+
+    expect(result.created).toBe(true);
+    expect(result.contact).toMatchObject({ id: 21, contact_id: 'c-2', role: 'billing', is_primary: false });
+    const contactInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO contacts'));
+    expect(contactInsert[1]).toEqual(['Sam Billing', 'sam@acme.com', null, 'Acme Inc', 4]);
+    const linkInsert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO lead_contacts'));
+    expect(linkInsert[0]).toContain('ON CONFLICT (lead_id, contact_id)');
+    expect(linkInsert[1]).toEqual([5, 'c-2', 'billing', 'rep@uplora-crm.com']);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should roll back when the contact does not exist', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM leads')) return { rows: [{ company_id: null, company: null }] };
+      return { rows: [] };
+    });
+
+    await expect(
+      linkContact({ type: 'lead', id: 5 }, { contactId: 'missing', role: 'other', createdByEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should not link a client to itself', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('is_client = true')) return { rows: [{ company_id: null, company: null }] };
+      if (sql.includes('FROM contacts')) return { rows: [{ id: 'client-1' }] };
+      return { rows: [] };
+    });
+
+    await expect(
+      linkContact({ type: 'client', id: 'client-1' }, { contactId: 'client-1', role: 'other', createdByEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO lead_contacts'), expect.anything());
+  });
+});
+
+describe('listLinkedContacts', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should include a lead\'s primary contact even when it was never linked', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [linkedContactRow({ id: null, contact_id: 'c-1', role: 'other', is_primary: true, created_by_email: null })],
+    });
+
+    const contacts = await listLinkedContacts({ type: 'lead', id: 5 });
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain('WITH primary_contact AS (SELECT contact_id FROM leads WHERE id = $1)');
+    expect(sql).toContain('UNION ALL');
+    expect(values).toEqual([5]);
+    expect(contacts[0]).toMatchObject({ id: null, contact_id: 'c-1', role: 'other', is_primary: true });
+  });
+
+  it('should take a client\'s primary contact from the lead it was converted from', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+    await listLinkedContacts({ type: 'client', id: 'client-1' });
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain('JOIN leads l ON l.id = cl.lead_id WHERE cl.id = $1');
+    expect(sql).toContain('lc.client_id = $1');
+    expect(values).toEqual(['client-1']);
+  });
+});
+
+describe('/api/leads/:id/contacts and /api/clients/:id/contacts', () => {
+  const authHeader = () => authAs('user', 'rep@uplora-crm.com');
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+  });
+
+  it('should list a lead\'s contacts', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [linkedContactRow({ id: 20, contact_id: 'c-1', role: 'decision_maker', is_primary: true }), linkedContactRow()],
+    });
+
+    const response = await request(app)
+      .get('/api/leads/5/contacts')
+      .set('Authorization', authHeader())
+      .expect(200);
+
+    expect(response.body.count).toBe(2);
+    expect(response.body.data[0]).toMatchObject({ contact_id: 'c-1', role: 'decision_maker', is_primary: true });
+    expect(mockedQuery.mock.calls[0][1]).toEqual([5]);
+  });
+
+  it('should return 201 for a new link and 200 for a role change', async () => {
+    let inserted = true;
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('is_client = true')) return { rows: [{ company_id: null, company: null }] };
+      if (sql.includes('FROM contacts')) return { rows: [{ id: 'c-2' }] };
+      if (sql.includes('INSERT INTO lead_contacts')) return { rows: [{ id: 21, inserted }] };
+      return { rows: [] };
+    });
+    mockedQuery.mockResolvedValue({ rows: [linkedContactRow()] });
+
+    await request(app)
+      .post('/api/clients/client-1/contacts')
+      .set('Authorization', authHeader())
+      .send({ contactId: 'c-2', role: 'billing' })
+      .expect(201);
+
+    inserted = false;
+    const response = await request(app)
+      .post('/api/clients/client-1/contacts')
+      .set('Authorization', authHeader())
+      .send({ contactId: 'c-2', role: 'billing' })
+      .expect(200);
+
+    expect(response.body.message).toBe('Contact role updated successfully');
+  });
+
+  it('should require exactly one of contactId and contact and a known role', async () => {
+    const response = await request(app)
+      .post('/api/leads/5/contacts')
+      .set('Authorization', authHeader())
+      .send({ contactId: 'c-2', contact: { name: 'Sam' }, role: 'boss' })
+      .expect(400);
+
+    const fields = response.body.errors.map((error: any) => error.field);
+    expect(fields).toContain('role');
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when unlinking a contact that is not linked', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .delete('/api/leads/5/contacts/c-9')
+      .set('Authorization', authHeader())
+      .expect(404);
+
+    expect(mockedQuery.mock.calls[0][1]).toEqual([5, 'c-9']);
+  });
+});
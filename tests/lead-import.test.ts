@@ -0,0 +1,217 @@
+/**
+ * Lead Import Tests
+ *
+ * These tests check spreadsheet parsing (CSV and XLSX), mapping suggestions,
+ * per-row validation and duplicate reporting, and the committed import path.
+ *
+ * Services that touch the database are mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import ExcelJS from 'exceljs';
+import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+import * as teamService from '../src/services/team.service';
+import * as leadsService from '../src/services/leads.service';
+import * as contactsService from '../src/services/contacts.service';
+import * as automationRunsService from '../src/services/automation-runs.service';
+import { parseSpreadsheet, suggestMapping, importLeads } from '../src/services/lead-import.service';
+
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/leads.service');
+jest.mock('../src/services/automation-runs.service');
+jest.mock('../src/services/contacts.service', () => ({
+  ...jest.requireActual('../src/services/contacts.service'),
+  findDuplicateContactsForMany: jest.fn(),
+}));
+
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedLeadsService = leadsService as jest.Mocked<typeof leadsService>;
+const mockedContactsService = contactsService as jest.Mocked<typeof contactsService>;
+const mockedRunsService = automationRunsService as jest.Mocked<typeof automationRunsService>;
+
+const CSV = [
+  'Full Name,E-mail,Phone,Company,Notes',
+  'Jane Roe,jane@example.com,555-0101,Roe Ltd,hot',
+  ',missing@example.com,,,',
+  'Jane R.,JANE@example.com,,Roe Ltd,',
+  'Sam Poe,not-an-email,,,',
+  ',,,,',
+].join('\n');
+
+const importOptions = {
+  dryRun: true,
+  skipDuplicates: true,
+  createdByEmail: 'rep@uplora-crm.com',
+  userId: 7,
+  fileName: 'leads.csv',
+};
+
+describe('parseSpreadsheet', () => {
+  it('should read CSV headers and skip empty rows', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+
+    expect(sheet.columns).toEqual(['Full Name', 'E-mail', 'Phone', 'Company', 'Notes']);
+    expect(sheet.rows).toHaveLength(4);
+    expect(sheet.rows[0]).toMatchObject({ 'Full Name': 'Jane Roe', 'E-mail': 'jane@example.com' });
+  });
+
+  it('should read the first worksheet of an XLSX file', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Leads');
+    worksheet.addRow(['Name', 'Email']);
+    worksheet.addRow(['Jane Roe', 'jane@example.com']);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const sheet = await parseSpreadsheet({ buffer, originalname: 'leads.XLSX' });
+
+    expect(sheet.columns).toEqual(['Name', 'Email']);
+    expect(sheet.rows).toEqual([{ Name: 'Jane Roe', Email: 'jane@example.com' }]);
+  });
+
+  it('should reject other file types', async () => {
+    await expect(parseSpreadsheet({ buffer: Buffer.from('x'), originalname: 'leads.pdf' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('suggestMapping', () => {
+  it('should map common header names and ignore unknown ones', () => {
+    expect(suggestMapping(['Full Name', 'E-mail', 'Mobile', 'Organisation', 'Industry', 'Notes'])).toEqual({
+      'Full Name': 'contact.name',
+      'E-mail': 'contact.email',
+      'Mobile': 'contact.phone',
+      'Organisation': 'contact.company',
+      'Industry': 'verticals',
+    });
+  });
+});
+
+describe('importLeads', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedContactsService.findDuplicateContactsForMany.mockImplementation(async (inputs) => inputs.map(() => []));
+  });
+
+  it('should report per-row errors and in-file duplicates on a dry run', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+
+    const result = await importLeads(sheet, importOptions);
+
+    expect(result).toMatchObject({ dry_run: true, total_rows: 4, valid_rows: 2, invalid_rows: 2, duplicate_rows: 1, imported: 0 });
+    expect(result.rows.map((row) => [row.row, row.status])).toEqual([
+      [2, 'valid'], [3, 'invalid'], [4, 'duplicate'], [5, 'invalid'],
+    ]);
+    expect(result.rows[1].errors?.[0].field).toBe('contact.name');
+    expect(result.rows[2].duplicate_of_row).toBe(2);
+    expect(result.rows[3].errors?.[0].field).toBe('contact.email');
+    expect(mockedLeadsService.createLeadsInBatches).not.toHaveBeenCalled();
+    expect(mockedRunsService.startAutomationRun).not.toHaveBeenCalled();
+  });
+
+  it('should look up existing duplicates for the whole file in one call', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+    const candidate = {
+      contact: { id: 'c-1', name: 'Jane Roe', email: 'jane@example.com', phone: null, company: null, is_client: false },
+      lead_ids: [3],
+      matched_on: ['email' as const],
+      score: 1,
+    };
+    mockedContactsService.findDuplicateContactsForMany.mockResolvedValue([[candidate], []]);
+
+    const result = await importLeads(sheet, importOptions);
+
+    expect(mockedContactsService.findDuplicateContactsForMany).toHaveBeenCalledTimes(1);
+    expect(mockedContactsService.findDuplicateContactsForMany.mock.calls[0][0].map((contact) => contact.email))
+      .toEqual(['jane@example.com', 'JANE@example.com']);
+    expect(result.rows[0]).toMatchObject({ status: 'duplicate', duplicates: [candidate] });
+    expect(result.duplicate_rows).toBe(2);
+  });
+
+  it('should create valid rows, skip duplicates and record the run when committing', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+    mockedRunsService.startAutomationRun.mockResolvedValue({ id: 11 } as any);
+    mockedLeadsService.createLeadsInBatches.mockResolvedValue([101]);
+
+    const result = await importLeads(sheet, { ...importOptions, dryRun: false });
+
+    expect(mockedLeadsService.createLeadsInBatches).toHaveBeenCalledWith([
+      {
+        contact: { name: 'Jane Roe', email: 'jane@example.com', phone: '555-0101', company: 'Roe Ltd' },
+        created_by_email: 'rep@uplora-crm.com',
+      },
+    ]);
+    expect(result).toMatchObject({ imported: 1, skipped: 1, automation_run_id: 11 });
+    expect(result.rows.map((row) => row.status)).toEqual(['imported', 'invalid', 'skipped', 'invalid']);
+    expect(mockedRunsService.completeAutomationRun).toHaveBeenCalledWith(11, expect.objectContaining({ recordsProcessed: 1 }));
+  });
+
+  it('should mark the run as failed when inserting fails', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+    mockedRunsService.startAutomationRun.mockResolvedValue({ id: 12 } as any);
+    mockedLeadsService.createLeadsInBatches.mockRejectedValue(new Error('insert failed'));
+
+    await expect(importLeads(sheet, { ...importOptions, dryRun: false })).rejects.toThrow('insert failed');
+    expect(mockedRunsService.failAutomationRun).toHaveBeenCalledWith(12, expect.any(Error));
+  });
+
+  it('should reject a mapping that uses columns missing from the file', async () => {
+    const sheet = await parseSpreadsheet({ buffer: Buffer.from(CSV), originalname: 'leads.csv' });
+
+    await expect(importLeads(sheet, { ...importOptions, mapping: { Name: 'contact.name' } }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Mapped columns not found in the file: Name' });
+  });
+});
+
+describe('POST /api/leads/import', () => {
+  const authHeader = () => `Bearer ${signLocalToken({ email: 'rep@uplora-crm.com' })}`;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedContactsService.findDuplicateContactsForMany.mockImplementation(async (inputs) => inputs.map(() => []));
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue({
+      id: 7,
+      email: 'rep@uplora-crm.com',
+      name: 'Rep',
+      role: 'user',
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+  });
+
+  it('should dry-run an uploaded CSV with an explicit mapping', async () => {
+    const response = await request(app)
+      .post('/api/leads/import')
+      .set('Authorization', authHeader())
+      .field('mapping', JSON.stringify({ 'Full Name': 'contact.name', Company: 'contact.company' }))
+      .attach('file', Buffer.from(CSV), 'leads.csv')
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ dry_run: true, total_rows: 4, valid_rows: 3, invalid_rows: 1 });
+  });
+
+  it('should reject a mapping without contact.name', async () => {
+    const response = await request(app)
+      .post('/api/leads/import')
+      .set('Authorization', authHeader())
+      .field('mapping', JSON.stringify({ 'E-mail': 'contact.email' }))
+      .attach('file', Buffer.from(CSV), 'leads.csv')
+      .expect(400);
+
+    expect(response.body.errors[0]).toMatchObject({ field: 'mapping', message: 'A column must be mapped to contact.name' });
+  });
+
+  it('should require a spreadsheet file', async () => {
+    await request(app)
+      .post('/api/leads/import')
+      .set('Authorization', authHeader())
+      .attach('file', Buffer.from('%PDF'), 'leads.pdf')
+      .expect(400);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Lead Update Tests
+ *
+ * These tests check the stage/status state machine, that updateLead logs a stage change
+ * in the update's transaction, and PATCH /api/leads/:id request handling.
+ * The leads service is mocked for the endpoint tests.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+import { getPoolClient } from '../src/lib/db';
+import { canTransitionStage, canTransitionStatus } from '../src/lib/lead-transitions';
+import * as teamService from '../src/services/team.service';
+import * as leadsService from '../src/services/leads.service';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/leads.service');
+
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedLeadsService = leadsService as jest.Mocked<typeof leadsService>;
+const { updateLead } = jest.requireActual<typeof leadsService>('../src/services/leads.service');
+
+describe('Lead transition rules', () => {
+  it('should allow moving forward through the pipeline', () => {
+    expect(canTransitionStage('new', 'qualified')).toBe(true);
+    expect(canTransitionStage('proposal', 'negotiation')).toBe(true);
+  });
+
+  it('should reject illegal stage moves', () => {
+    expect(canTransitionStage('closed', 'new')).toBe(false);
+    expect(canTransitionStage('negotiation', 'new')).toBe(false);
+  });
+
+  it('should treat won as a terminal status', () => {
+    expect(canTransitionStatus('won', 'new')).toBe(false);
+    expect(canTransitionStatus('won', 'lost')).toBe(false);
+    expect(canTransitionStatus('won', 'won')).toBe(true);
+  });
+
+  it('should allow any move from a legacy or empty value', () => {
+    expect(canTransitionStage(null, 'proposal')).toBe(true);
+    expect(canTransitionStatus('archived', 'contacted')).toBe(true);
+  });
+});
+
+describe('updateLead', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetPoolClient.mockResolvedValue(client);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ id: 5, stage: 'new', status: 'new' }] };
+      if (sql.startsWith('UPDATE leads')) return { rows: [{ id: 5, stage: 'qualified', status: 'new' }] };
+      if (sql.includes('INSERT INTO activities')) return { rows: [{ id: 1, lead_id: 5, activity_type: 'stage_change' }] };
+      return { rows: [] };
+    });
+  });
+
+  it('should log the stage change activity before committing', async () => {
+    await updateLead(5, { stage: 'qualified' }, 'rep@uplora-crm.com');
+
+    const statements = client.query.mock.calls.map(([sql]) => sql);
+    const activityIndex = statements.findIndex((sql) => sql.includes('INSERT INTO activities'));
+    expect(activityIndex).toBeGreaterThan(-1);
+    expect(client.query.mock.calls[activityIndex][1]).toEqual(
+      expect.arrayContaining([5, 'stage_change', 'Stage changed from new to qualified'])
+    );
+    expect(statements.indexOf('COMMIT')).toBeGreaterThan(activityIndex);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should roll back the stage change when its activity cannot be written', async () => {
+    const answer = client.query.getMockImplementation()!;
+    client.query.mockImplementation(async (sql: string, values?: any[]) => {
+      if (sql.includes('INSERT INTO activities')) throw new Error('insert failed');
+      return answer(sql, values);
+    });
+
+    await expect(updateLead(5, { stage: 'qualified' })).rejects.toThrow('insert failed');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.query).not.toHaveBeenCalledWith('COMMIT');
+  });
+
+  it('should not log an activity when the stage does not change', async () => {
+    await updateLead(5, { notes: 'Called twice' });
+
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('INSERT INTO activities'))).toBe(false);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+});
+
+describe('PATCH /api/leads/:id', () => {
+  let authHeader: string;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+    authHeader = `Bearer ${signLocalToken({ email: 'admin@uplora-crm.com' })}`;
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue({
+      id: 1,
+      email: 'admin@uplora-crm.com',
+      name: 'Admin',
+      role: 'admin',
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+  });
+
+  it('should update the lead', async () => {
+    mockedLeadsService.updateLead.mockResolvedValue({ id: 5, stage: 'proposal' } as any);
+
+    const response = await request(app)
+      .patch('/api/leads/5')
+      .set('Authorization', authHeader)
+      .send({ stage: 'proposal', notes: 'Sent proposal' })
+      .expect(200);
+
+    expect(response.body.data).toHaveProperty('stage', 'proposal');
+    expect(mockedLeadsService.updateLead).toHaveBeenCalledWith(5, { stage: 'proposal', notes: 'Sent proposal' }, 'admin@uplora-crm.com');
+  });
+
+  it('should return 400 for an empty body or unknown stage', async () => {
+    await request(app).patch('/api/leads/5').set('Authorization', authHeader).send({}).expect(400);
+    await request(app).patch('/api/leads/5').set('Authorization', authHeader).send({ stage: 'won' }).expect(400);
+    expect(mockedLeadsService.updateLead).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when the service rejects the transition', async () => {
+    const transitionError = new Error("Cannot change lead status from 'won' to 'new'");
+    (transitionError as any).statusCode = 400;
+    mockedLeadsService.updateLead.mockRejectedValue(transitionError);
+
+    const response = await request(app)
+      .patch('/api/leads/5')
+      .set('Authorization', authHeader)
+      .send({ status: 'new' })
+      .expect(400);
+
+    expect(response.body.message).toContain('won');
+  });
+
+  it('should return 404 when the lead does not exist', async () => {
+    const notFoundError = new Error('Lead with ID 999 not found');
+    (notFoundError as any).statusCode = 404;
+    mockedLeadsService.updateLead.mockRejectedValue(notFoundError);
+
+    await request(app).patch('/api/leads/999').set('Authorization', authHeader).send({ status: 'contacted' }).expect(404);
+  });
+});
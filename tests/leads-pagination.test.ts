@@ -0,0 +1,117 @@
+/**
+ * Leads Pagination Tests
+ *
+ * These tests check query validation for GET /api/leads and the
+ * pagination envelope (total, nextCursor).
+ *
+ * The leads service is mocked so the tests don't need a database.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+import { encodeCursor } from '../src/lib/cursor';
+import * as teamService from '../src/services/team.service';
+import * as leadsService from '../src/services/leads.service';
+
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/leads.service');
+
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedLeadsService = leadsService as jest.Mocked<typeof leadsService>;
+
+describe('GET /api/leads pagination', () => {
+  let authHeader: string;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+    authHeader = `Bearer ${signLocalToken({ email: 'admin@uplora-crm.com' })}`;
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue({
+      id: 1,
+      email: 'admin@uplora-crm.com',
+      name: 'Admin',
+      role: 'admin',
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    mockedLeadsService.getAllLeads.mockResolvedValue({ leads: [], total: 120, nextCursor: 'next-page' });
+  });
+
+  it('should apply default limit and sort', async () => {
+    const response = await request(app).get('/api/leads').set('Authorization', authHeader).expect(200);
+
+    expect(response.body).toHaveProperty('total', 120);
+    expect(response.body).toHaveProperty('nextCursor', 'next-page');
+    expect(mockedLeadsService.getAllLeads).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 50, sortBy: 'created_at', sortOrder: 'desc' })
+    );
+  });
+
+  it('should pass filters, sort and cursor to the service', async () => {
+    const cursor = encodeCursor({ s: 'company', o: 'asc', v: 'Acme', id: 42 });
+
+    await request(app)
+      .get('/api/leads')
+      .query({
+        limit: '10',
+        cursor,
+        sortBy: 'company',
+        sortOrder: 'asc',
+        stage: 'qualified',
+        company: 'acme',
+        createdFrom: '2024-01-01',
+        createdTo: '2024-01-31',
+      })
+      .set('Authorization', authHeader)
+      .expect(200);
+
+    expect(mockedLeadsService.getAllLeads).toHaveBeenCalledWith(
+      expect.objectContaining({
+        limit: 10,
+        cursor,
+        sortBy: 'company',
+        sortOrder: 'asc',
+        stage: 'qualified',
+        company: 'acme',
+        createdFrom: '2024-01-01',
+        createdTo: '2024-01-31',
+      })
+    );
+  });
+
+  it.each([
+    ['limit above the maximum', { limit: '500' }],
+    ['unknown sort field', { sortBy: 'password' }],
+    ['malformed cursor', { cursor: 'not-a-cursor' }],
+    ['cursor from another sortBy', { cursor: encodeCursor({ s: 'created_at', o: 'desc', v: '2024-01-01 00:00:00+00', id: 42 }), sortBy: 'name' }],
+    ['cursor from another sortOrder', { cursor: encodeCursor({ s: 'created_at', o: 'desc', v: '2024-01-01 00:00:00+00', id: 42 }), sortOrder: 'asc' }],
+    ['invalid date', { createdFrom: 'yesterday' }],
+    ['inverted date range', { createdFrom: '2024-02-01', createdTo: '2024-01-01' }],
+  ])('should return 400 for %s', async (_name, query) => {
+    const response = await request(app).get('/api/leads').query(query).set('Authorization', authHeader).expect(400);
+
+    expect(response.body).toHaveProperty('success', false);
+    expect(mockedLeadsService.getAllLeads).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildLeadFilterConditions', () => {
+  const { buildLeadFilterConditions } = jest.requireActual<typeof leadsService>('../src/services/leads.service');
+
+  it('should match partial filters literally, escaping LIKE wildcards', () => {
+    const values: unknown[] = [];
+    const conditions = buildLeadFilterConditions({ company: '100%_sure\\co', verticals: 'a_b' }, values);
+
+    expect(conditions).toEqual([
+      `l.verticals ILIKE $1 ESCAPE '\\'`,
+      `c.company ILIKE $2 ESCAPE '\\'`,
+    ]);
+    expect(values).toEqual(['%a\\_b%', '%100\\%\\_sure\\\\co%']);
+  });
+});
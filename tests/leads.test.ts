@@ -12,6 +12,18 @@
 
 import request from 'supertest';
 import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+
+// Requests are authenticated with a locally signed token for the seeded admin user
+process.env.AUTH_MODE = 'local';
+process.env.AUTH_LOCAL_SECRET = process.env.AUTH_LOCAL_SECRET || 'test-local-secret';
+const authHeader = `Bearer ${signLocalToken({ email: 'admin@uplora-crm.com' })}`;
+
+// Lead creation returns 409 when a contact with the same email or phone exists, and this suite
+// writes to a real database, so every run uses its own emails and phone numbers
+const runId = Date.now().toString().slice(-7);
+const uniqueEmail = (name: string) => `${name}+${runId}@example.com`;
+const uniquePhone = (suffix: string) => `+1-555-${runId}-${suffix}`;
 
 /**
  * Test suite for the Leads API
@@ -31,8 +43,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Test User',
-        email: 'test@example.com',
-        phone: '+1-555-9999',
+        email: uniqueEmail('test'),
+        phone: uniquePhone('9999'),
       },
       source: 'website',
       stage: 'new',
@@ -41,6 +53,7 @@ describe('Leads API', () => {
     // Make a POST request to /api/leads
     const response = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData) // Send the JSON data in the request body
       .expect(201); // Expect HTTP status code 201 (Created)
 
@@ -50,7 +63,7 @@ describe('Leads API', () => {
     expect(response.body.data).toHaveProperty('id');
     expect(response.body.data).toHaveProperty('contact');
     expect(response.body.data.contact).toHaveProperty('name', 'Test User');
-    expect(response.body.data.contact).toHaveProperty('email', 'test@example.com');
+    expect(response.body.data.contact).toHaveProperty('email', uniqueEmail('test'));
   });
 
   /**
@@ -67,8 +80,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Another Test User',
-        email: 'another@example.com',
-        phone: '+1-555-8888',
+        email: uniqueEmail('another'),
+        phone: uniquePhone('8888'),
       },
       source: 'referral',
       stage: 'qualified',
@@ -77,12 +90,14 @@ describe('Leads API', () => {
     // Create the lead
     await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData)
       .expect(201);
 
     // Now fetch all leads
     const response = await request(app)
       .get('/api/leads')
+      .set('Authorization', authHeader)
       .expect(200); // Expect HTTP status code 200 (OK)
 
     // Verify the response structure
@@ -112,6 +127,7 @@ describe('Leads API', () => {
 
     const response = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(invalidLeadData)
       .expect(400); // Expect HTTP status code 400 (Bad Request)
 
@@ -130,6 +146,7 @@ describe('Leads API', () => {
 
     const response = await request(app)
       .get(`/api/leads/${invalidId}`)
+      .set('Authorization', authHeader)
       .expect(404); // Expect HTTP status code 404 (Not Found)
 
     expect(response.body).toHaveProperty('success', false);
@@ -150,8 +167,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Activity Test Lead',
-        email: 'activity@example.com',
-        phone: '+1-555-7777',
+        email: uniqueEmail('activity'),
+        phone: uniquePhone('7777'),
       },
       source: 'website',
       stage: 'new',
@@ -159,6 +176,7 @@ describe('Leads API', () => {
 
     const leadResponse = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData)
       .expect(201);
 
@@ -172,6 +190,7 @@ describe('Leads API', () => {
 
     const activityResponse = await request(app)
       .post(`/api/leads/${leadId}/activities`)
+      .set('Authorization', authHeader)
       .send(activityData)
       .expect(201); // Expect HTTP status code 201 (Created)
 
@@ -194,8 +213,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Validation Test Lead',
-        email: 'validation@example.com',
-        phone: '+1-555-6666',
+        email: uniqueEmail('validation'),
+        phone: uniquePhone('6666'),
       },
       source: 'website',
       stage: 'new',
@@ -203,6 +222,7 @@ describe('Leads API', () => {
 
     const leadResponse = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData)
       .expect(201);
 
@@ -215,6 +235,7 @@ describe('Leads API', () => {
 
     const response = await request(app)
       .post(`/api/leads/${leadId}/activities`)
+      .set('Authorization', authHeader)
       .send(invalidActivityData)
       .expect(400); // Expect HTTP status code 400 (Bad Request)
 
@@ -236,8 +257,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Cold Call Test Lead',
-        email: 'coldcall@example.com',
-        phone: '+1-555-5555',
+        email: uniqueEmail('coldcall'),
+        phone: uniquePhone('5555'),
       },
       source: 'website',
       stage: 'new',
@@ -245,6 +266,7 @@ describe('Leads API', () => {
 
     const leadResponse = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData)
       .expect(201);
 
@@ -258,6 +280,7 @@ describe('Leads API', () => {
 
     const coldCallResponse = await request(app)
       .post(`/api/leads/${leadId}/cold-calls`)
+      .set('Authorization', authHeader)
       .send(coldCallData)
       .expect(201); // Expect HTTP status code 201 (Created)
 
@@ -284,8 +307,8 @@ describe('Leads API', () => {
     const leadData = {
       contact: {
         name: 'Onsite Visit Test Lead',
-        email: 'onsite@example.com',
-        phone: '+1-555-4444',
+        email: uniqueEmail('onsite'),
+        phone: uniquePhone('4444'),
       },
       source: 'referral',
       stage: 'qualified',
@@ -293,6 +316,7 @@ describe('Leads API', () => {
 
     const leadResponse = await request(app)
       .post('/api/leads')
+      .set('Authorization', authHeader)
       .send(leadData)
       .expect(201);
 
@@ -307,6 +331,7 @@ describe('Leads API', () => {
 
     const visitResponse = await request(app)
       .post(`/api/leads/${leadId}/onsite-visits`)
+      .set('Authorization', authHeader)
       .send(visitData)
       .expect(201); // Expect HTTP status code 201 (Created)
 
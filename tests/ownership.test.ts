@@ -0,0 +1,160 @@
+/**
+ * Record Ownership Tests
+ *
+ * These tests check the ?owner=me list filter and the owner reassignment endpoints.
+ *
+ * Services are mocked so the tests don't need a database.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { signLocalToken } from '../src/lib/auth';
+import * as teamService from '../src/services/team.service';
+import * as leadsService from '../src/services/leads.service';
+import * as dealsService from '../src/services/deals.service';
+import * as clientsService from '../src/services/clients.service';
+
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/leads.service');
+jest.mock('../src/services/deals.service');
+jest.mock('../src/services/clients.service');
+
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedLeadsService = leadsService as jest.Mocked<typeof leadsService>;
+const mockedDealsService = dealsService as jest.Mocked<typeof dealsService>;
+const mockedClientsService = clientsService as jest.Mocked<typeof clientsService>;
+
+const callerEmail = 'rep@uplora-crm.com';
+
+describe('Record ownership', () => {
+  let authHeader: string;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+    authHeader = `Bearer ${signLocalToken({ email: callerEmail })}`;
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedTeamService.getTeamMemberByEmail.mockResolvedValue({
+      id: 1,
+      email: callerEmail,
+      name: 'Rep',
+      role: 'user',
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+  });
+
+  describe('?owner=me', () => {
+    it('should filter leads by the caller', async () => {
+      mockedLeadsService.getAllLeads.mockResolvedValue({ leads: [], total: 0, nextCursor: null });
+
+      await request(app).get('/api/leads?owner=me').set('Authorization', authHeader).expect(200);
+
+      expect(mockedLeadsService.getAllLeads).toHaveBeenCalledWith(expect.objectContaining({ ownerEmail: callerEmail }));
+    });
+
+    it('should filter the deals pipeline by the caller', async () => {
+      mockedDealsService.listDealsByStage.mockResolvedValue({
+        pipeline: { id: 1, name: 'Sales', description: null, is_default: true, created_at: '', updated_at: '' },
+        stages: [],
+      });
+
+      await request(app).get('/api/deals/pipeline?owner=me').set('Authorization', authHeader).expect(200);
+
+      expect(mockedDealsService.listDealsByStage).toHaveBeenCalledWith({ ownerEmail: callerEmail, pipelineId: undefined });
+    });
+
+    it('should filter clients by the caller', async () => {
+      mockedClientsService.getAllClients.mockResolvedValue([]);
+
+      await request(app).get('/api/clients?owner=me').set('Authorization', authHeader).expect(200);
+
+      expect(mockedClientsService.getAllClients).toHaveBeenCalledWith({ ownerEmail: callerEmail });
+    });
+
+    it('should not filter when owner is omitted', async () => {
+      mockedLeadsService.getAllLeads.mockResolvedValue({ leads: [], total: 0, nextCursor: null });
+
+      await request(app).get('/api/leads').set('Authorization', authHeader).expect(200);
+
+      expect(mockedLeadsService.getAllLeads).toHaveBeenCalledWith(expect.objectContaining({ ownerEmail: undefined }));
+    });
+  });
+
+  describe('PATCH /api/leads/:id/owner', () => {
+    it('should reassign the lead', async () => {
+      mockedLeadsService.updateLeadOwner.mockResolvedValue({ id: 5, owner_email: 'other@uplora-crm.com' } as any);
+
+      const response = await request(app)
+        .patch('/api/leads/5/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'other@uplora-crm.com' })
+        .expect(200);
+
+      expect(response.body.data).toHaveProperty('owner_email', 'other@uplora-crm.com');
+      expect(mockedLeadsService.updateLeadOwner).toHaveBeenCalledWith(5, 'other@uplora-crm.com', callerEmail);
+    });
+
+    it('should return 400 for an invalid owner email', async () => {
+      await request(app)
+        .patch('/api/leads/5/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'not-an-email' })
+        .expect(400);
+
+      expect(mockedLeadsService.updateLeadOwner).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the new owner is not a team member', async () => {
+      mockedLeadsService.updateLeadOwner.mockRejectedValue(
+        new Error('User with email ghost@uplora-crm.com does not exist')
+      );
+
+      await request(app)
+        .patch('/api/leads/5/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'ghost@uplora-crm.com' })
+        .expect(400);
+    });
+
+    it('should return 404 when the lead does not exist', async () => {
+      mockedLeadsService.updateLeadOwner.mockResolvedValue(null);
+
+      await request(app)
+        .patch('/api/leads/999/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'other@uplora-crm.com' })
+        .expect(404);
+    });
+  });
+
+  describe('PATCH /api/deals/:id/owner', () => {
+    it('should return 404 when the deal does not exist', async () => {
+      mockedDealsService.updateDealOwner.mockRejectedValue(new Error('Deal with id abc does not exist'));
+
+      await request(app)
+        .patch('/api/deals/abc/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'other@uplora-crm.com' })
+        .expect(404);
+    });
+  });
+
+  describe('PATCH /api/clients/:id/owner', () => {
+    it('should reassign the client', async () => {
+      mockedClientsService.updateClientOwner.mockResolvedValue({ id: 'abc', owner_email: 'other@uplora-crm.com' } as any);
+
+      await request(app)
+        .patch('/api/clients/abc/owner')
+        .set('Authorization', authHeader)
+        .send({ ownerEmail: 'other@uplora-crm.com' })
+        .expect(200);
+
+      expect(mockedClientsService.updateClientOwner).toHaveBeenCalledWith('abc', 'other@uplora-crm.com', callerEmail);
+    });
+  });
+});
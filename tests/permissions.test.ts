@@ -0,0 +1,231 @@
+/**
+ * Role-Based Access Control Tests
+ *
+ * These tests check that restricted routes return 403 for regular users and
+ * reach the controller for admins and managers.
+ *
+ * Services are mocked so the tests don't need a database.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import * as teamService from '../src/services/team.service';
+import * as pricingService from '../src/services/pricing.service';
+import * as clientsService from '../src/services/clients.service';
+import * as credentialsService from '../src/services/credentials.service';
+import * as pipelinesService from '../src/services/pipelines.service';
+import * as contactsService from '../src/services/contacts.service';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/pricing.service');
+jest.mock('../src/services/clients.service');
+jest.mock('../src/services/credentials.service');
+jest.mock('../src/services/pipelines.service');
+jest.mock('../src/services/contacts.service');
+
+const mockedTeamService = teamService as jest.Mocked<typeof teamService>;
+const mockedPricingService = pricingService as jest.Mocked<typeof pricingService>;
+const mockedClientsService = clientsService as jest.Mocked<typeof clientsService>;
+const mockedCredentialsService = credentialsService as jest.Mocked<typeof credentialsService>;
+const mockedPipelinesService = pipelinesService as jest.Mocked<typeof pipelinesService>;
+const mockedContactsService = contactsService as jest.Mocked<typeof contactsService>;
+
+type RestrictedRoute = {
+  name: string;
+  send: (auth: string) => request.Test;
+  expectedStatus: number; // Status returned once the request reaches the controller
+};
+
+const restrictedRoutes: RestrictedRoute[] = [
+  {
+    name: 'POST /api/team',
+    send: (auth) => request(app).post('/api/team').set('Authorization', auth)
+      .send({ email: 'new@uplora-crm.com', name: 'New', password: 'secret123' }),
+    expectedStatus: 201,
+  },
+  {
+    name: 'PATCH /api/team/:id',
+    send: (auth) => request(app).patch('/api/team/2').set('Authorization', auth).send({ role: 'manager' }),
+    expectedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/team/:id',
+    send: (auth) => request(app).delete('/api/team/2').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+  {
+    name: 'POST /api/pricing',
+    send: (auth) => request(app).post('/api/pricing').set('Authorization', auth).send({ name: 'Pro', price: 100 }),
+    expectedStatus: 201,
+  },
+  {
+    name: 'PATCH /api/pricing/:id',
+    send: (auth) => request(app).patch('/api/pricing/1').set('Authorization', auth).send({ price: 200 }),
+    expectedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/pricing/:id',
+    send: (auth) => request(app).delete('/api/pricing/1').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+  {
+    name: 'POST /api/pipelines',
+    send: (auth) => request(app).post('/api/pipelines').set('Authorization', auth)
+      .send({ name: 'Retainers', stages: [{ name: 'Discovery' }] }),
+    expectedStatus: 201,
+  },
+  {
+    name: 'PATCH /api/pipelines/:id',
+    send: (auth) => request(app).patch('/api/pipelines/2').set('Authorization', auth).send({ name: 'Renamed' }),
+    expectedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/pipelines/:id',
+    send: (auth) => request(app).delete('/api/pipelines/2').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+  {
+    name: 'POST /api/contacts/merge',
+    send: (auth) => request(app).post('/api/contacts/merge').set('Authorization', auth).send({ sourceId: 'a', targetId: 'b' }),
+    expectedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/clients/:id/permanent',
+    send: (auth) => request(app).delete('/api/clients/abc/permanent').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+  {
+    name: 'GET /api/clients/:clientId/credentials',
+    send: (auth) => request(app).get('/api/clients/abc/credentials').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+  {
+    name: 'GET /api/credentials/:id',
+    send: (auth) => request(app).get('/api/credentials/1').set('Authorization', auth),
+    expectedStatus: 200,
+  },
+];
+
+describe('Role-based access control', () => {
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    // Controllers only need something truthy back to send a success response
+    mockedTeamService.createTeamMember.mockResolvedValue({} as any);
+    mockedTeamService.updateTeamMember.mockResolvedValue({} as any);
+    mockedTeamService.deleteTeamMember.mockResolvedValue(true);
+    mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'user' } as any);
+    mockedPricingService.createPlan.mockResolvedValue({} as any);
+    mockedPricingService.updatePlan.mockResolvedValue({} as any);
+    mockedPricingService.deletePlan.mockResolvedValue(true);
+    mockedPipelinesService.createPipeline.mockResolvedValue({} as any);
+    mockedPipelinesService.updatePipeline.mockResolvedValue({} as any);
+    mockedPipelinesService.deletePipeline.mockResolvedValue(true);
+    mockedContactsService.mergeContacts.mockResolvedValue({} as any);
+    mockedClientsService.permanentDeleteClient.mockResolvedValue(true);
+    mockedCredentialsService.getCredentialsByClientId.mockResolvedValue([]);
+    mockedCredentialsService.getCredentialById.mockResolvedValue({} as any);
+  });
+
+  describe.each(restrictedRoutes)('$name', ({ send, expectedStatus }) => {
+    it('should return 403 for a regular user', async () => {
+      const response = await send(authAs('user')).expect(403);
+      expect(response.body).toHaveProperty('success', false);
+    });
+
+    it('should allow a manager', async () => {
+      await send(authAs('manager')).expect(expectedStatus);
+    });
+
+    it('should allow an admin', async () => {
+      await send(authAs('admin')).expect(expectedStatus);
+    });
+  });
+
+  describe('role escalation', () => {
+    it('should not let a manager promote a member to admin', async () => {
+      const response = await request(app)
+        .patch('/api/team/2')
+        .set('Authorization', authAs('manager'))
+        .send({ role: 'admin' })
+        .expect(403);
+      expect(response.body).toHaveProperty('success', false);
+      expect(mockedTeamService.updateTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a manager create an admin', async () => {
+      await request(app)
+        .post('/api/team')
+        .set('Authorization', authAs('manager'))
+        .send({ email: 'new@uplora-crm.com', name: 'New', password: 'secret123', role: 'admin' })
+        .expect(403);
+      expect(mockedTeamService.createTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a manager demote an admin', async () => {
+      const auth = authAs('manager');
+      mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'admin' } as any);
+
+      await request(app).patch('/api/team/2').set('Authorization', auth).send({ role: 'user' }).expect(403);
+      expect(mockedTeamService.updateTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a manager deactivate an admin', async () => {
+      const auth = authAs('manager');
+      mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'admin' } as any);
+
+      await request(app).patch('/api/team/2').set('Authorization', auth).send({ is_active: false }).expect(403);
+      expect(mockedTeamService.updateTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a manager rename an admin', async () => {
+      const auth = authAs('manager');
+      mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'admin' } as any);
+
+      await request(app).patch('/api/team/2').set('Authorization', auth).send({ name: 'Renamed' }).expect(403);
+      expect(mockedTeamService.updateTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a manager delete an admin', async () => {
+      const auth = authAs('manager');
+      mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'admin' } as any);
+
+      await request(app).delete('/api/team/2').set('Authorization', auth).expect(403);
+      expect(mockedTeamService.deleteTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should let a manager deactivate a regular user', async () => {
+      await request(app).patch('/api/team/2').set('Authorization', authAs('manager')).send({ is_active: false }).expect(200);
+      expect(mockedTeamService.updateTeamMember).toHaveBeenCalledWith(2, expect.objectContaining({ is_active: false }));
+    });
+
+    it('should return 404 when deleting a member that does not exist', async () => {
+      mockedTeamService.getTeamMemberById.mockResolvedValue(null);
+
+      await request(app).delete('/api/team/99').set('Authorization', authAs('admin')).expect(404);
+      expect(mockedTeamService.deleteTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin promote a member to admin', async () => {
+      mockedTeamService.getTeamMemberById.mockResolvedValue({ id: 2, role: 'manager' } as any);
+
+      await request(app).patch('/api/team/2').set('Authorization', authAs('admin')).send({ role: 'admin' }).expect(200);
+      expect(mockedTeamService.updateTeamMember).toHaveBeenCalledWith(2, expect.objectContaining({ role: 'admin' }));
+    });
+
+    it('should reject an unknown role', async () => {
+      await request(app).patch('/api/team/2').set('Authorization', authAs('admin')).send({ role: 'owner' }).expect(400);
+    });
+  });
+
+  it('should let regular users list team members', async () => {
+    mockedTeamService.getAllTeamMembers.mockResolvedValue([]);
+    await request(app).get('/api/team').set('Authorization', authAs('user')).expect(200);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Pipelines Tests
+ *
+ * These tests check pipeline validation and the stage rules in pipelines.service:
+ * stage keys derived from names, duplicate keys, and refusing to remove stages that still have deals.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import pool, { getPoolClient } from '../src/lib/db';
+import { validateCreatePipeline, validateUpdatePipeline } from '../src/validators/pipelines.validator';
+import { updatePipeline, deletePipeline } from '../src/services/pipelines.service';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+
+describe('pipeline validation', () => {
+  it('should require at least one stage', () => {
+    const result = validateCreatePipeline({ name: 'Retainers', stages: [] });
+    expect(result.success).toBe(false);
+    expect(result.errors?.errors[0].path).toEqual(['stages']);
+  });
+
+  it('should reject invalid colours, probabilities and won+lost stages', () => {
+    const result = validateCreatePipeline({
+      name: 'Retainers',
+      stages: [{ name: 'Signed', color: 'green', probability: 120, isWon: true, isLost: true }],
+    });
+
+    expect(result.success).toBe(false);
+    const fields = result.errors!.errors.map((err) => err.path.join('.'));
+    expect(fields).toEqual(expect.arrayContaining(['stages.0.color', 'stages.0.probability', 'stages.0.isLost']));
+  });
+
+  it('should only accept isDefault: true on update', () => {
+    expect(validateUpdatePipeline({ isDefault: false }).success).toBe(false);
+    expect(validateUpdatePipeline({ isDefault: true }).success).toBe(true);
+  });
+});
+
+describe('updatePipeline stages', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    client.query.mockReset();
+    client.release.mockReset();
+    mockedGetPoolClient.mockResolvedValue(client);
+  });
+
+  it('should derive keys from names and upsert stages in order', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ id: 2 }] };
+      return { rows: [] };
+    });
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [{ id: 2, name: 'Retainers', description: null, is_default: false, created_at: new Date(), updated_at: new Date() }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await updatePipeline(2, { stages: [{ name: 'Proposal Sent', probability: 40 }, { name: 'Signed', isWon: true }] });
+
+    const inserts = client.query.mock.calls.filter(([sql]) => sql.includes('INSERT INTO pipeline_stages'));
+    expect(inserts.map(([, values]) => values.slice(1, 4))).toEqual([
+      ['proposal_sent', 'Proposal Sent', 0],
+      ['signed', 'Signed', 1],
+    ]);
+    expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should reject duplicate stage keys', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ id: 2 }] };
+      return { rows: [] };
+    });
+
+    await expect(updatePipeline(2, { stages: [{ name: 'Won' }, { key: 'won', name: 'Closed' }] }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Duplicate stage key: won' });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+  });
+
+  it('should refuse to remove stages that still have deals', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ id: 2 }] };
+      if (sql.includes('FROM deals')) return { rows: [{ stage: 'discovery' }] };
+      return { rows: [] };
+    });
+
+    await expect(updatePipeline(2, { stages: [{ name: 'Signed' }] }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Cannot remove stages that still have deals: discovery' });
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+  });
+
+  it('should return null for an unknown pipeline', async () => {
+    client.query.mockResolvedValue({ rows: [] });
+
+    await expect(updatePipeline(99, { name: 'x' })).resolves.toBeNull();
+  });
+});
+
+describe('deletePipeline', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  it('should not delete the default pipeline', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [{ is_default: true }] });
+
+    await expect(deletePipeline(1)).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should not delete a pipeline that still has deals', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [{ is_default: false }] })
+      .mockResolvedValueOnce({ rows: [{ count: '3' }] });
+
+    await expect(deletePipeline(2)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Task Recurrence Rule Tests
+ *
+ * These tests check parsing RRULE-style rules and working out the next occurrence,
+ * including COUNT / UNTIL limits and month-end dates.
+ */
+
+import {
+  anchorRecurrenceRule,
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from '../src/lib/recurrence';
+
+const day = (date: string) => new Date(`${date}T09:00:00.000Z`);
+
+describe('parseRecurrenceRule', () => {
+  it('should parse a rule with an RRULE: prefix and default the interval to 1', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=weekly;COUNT=4')).toEqual({ frequency: 'WEEKLY', interval: 1, count: 4 });
+  });
+
+  it('should parse UNTIL dates into YYYY-MM-DD', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=2;UNTIL=20241231T235959Z')).toEqual({
+      frequency: 'DAILY',
+      interval: 2,
+      until: '2024-12-31',
+    });
+  });
+
+  it.each([
+    'FREQ=YEARLY',
+    'INTERVAL=2',
+    'FREQ=DAILY;INTERVAL=0',
+    'FREQ=DAILY;COUNT=3;UNTIL=20241231',
+    'FREQ=WEEKLY;BYMONTHDAY=5',
+    'FREQ=DAILY;BYDAY=MO',
+    'FREQ=DAILY;FREQ=WEEKLY',
+    'FREQ=DAILY;UNTIL=tomorrow',
+  ])('should reject %s', (rule) => {
+    expect(parseRecurrenceRule(rule)).toBeNull();
+  });
+
+  it('should round-trip through formatRecurrenceRule', () => {
+    const rule = parseRecurrenceRule('UNTIL=2025-03-01;FREQ=MONTHLY;BYMONTHDAY=31')!;
+    expect(formatRecurrenceRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;UNTIL=20250301');
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('should add days and weeks', () => {
+    expect(nextOccurrence({ frequency: 'DAILY', interval: 3 }, day('2024-06-28'), 1)).toEqual(day('2024-07-01'));
+    expect(nextOccurrence({ frequency: 'WEEKLY', interval: 2 }, day('2024-06-03'), 1)).toEqual(day('2024-06-17'));
+  });
+
+  it('should keep month-end tasks on the last day of each month', () => {
+    const rule = anchorRecurrenceRule({ frequency: 'MONTHLY', interval: 1 }, day('2024-01-31'));
+
+    const february = nextOccurrence(rule, day('2024-01-31'), 1);
+    expect(february).toEqual(day('2024-02-29'));
+    expect(nextOccurrence(rule, february!, 2)).toEqual(day('2024-03-31'));
+  });
+
+  it('should roll monthly rules over into the next year', () => {
+    expect(nextOccurrence({ frequency: 'MONTHLY', interval: 3 }, day('2024-11-15'), 1)).toEqual(day('2025-02-15'));
+  });
+
+  it('should stop after COUNT occurrences', () => {
+    const rule = { frequency: 'WEEKLY' as const, interval: 1, count: 3 };
+    expect(nextOccurrence(rule, day('2024-06-10'), 2)).toEqual(day('2024-06-17'));
+    expect(nextOccurrence(rule, day('2024-06-17'), 3)).toBeNull();
+  });
+
+  it('should stop after the UNTIL date, which is inclusive', () => {
+    const rule = { frequency: 'DAILY' as const, interval: 1, until: '2024-06-11' };
+    expect(nextOccurrence(rule, day('2024-06-10'), 1)).toEqual(day('2024-06-11'));
+    expect(nextOccurrence(rule, day('2024-06-11'), 2)).toBeNull();
+  });
+});
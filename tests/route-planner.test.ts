@@ -0,0 +1,88 @@
+/**
+ * Route Planning Tests
+ *
+ * These tests check the straight-line distance helper, the nearest-neighbour + 2-opt
+ * route ordering and the offline stub geocoder.
+ */
+
+import { haversineKm, pathLengthKm, planRoute } from '../src/lib/route-planner';
+import { stubGeocoder, getGeocoder, setGeocoder } from '../src/lib/geocoder';
+
+// Points along the equator, 1° of longitude ≈ 111.2 km apart
+const east = (longitude: number) => ({ latitude: 0, longitude });
+
+describe('haversineKm', () => {
+  it('should measure great-circle distances', () => {
+    expect(haversineKm(east(0), east(1))).toBeCloseTo(111.19, 1);
+    // Amsterdam → Paris
+    expect(haversineKm({ latitude: 52.3676, longitude: 4.9041 }, { latitude: 48.8566, longitude: 2.3522 })).toBeCloseTo(430, -1);
+  });
+});
+
+describe('planRoute', () => {
+  it('should visit points on a line in order from the first stop', () => {
+    const points = [east(0), east(3), east(1), east(4), east(2)];
+
+    expect(planRoute(points)).toEqual([0, 2, 4, 1, 3]);
+  });
+
+  it('should start from the given location', () => {
+    const points = [east(0), east(3), east(1), east(4), east(2)];
+
+    expect(planRoute(points, east(5))).toEqual([3, 1, 4, 2, 0]);
+  });
+
+  it('should shorten the nearest-neighbour route with 2-opt', () => {
+    const points = [east(0), east(1), east(-1.5), { latitude: 0.2, longitude: 3 }, { latitude: 1, longitude: 0.2 }];
+    // Nearest neighbour goes east first and has to come all the way back west
+    const nearestNeighbourLength = pathLengthKm(points, [0, 1, 4, 2, 3]);
+
+    const route = planRoute(points);
+
+    expect(route).toEqual([0, 2, 4, 1, 3]);
+    expect(pathLengthKm(points, route)).toBeLessThan(nearestNeighbourLength - 200);
+  });
+
+  it('should handle empty and single-stop days', () => {
+    expect(planRoute([])).toEqual([]);
+    expect(planRoute([east(1)], east(0))).toEqual([0]);
+  });
+});
+
+describe('stubGeocoder', () => {
+  afterEach(() => {
+    setGeocoder(null);
+    delete process.env.GEOCODER;
+    delete process.env.GEOCODER_STUB_CENTER;
+  });
+
+  it('should map the same address to the same point near the configured center', async () => {
+    process.env.GEOCODER_STUB_CENTER = '52.3676,4.9041';
+
+    const first = await stubGeocoder.geocode('1 Main St, Springfield');
+    const again = await stubGeocoder.geocode('  1 main st,   Springfield ');
+    const other = await stubGeocoder.geocode('2 Main St, Springfield');
+
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(haversineKm({ latitude: 52.3676, longitude: 4.9041 }, first!)).toBeLessThan(30);
+  });
+
+  it('should be the default in tests and reject unknown geocoders', () => {
+    expect(getGeocoder().name).toBe('stub');
+    process.env.GEOCODER = 'carrier-pigeon';
+    expect(() => getGeocoder()).toThrow("Unknown geocoder 'carrier-pigeon'");
+  });
+
+  it('should require GEOCODER outside development and tests', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      expect(() => getGeocoder()).toThrow('GEOCODER is not set');
+      process.env.GEOCODER = 'nominatim';
+      expect(getGeocoder().name).toBe('nominatim');
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+});
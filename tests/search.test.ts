@@ -0,0 +1,98 @@
+/**
+ * Search Tests
+ *
+ * These tests check GET /api/search validation, the prefix query builder,
+ * snippet highlighting and that chat messages are scoped to the caller.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { queryWithTimeout } from '../src/lib/db';
+import { buildPrefixQuery } from '../src/services/search.service';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = queryWithTimeout as jest.MockedFunction<typeof queryWithTimeout>;
+
+describe('Search', () => {
+  let authHeader: string;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    authHeader = authAs('user', 'rep@uplora-crm.com');
+    mockedQuery.mockResolvedValue({ rows: [] });
+  });
+
+  describe('buildPrefixQuery', () => {
+    it('should turn each term into a prefix match', () => {
+      expect(buildPrefixQuery('Acme corp')).toBe("'acme':* & 'corp':*");
+    });
+
+    it('should keep email characters and strip tsquery operators', () => {
+      expect(buildPrefixQuery("john@example.com & !'x")).toBe("'john@example.com':* & 'x':*");
+    });
+
+    it('should return null when there are no searchable terms', () => {
+      expect(buildPrefixQuery('!! &&')).toBeNull();
+    });
+  });
+
+  describe('GET /api/search', () => {
+    it('should return 400 when q is too short', async () => {
+      await request(app).get('/api/search?q=a').set('Authorization', authHeader).expect(400);
+      expect(mockedQuery).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown entity type', async () => {
+      await request(app).get('/api/search?q=acme&types=leads,passwords').set('Authorization', authHeader).expect(400);
+    });
+
+    it('should group hits by entity with escaped, highlighted snippets', async () => {
+      mockedQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM deals d')) {
+          return {
+            rows: [{
+              id: 'deal-1',
+              title: 'Acme <script>',
+              snippet: '[[mark]]Acme[[/mark]] <script>',
+              rank: '0.6',
+              lead_id: 7,
+              created_at: new Date('2024-01-01T00:00:00Z'),
+            }],
+          };
+        }
+        return { rows: [] };
+      });
+
+      const response = await request(app).get('/api/search?q=acme').set('Authorization', authHeader).expect(200);
+
+      expect(response.body.data.total).toBe(1);
+      expect(response.body.data.results.leads).toEqual([]);
+      expect(response.body.data.results.deals[0]).toMatchObject({
+        type: 'deal',
+        id: 'deal-1',
+        snippet: '<mark>Acme</mark> &lt;script&gt;',
+        rank: 0.6,
+        lead_id: 7,
+      });
+    });
+
+    it('should only search the requested entities and scope messages to the caller', async () => {
+      await request(app).get('/api/search?q=hello&types=messages').set('Authorization', authHeader).expect(200);
+
+      expect(mockedQuery).toHaveBeenCalledTimes(1);
+      const [sql, values] = mockedQuery.mock.calls[0];
+      expect(sql).toContain('FROM chat_messages m');
+      expect(values).toEqual(["'hello':*", 5, expect.any(String), 'rep@uplora-crm.com']);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Team Task Board Tests
+ *
+ * These tests check GET /api/tasks (filters and grouping) and POST /api/tasks/bulk
+ * (skipping missing and blocked tasks, one notification per affected assignee, including
+ * the next occurrences of closed recurring tasks).
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool from '../src/lib/db';
+import * as notificationsService from '../src/services/notifications.service';
+import { authAs } from './helpers/auth';
+import { taskListRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/notifications.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+
+beforeAll(() => {
+  process.env.AUTH_MODE = 'local';
+  process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockedNotificationsService.createNotification.mockResolvedValue({} as any);
+});
+
+describe('GET /api/tasks', () => {
+  it('should filter by assignee, statuses, due range and overdue', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('COUNT(*)::int AS total')) return { rows: [{ total: 1 }] };
+      return { rows: [taskListRow({ assigned_to_email: 'manager@uplora-crm.com' })] };
+    });
+
+    const response = await request(app)
+      .get('/api/tasks?assignee=me&status=open,in_progress&dueTo=2024-06-30&overdue=true&limit=20')
+      .set('Authorization', authAs('manager'))
+      .expect(200);
+
+    expect(response.body).toMatchObject({ success: true, count: 1, total: 1 });
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain('t.status = ANY($2::text[])');
+    expect(sql).toContain(`t.due_date < $3::date + INTERVAL '1 day'`);
+    expect(sql).toContain(`t.status <> 'done' AND t.due_date < NOW()`);
+    expect(values).toEqual(['manager@uplora-crm.com', ['open', 'in_progress'], '2024-06-30', 20]);
+  });
+
+  it('should group tasks by status in workflow order, counting every match', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      // The page holds 3 of the 5 matches
+      if (sql.includes('COUNT(*)::int AS total')) return { rows: [{ key: 'done', total: 1 }, { key: 'open', total: 4 }] };
+      return {
+        rows: [
+          taskListRow({ id: 1, status: 'done' }),
+          taskListRow({ id: 2, status: 'open' }),
+          taskListRow({ id: 3, status: 'open' }),
+        ],
+      };
+    });
+
+    const response = await request(app)
+      .get('/api/tasks?groupBy=status&limit=3')
+      .set('Authorization', authAs('manager'))
+      .expect(200);
+
+    expect(mockedQuery.mock.calls[1][0]).toContain('GROUP BY 1');
+    expect(response.body).toMatchObject({ count: 3, total: 5 });
+    expect(response.body.data.map((group: any) => [group.key, group.count])).toEqual([
+      ['open', 4],
+      ['in_progress', 0],
+      ['done', 1],
+    ]);
+    expect(response.body.data[0].tasks.map((task: any) => task.id)).toEqual([2, 3]);
+  });
+
+  it('should reject an unknown status', async () => {
+    await request(app)
+      .get('/api/tasks?status=open,archived')
+      .set('Authorization', authAs('manager'))
+      .expect(400);
+  });
+});
+
+describe('POST /api/tasks/bulk', () => {
+  it('should return 403 for a regular user', async () => {
+    await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', authAs('user'))
+      .send({ taskIds: [1], changes: { priority: 'high' } })
+      .expect(403);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should reassign tasks and send one notification per affected assignee', async () => {
+    mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+      if (sql.includes('SELECT id, assigned_to_email')) {
+        return {
+          rows: [
+            { id: 1, assigned_to_email: 'ann@uplora-crm.com' },
+            { id: 2, assigned_to_email: 'ann@uplora-crm.com' },
+            { id: 3, assigned_to_email: 'bob@uplora-crm.com' },
+          ],
+        };
+      }
+      if (sql.includes('UPDATE team_tasks')) {
+        return {
+          rows: values[values.length - 1].map((id: number) => taskListRow({ id, title: `Task ${id}`, assigned_to_email: values[0] })),
+        };
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', authAs('manager'))
+      .send({ taskIds: [3, 1, 2, 99], changes: { assignedToEmail: 'cara@uplora-crm.com' } })
+      .expect(200);
+
+    expect(response.body.data.updated.map((task: any) => task.id)).toEqual([3, 1, 2]);
+    expect(response.body.data.skipped).toEqual([{ id: 99, reason: 'not_found' }]);
+    expect(response.body.data.notified).toEqual(['cara@uplora-crm.com', 'bob@uplora-crm.com', 'ann@uplora-crm.com']);
+
+    const messages = Object.fromEntries(
+      mockedNotificationsService.createNotification.mock.calls.map(([data]) => [data.userEmail, data])
+    );
+    expect(messages['cara@uplora-crm.com'].message).toBe(
+      'manager@uplora-crm.com updated 3 of your tasks (assigned to you): "Task 3", "Task 1", "Task 2".'
+    );
+    expect(messages['ann@uplora-crm.com'].message).toBe(
+      'manager@uplora-crm.com reassigned 2 of your tasks to cara@uplora-crm.com: "Task 1", "Task 2".'
+    );
+    expect(messages['bob@uplora-crm.com']).toMatchObject({ type: 'tasks_bulk_updated', relatedTaskId: 3 });
+  });
+
+  it('should skip blocked tasks when closing', async () => {
+    mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+      if (sql.includes('SELECT id, assigned_to_email')) {
+        return { rows: [{ id: 1, assigned_to_email: 'ann@uplora-crm.com' }, { id: 2, assigned_to_email: 'ann@uplora-crm.com' }] };
+      }
+      if (sql.includes('FROM task_dependencies d')) return { rows: [{ task_id: 2 }] };
+      if (sql.includes('UPDATE team_tasks')) {
+        return { rows: values[values.length - 1].map((id: number) => taskListRow({ id, assigned_to_email: 'ann@uplora-crm.com', status: 'done' })) };
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', authAs('manager'))
+      .send({ taskIds: [1, 2], changes: { status: 'done' } })
+      .expect(200);
+
+    expect(response.body.data.updated.map((task: any) => task.id)).toEqual([1]);
+    expect(response.body.data.skipped).toEqual([{ id: 2, reason: 'blocked' }]);
+    const update = mockedQuery.mock.calls.find(([sql]) => sql.includes('UPDATE team_tasks'));
+    expect(update![1]).toEqual(['done', 'manager@uplora-crm.com', [1]]);
+    expect(mockedNotificationsService.createNotification).toHaveBeenCalledTimes(1);
+    expect(mockedNotificationsService.createNotification.mock.calls[0][0].message).toContain('(marked done)');
+  });
+
+  it('should list new recurring occurrences in the bulk notification instead of notifying each', async () => {
+    mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+      if (sql.includes('SELECT id, assigned_to_email')) return { rows: [{ id: 1, assigned_to_email: 'ann@uplora-crm.com' }] };
+      if (sql.includes('FROM task_dependencies d')) return { rows: [] };
+      if (sql.includes('UPDATE team_tasks')) {
+        return { rows: [taskListRow({ id: 1, assigned_to_email: 'ann@uplora-crm.com', title: 'Weekly report', status: 'done', recurrence_rule: 'FREQ=WEEKLY;INTERVAL=1' })] };
+      }
+      if (sql.includes('INSERT INTO team_tasks')) {
+        return { rows: [taskListRow({ id: 2, assigned_to_email: 'ann@uplora-crm.com', title: 'Weekly report', due_date: values[5], recurrence_parent_id: 1 })] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+
+    const response = await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', authAs('manager'))
+      .send({ taskIds: [1], changes: { status: 'done' } })
+      .expect(200);
+
+    expect(response.body.data.updated[0].next_occurrence).toMatchObject({ id: 2, due_date: '2024-06-10T09:00:00.000Z' });
+    expect(mockedNotificationsService.createNotification).toHaveBeenCalledTimes(1);
+    expect(mockedNotificationsService.createNotification.mock.calls[0][0]).toMatchObject({
+      type: 'tasks_bulk_updated',
+      message: 'manager@uplora-crm.com updated 1 of your tasks (marked done): "Weekly report". '
+        + 'Next occurrences created: "Weekly report" due 2024-06-10.',
+    });
+  });
+
+  it('should reject a request without changes', async () => {
+    await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', authAs('manager'))
+      .send({ taskIds: [1], changes: {} })
+      .expect(400);
+  });
+});
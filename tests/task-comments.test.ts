@@ -0,0 +1,228 @@
+/**
+ * Task Comments Tests
+ *
+ * These tests check @mention parsing, the /api/tasks/:id/comments endpoints
+ * (mention notifications, author-only edits) and the task detail (GET /api/tasks/:id).
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool from '../src/lib/db';
+import { parseMentions } from '../src/lib/mentions';
+import { summarizeEvent } from '../src/services/timeline.service';
+import * as notificationsService from '../src/services/notifications.service';
+import { authAs } from './helpers/auth';
+import { taskListRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/notifications.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+
+const TASK = { id: 4, title: 'Send proposal', lead_id: 5 };
+
+function commentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 10,
+    task_id: 4,
+    author_email: 'rep@uplora-crm.com',
+    body: 'Sent the draft',
+    mentions: [],
+    created_at: '2024-06-01T09:00:00.000Z',
+    updated_at: '2024-06-01T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Answers the service's queries: the task lookup, the comment lookup, the users lookup
+ * for mentions, and INSERT / UPDATE echoing back the values written
+ */
+function mockCommentQueries(options: { task?: object | null; comment?: object | null; activeUsers?: string[] } = {}) {
+  mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+    if (sql.includes('FROM team_tasks WHERE id')) {
+      return { rows: options.task === null ? [] : [options.task || TASK] };
+    }
+    if (sql.includes('SELECT * FROM task_comments WHERE id')) {
+      return { rows: options.comment === null ? [] : [options.comment || commentRow()] };
+    }
+    if (sql.includes('FROM users')) {
+      return { rows: values[0].filter((email: string) => (options.activeUsers || []).includes(email)).map((email: string) => ({ email })) };
+    }
+    if (sql.includes('INSERT INTO task_comments')) {
+      return { rows: [commentRow({ author_email: values[1], body: values[2], mentions: values[3] })] };
+    }
+    if (sql.includes('UPDATE task_comments')) {
+      return { rows: [commentRow({ body: values[0], mentions: values[1], updated_at: '2024-06-02T09:00:00.000Z' })] };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+const authHeader = () => authAs('sales_rep', 'rep@uplora-crm.com');
+
+beforeAll(() => {
+  process.env.AUTH_MODE = 'local';
+  process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockedNotificationsService.createNotification.mockResolvedValue({} as any);
+});
+
+describe('parseMentions', () => {
+  it('should extract @emails lowercased, once each, in order', () => {
+    expect(parseMentions('@Ann@Uplora-CRM.com and @bob@uplora-crm.com, then @ann@uplora-crm.com again.')).toEqual([
+      'ann@uplora-crm.com',
+      'bob@uplora-crm.com',
+    ]);
+  });
+
+  it('should ignore plain email addresses', () => {
+    expect(parseMentions('Mail ann@uplora-crm.com or x@bob@uplora-crm.com')).toEqual([]);
+  });
+});
+
+describe('POST /api/tasks/:id/comments', () => {
+  it('should store the mentions and notify active mentioned users except the author', async () => {
+    mockCommentQueries({ activeUsers: ['ann@uplora-crm.com', 'rep@uplora-crm.com'] });
+
+    const response = await request(app)
+      .post('/api/tasks/4/comments')
+      .set('Authorization', authHeader())
+      .send({ body: '@ann@uplora-crm.com @gone@uplora-crm.com @rep@uplora-crm.com can you review?' })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      author_email: 'rep@uplora-crm.com',
+      mentions: ['ann@uplora-crm.com', 'gone@uplora-crm.com', 'rep@uplora-crm.com'],
+    });
+
+    const usersCall = mockedQuery.mock.calls.find(([sql]) => sql.includes('FROM users'));
+    expect(usersCall![1]).toEqual([['ann@uplora-crm.com', 'gone@uplora-crm.com']]);
+    expect(mockedNotificationsService.createNotification).toHaveBeenCalledTimes(1);
+    expect(mockedNotificationsService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+      userEmail: 'ann@uplora-crm.com',
+      type: 'mention',
+      relatedTaskId: 4,
+      relatedLeadId: 5,
+    }));
+  });
+
+  it('should return 404 when the task does not exist', async () => {
+    mockCommentQueries({ task: null });
+
+    await request(app)
+      .post('/api/tasks/99/comments')
+      .set('Authorization', authHeader())
+      .send({ body: 'Hello' })
+      .expect(404);
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO task_comments'))).toBe(false);
+  });
+
+  it('should reject an empty comment', async () => {
+    await request(app)
+      .post('/api/tasks/4/comments')
+      .set('Authorization', authHeader())
+      .send({ body: '   ' })
+      .expect(400);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /api/tasks/:id/comments/:commentId', () => {
+  it('should notify only people newly mentioned by the edit', async () => {
+    mockCommentQueries({
+      comment: commentRow({ mentions: ['ann@uplora-crm.com'] }),
+      activeUsers: ['ann@uplora-crm.com', 'bob@uplora-crm.com'],
+    });
+
+    const response = await request(app)
+      .patch('/api/tasks/4/comments/10')
+      .set('Authorization', authHeader())
+      .send({ body: '@ann@uplora-crm.com @bob@uplora-crm.com updated numbers' })
+      .expect(200);
+
+    expect(response.body.data.mentions).toEqual(['ann@uplora-crm.com', 'bob@uplora-crm.com']);
+    expect(mockedNotificationsService.createNotification).toHaveBeenCalledTimes(1);
+    expect(mockedNotificationsService.createNotification.mock.calls[0][0].userEmail).toBe('bob@uplora-crm.com');
+  });
+
+  it('should return 403 when the user is not the author', async () => {
+    mockCommentQueries({ comment: commentRow({ author_email: 'ann@uplora-crm.com' }) });
+
+    await request(app)
+      .patch('/api/tasks/4/comments/10')
+      .set('Authorization', authHeader())
+      .send({ body: 'Edited' })
+      .expect(403);
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('UPDATE task_comments'))).toBe(false);
+  });
+});
+
+describe('DELETE /api/tasks/:id/comments/:commentId', () => {
+  it('should delete the author\'s comment', async () => {
+    mockCommentQueries();
+
+    await request(app)
+      .delete('/api/tasks/4/comments/10')
+      .set('Authorization', authHeader())
+      .expect(200);
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('DELETE FROM task_comments'))).toBe(true);
+  });
+
+  it('should return 404 when the comment is not on that task', async () => {
+    mockCommentQueries({ comment: null });
+
+    await request(app)
+      .delete('/api/tasks/4/comments/10')
+      .set('Authorization', authHeader())
+      .expect(404);
+  });
+});
+
+describe('GET /api/tasks/:id', () => {
+  it('should return the task with its checklist and comments', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('WHERE t.id = $1')) {
+        return { rows: [taskListRow({ id: 4, title: 'Send proposal', due_date: null })] };
+      }
+      if (sql.includes('FROM team_tasks WHERE id')) return { rows: [TASK] };
+      if (sql.includes('FROM task_comments')) return { rows: [commentRow()] };
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .get('/api/tasks/4')
+      .set('Authorization', authHeader())
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      id: 4,
+      progress: { percent: 0 },
+      checklist: [],
+      comments: [{ id: 10, body: 'Sent the draft' }],
+    });
+  });
+
+  it('should return 404 when the task does not exist', async () => {
+    mockedQuery.mockResolvedValue({ rows: [] });
+
+    await request(app)
+      .get('/api/tasks/99')
+      .set('Authorization', authHeader())
+      .expect(404);
+  });
+});
+
+describe('timeline task comments', () => {
+  it('should summarize a task comment', () => {
+    expect(summarizeEvent('task_comment', { author_email: 'rep@uplora-crm.com', task_title: 'Send proposal' }))
+      .toBe('rep@uplora-crm.com commented on task "Send proposal"');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Subtask, Checklist and Task Dependency Tests
+ *
+ * These tests check task progress in the task lists, subtasks inheriting their parent's
+ * lead, checklist items, and that open blockers keep a task from being marked done.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool from '../src/lib/db';
+import * as notificationsService from '../src/services/notifications.service';
+import { authAs } from './helpers/auth';
+import { taskListRow, taskRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/notifications.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+
+// The parent task most tests work on
+const ONBOARDING = { id: 20, title: 'Onboard client', due_date: null, created_by_email: 'rep@uplora-crm.com' };
+
+const auth = () => authAs('user', 'rep@uplora-crm.com');
+
+describe('Subtasks, checklists and dependencies API', () => {
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedNotificationsService.createNotification.mockResolvedValue({} as any);
+  });
+
+  describe('GET /api/tasks/my', () => {
+    it('should return progress from checklist items and subtasks', async () => {
+      mockedQuery.mockResolvedValue({
+        rows: [
+          taskListRow({
+            ...ONBOARDING,
+            checklist_total: 3,
+            checklist_done: 2,
+            subtasks_total: 1,
+            subtasks_done: 0,
+            blocked_by: [11],
+            is_blocked: true,
+          }),
+          taskListRow({ ...ONBOARDING, id: 21, title: 'Send invoice' }),
+          taskListRow({ ...ONBOARDING, id: 22, title: 'Kick-off call', status: 'done', checklist_total: 2, checklist_done: 1 }),
+        ],
+      });
+
+      const response = await request(app).get('/api/tasks/my').set('Authorization', auth()).expect(200);
+
+      expect(response.body.data[0]).toMatchObject({
+        progress: { checklist_total: 3, checklist_done: 2, subtasks_total: 1, subtasks_done: 0, percent: 50 },
+        blocked_by: [11],
+        is_blocked: true,
+      });
+      expect(response.body.data[1].progress.percent).toBe(0);
+      expect(response.body.data[2].progress.percent).toBe(100);
+      expect(mockedQuery.mock.calls[0][0]).toContain('task_checklist_items');
+    });
+  });
+
+  describe('POST /api/tasks/:id/subtasks', () => {
+    it('should create the subtask on the parent task\'s lead', async () => {
+      mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+        if (sql.includes('SELECT * FROM team_tasks WHERE id')) return { rows: [taskRow(ONBOARDING)] };
+        if (sql.includes('INSERT INTO team_tasks')) {
+          return { rows: [taskRow({ ...ONBOARDING, id: 30, title: values[3], parent_task_id: values[11] })] };
+        }
+        return { rows: [] };
+      });
+
+      const response = await request(app)
+        .post('/api/tasks/20/subtasks')
+        .set('Authorization', auth())
+        .send({ assignedToEmail: 'rep@uplora-crm.com', title: 'Collect logins' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({ id: 30, lead_id: 5, parent_task_id: 20 });
+      const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO team_tasks'));
+      expect(insert![1][0]).toBe(5);
+    });
+
+    it('should return 404 when the parent task does not exist', async () => {
+      mockedQuery.mockResolvedValue({ rows: [] });
+
+      await request(app)
+        .post('/api/tasks/999/subtasks')
+        .set('Authorization', auth())
+        .send({ assignedToEmail: 'rep@uplora-crm.com', title: 'Collect logins' })
+        .expect(404);
+    });
+  });
+
+  describe('PATCH /api/tasks/:taskId/checklist/:itemId', () => {
+    it('should check an item and stamp who completed it', async () => {
+      mockedQuery.mockResolvedValue({
+        rows: [{
+          id: 4,
+          task_id: 20,
+          position: 0,
+          title: 'Send contract',
+          is_done: true,
+          completed_at: '2024-06-02T10:00:00.000Z',
+          completed_by_email: 'rep@uplora-crm.com',
+          created_at: '2024-06-01T09:00:00.000Z',
+          updated_at: '2024-06-02T10:00:00.000Z',
+        }],
+      });
+
+      const response = await request(app)
+        .patch('/api/tasks/20/checklist/4')
+        .set('Authorization', auth())
+        .send({ isDone: true })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ is_done: true, completed_by_email: 'rep@uplora-crm.com' });
+      const [sql, values] = mockedQuery.mock.calls[0];
+      expect(sql).toContain('completed_by_email');
+      expect(values).toEqual([true, 'rep@uplora-crm.com', 4, 20]);
+    });
+
+    it('should return 404 for an item on another task', async () => {
+      mockedQuery.mockResolvedValue({ rows: [] });
+
+      await request(app)
+        .patch('/api/tasks/20/checklist/4')
+        .set('Authorization', auth())
+        .send({ title: 'Renamed' })
+        .expect(404);
+    });
+  });
+
+  describe('Blocked tasks', () => {
+    it('should refuse to mark a task done while a blocker is open', async () => {
+      mockedQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM task_dependencies d')) return { rows: [{ id: 11, title: 'Sign contract' }] };
+        return { rows: [taskRow({ ...ONBOARDING, status: 'done' })] };
+      });
+
+      const response = await request(app)
+        .patch('/api/tasks/20/status')
+        .set('Authorization', auth())
+        .send({ status: 'done' })
+        .expect(409);
+
+      expect(response.body.message).toBe('Task is blocked by open tasks: #11 "Sign contract"');
+      expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('UPDATE team_tasks'))).toBe(false);
+    });
+
+    it('should also refuse it through PATCH /api/tasks/:id', async () => {
+      mockedQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM task_dependencies d')) return { rows: [{ id: 11, title: 'Sign contract' }] };
+        return { rows: [taskRow({ ...ONBOARDING, status: 'done' })] };
+      });
+
+      await request(app)
+        .patch('/api/tasks/20')
+        .set('Authorization', auth())
+        .send({ status: 'done' })
+        .expect(409);
+    });
+
+    it('should let a task move to in progress while blocked', async () => {
+      mockedQuery.mockResolvedValue({ rows: [taskRow({ ...ONBOARDING, status: 'in_progress' })] });
+
+      await request(app)
+        .patch('/api/tasks/20/status')
+        .set('Authorization', auth())
+        .send({ status: 'in_progress' })
+        .expect(200);
+    });
+
+    it('should add a dependency and return the blockers', async () => {
+      mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+        if (sql.includes('SELECT * FROM team_tasks WHERE id')) return { rows: [taskRow({ ...ONBOARDING, id: values[0] })] };
+        if (sql.includes('WITH RECURSIVE chain')) return { rows: [] };
+        if (sql.includes('FROM team_tasks t')) return { rows: [taskListRow({ ...ONBOARDING, id: 11, title: 'Sign contract' })] };
+        return { rows: [], rowCount: 1 };
+      });
+
+      const response = await request(app)
+        .post('/api/tasks/20/dependencies')
+        .set('Authorization', auth())
+        .send({ blockedByTaskId: 11 })
+        .expect(201);
+
+      expect(response.body.data.map((task: any) => task.id)).toEqual([11]);
+      const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO task_dependencies'));
+      expect(insert![1]).toEqual([20, 11, 'rep@uplora-crm.com']);
+    });
+
+    it('should reject a dependency that would create a cycle', async () => {
+      mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+        if (sql.includes('SELECT * FROM team_tasks WHERE id')) return { rows: [taskRow({ ...ONBOARDING, id: values[0] })] };
+        if (sql.includes('WITH RECURSIVE chain')) return { rows: [{ '?column?': 1 }] };
+        return { rows: [] };
+      });
+
+      const response = await request(app)
+        .post('/api/tasks/20/dependencies')
+        .set('Authorization', auth())
+        .send({ blockedByTaskId: 11 })
+        .expect(409);
+
+      expect(response.body.message).toBe('Task 11 already depends on task 20');
+      expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO task_dependencies'))).toBe(false);
+    });
+
+    it('should reject a task blocking itself', async () => {
+      await request(app)
+        .post('/api/tasks/20/dependencies')
+        .set('Authorization', auth())
+        .send({ blockedByTaskId: 20 })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Task Reminder Tests
+ *
+ * These tests check the task reminder job (due soon, overdue and escalation reminders,
+ * sent once each, logged as an automation run and stopped by the time budget) and the
+ * CRON_SECRET check on GET /api/cron/task-reminders.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool from '../src/lib/db';
+import * as notificationsService from '../src/services/notifications.service';
+import * as automationRunsService from '../src/services/automation-runs.service';
+import { getTaskReminderOptions, runTaskReminders } from '../src/services/task-reminders.service';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/notifications.service');
+jest.mock('../src/services/automation-runs.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+const mockedAutomationRunsService = automationRunsService as jest.Mocked<typeof automationRunsService>;
+
+const options = { dueSoonHours: 24, escalateAfterDays: 3, lookbackDays: 7 };
+
+function candidate(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 20,
+    title: 'Send proposal',
+    due_date: new Date('2024-06-03T09:00:00.000Z'),
+    lead_id: 5,
+    assigned_to_email: 'rep@uplora-crm.com',
+    manager_email: 'manager@uplora-crm.com',
+    ...overrides,
+  };
+}
+
+/**
+ * Answers the claim query of each reminder type with the given tasks (the ones this run claimed)
+ */
+function mockReminderQueries(claimed: Record<string, any[]>) {
+  mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+    if (sql.includes('INSERT INTO task_reminders')) return { rows: claimed[values[1]] || [] };
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockedAutomationRunsService.startAutomationRun.mockResolvedValue({ id: 77 } as any);
+  mockedNotificationsService.createNotification.mockResolvedValue({} as any);
+});
+
+describe('runTaskReminders', () => {
+  it('should send each type of reminder and log the run', async () => {
+    mockReminderQueries({
+      task_due_soon: [candidate({ id: 21, title: 'Call back', due_date: new Date('2024-06-10T09:00:00.000Z') })],
+      task_overdue: [candidate()],
+      task_overdue_escalation: [candidate()],
+    });
+
+    const summary = await runTaskReminders('scheduled', options);
+
+    expect(summary).toEqual({ automation_run_id: 77, due_soon: 1, overdue: 1, escalated: 1, failed: 0, partial: false });
+    expect(mockedNotificationsService.createNotification.mock.calls.map(([data]) => data)).toEqual([
+      expect.objectContaining({ userEmail: 'rep@uplora-crm.com', type: 'task_due_soon', relatedTaskId: 21 }),
+      expect.objectContaining({ userEmail: 'rep@uplora-crm.com', type: 'task_overdue', relatedTaskId: 20 }),
+      expect.objectContaining({
+        userEmail: 'manager@uplora-crm.com',
+        type: 'task_overdue_escalation',
+        message: 'rep@uplora-crm.com\'s task "Send proposal" has been overdue since 2024-06-03',
+      }),
+    ]);
+    expect(mockedAutomationRunsService.startAutomationRun).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'task_reminders',
+      type: 'task_reminder',
+      triggeredBy: 'scheduled',
+    }));
+    expect(mockedAutomationRunsService.completeAutomationRun).toHaveBeenCalledWith(77, expect.objectContaining({
+      recordsProcessed: 3,
+    }));
+    // Runs cut off by an earlier timeout are closed first
+    expect(mockedAutomationRunsService.failStaleAutomationRuns).toHaveBeenCalledWith('task_reminders', 10);
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('DELETE FROM task_reminders'))).toBe(false);
+  });
+
+  it('should claim each type in one query with its window, the lookback and the run', async () => {
+    mockReminderQueries({});
+
+    await runTaskReminders('manual', { dueSoonHours: 48, escalateAfterDays: 5, lookbackDays: 14 });
+
+    const claimQueries = mockedQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO task_reminders'));
+    expect(claimQueries.map(([, values]) => values)).toEqual([
+      [48, 'task_due_soon', 500, 14, 77],
+      [0, 'task_overdue', 500, 14, 77],
+      [5, 'task_overdue_escalation', 500, 14, 77],
+    ]);
+    expect(claimQueries[0][0]).toContain('NOT EXISTS');
+    expect(claimQueries[0][0]).toContain('ON CONFLICT (task_id, reminder_type, due_date) DO NOTHING');
+    expect(claimQueries[0][0]).toContain('t.due_date > NOW() - make_interval(days => $4::int)');
+    expect(claimQueries[2][0]).toContain('manager_email, $5, NOW()');
+  });
+
+  it('should never look back less than a day past the escalation threshold', () => {
+    process.env.TASK_ESCALATION_DAYS = '10';
+    process.env.TASK_REMINDER_LOOKBACK_DAYS = '7';
+    try {
+      expect(getTaskReminderOptions()).toEqual({ dueSoonHours: 24, escalateAfterDays: 10, lookbackDays: 11 });
+    } finally {
+      delete process.env.TASK_ESCALATION_DAYS;
+      delete process.env.TASK_REMINDER_LOOKBACK_DAYS;
+    }
+  });
+
+  it('should release the claim when the notification fails', async () => {
+    mockReminderQueries({ task_overdue: [candidate()] });
+    mockedNotificationsService.createNotification.mockRejectedValue(new Error('insert failed'));
+
+    const summary = await runTaskReminders('scheduled', options);
+
+    expect(summary).toMatchObject({ overdue: 0, failed: 1 });
+    const release = mockedQuery.mock.calls.find(([sql]) => sql.includes('DELETE FROM task_reminders'));
+    expect(release![1]).toEqual(['task_overdue', 77, [20]]);
+  });
+
+  it('should stop at the time budget, release the unsent claims and record a partial run', async () => {
+    // Each notification takes 8 seconds on the mocked clock, so the 20 second budget allows three
+    let clock = Date.now();
+    const now = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    mockedNotificationsService.createNotification.mockImplementation(async () => {
+      clock += 8000;
+      return {} as any;
+    });
+    mockReminderQueries({
+      task_overdue: [21, 22, 23, 24, 25].map((id) => candidate({ id })),
+      task_overdue_escalation: [candidate()],
+    });
+
+    try {
+      const summary = await runTaskReminders('scheduled', options);
+
+      expect(summary).toMatchObject({ overdue: 3, escalated: 0, failed: 0, partial: true });
+    } finally {
+      now.mockRestore();
+    }
+    const claimedTypes = mockedQuery.mock.calls
+      .filter(([sql]) => sql.includes('INSERT INTO task_reminders'))
+      .map(([, values]) => values[1]);
+    expect(claimedTypes).toEqual(['task_due_soon', 'task_overdue']);
+    const release = mockedQuery.mock.calls.find(([sql]) => sql.includes('DELETE FROM task_reminders'));
+    expect(release![1]).toEqual(['task_overdue', 77, [24, 25]]);
+    expect(mockedAutomationRunsService.completeAutomationRun).toHaveBeenCalledWith(77, expect.objectContaining({
+      recordsProcessed: 3,
+      metadata: expect.objectContaining({ partial: true }),
+    }));
+  });
+
+  it('should mark the run as failed when a query fails', async () => {
+    mockedQuery.mockRejectedValue(new Error('connection lost'));
+
+    await expect(runTaskReminders('scheduled', options)).rejects.toThrow('connection lost');
+    expect(mockedAutomationRunsService.failAutomationRun).toHaveBeenCalledWith(77, expect.any(Error));
+    expect(mockedAutomationRunsService.completeAutomationRun).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/cron/task-reminders', () => {
+  const originalSecret = process.env.CRON_SECRET;
+
+  beforeEach(() => {
+    process.env.CRON_SECRET = 'test-cron-secret';
+    mockReminderQueries({});
+  });
+
+  afterAll(() => {
+    process.env.CRON_SECRET = originalSecret;
+  });
+
+  it('should run the job with the cron secret', async () => {
+    const response = await request(app)
+      .get('/api/cron/task-reminders')
+      .set('Authorization', 'Bearer test-cron-secret')
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ automation_run_id: 77, due_soon: 0 });
+  });
+
+  it('should return 401 with a wrong secret', async () => {
+    await request(app)
+      .get('/api/cron/task-reminders')
+      .set('Authorization', 'Bearer wrong-secret')
+      .expect(401);
+    expect(mockedAutomationRunsService.startAutomationRun).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 while CRON_SECRET is not configured', async () => {
+    delete process.env.CRON_SECRET;
+
+    await request(app).get('/api/cron/task-reminders').set('Authorization', 'Bearer ').expect(401);
+  });
+});
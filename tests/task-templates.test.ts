@@ -0,0 +1,259 @@
+/**
+ * Recurring Task and Task Template Tests
+ *
+ * These tests check that completing a recurring task creates its next occurrence,
+ * and the /api/task-templates endpoints (permissions and applying a template).
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool, { getPoolClient } from '../src/lib/db';
+import * as notificationsService from '../src/services/notifications.service';
+import { createTask, updateTaskStatus } from '../src/services/tasks.service';
+import { authAs } from './helpers/auth';
+import { taskRow } from './helpers/rows';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+jest.mock('../src/services/notifications.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+const mockedGetPoolClient = getPoolClient as unknown as jest.Mock;
+const mockedNotificationsService = notificationsService as jest.Mocked<typeof notificationsService>;
+
+// The recurring task these tests complete: the first of 12 monthly reports
+const MONTHLY_REPORT = {
+  id: 40,
+  title: 'Send monthly report',
+  due_date: '2024-01-31T09:00:00.000Z',
+  status: 'done',
+  recurrence_rule: 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;COUNT=12',
+  created_at: '2024-01-01T09:00:00.000Z',
+  updated_at: '2024-01-31T09:00:00.000Z',
+};
+
+beforeAll(() => {
+  process.env.AUTH_MODE = 'local';
+  process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  mockedNotificationsService.createNotification.mockResolvedValue({} as any);
+});
+
+describe('Recurring tasks', () => {
+  it('should anchor monthly rules to the due date when a task is created', async () => {
+    mockedQuery.mockResolvedValue({ rows: [taskRow({ ...MONTHLY_REPORT, status: 'open' })] });
+
+    await createTask({
+      leadId: 5,
+      assignedToEmail: 'rep@uplora-crm.com',
+      title: 'Send monthly report',
+      dueDate: '2024-01-31T09:00:00.000Z',
+      recurrenceRule: 'FREQ=MONTHLY;COUNT=12',
+    });
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain('recurrence_rule');
+    expect(values.slice(8, 11)).toEqual(['FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31;COUNT=12', null, 1]);
+  });
+
+  it('should refuse recurring tasks without a due date', async () => {
+    await expect(createTask({
+      leadId: 5,
+      assignedToEmail: 'rep@uplora-crm.com',
+      title: 'Send monthly report',
+      recurrenceRule: 'FREQ=MONTHLY',
+    })).rejects.toThrow('Recurring tasks need a due date');
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should create the next occurrence when a recurring task is marked done', async () => {
+    mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+      if (sql.includes('UPDATE team_tasks')) return { rows: [taskRow(MONTHLY_REPORT)] };
+      if (sql.includes('WHERE recurrence_parent_id')) return { rows: [] };
+      if (sql.includes('INSERT INTO team_tasks')) {
+        return { rows: [taskRow({ ...MONTHLY_REPORT, id: 41, status: 'open', due_date: values[5], recurrence_parent_id: 40, recurrence_occurrence: 2 })] };
+      }
+      return { rows: [] };
+    });
+
+    const task = await updateTaskStatus({ taskId: 40, status: 'done', changedByEmail: 'rep@uplora-crm.com' });
+
+    expect(task.next_occurrence).toMatchObject({
+      id: 41,
+      recurrence_parent_id: 40,
+      recurrence_occurrence: 2,
+      due_date: '2024-02-29T09:00:00.000Z',
+    });
+    const insert = mockedQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO team_tasks'));
+    expect(insert![1]).toEqual(expect.arrayContaining([5, 'rep@uplora-crm.com', 'Send monthly report', 40, 2]));
+  });
+
+  it('should not create another occurrence when the task was completed before', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('UPDATE team_tasks')) return { rows: [taskRow(MONTHLY_REPORT)] };
+      if (sql.includes('WHERE recurrence_parent_id')) return { rows: [{ id: 41 }] };
+      return { rows: [] };
+    });
+
+    const task = await updateTaskStatus({ taskId: 40, status: 'done' });
+
+    expect(task.next_occurrence).toBeUndefined();
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO team_tasks'))).toBe(false);
+  });
+
+  it('should end the series after COUNT occurrences', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('UPDATE team_tasks')) return { rows: [taskRow({ ...MONTHLY_REPORT, recurrence_occurrence: 12 })] };
+      return { rows: [] };
+    });
+
+    const task = await updateTaskStatus({ taskId: 40, status: 'done' });
+
+    expect(task.next_occurrence).toBeUndefined();
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO team_tasks'))).toBe(false);
+  });
+
+  it('should reject an invalid recurrence rule on POST /api/leads/:id/tasks', async () => {
+    const response = await request(app)
+      .post('/api/leads/5/tasks')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .send({ assignedToEmail: 'rep@uplora-crm.com', title: 'Report', dueDate: '2024-06-01', recurrenceRule: 'FREQ=HOURLY' })
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+  });
+});
+
+describe('Task templates API', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  const templateRow = {
+    id: 3,
+    name: 'New client onboarding',
+    description: null,
+    created_by_email: 'manager@uplora-crm.com',
+    created_at: '2024-05-01T09:00:00.000Z',
+    updated_at: '2024-05-01T09:00:00.000Z',
+  };
+  const itemRows = [
+    { id: 1, template_id: 3, position: 0, title: 'Kick-off call', description: null, priority: 'high', due_in_days: 1, recurrence_rule: null },
+    { id: 2, template_id: 3, position: 1, title: 'Collect logins', description: null, priority: 'normal', due_in_days: null, recurrence_rule: null },
+    { id: 3, template_id: 3, position: 2, title: 'Monthly report', description: null, priority: 'normal', due_in_days: 30, recurrence_rule: 'FREQ=MONTHLY;COUNT=12' },
+  ];
+
+  beforeEach(() => {
+    mockedGetPoolClient.mockResolvedValue(client);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO task_templates')) return { rows: [{ id: 3 }] };
+      return { rows: [] };
+    });
+  });
+
+  it('should return 403 when a regular user creates a template', async () => {
+    const response = await request(app)
+      .post('/api/task-templates')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .send({ name: 'Onboarding', items: [{ title: 'Kick-off call' }] })
+      .expect(403);
+
+    expect(response.body.success).toBe(false);
+    expect(mockedGetPoolClient).not.toHaveBeenCalled();
+  });
+
+  it('should create a template with its items in order for a manager', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM task_templates')) return { rows: [templateRow] };
+      if (sql.includes('FROM task_template_items')) return { rows: itemRows };
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/task-templates')
+      .set('Authorization', authAs('manager'))
+      .send({
+        name: 'New client onboarding',
+        items: [
+          { title: 'Kick-off call', priority: 'high', dueInDays: 1 },
+          { title: 'Collect logins' },
+          { title: 'Monthly report', dueInDays: 30, recurrenceRule: 'FREQ=MONTHLY;COUNT=12' },
+        ],
+      })
+      .expect(201);
+
+    expect(response.body.data.items).toHaveLength(3);
+    const itemInserts = client.query.mock.calls.filter(([sql]) => sql.includes('INSERT INTO task_template_items'));
+    expect(itemInserts.map(([, values]) => values.slice(1, 3))).toEqual([
+      [0, 'Kick-off call'],
+      [1, 'Collect logins'],
+      [2, 'Monthly report'],
+    ]);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+
+  it('should reject recurring items without dueInDays', async () => {
+    await request(app)
+      .post('/api/task-templates')
+      .set('Authorization', authAs('manager'))
+      .send({ name: 'Reports', items: [{ title: 'Monthly report', recurrenceRule: 'FREQ=MONTHLY' }] })
+      .expect(400);
+  });
+
+  it('should create one task per item on a client when a template is applied', async () => {
+    let nextTaskId = 100;
+    mockedQuery.mockImplementation(async (sql: string, values: any[]) => {
+      if (sql.includes('FROM task_templates')) return { rows: [templateRow] };
+      if (sql.includes('FROM task_template_items')) return { rows: itemRows };
+      if (sql.includes('FROM contacts')) return { rows: [{ id: 'client-1' }] };
+      if (sql.includes('INSERT INTO team_tasks')) {
+        return {
+          rows: [taskRow({
+            id: nextTaskId++,
+            lead_id: null,
+            client_id: values[1],
+            title: values[3],
+            due_date: values[5],
+            status: 'open',
+            priority: values[6],
+            recurrence_rule: values[8],
+          })],
+        };
+      }
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/task-templates/3/apply')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .send({ clientId: 'client-1', assignedToEmail: 'rep@uplora-crm.com', startDate: '2024-06-01' })
+      .expect(201);
+
+    expect(response.body.count).toBe(3);
+    expect(response.body.data.map((task: any) => [task.title, task.due_date, task.recurrence_rule])).toEqual([
+      ['Kick-off call', '2024-06-02T00:00:00.000Z', null],
+      ['Collect logins', null, null],
+      ['Monthly report', '2024-07-01T00:00:00.000Z', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=1;COUNT=12'],
+    ]);
+  });
+
+  it('should return 404 when applying a template to a missing lead', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM task_templates')) return { rows: [templateRow] };
+      if (sql.includes('FROM task_template_items')) return { rows: itemRows };
+      return { rows: [] };
+    });
+
+    const response = await request(app)
+      .post('/api/task-templates/3/apply')
+      .set('Authorization', authAs('user', 'rep@uplora-crm.com'))
+      .send({ leadId: 999, assignedToEmail: 'rep@uplora-crm.com' })
+      .expect(404);
+
+    expect(response.body.message).toBe('Lead with ID 999 not found');
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO team_tasks'))).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Timeline Tests
+ *
+ * These tests check the merged lead/client timeline: which sources are queried for the
+ * requested event types, cursor pagination, event summaries, chat mention matching and
+ * the /api/leads/:id/timeline and /api/clients/:id/timeline endpoints.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import { queryWithTimeout } from '../src/lib/db';
+import { encodeCursor } from '../src/lib/cursor';
+import { getTimeline, mentionPattern, summarizeEvent } from '../src/services/timeline.service';
+import { TIMELINE_EVENT_TYPES } from '../src/types/timeline';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQueryWithTimeout = queryWithTimeout as unknown as jest.Mock;
+
+function eventRow(id: string, type: string, occurredAt: string, payload: Record<string, unknown> = {}) {
+  return {
+    event_id: id,
+    type,
+    actor: 'rep@uplora-crm.com',
+    occurred_at: new Date(occurredAt),
+    sort_time: `${occurredAt.replace('Z', '')}123Z`,
+    payload,
+  };
+}
+
+describe('summarizeEvent', () => {
+  it('should describe each event type in one line', () => {
+    expect(summarizeEvent('cold_call', { outcome: 'connected' })).toBe('Cold call: connected');
+    expect(summarizeEvent('cold_call', { disposition: 'voicemail', disposition_label: 'Left voicemail', outcome: 'voicemail' }))
+      .toBe('Cold call: Left voicemail');
+    expect(summarizeEvent('task_completed', { title: 'Send quote' })).toBe('Task completed: "Send quote"');
+    expect(summarizeEvent('deal_stage_changed', { title: 'Website', from_stage: 'proposal', to_stage: 'closed_won' }))
+      .toBe('Deal "Website" moved from proposal to closed_won');
+    expect(summarizeEvent('lead_stage_changed', { field: 'status', from_value: 'new', to_value: 'contacted' }))
+      .toBe('Status changed from new to contacted');
+    expect(summarizeEvent('file_uploaded', { original_name: 'brief.pdf' })).toBe('File uploaded: brief.pdf');
+  });
+});
+
+describe('mentionPattern', () => {
+  it('should match the lead and client mentions and escape the client id', () => {
+    expect(mentionPattern(42, null)).toBe('#(lead-42)\\M');
+    expect(mentionPattern(42, 'a.b')).toBe('#(lead-42|client-a\\.b)\\M');
+    expect(mentionPattern(null, null)).toBeNull();
+  });
+});
+
+describe('getTimeline', () => {
+  beforeEach(() => {
+    mockedQueryWithTimeout.mockReset();
+  });
+
+  it('should only query the sources of the requested types and page with a cursor', async () => {
+    mockedQueryWithTimeout
+      .mockResolvedValueOnce({ rows: [{ id: 5 }] })
+      .mockResolvedValueOnce({
+        rows: [
+          eventRow('cold_call:3', 'cold_call', '2024-03-02T10:00:00.000Z', { outcome: 'voicemail' }),
+          eventRow('task_completed:8', 'task_completed', '2024-03-01T09:00:00.000Z', { title: 'Call back' }),
+          eventRow('cold_call:1', 'cold_call', '2024-02-28T09:00:00.000Z'),
+        ],
+      });
+
+    const page = await getTimeline(
+      { type: 'lead', id: 5 },
+      { types: ['cold_call', 'task_completed'], limit: 2, viewerEmail: 'rep@uplora-crm.com' }
+    );
+
+    const [query, values] = mockedQueryWithTimeout.mock.calls[1];
+    expect(query).toContain('FROM cold_calls');
+    expect(query).toContain('FROM team_tasks');
+    expect(query).not.toContain('FROM activities');
+    expect(query).not.toContain('FROM chat_messages');
+    expect(values).toEqual([5, null, 'rep@uplora-crm.com', '#(lead-5)\\M', ['cold_call', 'task_completed'], 3]);
+
+    expect(page.events.map((event) => event.id)).toEqual(['cold_call:3', 'task_completed:8']);
+    expect(page.events[0]).toMatchObject({
+      type: 'cold_call',
+      actor: 'rep@uplora-crm.com',
+      timestamp: '2024-03-02T10:00:00.000Z',
+      summary: 'Cold call: voicemail',
+    });
+    expect(page.nextCursor).toBe(encodeCursor({ t: '2024-03-01T09:00:00.000123Z', id: 'task_completed:8' }));
+  });
+
+  it('should continue after the cursor and include the client\'s original lead', async () => {
+    mockedQueryWithTimeout
+      .mockResolvedValueOnce({ rows: [{ id: 'client-1', lead_id: 5 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const cursor = encodeCursor({ t: '2024-03-01T09:00:00.000123Z', id: 'task_completed:8' });
+    const page = await getTimeline(
+      { type: 'client', id: 'client-1' },
+      { types: [...TIMELINE_EVENT_TYPES], limit: 50, cursor, viewerEmail: 'rep@uplora-crm.com' }
+    );
+
+    const [query, values] = mockedQueryWithTimeout.mock.calls[1];
+    expect(query).toContain('(occurred_at, event_id) < ($6::timestamptz, $7::text)');
+    expect(values.slice(0, 4)).toEqual([5, 'client-1', 'rep@uplora-crm.com', '#(lead-5|client-client-1)\\M']);
+    expect(values.slice(5)).toEqual(['2024-03-01T09:00:00.000123Z', 'task_completed:8', 51]);
+    expect(page).toEqual({ events: [], nextCursor: null });
+  });
+
+  it('should throw 404 when the lead does not exist', async () => {
+    mockedQueryWithTimeout.mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      getTimeline({ type: 'lead', id: 99 }, { types: ['note'], limit: 50, viewerEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockedQueryWithTimeout).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GET /api/leads/:id/timeline and /api/clients/:id/timeline', () => {
+  const authHeader = () => authAs('user', 'rep@uplora-crm.com');
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should return the events and the next cursor', async () => {
+    mockedQueryWithTimeout
+      .mockResolvedValueOnce({ rows: [{ id: 5 }] })
+      .mockResolvedValueOnce({ rows: [eventRow('activity:4', 'note', '2024-03-02T10:00:00.000Z', { description: 'Prefers email' })] });
+
+    const response = await request(app)
+      .get('/api/leads/5/timeline?types=note&limit=10')
+      .set('Authorization', authHeader())
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ id: 'activity:4', type: 'note', summary: 'Prefers email' }),
+    ]);
+    expect(response.body.nextCursor).toBeNull();
+  });
+
+  it('should reject unknown event types and bad cursors', async () => {
+    const response = await request(app)
+      .get('/api/clients/client-1/timeline?types=note,gossip&cursor=nope')
+      .set('Authorization', authHeader())
+      .expect(400);
+
+    const fields = response.body.errors.map((error: any) => error.field);
+    expect(fields).toEqual(expect.arrayContaining(['types', 'cursor']));
+    expect(mockedQueryWithTimeout).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a timestamp that is not a date', { t: 'x', id: 'a' }],
+    ['an impossible date', { t: '2024-13-45T09:00:00.000Z', id: 'a' }],
+  ])('should reject a cursor with %s', async (_name, key) => {
+    await request(app)
+      .get(`/api/leads/5/timeline?cursor=${encodeCursor(key)}`)
+      .set('Authorization', authHeader())
+      .expect(400);
+    expect(mockedQueryWithTimeout).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown client', async () => {
+    mockedQueryWithTimeout.mockResolvedValueOnce({ rows: [] });
+
+    await request(app)
+      .get('/api/clients/missing/timeline')
+      .set('Authorization', authHeader())
+      .expect(404);
+  });
+});
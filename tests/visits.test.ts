@@ -0,0 +1,307 @@
+/**
+ * Onsite Visit Scheduling Tests
+ *
+ * These tests check check-in / check-out (timestamps, coordinates, order of
+ * operations and the computed duration), the /api/visits/schedule agenda and
+ * the /api/visits/route day plan.
+ *
+ * The database is mocked so the tests don't need Postgres.
+ */
+
+import request from 'supertest';
+import app from '../src/app';
+import pool from '../src/lib/db';
+import { checkIn, checkOut } from '../src/services/visits.service';
+import { setGeocoder } from '../src/lib/geocoder';
+import { authAs } from './helpers/auth';
+
+jest.mock('../src/lib/db', () => require('./helpers/db').mockDbModule());
+jest.mock('../src/services/team.service');
+
+const mockedQuery = pool.query as unknown as jest.Mock;
+
+function visitRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 12,
+    lead_id: 5,
+    visit_date: '2024-06-03T09:00:00.000Z',
+    address: '1 Main St',
+    latitude: null,
+    longitude: null,
+    geocoded_at: null,
+    visit_type: 'demo',
+    status: 'scheduled',
+    notes: null,
+    assigned_to_email: 'rep@uplora-crm.com',
+    created_by_email: 'rep@uplora-crm.com',
+    checked_in_at: null,
+    check_in_latitude: null,
+    check_in_longitude: null,
+    checked_out_at: null,
+    check_out_latitude: null,
+    check_out_longitude: null,
+    created_at: '2024-06-01T10:00:00.000Z',
+    updated_at: '2024-06-01T10:00:00.000Z',
+    lead_name: 'Jane Doe',
+    ...overrides,
+  };
+}
+
+describe('checkIn / checkOut', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should record the check-in coordinates and assign unassigned visits to the rep', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+      .mockResolvedValueOnce({
+        rows: [visitRow({
+          status: 'in_progress',
+          checked_in_at: '2024-06-03T09:05:00.000Z',
+          check_in_latitude: '52.367600',
+          check_in_longitude: '4.904100',
+        })],
+      });
+
+    const visit = await checkIn(12, { latitude: 52.3676, longitude: 4.9041, userEmail: 'rep@uplora-crm.com' });
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain('assigned_to_email = COALESCE(assigned_to_email, $4)');
+    expect(sql).toContain('checked_in_at IS NULL');
+    expect(values).toEqual([12, 52.3676, 4.9041, 'rep@uplora-crm.com', false]);
+    expect(visit).toMatchObject({
+      status: 'in_progress',
+      check_in_latitude: 52.3676,
+      check_in_longitude: 4.9041,
+      duration_minutes: null,
+    });
+  });
+
+  it('should return 409 when the visit is already checked in', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [{ id: 12 }] });
+
+    await expect(
+      checkIn(12, { latitude: 52.3676, longitude: 4.9041, userEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should return 404 when the visit does not exist', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      checkOut(99, { latitude: 52.3676, longitude: 4.9041, userEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should return 403 when checking in to another rep\'s visit', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [{ id: 12, assigned_to_email: 'ann@uplora-crm.com' }] });
+
+    await expect(
+      checkIn(12, { latitude: 52.3676, longitude: 4.9041, userEmail: 'rep@uplora-crm.com' })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(mockedQuery.mock.calls[0][0]).toContain('LOWER(assigned_to_email) = LOWER($4)');
+  });
+
+  it('should let a manager check out of another rep\'s visit', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [{ id: 12, assigned_to_email: 'ann@uplora-crm.com' }] });
+
+    // The visit is someone else's, so a failed update means it wasn't checked in: 409, not 403
+    await expect(
+      checkOut(12, { latitude: 52.3676, longitude: 4.9041, userEmail: 'lead@uplora-crm.com', canManageVisits: true })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockedQuery.mock.calls[0][1][4]).toBe(true);
+  });
+
+  it('should complete the visit on check-out and compute its duration', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+      .mockResolvedValueOnce({
+        rows: [visitRow({
+          status: 'completed',
+          checked_in_at: '2024-06-03T09:05:00.000Z',
+          checked_out_at: '2024-06-03T10:02:30.000Z',
+        })],
+      });
+
+    const visit = await checkOut(12, { latitude: 52.3677, longitude: 4.904, userEmail: 'rep@uplora-crm.com' });
+
+    expect(mockedQuery.mock.calls[0][0]).toContain('checked_in_at IS NOT NULL');
+    expect(visit).toMatchObject({ status: 'completed', duration_minutes: 58 });
+  });
+});
+
+describe('Visit API', () => {
+  let auth: string;
+
+  beforeAll(() => {
+    process.env.AUTH_MODE = 'local';
+    process.env.AUTH_LOCAL_SECRET = 'test-local-secret';
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    auth = authAs('user', 'rep@uplora-crm.com');
+  });
+
+  afterEach(() => {
+    setGeocoder(null);
+  });
+
+  it('should return the caller\'s agenda grouped by day', async () => {
+    mockedQuery.mockResolvedValueOnce({
+      rows: [
+        visitRow({ id: 12, visit_date: '2024-06-03T09:00:00.000Z' }),
+        visitRow({ id: 13, visit_date: '2024-06-03T14:00:00.000Z' }),
+        visitRow({ id: 14, visit_date: '2024-06-05T08:30:00.000Z' }),
+      ],
+    });
+
+    const response = await request(app)
+      .get('/api/visits/schedule?from=2024-06-03&to=2024-06-07&rep=me')
+      .set('Authorization', auth)
+      .expect(200);
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain("ov.visit_date < $2::date + INTERVAL '1 day'");
+    expect(sql).toContain('ov.assigned_to_email = $3');
+    expect(values).toEqual(['2024-06-03', '2024-06-07', 'rep@uplora-crm.com']);
+    expect(response.body.count).toBe(3);
+    expect(response.body.data.map((day: any) => [day.date, day.visits.map((visit: any) => visit.id)])).toEqual([
+      ['2024-06-03', [12, 13]],
+      ['2024-06-05', [14]],
+    ]);
+  });
+
+  it('should reject a schedule range that ends before it starts', async () => {
+    const response = await request(app)
+      .get('/api/visits/schedule?from=2024-06-07&to=2024-06-03')
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'from' })]);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should require valid coordinates to check in', async () => {
+    await request(app)
+      .post('/api/visits/12/check-in')
+      .set('Authorization', auth)
+      .send({ latitude: 123, longitude: 4.9 })
+      .expect(400);
+
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when a rep checks out of another rep\'s visit', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [{ id: 12, assigned_to_email: 'ann@uplora-crm.com' }] });
+
+    await request(app)
+      .post('/api/visits/12/check-out')
+      .set('Authorization', auth)
+      .send({ latitude: 52.3676, longitude: 4.9041 })
+      .expect(403);
+
+    expect(mockedQuery.mock.calls[0][1]).toEqual([12, 52.3676, 4.9041, 'rep@uplora-crm.com', false]);
+  });
+
+  it('should schedule new visits for the creator by default and geocode the address', async () => {
+    setGeocoder({ name: 'test', geocode: async () => ({ latitude: 52.37, longitude: 4.9 }) });
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [{ id: 12 }] })
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+      .mockResolvedValueOnce({ rows: [visitRow({ latitude: '52.370000', longitude: '4.900000' })] });
+
+    const response = await request(app)
+      .post('/api/visits')
+      .set('Authorization', auth)
+      .send({ lead_id: 5, visit_date: '2024-06-03T09:00:00Z', address: '1 Main St' })
+      .expect(201);
+
+    expect(mockedQuery.mock.calls[0][1].slice(6)).toEqual(['rep@uplora-crm.com', 'rep@uplora-crm.com']);
+    expect(mockedQuery.mock.calls[1][1]).toEqual([12, 52.37, 4.9]);
+    expect(response.body.data).toMatchObject({ latitude: 52.37, longitude: 4.9 });
+  });
+
+  it('should order the day\'s visits into a route and geocode missing addresses', async () => {
+    const geocode = jest.fn(async () => ({ latitude: 0, longitude: 2 }));
+    setGeocoder({ name: 'test', geocode });
+    mockedQuery
+      .mockResolvedValueOnce({
+        rows: [
+          visitRow({ id: 1, latitude: '0', longitude: '0', geocoded_at: '2024-06-01T00:00:00Z' }),
+          visitRow({ id: 2, latitude: '0', longitude: '3', geocoded_at: '2024-06-01T00:00:00Z' }),
+          visitRow({ id: 3, address: '3 Side St' }),
+          visitRow({ id: 4, latitude: '0', longitude: '1', geocoded_at: '2024-06-01T00:00:00Z' }),
+          visitRow({ id: 5, address: null }),
+        ],
+      })
+      .mockResolvedValue({ rows: [], rowCount: 1 });
+
+    const response = await request(app)
+      .get('/api/visits/route?date=2024-06-03')
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['2024-06-03', 'rep@uplora-crm.com']);
+    expect(geocode).toHaveBeenCalledTimes(1);
+    expect(geocode).toHaveBeenCalledWith('3 Side St');
+    const route = response.body.data;
+    expect(route.stops.map((stop: any) => stop.visit.id)).toEqual([1, 4, 3, 2]);
+    expect(route.stops.map((stop: any) => stop.distance_from_previous_km)).toEqual([0, 111.2, 111.2, 111.2]);
+    expect(route.total_distance_km).toBe(333.6);
+    expect(route.unrouted.map((visit: any) => visit.id)).toEqual([5]);
+  });
+
+  it('should stop geocoding when the route request runs out of time', async () => {
+    // Each lookup takes 6 seconds on the mocked clock, so the 10 second budget allows two
+    let clock = Date.now();
+    const now = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    const geocode = jest.fn(async () => {
+      clock += 6000;
+      return { latitude: 0, longitude: 1 };
+    });
+    setGeocoder({ name: 'test', geocode });
+    mockedQuery
+      .mockResolvedValueOnce({
+        rows: [
+          visitRow({ id: 1, address: '1 Side St' }),
+          visitRow({ id: 2, address: '2 Side St' }),
+          visitRow({ id: 3, address: '3 Side St' }),
+        ],
+      })
+      .mockResolvedValue({ rows: [], rowCount: 1 });
+
+    try {
+      const response = await request(app)
+        .get('/api/visits/route?date=2024-06-03')
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(geocode).toHaveBeenCalledTimes(2);
+      expect(response.body.data.stops.map((stop: any) => stop.visit.id)).toEqual([1, 2]);
+      expect(response.body.data.unrouted.map((visit: any) => visit.id)).toEqual([3]);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+    it('should require start coordinates to come in pairs', async () => {
+    await request(app)
+      .get('/api/visits/route?date=2024-06-03&startLatitude=52.1')
+      .set('Authorization', auth)
+      .expect(400);
+
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});